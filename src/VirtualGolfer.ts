@@ -1,3 +1,5 @@
+import { defaultRng, type Rng } from './utils/rng';
+
 type LieType = 'tee' | 'fairway' | 'rough' | 'green';
 type ClubType = 'driver' | 'long-iron' | 'short-iron' | 'wedge' | 'putter';
 
@@ -34,9 +36,11 @@ export class VirtualGolfer {
   private currentLie: LieType;
   private playerName: string;
   private clubBag: Club[];
+  private rng: Rng;
 
-  constructor(handicap: number, currentLie: LieType = 'tee', playerName: string = 'CPU') {
+  constructor(handicap: number, currentLie: LieType = 'tee', playerName: string = 'CPU', rng: Rng = defaultRng) {
     this.handicap = Math.max(-10, Math.min(36, handicap));
+    this.rng = rng;
     this.currentLie = currentLie;
     this.playerName = playerName;
     this.clubBag = [
@@ -49,8 +53,8 @@ export class VirtualGolfer {
   }
 
   private boxMullerTransform(): number {
-    const u1 = Math.random();
-    const u2 = Math.random();
+    const u1 = this.rng.next();
+    const u2 = this.rng.next();
     return Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
   }
 
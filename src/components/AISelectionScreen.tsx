@@ -1,4 +1,5 @@
-import { ChevronLeft, ChevronRight, Home, User, Award, Users } from 'lucide-react';
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, Home, User, Award, Users, Minus, Plus } from 'lucide-react';
 import {
   useGolfGame,
   FREE_TIER_AI_HANDICAPS,
@@ -12,6 +13,9 @@ import {
   AI_CHARACTER_NAMES,
   formatHandicapDisplay,
 } from '../data/clubDistancesByHandicap';
+import { formatHandicapIndex } from '../utils/whsHandicap';
+import { AI_STRATEGY_LABELS, AI_STRATEGY_PROFILES, getDefaultStrategyProfile } from '../utils/aiStrategy';
+import { RosterEditor } from './RosterEditor';
 
 const FULL_AI_OPTIONS: AIProfile[] = [...AI_CHARACTER_NAMES, ...AI_HANDICAP_OPTIONS];
 const FREE_AI_OPTIONS: AIProfile[] = [...FREE_TIER_AI_HANDICAPS];
@@ -161,17 +165,29 @@ function TournamentCustomizer({
 }
 
 interface AISelectionScreenProps {
-  onStartRound: () => void;
+  /** User's WHS Handicap Index, or null when not yet established. */
+  handicapIndex: number | null;
+  /** Course handicap for the selected tee from the index; pre-fills the user's handicap. */
+  suggestedHandicap: number | null;
+  /** Tee sets on the selected course and the one chosen for the round (for friends' and extra AIs' tees). */
+  teeSetNames: string[];
+  selectedTeeSet?: string;
+  onStartRound: (userHandicap: number) => void;
   onBackToCompetition: () => void;
   onBackToHome: () => void;
 }
 
 export function AISelectionScreen({
+  handicapIndex,
+  suggestedHandicap,
+  teeSetNames,
+  selectedTeeSet,
   onStartRound,
   onBackToCompetition,
   onBackToHome,
 }: AISelectionScreenProps) {
-  const { gameState, setAiProfile, setAiVariance, setTournamentOptions } = useGolfGame();
+  const { gameState, setAiProfile, setAiVariance, setAiStrategy, setTournamentOptions, setRoster } = useGolfGame();
+  const [userHandicap, setUserHandicap] = useState(suggestedHandicap ?? 0);
   const tier = gameState.appTier;
   const options = tier === 'free' ? FREE_AI_OPTIONS : FULL_AI_OPTIONS;
   const profile = gameState.aiProfile;
@@ -181,6 +197,8 @@ export function AISelectionScreen({
   const displayProfile = options[selectedIndex];
   const stats = getStatsForProfile(displayProfile);
   const variance = gameState.aiVariance;
+  const strategy = gameState.aiStrategy;
+  const defaultStrategy = getDefaultStrategyProfile(displayProfile);
   const variancePct = Math.round(variance * 100);
   const showVariance = tier !== 'free';
   const competitionFormat = gameState.competitionFormat;
@@ -277,6 +295,39 @@ export function AISelectionScreen({
           </div>
         </div>
 
+        <div className="space-y-2 mb-6">
+          <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wide">Course management</h2>
+          <div className="flex gap-2">
+            {[null, ...AI_STRATEGY_PROFILES].map((option) => (
+              <button
+                key={option ?? 'auto'}
+                onClick={() => setAiStrategy(option)}
+                className={`flex-1 py-2 rounded-lg text-xs font-medium transition ${
+                  strategy === option
+                    ? 'bg-green-600 text-white'
+                    : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                }`}
+              >
+                {option ? AI_STRATEGY_LABELS[option] : 'Auto'}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">
+            When to lay up on par 5s and over water.{' '}
+            {strategy == null && `Auto plays ${AI_STRATEGY_LABELS[defaultStrategy].toLowerCase()} for this golfer.`}
+          </p>
+        </div>
+
+        <RosterEditor
+          roster={gameState.roster}
+          onChange={setRoster}
+          teeSetNames={teeSetNames}
+          defaultTeeSet={selectedTeeSet}
+          aiOptions={options}
+          defaultFriendHandicap={userHandicap}
+          className="mb-6"
+        />
+
         {showVariance && (
           <div className="space-y-3">
             <div className="flex justify-between text-sm">
@@ -319,10 +370,37 @@ export function AISelectionScreen({
       </div>
 
       <div className="p-4 border-t border-slate-800 space-y-2">
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <p className="text-sm text-slate-300">Your handicap</p>
+            <p className="text-xs text-slate-500 truncate">
+              {handicapIndex != null
+                ? `Index ${formatHandicapIndex(handicapIndex)}${suggestedHandicap != null ? ` · course handicap ${formatHandicapDisplay(suggestedHandicap)}` : ''}`
+                : 'Post 3 rounds to establish an index'}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setUserHandicap((h) => Math.max(-10, h - 1))}
+              className="p-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 transition"
+              aria-label="Lower handicap"
+            >
+              <Minus className="w-4 h-4" />
+            </button>
+            <span className="w-10 text-center font-bold text-white">{formatHandicapDisplay(userHandicap)}</span>
+            <button
+              onClick={() => setUserHandicap((h) => Math.min(54, h + 1))}
+              className="p-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 transition"
+              aria-label="Raise handicap"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
         <button
           onClick={() => {
             setAiProfile(displayProfile);
-            onStartRound();
+            onStartRound(userHandicap);
           }}
           className="w-full py-3.5 rounded-xl bg-green-600 hover:bg-green-500 text-white font-semibold transition"
         >
@@ -1,10 +1,15 @@
-import { ArrowLeft, Check, MapPin, Crown, Zap } from 'lucide-react';
+import { ArrowLeft, Check, MapPin, Crown, Zap, Cloud, CloudOff, RefreshCw, Briefcase, AlertTriangle } from 'lucide-react';
 import { useGolfGame } from '../context/GolfGameContext';
 import type { AppTier } from '../context/GolfGameContext';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { useLocalStoreError } from '../hooks/useLocalStoreError';
+import { syncNow } from '../services/syncService';
+import type { SyncStatus } from '../types/sync';
 
 interface AppSettingsScreenProps {
   onBackToHome: () => void;
   onEditCourse: () => void;
+  onMyBag: () => void;
 }
 
 const TIERS: { id: AppTier; label: string; description: string; icon: typeof Zap }[] = [
@@ -28,9 +33,30 @@ const TIERS: { id: AppTier; label: string; description: string; icon: typeof Zap
   },
 ];
 
-export function AppSettingsScreen({ onBackToHome, onEditCourse }: AppSettingsScreenProps) {
+function describeSync(status: SyncStatus): string {
+  const pending = status.pendingChanges > 0 ? ` · ${status.pendingChanges} change${status.pendingChanges === 1 ? '' : 's'} waiting` : '';
+  switch (status.state) {
+    case 'disabled':
+      return 'Rounds and course edits are saved on this device only.';
+    case 'offline':
+      return `Offline. Changes will sync when you reconnect${pending}.`;
+    case 'syncing':
+      return 'Syncing…';
+    case 'error':
+      return `Sync failed${status.error ? `: ${status.error}` : ''}. Retrying shortly${pending}.`;
+    case 'idle':
+      return status.lastSyncedAt
+        ? `Synced ${new Date(status.lastSyncedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}${pending}`
+        : `Up to date${pending}`;
+  }
+}
+
+export function AppSettingsScreen({ onBackToHome, onEditCourse, onMyBag }: AppSettingsScreenProps) {
   const { gameState, setAppTier } = useGolfGame();
   const currentTier = gameState.appTier;
+  const syncStatus = useSyncStatus();
+  const storageError = useLocalStoreError();
+  const SyncIcon = syncStatus.state === 'disabled' || syncStatus.state === 'offline' ? CloudOff : Cloud;
 
   return (
     <div className="h-full w-full bg-slate-900 flex flex-col">
@@ -87,6 +113,45 @@ export function AppSettingsScreen({ onBackToHome, onEditCourse }: AppSettingsScr
             </p>
           </div>
         )}
+
+        <button
+          onClick={onMyBag}
+          className="w-full flex items-center gap-3 p-4 rounded-2xl bg-slate-800 border border-slate-700 text-white font-medium hover:bg-slate-700 transition"
+        >
+          <Briefcase className="w-5 h-5 text-green-400" />
+          <span>My bag</span>
+          <span className="ml-auto text-xs text-slate-400 font-normal">Club yardages for caddie advice</span>
+        </button>
+
+        <div className="flex items-center gap-3 p-4 rounded-2xl bg-slate-800/50 border border-slate-700">
+          <SyncIcon className={`w-5 h-5 shrink-0 ${syncStatus.state === 'error' ? 'text-red-400' : 'text-slate-300'}`} />
+          <div className="flex-1 min-w-0">
+            <p className="font-medium text-white text-sm">Cloud sync</p>
+            <p className="text-xs text-slate-400">{describeSync(syncStatus)}</p>
+          </div>
+          {syncStatus.state !== 'disabled' && (
+            <button
+              onClick={() => void syncNow()}
+              disabled={syncStatus.state === 'syncing' || syncStatus.state === 'offline'}
+              className="p-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-700 transition disabled:opacity-40"
+              aria-label="Sync now"
+            >
+              <RefreshCw className={`w-5 h-5 ${syncStatus.state === 'syncing' ? 'animate-spin' : ''}`} />
+            </button>
+          )}
+        </div>
+
+        {storageError && (
+          <div className="flex items-center gap-3 p-4 rounded-2xl bg-red-950/40 border border-red-800">
+            <AlertTriangle className="w-5 h-5 shrink-0 text-red-400" />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-white text-sm">Not saved on this device</p>
+              <p className="text-xs text-slate-400">
+                Latest changes could not be stored ({storageError}). Keep the app open while it retries, or free up storage.
+              </p>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
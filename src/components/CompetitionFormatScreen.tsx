@@ -1,6 +1,13 @@
-import { ChevronLeft, Home, Trophy, Users, Swords, Award } from 'lucide-react';
+import { ChevronLeft, Home, Trophy, Users, Swords, Award, Star, Coins, DollarSign } from 'lucide-react';
 import { useGolfGame } from '../context/GolfGameContext';
-import type { CompetitionFormat, TeamScrambleOptions } from '../context/GolfGameContext';
+import { NASSAU_STAKES } from '../utils/nassau';
+import type {
+  CompetitionFormat,
+  MatchPlayScoring,
+  NassauOptions,
+  StablefordVariant,
+  TeamScrambleOptions,
+} from '../context/GolfGameContext';
 
 interface CompetitionFormatScreenProps {
   onConfirm: () => void;
@@ -8,11 +15,15 @@ interface CompetitionFormatScreenProps {
   onBackToHome: () => void;
 }
 
+const DEFAULT_NASSAU_OPTIONS: NassauOptions = { stake: 2, scoring: 'net', fieldOpponents: 0 };
+
 const FORMATS: { id: CompetitionFormat; label: string; shortDesc: string; Icon: typeof Trophy }[] = [
   { id: 'stroke-play', label: 'Stroke play', shortDesc: 'Total strokes for 18 holes', Icon: Trophy },
   { id: 'match-play', label: 'Match play', shortDesc: 'Win holes, not total score', Icon: Swords },
   { id: 'team-scramble', label: 'Team best ball scramble', shortDesc: 'Partner picks best shot each time', Icon: Users },
   { id: 'tournament', label: 'Tournament mode', shortDesc: 'Custom field, net or gross', Icon: Award },
+  { id: 'stableford', label: 'Stableford', shortDesc: 'Net points per hole, standard or modified', Icon: Star },
+  { id: 'skins', label: 'Skins', shortDesc: 'Win holes outright; ties carry over', Icon: Coins },
 ];
 
 export function CompetitionFormatScreen({
@@ -20,9 +31,19 @@ export function CompetitionFormatScreen({
   onBackToCourse,
   onBackToHome,
 }: CompetitionFormatScreenProps) {
-  const { gameState, setCompetitionFormat, setTeamScrambleOptions } = useGolfGame();
+  const {
+    gameState,
+    setCompetitionFormat,
+    setMatchPlayOptions,
+    setStablefordOptions,
+    setTeamScrambleOptions,
+    setNassauOptions,
+  } = useGolfGame();
   const format = gameState.competitionFormat;
+  const matchOpts = gameState.matchPlayOptions;
+  const stablefordOpts = gameState.stablefordOptions;
   const teamOpts = gameState.teamScrambleOptions;
+  const nassauOpts = gameState.nassauOptions;
 
   return (
     <div className="h-full w-full bg-slate-900 flex flex-col">
@@ -69,6 +90,76 @@ export function CompetitionFormatScreen({
           ))}
         </div>
 
+        {format === 'match-play' && (
+          <div className="space-y-4 p-4 bg-slate-800/50 rounded-xl border border-slate-700 mb-6">
+            <h2 className="text-sm font-semibold text-slate-300 uppercase tracking-wide">
+              Match play options
+            </h2>
+
+            <div>
+              <p className="text-slate-400 text-sm mb-2">Scoring</p>
+              <div className="flex gap-2">
+                {(['net', 'gross'] as const).map((scoring: MatchPlayScoring) => (
+                  <button
+                    key={scoring}
+                    onClick={() => setMatchPlayOptions({ ...(matchOpts ?? { scoring: 'net' }), scoring })}
+                    className={`flex-1 py-2.5 rounded-xl text-sm font-medium capitalize transition ${
+                      (matchOpts?.scoring ?? 'net') === scoring
+                        ? 'bg-green-600 text-white'
+                        : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                    }`}
+                  >
+                    {scoring}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-slate-500 text-xs">
+              Net: the higher handicap receives the difference in strokes on the hardest holes (stroke index).
+            </p>
+          </div>
+        )}
+
+        {format === 'stableford' && (
+          <div className="space-y-4 p-4 bg-slate-800/50 rounded-xl border border-slate-700 mb-6">
+            <h2 className="text-sm font-semibold text-slate-300 uppercase tracking-wide">
+              Stableford options
+            </h2>
+
+            <div>
+              <p className="text-slate-400 text-sm mb-2">Points table</p>
+              <div className="flex gap-2">
+                {(['standard', 'modified'] as const).map((variant: StablefordVariant) => (
+                  <button
+                    key={variant}
+                    onClick={() => setStablefordOptions({ ...(stablefordOpts ?? { variant: 'standard' }), variant })}
+                    className={`flex-1 py-2.5 rounded-xl text-sm font-medium capitalize transition ${
+                      (stablefordOpts?.variant ?? 'standard') === variant
+                        ? 'bg-green-600 text-white'
+                        : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                    }`}
+                  >
+                    {variant}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-slate-500 text-xs">
+              {(stablefordOpts?.variant ?? 'standard') === 'standard'
+                ? 'Net double bogey 0 · bogey 1 · par 2 · birdie 3 · eagle 4 · albatross 5.'
+                : 'Net double bogey or worse −3 · bogey −1 · par 0 · birdie 2 · eagle 5 · albatross 8.'}
+            </p>
+          </div>
+        )}
+
+        {format === 'skins' && (
+          <div className="p-4 bg-slate-800/50 rounded-xl border border-slate-700 mb-6">
+            <p className="text-slate-400 text-sm">
+              Lowest net score wins the hole&apos;s skin. Tied holes carry the skin to the next hole.
+            </p>
+          </div>
+        )}
+
         {format === 'team-scramble' && (
           <div className="space-y-4 p-4 bg-slate-800/50 rounded-xl border border-slate-700 mb-6">
             <h2 className="text-sm font-semibold text-slate-300 uppercase tracking-wide">
@@ -135,6 +226,85 @@ export function CompetitionFormatScreen({
             </p>
           </div>
         )}
+
+        <div className="space-y-4 p-4 bg-slate-800/50 rounded-xl border border-slate-700 mb-6">
+          <button
+            onClick={() => setNassauOptions(nassauOpts ? null : DEFAULT_NASSAU_OPTIONS)}
+            className="w-full flex items-center gap-3 text-left"
+          >
+            <div className={`p-2 rounded-lg ${nassauOpts ? 'bg-green-500/30' : 'bg-slate-700'}`}>
+              <DollarSign className={`w-5 h-5 ${nassauOpts ? 'text-green-400' : 'text-slate-400'}`} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="font-semibold text-white">Nassau side bet</p>
+              <p className="text-xs text-slate-400">Front, back and overall with automatic 2-down presses</p>
+            </div>
+            <span className={`text-xs font-semibold ${nassauOpts ? 'text-green-400' : 'text-slate-500'}`}>
+              {nassauOpts ? 'On' : 'Off'}
+            </span>
+          </button>
+
+          {nassauOpts && (
+            <>
+              <div>
+                <p className="text-slate-400 text-sm mb-2">Stake per bet</p>
+                <div className="flex gap-2">
+                  {NASSAU_STAKES.map((stake) => (
+                    <button
+                      key={stake}
+                      onClick={() => setNassauOptions({ ...nassauOpts, stake })}
+                      className={`flex-1 py-2.5 rounded-xl text-sm font-medium transition ${
+                        nassauOpts.stake === stake
+                          ? 'bg-green-600 text-white'
+                          : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                      }`}
+                    >
+                      ${stake}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <p className="text-slate-400 text-sm mb-2">Scoring</p>
+                <div className="flex gap-2">
+                  {(['net', 'gross'] as const).map((scoring: MatchPlayScoring) => (
+                    <button
+                      key={scoring}
+                      onClick={() => setNassauOptions({ ...nassauOpts, scoring })}
+                      className={`flex-1 py-2.5 rounded-xl text-sm font-medium capitalize transition ${
+                        nassauOpts.scoring === scoring
+                          ? 'bg-green-600 text-white'
+                          : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                      }`}
+                    >
+                      {scoring}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {format === 'tournament' && (
+                <div>
+                  <p className="text-slate-400 text-sm mb-2">Also bet against field players</p>
+                  <div className="flex gap-2">
+                    {([0, 1, 2, 3] as const).map((n) => (
+                      <button
+                        key={n}
+                        onClick={() => setNassauOptions({ ...nassauOpts, fieldOpponents: n })}
+                        className={`flex-1 py-2.5 rounded-xl text-sm font-medium transition ${
+                          nassauOpts.fieldOpponents === n
+                            ? 'bg-green-600 text-white'
+                            : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                        }`}
+                      >
+                        {n}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
       </div>
 
       <div className="p-4 border-t border-slate-800">
@@ -1,6 +1,6 @@
 import { useRef, useEffect, useCallback, useState, useMemo, Fragment } from 'react';
 import { useJsApiLoader, GoogleMap, Marker, Circle, Polygon } from '@react-google-maps/api';
-import { getTeeAndGreenForCourse, getHoleInfoForCourse, getCourseBounds } from '../services/courseBounds';
+import { getTeeAndGreenForCourse, getHoleInfoForCourse, getCourseBounds, getCourseRatingForPlay, isEstimatedRatingInPlay } from '../services/courseBounds';
 import {
   getTeeGreenOverride,
   setTeeGreenOverride,
@@ -26,24 +26,39 @@ import {
   addFairway,
   removeFairway,
   setGreenBoundary,
+  setGreenSlope,
   updateFairway,
   updateHazardCenter,
   updateHazardVertices,
   updateTreePatchVertices,
+  addSurface,
+  removeSurface,
+  updateSurfaceVertices,
   discardHoleChanges,
   startHoleFromScratch,
   clearHoleFeaturesForAIMap,
   getPresets,
   saveAsPreset,
   loadPreset,
+  exportCourseGeoJSON,
+  importCourseGeoJSON,
+  getElevationGrid,
+  importElevationGrid,
+  clearElevationGrid,
+  getEstimatedTeeSets,
 } from '../services/courseEditorStore';
+import { formatCourseGeoJSONIssue } from '../utils/courseGeoJson';
+import { DEFAULT_STIMP } from '../engine/PuttingModule';
+import { SURFACE_LIE_EFFECTS, SURFACE_TYPES } from '../engine/SurfaceLies';
+import type { SurfaceType } from '../types/courseSurface';
 import { mapHoleWithAI } from '../services/aiMappingService';
 import { isInBounds } from '../utils/courseLie';
+import { getElevationChangeMeters } from '../utils/courseTerrain';
+import { estimateAndSaveCourseRatings } from '../utils/courseRatingEstimator';
 import type { HazardType, HazardStake, OBSide, HoleOverride } from '../services/courseEditorStore';
-import { getCourseRatingAndSlope } from '../data/lincolnParkCourse';
 import { AIGolfer, type ShotHistory } from '../utils/AIGolfer';
 import { buildHoleFeaturesFromEditor } from '../utils/editorHoleToAI';
-import { Pencil, RotateCcw, Trash2, Save, List, TreeDeciduous, Route, CircleDot, Undo2, Play, Sparkles } from 'lucide-react';
+import { Pencil, RotateCcw, Trash2, Save, List, TreeDeciduous, Route, CircleDot, Undo2, Play, Sparkles, Download, Upload } from 'lucide-react';
 
 type LatLng = { lat: number; lng: number };
 
@@ -51,8 +66,19 @@ type UndoAction =
   | { type: 'removeHazard'; id: string }
   | { type: 'removeTree'; id: string }
   | { type: 'removeTreePatch'; id: string }
+  | { type: 'removeSurface'; id: string }
   | { type: 'popPolygonPoint' };
 
+/** Map colours for drawn surfaces: fill and outline. */
+const SURFACE_COLORS: Record<SurfaceType, { fill: string; stroke: string }> = {
+  fringe: { fill: '#4ade80', stroke: '#15803d' },
+  first_cut: { fill: '#84cc16', stroke: '#4d7c0f' },
+  cart_path: { fill: '#9ca3af', stroke: '#4b5563' },
+  waste: { fill: '#e7d8b1', stroke: '#a16207' },
+  native: { fill: '#bef264', stroke: '#854d0e' },
+  gur: { fill: '#f8fafc', stroke: '#1d4ed8' },
+};
+
 /** Return path as a single ring (vertices only). Strip duplicate closing point if present so Maps fills one interior. */
 function normalizePolygonPath(path: LatLng[]): LatLng[] {
   if (path.length < 3) return path;
@@ -158,7 +184,16 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
   const [editMode, setEditMode] = useState(false);
   const [presetName, setPresetName] = useState('');
   const [showPresets, setShowPresets] = useState(false);
-  const [tool, setTool] = useState<'none' | 'hazard' | 'hazardPolygon' | 'tree' | 'treePatch' | 'fairway' | 'greenBoundary' | 'pin'>('none');
+  /** Result of the last GeoJSON import: errors block the import, warnings are informational. */
+  const [importResult, setImportResult] = useState<{ ok: boolean; messages: string[] } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [demResult, setDemResult] = useState<{ ok: boolean; messages: string[] } | null>(null);
+  const demInputRef = useRef<HTMLInputElement>(null);
+  const [isRatingRunning, setIsRatingRunning] = useState(false);
+  /** Set when the last estimate could not run (e.g. holes still unmapped). */
+  const [ratingError, setRatingError] = useState<string | null>(null);
+  const [tool, setTool] = useState<'none' | 'hazard' | 'hazardPolygon' | 'tree' | 'treePatch' | 'surface' | 'fairway' | 'greenBoundary' | 'pin'>('none');
+  const [surfaceType, setSurfaceType] = useState<SurfaceType>('fringe');
   const [hazardType, setHazardType] = useState<HazardType>('water');
   const [hazardStake, setHazardStake] = useState<HazardStake | null>(null);
   const [obSide, setObSide] = useState<OBSide | null>(null);
@@ -209,6 +244,7 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
   const hazardOverlaysRef = useRef<Map<string, google.maps.Circle | google.maps.Polygon>>(new Map());
   const treeOverlaysRef = useRef<Map<string, google.maps.Circle>>(new Map());
   const treePatchOverlaysRef = useRef<Map<string, google.maps.Polygon>>(new Map());
+  const surfaceOverlaysRef = useRef<Map<string, google.maps.Polygon>>(new Map());
   const testRunOverlaysRef = useRef<(google.maps.Polyline | google.maps.Circle)[]>([]);
 
   // Initial map view (stable per course/hole). Pass this to GoogleMap so we don't create a control loop:
@@ -400,6 +436,25 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
       }
     }
   }, [courseName, holeNumber]);
+  const surfaceIdsKey = useMemo(
+    () => (effectiveData.surfaces ?? []).map((p) => p.id).sort().join(','),
+    [effectiveData.surfaces]
+  );
+  const removeOrphanSurfaceOverlays = useCallback(() => {
+    const override = getHoleOverride(courseName, holeNumber);
+    const currentIds = new Set((override?.surfaces ?? []).map((p) => p.id));
+    const map = surfaceOverlaysRef.current;
+    for (const [id, overlay] of map) {
+      if (!currentIds.has(id)) {
+        try {
+          overlay.setMap(null);
+        } catch {
+          // ignore
+        }
+        map.delete(id);
+      }
+    }
+  }, [courseName, holeNumber]);
   const onMapLoad = useCallback(
     (map: google.maps.Map) => {
       mapRef.current = map;
@@ -409,9 +464,10 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
       removeOrphanHazardOverlays();
       removeOrphanTreeOverlays();
       removeOrphanTreePatchOverlays();
+      removeOrphanSurfaceOverlays();
       setMapReady(true);
     },
-    [applyMapForTeeGreen, tee.lat, tee.lng, green.lat, green.lng, removeOrphanHazardOverlays, removeOrphanTreeOverlays, removeOrphanTreePatchOverlays]
+    [applyMapForTeeGreen, tee.lat, tee.lng, green.lat, green.lng, removeOrphanHazardOverlays, removeOrphanTreeOverlays, removeOrphanTreePatchOverlays, removeOrphanSurfaceOverlays]
   );
 
   useEffect(() => {
@@ -430,6 +486,11 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
     const t = setTimeout(removeOrphanTreePatchOverlays, 50);
     return () => clearTimeout(t);
   }, [treePatchIdsKey, removeOrphanTreePatchOverlays]);
+  useEffect(() => {
+    removeOrphanSurfaceOverlays();
+    const t = setTimeout(removeOrphanSurfaceOverlays, 50);
+    return () => clearTimeout(t);
+  }, [surfaceIdsKey, removeOrphanSurfaceOverlays]);
   // Clear hazard overlays on unmount
   useEffect(() => {
     return () => {
@@ -469,6 +530,20 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
       treePatchOverlaysRef.current.clear();
     };
   }, []);
+  // Clear surface overlays on unmount
+  useEffect(() => {
+    const overlays = surfaceOverlaysRef.current;
+    return () => {
+      overlays.forEach((overlay) => {
+        try {
+          overlay.setMap(null);
+        } catch {
+          // ignore
+        }
+      });
+      overlays.clear();
+    };
+  }, []);
 
   // Test run overlays: draw imperatively so we can clear previous run before drawing new one (avoids library leaving stale overlays)
   useEffect(() => {
@@ -492,7 +567,8 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
 
     for (const s of testRunShots) {
       const impact = s.treeImpactPosition;
-      const solidPath = impact ? [s.fromPosition, impact] : [s.fromPosition, s.toPosition];
+      const solidPath =
+        s.flightPath ?? (impact ? [s.fromPosition, impact] : [s.fromPosition, s.carryPosition ?? s.toPosition]);
       add(
         new google.maps.Polyline({
           path: solidPath,
@@ -504,6 +580,19 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
           clickable: false,
         })
       );
+      if (s.carryPosition) {
+        add(
+          new google.maps.Polyline({
+            path: [s.carryPosition, s.toPosition],
+            geodesic: true,
+            strokeColor: '#ffffff',
+            strokeOpacity: 0.5,
+            strokeWeight: 1.5,
+            zIndex: 999,
+            clickable: false,
+          })
+        );
+      }
       if (impact) {
         add(
           new google.maps.Polyline({
@@ -653,7 +742,7 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
       const id = addPin(courseName, holeNumber, latLng, effectiveData);
       setTool('none');
       refreshFromStore();
-    } else if (tool === 'fairway' || tool === 'greenBoundary' || tool === 'hazardPolygon' || tool === 'treePatch') {
+    } else if (tool === 'fairway' || tool === 'greenBoundary' || tool === 'hazardPolygon' || tool === 'treePatch' || tool === 'surface') {
       setPolygonPoints((prev) => [...prev, latLng]);
       setUndoStack((s) => [...s, { type: 'popPolygonPoint' }]);
     }
@@ -681,6 +770,16 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
     refreshFromStore();
   };
 
+  const finishSurface = () => {
+    if (polygonPoints.length < 3) return;
+    const id = addSurface(courseName, holeNumber, surfaceType, polygonPoints, effectiveData);
+    if (id) setUndoStack((prev) => [...prev, { type: 'removeSurface', id }]);
+    setPolygonPoints([]);
+    setUndoStack((s) => s.filter((a) => a.type !== 'popPolygonPoint'));
+    setTool('none');
+    refreshFromStore();
+  };
+
   const finishPolygon = (kind: 'fairway' | 'greenBoundary') => {
     if (polygonPoints.length < 3) return;
     // Store vertices only; Google Maps closes the path automatically and fills the interior
@@ -751,6 +850,23 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
       removeOrphanTreePatchOverlays();
       setTimeout(removeOrphanTreePatchOverlays, 50);
       setTimeout(removeOrphanTreePatchOverlays, 150);
+    } else if (last.type === 'removeSurface') {
+      const removedId = last.id;
+      removeSurface(courseName, holeNumber, removedId);
+      const surfaceMap = surfaceOverlaysRef.current;
+      const overlay = surfaceMap.get(removedId);
+      if (overlay) {
+        try {
+          overlay.setMap(null);
+        } catch {
+          /* ignore */
+        }
+        surfaceMap.delete(removedId);
+      }
+      refreshFromStore();
+      removeOrphanSurfaceOverlays();
+      setTimeout(removeOrphanSurfaceOverlays, 50);
+      setTimeout(removeOrphanSurfaceOverlays, 150);
     } else if (last.type === 'popPolygonPoint') {
       setPolygonPoints((prev) => prev.slice(0, -1));
     }
@@ -780,7 +896,7 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
       try {
         const holeFeatures = buildHoleFeaturesFromEditor(effectiveData);
         const treeObstacles = holeFeatures.treeObstacles;
-        const ratingSlope = getCourseRatingAndSlope(courseName);
+        const ratingSlope = getCourseRatingForPlay(courseName);
         const opts = {
           holeFeatures,
           par: holeInfo.par,
@@ -820,6 +936,7 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
     removeOrphanHazardOverlays();
     removeOrphanTreeOverlays();
     removeOrphanTreePatchOverlays();
+    removeOrphanSurfaceOverlays();
     const testOverlays = testRunOverlaysRef.current;
     testOverlays.forEach((o) => {
       try {
@@ -849,6 +966,7 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
     removeOrphanHazardOverlays();
     removeOrphanTreeOverlays();
     removeOrphanTreePatchOverlays();
+    removeOrphanSurfaceOverlays();
     const testOverlays = testRunOverlaysRef.current;
     testOverlays.forEach((o) => {
       try {
@@ -904,6 +1022,66 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
 
   const presets = getPresets(courseName);
 
+  const handleExportGeoJSON = () => {
+    const blob = new Blob([exportCourseGeoJSON(courseName)], { type: 'application/geo+json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${courseName.replace(/\s+/g, '_')}.geojson`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportElevation = async (file: File) => {
+    const result = importElevationGrid(courseName, file.name, await file.arrayBuffer());
+    setDemResult(result.ok ? { ok: true, messages: result.warnings } : { ok: false, messages: [result.error] });
+    setTestRunShots(null);
+    refreshFromStore();
+  };
+
+  const elevationGrid = getElevationGrid(courseName);
+  const estimatedTeeSets = getEstimatedTeeSets(courseName);
+
+  const handleEstimateRating = () => {
+    setIsRatingRunning(true);
+    setRatingError(null);
+    setTimeout(() => {
+      try {
+        const rated = estimateAndSaveCourseRatings(courseName);
+        if (rated.length === 0) setRatingError('Map every hole (tee, green and features) before estimating.');
+        refreshFromStore();
+      } catch (err) {
+        console.error('Course rating estimate failed:', err);
+      } finally {
+        setIsRatingRunning(false);
+      }
+    }, 80);
+  };
+  const teeToGreenRise = getElevationChangeMeters(courseName, tee, green);
+
+  const handleImportGeoJSON = async (file: File) => {
+    const result = importCourseGeoJSON(courseName, await file.text());
+    if (!result.ok) {
+      setImportResult({ ok: false, messages: result.errors.map(formatCourseGeoJSONIssue) });
+      return;
+    }
+    setImportResult({ ok: true, messages: result.warnings.map(formatCourseGeoJSONIssue) });
+    setTestRunShots(null);
+    refreshFromStore();
+    const tg = getEffectiveTeeGreen(courseName, holeNumber);
+    if (tg) {
+      setTee(tg.tee);
+      setGreen(tg.green);
+    }
+    setUndoStack([]);
+    setPolygonPoints([]);
+    setHazardOverlayRevision((r) => r + 1);
+    removeOrphanHazardOverlays();
+    removeOrphanTreeOverlays();
+    removeOrphanTreePatchOverlays();
+    removeOrphanSurfaceOverlays();
+  };
+
   if (!apiKey) {
     return (
       <div className="h-full flex flex-col items-center justify-center bg-slate-900 text-red-400 p-4">
@@ -1086,6 +1264,21 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
                   }}
                 />
               ))}
+              {(override.surfaces ?? []).filter((sf) => sf.vertices.length >= 3 && pathInBounds(sf.vertices)).map((sf) => (
+                <Polygon
+                  key={`other-sf-${holeNum}-${sf.id}`}
+                  paths={[normalizePolygonPath(sf.vertices)]}
+                  options={{
+                    fillColor: SURFACE_COLORS[sf.type].fill,
+                    fillOpacity: 0.2,
+                    strokeColor: SURFACE_COLORS[sf.type].stroke,
+                    strokeOpacity: 0.5,
+                    strokeWeight: 1.5,
+                    clickable: false,
+                    zIndex: 2,
+                  }}
+                />
+              ))}
             </Fragment>
           ))}
           {showOverlays && (
@@ -1332,6 +1525,37 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
               }}
             />
           ))}
+          {(effectiveData.surfaces ?? []).map((sf) => (
+            <Polygon
+              key={sf.id}
+              paths={[normalizePolygonPath(sf.vertices)]}
+              options={{
+                fillColor: SURFACE_COLORS[sf.type].fill,
+                fillOpacity: 0.45,
+                strokeColor: SURFACE_COLORS[sf.type].stroke,
+                strokeWeight: 2,
+                clickable: true,
+                editable: true,
+                draggable: true,
+              }}
+              onLoad={(polygon) => {
+                surfaceOverlaysRef.current.set(sf.id, polygon);
+                const path = polygon.getPath();
+                const sync = () => {
+                  const arr = path.getArray();
+                  const vertices = Array.from(arr).map((ll) => ({ lat: ll.lat(), lng: ll.lng() }));
+                  if (vertices.length >= 3) updateSurfaceVertices(courseName, holeNumber, sf.id, vertices);
+                  refreshFromStore();
+                };
+                path.addListener('set_at', sync);
+                path.addListener('insert_at', sync);
+              }}
+              onUnmount={(polygon) => {
+                polygon.setMap(null);
+                surfaceOverlaysRef.current.delete(sf.id);
+              }}
+            />
+          ))}
           {polygonPoints.length > 0 && (
             <>
               {tool === 'hazardPolygon' ? (
@@ -1356,6 +1580,17 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
                     clickable: false,
                   }}
                 />
+              ) : tool === 'surface' ? (
+                <Polygon
+                  paths={[polygonPoints]}
+                  options={{
+                    fillColor: SURFACE_COLORS[surfaceType].fill,
+                    fillOpacity: 0.45,
+                    strokeColor: SURFACE_COLORS[surfaceType].stroke,
+                    strokeWeight: 2,
+                    clickable: false,
+                  }}
+                />
               ) : polygonPoints.length >= 3 || polygonPoints.length > 0 ? (
                 <Polygon
                   paths={[polygonPoints]}
@@ -1562,6 +1797,9 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
                         {(shot.commentary.weatherLie != null && shot.commentary.weatherLie !== '') && (
                           <p className="text-slate-500 italic">{shot.commentary.weatherLie}</p>
                         )}
+                        {shot.commentary.decision && (
+                          <p className="text-amber-300/90">{shot.commentary.decision.summary}</p>
+                        )}
                       </div>
                     ) : (
                       <div key={shot.shotNumber} className="text-xs bg-slate-800/80 rounded-lg p-2 border border-slate-700">
@@ -1861,6 +2099,52 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
               )}
             </div>
 
+            <div className="border-t border-slate-700 pt-2 mt-2">
+              <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-wide px-1 mb-1.5">Surfaces</p>
+              <p className="text-[10px] text-slate-500 px-1 mb-1.5">Each plays as its own lie. Cart path and GUR give free relief.</p>
+              <div className="flex gap-1 flex-wrap">
+                {SURFACE_TYPES.map((type) => (
+                  <button
+                    key={type}
+                    onClick={() => {
+                      setSurfaceType(type);
+                      if (tool === 'surface' && surfaceType === type) clearPolygonTool();
+                      else {
+                        setPolygonPoints([]);
+                        setUndoStack((s) => s.filter((a) => a.type !== 'popPolygonPoint'));
+                        setTool('surface');
+                      }
+                    }}
+                    className={`px-2 py-1.5 rounded-lg text-xs font-medium transition ${
+                      tool === 'surface' && surfaceType === type ? 'bg-green-600 text-white' : 'bg-slate-700/80 text-slate-300 hover:bg-slate-600'
+                    }`}
+                  >
+                    {SURFACE_LIE_EFFECTS[type].label}
+                  </button>
+                ))}
+              </div>
+              {tool === 'surface' && (
+                <div className="mt-1.5 flex gap-1 flex-wrap items-center">
+                  <span className="text-[10px] text-slate-500">{polygonPoints.length} points.</span>
+                  <button onClick={finishSurface} disabled={polygonPoints.length < 3} className="py-1.5 px-2 rounded-lg bg-green-600 disabled:opacity-50 text-white text-xs font-medium">Finish</button>
+                  <button onClick={() => { setPolygonPoints([]); setUndoStack((s) => s.filter((a) => a.type !== 'popPolygonPoint')); }} className="py-1.5 px-2 rounded-lg bg-slate-600 text-slate-300 text-xs">Clear</button>
+                </div>
+              )}
+              {(effectiveData.surfaces ?? []).length > 0 && (
+                <div className="mt-1.5 space-y-1.5 max-h-24 overflow-y-auto">
+                  {(effectiveData.surfaces ?? []).map((sf) => (
+                    <div key={sf.id} className="flex items-center justify-between gap-1 px-2 py-1.5 rounded bg-slate-800/50 text-[10px]">
+                      <span className="flex items-center gap-1.5 text-slate-300 font-medium">
+                        <span className="w-2.5 h-2.5 rounded-sm border" style={{ backgroundColor: SURFACE_COLORS[sf.type].fill, borderColor: SURFACE_COLORS[sf.type].stroke }} />
+                        {SURFACE_LIE_EFFECTS[sf.type].label} ({sf.vertices.length} pts)
+                      </span>
+                      <button onClick={() => { removeSurface(courseName, holeNumber, sf.id); refreshFromStore(); }} className="text-red-400 hover:text-red-300 shrink-0">Remove</button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             <div className="border-t border-slate-700 pt-2 mt-2">
               <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-wide px-1 mb-1.5">Draw fairway</p>
               <p className="text-[10px] text-slate-500 px-1 mb-1.5">Holes can have multiple fairways (e.g. split by cart path or hazard).</p>
@@ -1952,6 +2236,69 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
               )}
             </div>
 
+            <div className="border-t border-slate-700 pt-2 mt-2">
+              <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-wide px-1 mb-1.5">Green slope</p>
+              {effectiveData.greenSlope ? (
+                <div className="px-2 py-1.5 rounded bg-slate-800/50 text-[10px] space-y-1">
+                  <div className="flex items-center justify-between gap-1">
+                    <span className="text-slate-300 font-medium">Putting contour</span>
+                    <button
+                      onClick={() => {
+                        setGreenSlope(courseName, holeNumber, undefined, effectiveData);
+                        refreshFromStore();
+                      }}
+                      className="text-red-400 hover:text-red-300 shrink-0"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  {(
+                    [
+                      { key: 'slopePercent', label: 'Slope', min: 0, max: 5, step: 0.25, unit: '%' },
+                      { key: 'fallLineDegrees', label: 'Falls to', min: 0, max: 355, step: 5, unit: '°' },
+                      { key: 'stimp', label: 'Stimp', min: 7, max: 14, step: 0.5, unit: '' },
+                    ] as const
+                  ).map(({ key, label, min, max, step, unit }) => {
+                    const slope = effectiveData.greenSlope!;
+                    const value = key === 'stimp' ? slope.stimp ?? DEFAULT_STIMP : slope[key];
+                    return (
+                      <div key={key} className="flex items-center gap-1.5">
+                        <span className="text-slate-500 shrink-0 w-10">{label}</span>
+                        <input
+                          type="range"
+                          min={min}
+                          max={max}
+                          step={step}
+                          value={value}
+                          onChange={(e) => {
+                            setGreenSlope(courseName, holeNumber, { ...slope, [key]: Number(e.target.value) }, effectiveData);
+                            refreshFromStore();
+                          }}
+                          className="flex-1 h-1.5 rounded accent-green-500"
+                        />
+                        <span className="text-slate-300 tabular-nums w-9 text-right">
+                          {value}
+                          {unit}
+                        </span>
+                      </div>
+                    );
+                  })}
+                  <p className="text-slate-500">Putts break toward the fall line; uphill putts play longer.</p>
+                </div>
+              ) : (
+                <button
+                  onClick={() => {
+                    setGreenSlope(courseName, holeNumber, { slopePercent: 1.5, fallLineDegrees: 180 }, effectiveData);
+                    refreshFromStore();
+                  }}
+                  className="w-full flex items-center gap-2 px-3 py-2.5 rounded-xl border text-sm font-medium transition bg-slate-800/80 border-slate-600 text-slate-300 hover:border-slate-500"
+                >
+                  <CircleDot className="w-4 h-4" />
+                  Add green slope
+                </button>
+              )}
+            </div>
+
             <div className="border-t border-slate-700 pt-2 mt-2">
               <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-wide px-1 mb-1.5">AI mapping</p>
               <button
@@ -2047,6 +2394,146 @@ export function CourseEditorHoleView({ courseName, holeNumber, onBack }: CourseE
                 </button>
               </div>
             </div>
+
+            <div className="border-t border-slate-700 pt-2 mt-2">
+              <p className="text-[10px] text-slate-400 mb-1.5">Whole course as GeoJSON (share or version)</p>
+              <div className="flex gap-1">
+                <button
+                  onClick={handleExportGeoJSON}
+                  className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg bg-slate-800/80 border border-slate-600 text-slate-300 hover:border-slate-500 text-xs font-medium transition"
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  Export
+                </button>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg bg-slate-800/80 border border-slate-600 text-slate-300 hover:border-slate-500 text-xs font-medium transition"
+                >
+                  <Upload className="w-3.5 h-3.5" />
+                  Import
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".geojson,.json,application/geo+json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) void handleImportGeoJSON(file);
+                  }}
+                />
+              </div>
+              {importResult && (
+                <div
+                  className={`mt-2 rounded-lg border px-2 py-1.5 text-[10px] max-h-32 overflow-y-auto ${
+                    importResult.ok ? 'border-green-700 text-green-300' : 'border-red-700 text-red-300'
+                  }`}
+                >
+                  <p className="font-semibold">
+                    {importResult.ok ? 'Course imported' : 'Import failed – nothing was changed'}
+                  </p>
+                  {importResult.messages.map((m, i) => (
+                    <p key={i} className={importResult.ok ? 'text-slate-400' : undefined}>
+                      {m}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="border-t border-slate-700 pt-2 mt-2">
+              <p className="text-[10px] text-slate-400 mb-1.5">Terrain (DEM: GeoTIFF or ASCII grid in lat/lng)</p>
+              {elevationGrid ? (
+                <div className="px-2 py-1.5 rounded bg-slate-800/50 text-[10px] space-y-0.5 mb-1.5">
+                  <div className="flex items-center justify-between gap-1">
+                    <span className="text-slate-300 font-medium truncate">{elevationGrid.source ?? 'Elevation grid'}</span>
+                    <button
+                      onClick={() => {
+                        clearElevationGrid(courseName);
+                        setDemResult(null);
+                        refreshFromStore();
+                      }}
+                      className="text-red-400 hover:text-red-300 shrink-0"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  <p className="text-slate-500">
+                    {elevationGrid.cols} × {elevationGrid.rows} cells, ~
+                    {Math.round(elevationGrid.cellHeight * 111320 * 10) / 10} m
+                  </p>
+                  <p className="text-slate-500">
+                    {teeToGreenRise == null
+                      ? 'This hole is outside the grid'
+                      : `Green is ${Math.abs(teeToGreenRise).toFixed(1)} m ${teeToGreenRise >= 0 ? 'above' : 'below'} the tee`}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-[10px] text-slate-500 px-1 mb-1.5">No DEM: shots use the round's slope setting.</p>
+              )}
+              <button
+                onClick={() => demInputRef.current?.click()}
+                className="w-full flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg bg-slate-800/80 border border-slate-600 text-slate-300 hover:border-slate-500 text-xs font-medium transition"
+              >
+                <Upload className="w-3.5 h-3.5" />
+                {elevationGrid ? 'Replace DEM' : 'Import DEM'}
+              </button>
+              <input
+                ref={demInputRef}
+                type="file"
+                accept=".tif,.tiff,.asc,.txt,image/tiff"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) void handleImportElevation(file);
+                }}
+              />
+              {demResult && (
+                <div
+                  className={`mt-2 rounded-lg border px-2 py-1.5 text-[10px] ${
+                    demResult.ok ? 'border-green-700 text-green-300' : 'border-red-700 text-red-300'
+                  }`}
+                >
+                  <p className="font-semibold">{demResult.ok ? 'Terrain imported' : 'Import failed – nothing was changed'}</p>
+                  {demResult.messages.map((m, i) => (
+                    <p key={i} className={demResult.ok ? 'text-slate-400' : undefined}>
+                      {m}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="border-t border-slate-700 pt-2 mt-2">
+              <p className="text-[10px] text-slate-400 mb-1.5">Course rating (simulated scratch and bogey golfers)</p>
+              {estimatedTeeSets.length > 0 ? (
+                <div className="px-2 py-1.5 rounded bg-slate-800/50 text-[10px] space-y-0.5 mb-1.5">
+                  {estimatedTeeSets.map((t) => (
+                    <p key={t.name} className="text-slate-300">
+                      <span className="font-medium">{t.name}</span> · {t.courseRating.toFixed(1)} / {t.slopeRating}
+                      <span className="text-slate-500">
+                        {' '}
+                        (bogey {t.bogeyRating?.toFixed(1) ?? '–'}, {t.totalYardage} yds) ·{' '}
+                        {isEstimatedRatingInPlay(courseName, t.name) ? 'used by the AI' : 'display only, published rating applies'}
+                      </span>
+                    </p>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-[10px] text-slate-500 px-1 mb-1.5">No estimate yet. The AI uses the published or scorecard rating; an estimate only fills in tee sets without one.</p>
+              )}
+              <button
+                onClick={handleEstimateRating}
+                disabled={isRatingRunning}
+                className="w-full flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg bg-slate-800/80 border border-slate-600 text-slate-300 hover:border-slate-500 disabled:opacity-50 text-xs font-medium transition"
+              >
+                <Play className="w-3.5 h-3.5" />
+                {isRatingRunning ? 'Simulating rounds…' : estimatedTeeSets.length > 0 ? 'Re-estimate rating & slope' : 'Estimate rating & slope'}
+              </button>
+              {ratingError && <p className="mt-1 text-[10px] text-red-300 px-1">{ratingError}</p>}
+            </div>
           </div>
         </div>
       </div>
@@ -5,6 +5,7 @@ import { ScorecardView } from './ScorecardView';
 import { SettingsView } from './SettingsView';
 import { HomeScreen } from './HomeScreen';
 import { AppSettingsScreen } from './AppSettingsScreen';
+import { MyBagScreen } from './MyBagScreen';
 import { CourseEditorScreen } from './CourseEditorScreen';
 import { VenueSelectionScreen } from './VenueSelectionScreen';
 import { VenueCourseSelectionScreen } from './VenueCourseSelectionScreen';
@@ -19,15 +20,25 @@ import { StoreCategoryScreen } from './StoreCategoryScreen';
 import { STORE_CATEGORIES } from '../data/storeCategories';
 import { useCurrentRound } from '../context/CurrentRoundContext';
 import { useGolfGame } from '../context/GolfGameContext';
-import { saveRoundToHistory } from '../services/roundHistoryStore';
+import { getHandicapIndex, saveRoundToHistory } from '../services/roundHistoryStore';
 import { COURSES, VENUES } from '../data/courses';
 import type { Course } from '../data/courses';
 import { getCourseHoleCount, getTeeSetNames, getTeeSetInfo } from '../services/courseBounds';
+import { createSeededRng, randomSeed } from '../utils/rng';
+import { createTournamentField } from '../utils/tournament';
+import { createNassauOpponents } from '../utils/nassau';
+import { createScrambleTeams } from '../utils/teamScramble';
+import { useTournamentField } from '../hooks/useTournamentField';
+import { useRosterAI } from '../hooks/useRosterAI';
+import { createRoundRoster } from '../utils/roster';
+import { getAIPlayingHandicap } from '../utils/handicapStrokes';
+import { getCourseHandicapForTee } from '../utils/whsHandicap';
 
 type View = 'map' | 'scorecard' | 'settings';
 type FlowView =
   | 'home'
   | 'app-settings'
+  | 'my-bag'
   | 'course-editor'
   | 'course'
   | 'venue-course'
@@ -45,6 +56,8 @@ type ExploreSubView = 'picker' | 'course-map' | 'hole-by-hole';
 export function GolfGPSApp() {
   const { round, setRound } = useCurrentRound();
   const { gameState } = useGolfGame();
+  useTournamentField();
+  useRosterAI();
   const [currentView, setCurrentView] = useState<View>('map');
   const [flowView, setFlowView] = useState<FlowView>(() =>
     round.courseName ? 'round' : 'home'
@@ -61,12 +74,22 @@ export function GolfGPSApp() {
     if (!round.courseName && flowView === 'round') setFlowView('home');
   }, [round.courseName, flowView]);
 
-  const handleStartRound = () => {
+  /** User's playing handicap for the round; pre-filled from the WHS course handicap on the AI screen. */
+  const handleStartRound = (userHandicap: number) => {
     const course = selectedCourse;
     if (!course) return;
     const holeCount = getCourseHoleCount(course.name) || 18;
     const teeSetNames = getTeeSetNames(course.name);
     const selectedTeeSet = teeSetNames.length > 0 ? teeSetNames[selectedTeeSetIndex] ?? teeSetNames[0] : undefined;
+    const seed = randomSeed();
+    const aiHandicap = getAIPlayingHandicap(gameState.aiProfile);
+    const tournamentOptions = gameState.competitionFormat === 'tournament' ? gameState.tournamentOptions : null;
+    const scrambleOptions = gameState.competitionFormat === 'team-scramble' ? gameState.teamScrambleOptions : null;
+    const tournamentField = tournamentOptions
+      ? createTournamentField(tournamentOptions, aiHandicap, holeCount, createSeededRng(seed))
+      : [];
+    const nassauOptions = gameState.nassauOptions;
+    const roster = gameState.roster;
     setRound({
       courseName: course.name,
       selectedTeeSet,
@@ -75,6 +98,53 @@ export function GolfGPSApp() {
       userScoresByHole: Array(holeCount),
       userStatsByHole: Array(holeCount),
       aiStatsByHole: Array(holeCount),
+      seed,
+      matchPlay:
+        gameState.competitionFormat === 'match-play'
+          ? {
+              scoring: gameState.matchPlayOptions?.scoring ?? 'net',
+              userHandicap,
+              aiHandicap,
+              concessions: Array(holeCount),
+            }
+          : undefined,
+      tournament: tournamentOptions
+        ? {
+            options: tournamentOptions,
+            field: tournamentField,
+            userHandicap,
+            aiHandicap,
+          }
+        : undefined,
+      stableford:
+        gameState.competitionFormat === 'stableford'
+          ? { variant: gameState.stablefordOptions?.variant ?? 'standard', userHandicap, aiHandicap }
+          : undefined,
+      skins: gameState.competitionFormat === 'skins' ? { userHandicap, aiHandicap } : undefined,
+      teamScramble: scrambleOptions
+        ? {
+            options: scrambleOptions,
+            teams: createScrambleTeams(
+              scrambleOptions,
+              aiHandicap,
+              userHandicap,
+              holeCount,
+              roster.find((p) => p.kind === 'human')
+            ),
+            hole: null,
+          }
+        : undefined,
+      nassau: nassauOptions
+        ? {
+            options: nassauOptions,
+            userHandicap,
+            opponents: createNassauOpponents(nassauOptions, gameState.aiProfile, aiHandicap, tournamentField),
+          }
+        : undefined,
+      userShotsByHole: Array(holeCount),
+      userStrokesGainedByHole: Array(holeCount),
+      aiStrokesGainedByHole: Array(holeCount),
+      roster: roster.length > 0 ? createRoundRoster(roster, userHandicap, holeCount, teeSetNames) : undefined,
     });
     setFlowView('round');
   };
@@ -89,6 +159,17 @@ export function GolfGPSApp() {
       userScoresByHole: Array(18),
       userStatsByHole: Array(18),
       aiStatsByHole: Array(18),
+      seed: undefined,
+      matchPlay: undefined,
+      tournament: undefined,
+      teamScramble: undefined,
+      stableford: undefined,
+      skins: undefined,
+      nassau: undefined,
+      userShotsByHole: undefined,
+      userStrokesGainedByHole: undefined,
+      aiStrokesGainedByHole: undefined,
+      roster: undefined,
     });
     setFlowView('home');
   };
@@ -154,10 +235,15 @@ export function GolfGPSApp() {
       <AppSettingsScreen
         onBackToHome={() => setFlowView('home')}
         onEditCourse={() => setFlowView('course-editor')}
+        onMyBag={() => setFlowView('my-bag')}
       />
     );
   }
 
+  if (flowView === 'my-bag') {
+    return <MyBagScreen onBack={() => setFlowView('app-settings')} />;
+  }
+
   if (flowView === 'course-editor') {
     return (
       <div className="h-full w-full min-h-0 flex flex-col">
@@ -269,8 +355,23 @@ export function GolfGPSApp() {
   }
 
   if (flowView === 'ai') {
+    const { index } = getHandicapIndex();
+    const suggestedHandicap =
+      index != null && selectedCourse
+        ? getCourseHandicapForTee(
+            index,
+            selectedCourse.name,
+            selectedTeeSetIndex,
+            getCourseHoleCount(selectedCourse.name) || 18
+          )
+        : null;
+    const teeSetNames = selectedCourse ? getTeeSetNames(selectedCourse.name) : [];
     return (
       <AISelectionScreen
+        handicapIndex={index}
+        suggestedHandicap={suggestedHandicap}
+        teeSetNames={teeSetNames}
+        selectedTeeSet={teeSetNames[selectedTeeSetIndex] ?? teeSetNames[0]}
         onStartRound={handleStartRound}
         onBackToCompetition={() => setFlowView('competition')}
         onBackToHome={() => setFlowView('home')}
@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import { MapContainer, TileLayer, Marker, Circle, Popup, Polyline, useMap } from 'react-leaflet';
 import { Icon, LatLngExpression, Map as LeafletMap } from 'leaflet';
 import 'leaflet/dist/leaflet.css';
@@ -14,10 +14,18 @@ import { saveHoleLayout, getHoleLayout } from '../services/holeLayoutService';
 import { ShotFeed } from './ShotFeed';
 import { SmartCaddieOverlay, SmartCaddieSummaryCard } from './SmartCaddieOverlay';
 import { useShotPlanningFSM } from '../hooks/useShotPlanningFSM';
+import { getDefaultSeedHandicap, getEffectiveBag } from '../services/myBagStore';
+import { useOptimalTarget } from '../hooks/useOptimalTarget';
+import { getHoleFeaturesForAI } from '../data/lincolnParkCourse';
+import { bagClubToClubStats, recommendBagClub } from '../utils/myBag';
+import { bearingDeg, getPlaysAsYards } from '../utils/yardageConditions';
+import { getGroundSlopeDegrees } from '../utils/courseTerrain';
 import { CLUB_DATABASE, recommendClub } from '../data/clubData';
 import { vincentyInverse } from '../utils/geodesic';
 import { HazardRisk } from '../types/smartCaddie';
 import { HoleSelector } from './HoleSelector';
+import { estimateRollMeters, rollClubForYards } from '../engine/RollModel';
+import { getYardagesForSkill } from '../data/clubDistancesByHandicap';
 
 const teeIcon = new Icon({
   iconUrl: 'data:image/svg+xml;base64,' + btoa(`
@@ -94,6 +102,7 @@ export function HoleMapView() {
     startPlanning,
     setTarget,
     updateRisk,
+    changeClub,
     cancelPlanning,
   } = useShotPlanningFSM();
 
@@ -101,6 +110,20 @@ export function HoleMapView() {
   const teeFeature = holeFeatures.find((f) => f.type === 'tee');
   const landingZones = holeFeatures.filter((f) => f.type === 'fairway');
 
+  // Smart Caddie target search: best aim point and club from the ball with the user's bag
+  const caddieActive = planningState.type === 'PLANNING_SHOT' || planningState.type === 'AIMING';
+  const featuresForAI = useMemo(() => getHoleFeaturesForAI(currentHoleNumber), [currentHoleNumber]);
+  const userHandicap = useMemo(() => getDefaultSeedHandicap(), []);
+  const onTee = teeFeature != null && calculateHaversineDistance(userPosition, teeFeature.coordinates) < 10;
+  const optimalTarget = useOptimalTarget(
+    userPosition,
+    greenFeature?.coordinates,
+    featuresForAI,
+    userHandicap,
+    onTee ? 'tee' : undefined,
+    caddieActive
+  );
+
   console.log('HoleMapView Debug:', {
     currentHoleNumber,
     holeFeatures,
@@ -212,8 +235,15 @@ export function HoleMapView() {
   const handleSmartCaddieToggle = () => {
     if (planningState.type === 'WALKING' && greenFeature) {
       const distanceToTarget = vincentyInverse(userPosition, greenFeature.coordinates).distance;
-      const recommendedClub = recommendClub(distanceToTarget);
-      startPlanning(recommendedClub);
+      const playsAs = getPlaysAsYards(
+        userPosition,
+        greenFeature.coordinates,
+        gameState.settings,
+        undefined,
+        LINCOLN_PARK_COURSE.name
+      );
+      const bagClub = recommendBagClub(getEffectiveBag(), playsAs);
+      startPlanning(bagClub ? bagClubToClubStats(bagClub.club) : recommendClub(distanceToTarget));
       setTarget(greenFeature.coordinates);
     } else {
       cancelPlanning();
@@ -324,6 +354,22 @@ export function HoleMapView() {
             const greenDistance = greenFeature
               ? calculateHaversineDistance(feature.coordinates, greenFeature.coordinates)
               : 0;
+            // Roll is proportional to carry, so split the total as carry · (1 + roll per meter of carry)
+            const landingSlope = teeFeature
+              ? getGroundSlopeDegrees(
+                  LINCOLN_PARK_COURSE.name,
+                  feature.coordinates,
+                  bearingDeg(teeFeature.coordinates, feature.coordinates)
+                )
+              : null;
+            const rollPerCarryMeter = estimateRollMeters(
+              1,
+              rollClubForYards(teeDistance * 1.09361, getYardagesForSkill(getDefaultSeedHandicap())),
+              'fairway',
+              gameState.settings.firmness,
+              landingSlope ?? gameState.settings.slope
+            );
+            const rollDistance = teeDistance - teeDistance / (1 + rollPerCarryMeter);
 
             return (
               <div key={idx}>
@@ -348,6 +394,7 @@ export function HoleMapView() {
                   position={[feature.coordinates.lat, feature.coordinates.lng]}
                   teeDistance={teeDistance}
                   greenDistance={greenDistance}
+                  rollDistance={teeFeature ? rollDistance : undefined}
                 />
               </div>
             );
@@ -398,6 +445,10 @@ export function HoleMapView() {
               initialTarget={planningContext.targetPoint}
               onTargetChange={(target) => setTarget(target)}
               onRiskUpdate={handleRiskUpdate}
+              clubFromBag
+              onClubChange={changeClub}
+              optimalTarget={optimalTarget}
+              courseName={LINCOLN_PARK_COURSE.name}
               enabled={true}
             />
           )}
@@ -521,8 +572,16 @@ export function HoleMapView() {
                 selectedClub={planningContext.selectedClub}
                 riskAssessment={smartCaddieRisk}
                 distanceToTarget={
-                  vincentyInverse(userPosition, greenFeature.coordinates).distance
+                  vincentyInverse(userPosition, planningContext.targetPoint ?? greenFeature.coordinates).distance
                 }
+                playsAsYards={getPlaysAsYards(
+                  userPosition,
+                  planningContext.targetPoint ?? greenFeature.coordinates,
+                  gameState.settings,
+                  undefined,
+                  LINCOLN_PARK_COURSE.name
+                )}
+                optimalTarget={optimalTarget}
               />
             </div>
           )}
@@ -1,8 +1,10 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useJsApiLoader, GoogleMap, Marker } from '@react-google-maps/api';
 import { calculateHaversineDistance } from '../utils/haversine';
+import { getShotSlopeDegrees } from '../utils/courseTerrain';
 import {
   adjustYardageForConditions,
+  getPlaysAsYards,
   bearingDeg,
   windDirectionLabel,
 } from '../utils/yardageConditions';
@@ -11,23 +13,41 @@ import {
   getTeeAndGreen,
   getTreesForHole,
   getHoleFeaturesForAI,
-  getCourseRatingAndSlope,
   HOLE_1_GREEN_OVERRIDE,
   HOLE_1_TEE_OVERRIDE,
 } from '../data/lincolnParkCourse';
 import type { HoleFeaturesForAI } from '../data/lincolnParkCourse';
 import { LINCOLN_PARK_COURSE } from '../data/courses';
 import { getTeeGreenOverride, getHoleOverride } from '../services/courseEditorStore';
-import { getTeeAndGreenForCourse, getHoleInfoForCourse, getCourseHoleCount } from '../services/courseBounds';
+import { getTeeAndGreenForCourse, getHoleInfoForCourse, getCourseHoleCount, getCourseRatingForPlay } from '../services/courseBounds';
 import { buildInPlayFeaturesForHole } from '../utils/editorHoleToAI';
 import { useCurrentRound } from '../context/CurrentRoundContext';
 import { useGolfGame } from '../context/GolfGameContext';
 import { formatHandicapDisplay } from '../data/clubDistancesByHandicap';
+import { useBagClubStats } from '../hooks/useDispersion';
+import { formatBagClubName } from '../utils/myBag';
 import type { UserHoleStats, MissDirection } from '../types/holeStats';
+import type { AIStrategyProfile } from '../types/aiStrategy';
+import type { CourseFirmness } from '../engine/RollModel';
 import { deriveAIHoleStats } from '../utils/deriveAIHoleStats';
+import { getAIShotsStrokesGained, getHoleStrokesGained } from '../utils/strokesGained';
+import { createSeededRng, deriveSeed, type Rng } from '../utils/rng';
+import { ScramblePanel } from './ScramblePanel';
+import { ShotTrackerPanel } from './ShotTrackerPanel';
+import { getAIHoleSetup } from '../utils/aiHoleSetup';
+import { getTrackedShotRelief } from '../utils/userRelief';
+import type { ReliefKind } from '../engine/ReliefEngine';
 
 type LatLng = { lat: number; lng: number };
 
+/** Map marker letter for each relief option of the user's tracked shot. */
+const RELIEF_MARKER_LETTER: Record<ReliefKind, string> = {
+  'stroke-and-distance': 'S',
+  'back-on-line': 'B',
+  lateral: 'L',
+  e5: 'E',
+};
+
 /** Point at fraction (0–1) along the line from `from` to `to`. */
 function pointAlongLine(from: LatLng, to: LatLng, fraction: number): LatLng {
   return {
@@ -359,14 +379,15 @@ export function HoleMapView() {
     teeGreen.green.lng,
   ]);
 
-  // Shot tracer: thin white line; if deflected off tree, remainder is smaller dotted-dash
+  // Shot tracer: thin white line along the curved flight, fainter roll-out; if deflected off tree, remainder is smaller dotted-dash
   useEffect(() => {
     if (!mapRef.current) return;
     aiPolylinesRef.current.forEach((p) => p.setMap(null));
     aiPolylinesRef.current = [];
     aiShots.forEach((shot) => {
       const impact = shot.treeImpactPosition;
-      const solidPath = impact ? [shot.fromPosition, impact] : [shot.fromPosition, shot.toPosition];
+      const solidPath =
+        shot.flightPath ?? (impact ? [shot.fromPosition, impact] : [shot.fromPosition, shot.carryPosition ?? shot.toPosition]);
       const solid = new google.maps.Polyline({
         path: solidPath,
         geodesic: true,
@@ -376,6 +397,18 @@ export function HoleMapView() {
         map: mapRef.current!,
       });
       aiPolylinesRef.current.push(solid);
+      if (shot.carryPosition) {
+        // Roll-out after landing: fainter line from the carry spot to where the ball stopped
+        const roll = new google.maps.Polyline({
+          path: [shot.carryPosition, shot.toPosition],
+          geodesic: true,
+          strokeColor: '#ffffff',
+          strokeOpacity: 0.5,
+          strokeWeight: 1.5,
+          map: mapRef.current!,
+        });
+        aiPolylinesRef.current.push(roll);
+      }
       if (impact) {
         const dashed = new google.maps.Polyline({
           path: [impact, shot.toPosition],
@@ -484,12 +517,34 @@ export function HoleMapView() {
   ]);
 
   const fromPosition = ballPosition ?? teeGreen.tee;
+  // Relief for the user's tracked shot: every option from the marked ball (as listed in the shot tracker), the
+  // best highlighted, or just the chosen drop until the next shot is played from it
+  const trackedHole = round.teamScramble ? undefined : round.userShotsByHole?.[currentHoleNumber - 1];
+  const trackedSetup = trackedHole && !trackedHole.holed ? getAIHoleSetup(courseName, currentHoleNumber, teeSet) : null;
+  const trackedRelief =
+    trackedSetup && trackedHole
+      ? getTrackedShotRelief(courseName, currentHoleNumber, trackedSetup, trackedHole, landingZone ?? ballPosition)
+      : null;
+  const chosenReliefShot = trackedSetup ? trackedHole?.shots[trackedHole.shots.length - 1] : undefined;
+  const reliefMarkers = trackedRelief
+    ? trackedRelief.options.map((o) => ({
+        kind: o.kind,
+        position: o.dropPosition,
+        title: `${o.label} (+${o.penaltyStrokes})`,
+        best: o === trackedRelief.best,
+      }))
+    : chosenReliefShot?.relief && chosenReliefShot.dropPosition
+      ? [{ kind: chosenReliefShot.relief, position: chosenReliefShot.dropPosition, title: 'Drop', best: true }]
+      : [];
   const rawYards = distanceToHole !== null ? distanceToHole * 1.09361 : null;
   const shotBearing = useMemo(
     () => bearingDeg(fromPosition, teeGreen.green),
     [fromPosition.lat, fromPosition.lng, teeGreen.green.lat, teeGreen.green.lng]
   );
   const { settings } = gameState;
+  // Real slope to the pin from the course DEM when one is imported; otherwise the round's slope setting
+  const terrainSlope = getShotSlopeDegrees(courseName, fromPosition, teeGreen.green);
+  const shotSlope = terrainSlope ?? settings.slope;
   const yardageAdjustment = useMemo(() => {
     if (rawYards === null || rawYards <= 0) return null;
     return adjustYardageForConditions(
@@ -497,10 +552,26 @@ export function HoleMapView() {
       settings.windSpeed,
       settings.windDirection,
       shotBearing,
-      settings.slope
+      shotSlope,
+      { altitudeFeet: settings.altitudeFeet, temperatureF: settings.temperatureF }
     );
-  }, [rawYards, settings.windSpeed, settings.windDirection, shotBearing, settings.slope]);
+  }, [
+    rawYards,
+    settings.windSpeed,
+    settings.windDirection,
+    shotBearing,
+    shotSlope,
+    settings.altitudeFeet,
+    settings.temperatureF,
+  ]);
   const windFromLabel = windDirectionLabel(settings.windDirection);
+  // Club from the user's bag for the plays-as yardage (raw yardage when conditions are not shown)
+  const { recommendation: holeClub } = useBagClubStats(
+    settings.isProMode && yardageAdjustment ? yardageAdjustment.adjustedYards : rawYards
+  );
+  const { recommendation: targetClub } = useBagClubStats(
+    landingZone ? getPlaysAsYards(fromPosition, landingZone, settings, undefined, courseName) : null
+  );
 
   const handleAIPlay = () => {
     if (!aiGolferRef.current || isAiPlaying) return;
@@ -520,9 +591,11 @@ export function HoleMapView() {
           windSpeedMph: gameState.settings.windSpeed,
           windDirectionDeg: gameState.settings.windDirection,
           slopeDegrees: gameState.settings.slope,
+          altitudeFeet: gameState.settings.altitudeFeet,
+          temperatureF: gameState.settings.temperatureF,
         }
       : undefined;
-    const ratingSlope = getCourseRatingAndSlope(courseName);
+    const ratingSlope = getCourseRatingForPlay(courseName, teeSet);
     const playOptions: {
       par: number;
       holeFeatures?: HoleFeaturesForAI;
@@ -531,7 +604,10 @@ export function HoleMapView() {
       slopeRating?: number;
       totalPar?: number;
       courseName?: string;
-    } = { par, courseName };
+      rng?: Rng;
+      strategy?: AIStrategyProfile;
+      firmness?: CourseFirmness;
+    } = { par, courseName, firmness: gameState.settings.firmness };
     if (holeFeatures != null) {
       playOptions.holeFeatures = holeFeatures;
       playOptions.conditions = conditions;
@@ -541,6 +617,10 @@ export function HoleMapView() {
       playOptions.slopeRating = ratingSlope.slopeRating;
       playOptions.totalPar = ratingSlope.totalPar;
     }
+    if (round?.seed != null) {
+      playOptions.rng = createSeededRng(deriveSeed(round.seed, currentHoleNumber));
+    }
+    if (gameState.aiStrategy) playOptions.strategy = gameState.aiStrategy;
     // Par, yardage, course rating, and stroke index (hole difficulty) inform AI so competitor can plan accordingly.
     const shots = aiGolferRef.current.playHole(
       teeGreen.green,
@@ -557,6 +637,9 @@ export function HoleMapView() {
         setTimeout(animateShots, 1000);
       } else {
         const aiStats = deriveAIHoleStats(shots, par);
+        const aiStrokesGained = getHoleStrokesGained(
+          getAIShotsStrokesGained(shots, par, teeGreen.green, holeFeatures ?? null)
+        );
         setAiScoresByHole((prev) => {
           const next = [...prev];
           next[currentHoleNumber - 1] = shots.length;
@@ -568,7 +651,9 @@ export function HoleMapView() {
               ? [...existing]
               : [...existing, ...Array(len - existing.length).fill(undefined)];
           nextAi[currentHoleNumber - 1] = aiStats;
-          setRound({ aiScoresByHole: next, aiStatsByHole: nextAi });
+          const nextSg = [...(r.aiStrokesGainedByHole ?? Array(len))];
+          nextSg[currentHoleNumber - 1] = aiStrokesGained;
+          setRound({ aiScoresByHole: next, aiStatsByHole: nextAi, aiStrokesGainedByHole: nextSg });
           return next;
         });
         aiPlannedShotsRef.current = [];
@@ -642,10 +727,23 @@ export function HoleMapView() {
     setShowStatsForm(true);
   };
 
+  /** Tracked shots holed: fill the score and pre-fill the stats form from the derived stats. */
+  const handleTrackedHoleComplete = (score: number, stats: UserHoleStats) => {
+    setUserScore(score);
+    setStatFairway(stats.fairway ?? true);
+    setStatFairwayMiss(stats.fairwayMiss);
+    setStatGir(stats.gir);
+    setStatGirMiss(stats.girMiss);
+    setStatScrambling(stats.scrambling);
+    setStatScrambleSand(stats.scrambleSand ?? false);
+    setStatPutts(stats.putts);
+  };
+
   const handleNextHole = () => {
+    const fairwayApplies = currentHole.par >= 4;
     const stats: UserHoleStats = {
-      fairway: statFairway,
-      ...(statFairway ? {} : { fairwayMiss: statFairwayMiss }),
+      fairway: fairwayApplies ? statFairway : null,
+      ...(!fairwayApplies || statFairway ? {} : { fairwayMiss: statFairwayMiss }),
       gir: statGir,
       ...(statGir ? {} : { girMiss: statGirMiss }),
       scrambling: statScrambling,
@@ -811,6 +909,23 @@ export function HoleMapView() {
             cursor="pointer"
           />
         )}
+        {reliefMarkers.map((m) => (
+          <Marker
+            key={m.kind}
+            position={m.position}
+            title={m.title}
+            label={{ text: RELIEF_MARKER_LETTER[m.kind], color: 'white', fontWeight: 'bold', fontSize: '10px' }}
+            icon={{
+              path: google.maps.SymbolPath.CIRCLE,
+              scale: 9,
+              fillColor: m.best ? '#d97706' : '#475569',
+              fillOpacity: 1,
+              strokeColor: '#ffffff',
+              strokeWeight: 2,
+            }}
+            zIndex={1003}
+          />
+        ))}
       </GoogleMap>
       </div>
 
@@ -897,6 +1012,9 @@ export function HoleMapView() {
                         {shot.commentary.weatherLie}
                       </p>
                     )}
+                    {shot.commentary.decision && (
+                      <p className="text-amber-300/90 mt-0.5">{shot.commentary.decision.summary}</p>
+                    )}
                   </div>
                 ) : (
                   <div key={shot.shotNumber} className="text-xs bg-slate-800/80 rounded-lg p-2.5 border border-slate-700">
@@ -1033,11 +1151,20 @@ export function HoleMapView() {
                   {(yardageAdjustment.windEffectYards !== 0 || yardageAdjustment.slopeEffectYards !== 0) && (
                     <span className="text-slate-500">
                       {' '}(wind {yardageAdjustment.windEffectYards >= 0 ? '+' : ''}{yardageAdjustment.windEffectYards.toFixed(1)},{' '}
-                      slope {yardageAdjustment.slopeEffectYards >= 0 ? '+' : ''}{yardageAdjustment.slopeEffectYards.toFixed(1)})
+                      {terrainSlope != null ? 'elevation' : 'slope'}{' '}
+                      {yardageAdjustment.slopeEffectYards >= 0 ? '+' : ''}{yardageAdjustment.slopeEffectYards.toFixed(1)})
                     </span>
                   )}
                 </p>
               )}
+              {holeClub && (
+                <p className="text-xs text-slate-400 mt-0.5">
+                  My bag: <span className="text-white font-semibold">{formatBagClubName(holeClub.club.key)}</span>
+                  <span className="text-slate-500">
+                    {' '}({holeClub.club.carryYards} carry, {holeClub.club.totalYards} total)
+                  </span>
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -1046,9 +1173,10 @@ export function HoleMapView() {
           const fromPos = ballPosition ?? teeGreen.tee;
           const toTargetRaw = Math.round(calculateHaversineDistance(fromPos, landingZone) * 1.09361);
           const toPinFromTargetRaw = Math.round(calculateHaversineDistance(landingZone, teeGreen.green) * 1.09361);
-          const slopeFactor = 1 + settings.slope * 0.01;
-          const toTargetAdj = Math.round(toTargetRaw * slopeFactor);
-          const toPinFromTargetAdj = Math.round(toPinFromTargetRaw * slopeFactor);
+          const toTargetSlope = getShotSlopeDegrees(courseName, fromPos, landingZone) ?? settings.slope;
+          const toPinSlope = getShotSlopeDegrees(courseName, landingZone, teeGreen.green) ?? settings.slope;
+          const toTargetAdj = Math.round(toTargetRaw * (1 + toTargetSlope * 0.01));
+          const toPinFromTargetAdj = Math.round(toPinFromTargetRaw * (1 + toPinSlope * 0.01));
           return (
             <div className="bg-slate-900/95 backdrop-blur-sm rounded-xl p-3 border border-slate-600">
               <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
@@ -1068,6 +1196,15 @@ export function HoleMapView() {
                   <p className="text-[10px] text-slate-500 uppercase">Target to pin slope adj.</p>
                   <p className="font-bold text-green-400 tabular-nums">{toPinFromTargetAdj} yds</p>
                 </div>
+                {targetClub && (
+                  <div className="col-span-2">
+                    <p className="text-[10px] text-slate-500 uppercase">Club to target (plays as {targetClub.yards} yds)</p>
+                    <p className="font-bold text-white">
+                      {formatBagClubName(targetClub.club.key)}
+                      <span className="text-xs font-normal text-slate-400"> · {targetClub.club.carryYards} carry</span>
+                    </p>
+                  </div>
+                )}
               </div>
               <button
                 type="button"
@@ -1082,6 +1219,22 @@ export function HoleMapView() {
         {!landingZone && (
           <p className="text-[10px] text-slate-500 text-center">Tap map to set landing zone</p>
         )}
+        {round.teamScramble && !isCurrentHoleCompleted && (
+          <ScramblePanel
+            holeNumber={currentHoleNumber}
+            gpsPosition={ballPosition}
+            mapPosition={landingZone}
+            onHoleComplete={(teamScore) => setUserScore(teamScore)}
+          />
+        )}
+        {!round.teamScramble && !isCurrentHoleCompleted && (
+          <ShotTrackerPanel
+            holeNumber={currentHoleNumber}
+            gpsPosition={ballPosition}
+            mapPosition={landingZone}
+            onHoleComplete={handleTrackedHoleComplete}
+          />
+        )}
         {showScoreEntry && (
           <div className="bg-slate-800/98 backdrop-blur-sm rounded-xl p-4 border border-slate-600 shadow-xl space-y-4">
             <p className="text-xs font-semibold text-slate-400 uppercase tracking-wide">Hole complete</p>
@@ -1139,13 +1292,15 @@ export function HoleMapView() {
             {showStatsForm && (
               <div className="border-t border-slate-700 pt-3 space-y-3">
                 <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-wide">Stats</p>
-                <StatRow
-                  label="Fairway"
-                  yesNo={statFairway}
-                  onYesNo={setStatFairway}
-                  miss={statFairwayMiss}
-                  onMiss={setStatFairwayMiss}
-                />
+                {currentHole.par >= 4 && (
+                  <StatRow
+                    label="Fairway"
+                    yesNo={statFairway}
+                    onYesNo={setStatFairway}
+                    miss={statFairwayMiss}
+                    onMiss={setStatFairwayMiss}
+                  />
+                )}
                 <StatRow
                   label="GIR"
                   yesNo={statGir}
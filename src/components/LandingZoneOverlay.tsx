@@ -1,14 +1,21 @@
 interface LandingZoneOverlayProps {
   teeDistance: number;
   greenDistance: number;
+  /** Expected roll-out within teeDistance (meters); shown as carry + roll when set. */
+  rollDistance?: number;
 }
 
-export function LandingZoneOverlay({ teeDistance, greenDistance }: LandingZoneOverlayProps) {
+export function LandingZoneOverlay({ teeDistance, greenDistance, rollDistance }: LandingZoneOverlayProps) {
   return (
     <div className="flex flex-col items-center justify-center pointer-events-none">
       <p className="text-xl font-bold text-white drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)]">
         {Math.round(teeDistance * 1.09361)}
       </p>
+      {rollDistance !== undefined && rollDistance > 0 && (
+        <p className="text-xs font-semibold text-white/80 drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)]">
+          {Math.round((teeDistance - rollDistance) * 1.09361)} + {Math.round(rollDistance * 1.09361)} roll
+        </p>
+      )}
       <p className="text-xl font-bold text-green-400 drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)]">
         {Math.round(greenDistance * 1.09361)}
       </p>
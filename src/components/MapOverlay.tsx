@@ -8,9 +8,10 @@ interface MapOverlayProps {
   position: [number, number];
   teeDistance: number;
   greenDistance: number;
+  rollDistance?: number;
 }
 
-export function MapOverlay({ position, teeDistance, greenDistance }: MapOverlayProps) {
+export function MapOverlay({ position, teeDistance, greenDistance, rollDistance }: MapOverlayProps) {
   const map = useMap();
 
   useEffect(() => {
@@ -20,7 +21,9 @@ export function MapOverlay({ position, teeDistance, greenDistance }: MapOverlayP
     container.style.pointerEvents = 'none';
 
     const root = createRoot(container);
-    root.render(<LandingZoneOverlay teeDistance={teeDistance} greenDistance={greenDistance} />);
+    root.render(
+      <LandingZoneOverlay teeDistance={teeDistance} greenDistance={greenDistance} rollDistance={rollDistance} />
+    );
 
     const updatePosition = () => {
       const point = map.latLngToContainerPoint(new LatLng(position[0], position[1]));
@@ -39,7 +42,7 @@ export function MapOverlay({ position, teeDistance, greenDistance }: MapOverlayP
       root.unmount();
       container.remove();
     };
-  }, [map, position, teeDistance, greenDistance]);
+  }, [map, position, teeDistance, greenDistance, rollDistance]);
 
   return null;
 }
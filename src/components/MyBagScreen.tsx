@@ -0,0 +1,161 @@
+import { useMemo, useState } from 'react';
+import { ArrowLeft, Lock, RotateCcw, Unlock } from 'lucide-react';
+import { useMyBag } from '../hooks/useMyBag';
+import { getDefaultSeedHandicap, getMyBag, reseedMyBag, saveMyBag } from '../services/myBagStore';
+import { formatBagClubName } from '../utils/myBag';
+import { formatHandicapDisplay } from '../data/clubDistancesByHandicap';
+import type { BagClub, BagClubKey } from '../types/myBag';
+
+interface MyBagScreenProps {
+  onBack: () => void;
+}
+
+type EditableField = 'carryYards' | 'totalYards' | 'stdDevYards' | 'dispersionDeg';
+
+const FIELDS: { key: EditableField; label: string; step: number }[] = [
+  { key: 'carryYards', label: 'Carry', step: 1 },
+  { key: 'totalYards', label: 'Total', step: 1 },
+  { key: 'stdDevYards', label: '± yds', step: 0.5 },
+  { key: 'dispersionDeg', label: '± °', step: 0.1 },
+];
+
+/**
+ * "My bag" editor: carry/total, distance spread and start-line dispersion per club, seeded from the handicap chart
+ * and refined from tracked shots. Editing a club locks it to the entered values; unlocking hands it back to
+ * refinement.
+ */
+export function MyBagScreen({ onBack }: MyBagScreenProps) {
+  const bag = useMyBag();
+  const suggestedHandicap = useMemo(() => Math.round(getDefaultSeedHandicap()), []);
+  const [seedHandicap, setSeedHandicap] = useState(() => Math.round(bag.seededHandicap));
+
+  const updateClub = (key: BagClubKey, patch: Partial<BagClub>) => {
+    const saved = getMyBag();
+    saveMyBag({
+      ...saved,
+      // Lock at the values shown (refined), not the stock numbers underneath
+      clubs: saved.clubs.map((c) => {
+        if (c.key !== key) return c;
+        const shown = bag.clubs.find((b) => b.key === key) ?? c;
+        return { ...c, ...(patch.locked === true && shown), ...patch };
+      }),
+    });
+  };
+
+  const setField = (club: BagClub, field: EditableField, value: number) => {
+    if (!Number.isFinite(value) || value < 0) return;
+    const patch: Partial<BagClub> = { [field]: value, locked: true };
+    // Keep total ≥ carry
+    if (field === 'carryYards' && value > club.totalYards) patch.totalYards = value;
+    if (field === 'totalYards' && value < club.carryYards) patch.carryYards = value;
+    updateClub(club.key, patch);
+  };
+
+  const samplesByClub = new Map(bag.samples.map((s) => [s.key, s]));
+
+  return (
+    <div className="h-full w-full bg-slate-900 flex flex-col">
+      <header className="flex items-center gap-3 p-4 border-b border-slate-800">
+        <button
+          onClick={onBack}
+          className="p-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-800 transition"
+          aria-label="Back to settings"
+        >
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h1 className="text-lg font-semibold text-white">My bag</h1>
+      </header>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-4">
+        <p className="text-slate-400 text-sm">
+          Club yardages used for caddie advice and the yardage card. Seeded from your handicap, then refined from the
+          shots you track (full swings only).
+        </p>
+
+        <div className="p-4 rounded-2xl bg-slate-800/50 border border-slate-700 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-slate-300">Seed from HCP</span>
+            <input
+              type="number"
+              value={seedHandicap}
+              min={-10}
+              max={36}
+              onChange={(e) => setSeedHandicap(Number(e.target.value))}
+              className="w-16 px-2 py-1 rounded-lg bg-slate-900 border border-slate-600 text-white text-sm"
+              aria-label="Seed handicap"
+            />
+            <button
+              onClick={() => reseedMyBag(seedHandicap)}
+              className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-slate-700 text-slate-200 hover:bg-slate-600 transition"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reseed
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">
+            Current bag seeded at {formatHandicapDisplay(Math.round(bag.seededHandicap))}; your index suggests{' '}
+            {formatHandicapDisplay(suggestedHandicap)}. Reseeding replaces every club, including
+            locked ones.
+          </p>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={bag.autoRefine}
+              onChange={(e) => saveMyBag({ ...getMyBag(), autoRefine: e.target.checked })}
+            />
+            Refine from tracked shots
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          {bag.clubs.map((club) => {
+            const sample = samplesByClub.get(club.key);
+            return (
+              <div
+                key={club.key}
+                className={`p-3 rounded-xl border ${club.inBag ? 'bg-slate-800/50 border-slate-700' : 'bg-slate-900 border-slate-800 opacity-60'}`}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <input
+                    type="checkbox"
+                    checked={club.inBag}
+                    onChange={(e) => updateClub(club.key, { inBag: e.target.checked })}
+                    aria-label={`${formatBagClubName(club.key)} in bag`}
+                  />
+                  <span className="font-semibold text-white text-sm">{formatBagClubName(club.key)}</span>
+                  <span className="text-xs text-slate-500">
+                    {sample ? `${sample.shots} shot${sample.shots === 1 ? '' : 's'} · median ${sample.medianYards} yds` : 'No tracked shots'}
+                  </span>
+                  <button
+                    onClick={() => updateClub(club.key, { locked: !club.locked })}
+                    className="ml-auto p-1 rounded text-slate-400 hover:text-white transition"
+                    aria-label={club.locked ? 'Unlock (refine from shots)' : 'Lock values'}
+                    title={club.locked ? 'Locked: kept as entered' : 'Refined from tracked shots'}
+                  >
+                    {club.locked ? <Lock className="w-4 h-4 text-amber-400" /> : <Unlock className="w-4 h-4" />}
+                  </button>
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  {FIELDS.map(({ key, label, step }) => (
+                    <label key={key} className="text-[10px] text-slate-500 uppercase">
+                      {label}
+                      <input
+                        type="number"
+                        value={club[key]}
+                        step={step}
+                        min={0}
+                        disabled={!club.inBag}
+                        onChange={(e) => setField(club, key, Number(e.target.value))}
+                        className="mt-0.5 w-full px-2 py-1 rounded-lg bg-slate-900 border border-slate-600 text-white text-sm tabular-nums"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
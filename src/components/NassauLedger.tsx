@@ -0,0 +1,68 @@
+import { DollarSign } from 'lucide-react';
+import type { NassauOpponentLedger } from '../utils/nassau';
+import { formatNassauAmount, getNassauBetResult } from '../utils/nassau';
+
+interface NassauLedgerProps {
+  ledgers: NassauOpponentLedger[];
+  stake: number;
+}
+
+function formatBetLead(lead: number, holesPlayed: number): string {
+  if (holesPlayed === 0) return '—';
+  if (lead === 0) return 'AS';
+  return lead > 0 ? `${lead} UP` : `${-lead} DN`;
+}
+
+/** Nassau ledger: each segment and press per opponent with the running settlement. */
+export function NassauLedger({ ledgers, stake }: NassauLedgerProps) {
+  const total = ledgers.reduce((sum, l) => sum + l.net, 0);
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl border border-slate-700 overflow-hidden">
+      <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <DollarSign className="w-5 h-5 text-green-400" />
+          <h3 className="font-semibold text-white">Nassau (${stake})</h3>
+        </div>
+        <span className={`text-sm font-bold ${total > 0 ? 'text-green-400' : total < 0 ? 'text-red-400' : 'text-slate-300'}`}>
+          {formatNassauAmount(total)}
+        </span>
+      </div>
+      <div className="divide-y divide-slate-800">
+        {ledgers.map(({ opponent, bets, net }) => (
+          <div key={opponent.id} className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-slate-200 font-semibold">vs {opponent.name}</span>
+              <span className={`text-sm font-bold ${net > 0 ? 'text-green-400' : net < 0 ? 'text-red-400' : 'text-slate-300'}`}>
+                {formatNassauAmount(net)}
+              </span>
+            </div>
+            <div className="space-y-1">
+              {bets.map((bet) => {
+                const result = getNassauBetResult(bet);
+                return (
+                  <div key={bet.id} className={`flex items-center justify-between text-xs ${bet.pressOf ? 'pl-3' : ''}`}>
+                    <span className="text-slate-400">
+                      {bet.label}
+                      <span className="ml-1 text-slate-600">
+                        ({bet.startHole}–{bet.endHole})
+                      </span>
+                    </span>
+                    <span
+                      className={`font-medium ${
+                        result === 'won' ? 'text-green-400' : result === 'lost' ? 'text-red-400' : 'text-slate-300'
+                      }`}
+                    >
+                      {formatBetLead(bet.lead, bet.holesPlayed)}
+                      {bet.finished && ' · final'}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
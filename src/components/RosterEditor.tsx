@@ -0,0 +1,165 @@
+import { ChevronLeft, ChevronRight, Minus, Plus, Trash2, UserPlus, Bot, Users } from 'lucide-react';
+import type { AIProfile } from '../context/GolfGameContext';
+import type { RosterPlayerSetup } from '../types/roster';
+import { formatHandicapDisplay } from '../data/clubDistancesByHandicap';
+import {
+  MAX_ROSTER_AI,
+  MAX_ROSTER_FRIENDS,
+  createFriendSetup,
+  createRosterAISetup,
+  formatAIProfileLabel,
+} from '../utils/roster';
+
+interface RosterEditorProps {
+  roster: RosterPlayerSetup[];
+  onChange: (roster: RosterPlayerSetup[]) => void;
+  /** Tee sets on the selected course; the tee picker is hidden when there is only one. */
+  teeSetNames: string[];
+  /** The round's tee (the user's), used for players without their own. */
+  defaultTeeSet?: string;
+  /** AI profiles allowed on the current tier. */
+  aiOptions: AIProfile[];
+  /** Handicap a new friend starts at (the user's). */
+  defaultFriendHandicap: number;
+  className?: string;
+}
+
+/**
+ * Group setup on the AI screen: friends (name, handicap, tee) scoring on this phone and extra AI golfers
+ * (profile, tee) alongside the selected AI opponent.
+ */
+export function RosterEditor({
+  roster,
+  onChange,
+  teeSetNames,
+  defaultTeeSet,
+  aiOptions,
+  defaultFriendHandicap,
+  className = '',
+}: RosterEditorProps) {
+  const friends = roster.filter((p) => p.kind === 'human').length;
+  const extraAI = roster.length - friends;
+
+  const update = (id: string, patch: Partial<RosterPlayerSetup>) =>
+    onChange(roster.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+
+  const cycleProfile = (player: RosterPlayerSetup, step: number) => {
+    const current = player.aiProfile != null ? aiOptions.indexOf(player.aiProfile) : -1;
+    const nextProfile = aiOptions[(Math.max(0, current) + step + aiOptions.length) % aiOptions.length];
+    const replacement = createRosterAISetup([], nextProfile);
+    update(player.id, { aiProfile: nextProfile, name: replacement.name, handicap: replacement.handicap });
+  };
+
+  return (
+    <div className={`space-y-3 p-4 bg-slate-800/50 rounded-xl border border-slate-700 ${className}`}>
+      <div className="flex items-center gap-2">
+        <Users className="w-5 h-5 text-green-400" />
+        <h2 className="text-sm font-semibold text-slate-300 uppercase tracking-wide">Group</h2>
+        <span className="ml-auto text-xs text-slate-500">
+          You{friends > 0 ? ` + ${friends} friend${friends === 1 ? '' : 's'}` : ''} · {1 + extraAI} AI
+        </span>
+      </div>
+
+      {roster.map((player) => (
+        <div key={player.id} className="p-3 rounded-lg bg-slate-900/60 border border-slate-700 space-y-2">
+          <div className="flex items-center gap-2">
+            {player.kind === 'human' ? (
+              <input
+                value={player.name}
+                onChange={(e) => update(player.id, { name: e.target.value })}
+                maxLength={20}
+                className="flex-1 min-w-0 px-2 py-1.5 rounded-lg bg-slate-800 border border-slate-600 text-white text-sm"
+                aria-label="Friend's name"
+              />
+            ) : (
+              <div className="flex-1 flex items-center gap-1 min-w-0">
+                <button
+                  onClick={() => cycleProfile(player, -1)}
+                  className="p-1.5 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 transition"
+                  aria-label="Previous AI profile"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <span className="flex-1 text-center text-sm font-semibold text-white truncate">
+                  {player.aiProfile != null ? formatAIProfileLabel(player.aiProfile) : player.name}
+                </span>
+                <button
+                  onClick={() => cycleProfile(player, 1)}
+                  className="p-1.5 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 transition"
+                  aria-label="Next AI profile"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+            <button
+              onClick={() => onChange(roster.filter((p) => p.id !== player.id))}
+              className="p-1.5 rounded-lg text-slate-400 hover:text-red-400 hover:bg-slate-800 transition"
+              aria-label={`Remove ${player.name}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex items-center gap-3">
+            {player.kind === 'human' ? (
+              <div className="flex items-center gap-1.5">
+                <span className="text-xs text-slate-400">HCP</span>
+                <button
+                  onClick={() => update(player.id, { handicap: Math.max(-10, player.handicap - 1) })}
+                  className="p-1 rounded bg-slate-800 text-slate-300 hover:bg-slate-700 transition"
+                  aria-label="Lower handicap"
+                >
+                  <Minus className="w-3.5 h-3.5" />
+                </button>
+                <span className="w-8 text-center text-sm font-bold text-white">{formatHandicapDisplay(player.handicap)}</span>
+                <button
+                  onClick={() => update(player.id, { handicap: Math.min(54, player.handicap + 1) })}
+                  className="p-1 rounded bg-slate-800 text-slate-300 hover:bg-slate-700 transition"
+                  aria-label="Raise handicap"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ) : (
+              <span className="text-xs text-slate-400">Plays off {formatHandicapDisplay(player.handicap)}</span>
+            )}
+            {teeSetNames.length > 1 && (
+              <select
+                value={player.teeSet && teeSetNames.includes(player.teeSet) ? player.teeSet : defaultTeeSet ?? teeSetNames[0]}
+                onChange={(e) => update(player.id, { teeSet: e.target.value })}
+                className="ml-auto px-2 py-1 rounded-lg bg-slate-800 border border-slate-600 text-slate-200 text-xs"
+                aria-label={`${player.name} tee`}
+              >
+                {teeSetNames.map((name) => (
+                  <option key={name} value={name}>
+                    {name} tees
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onChange([...roster, createFriendSetup(roster, defaultFriendHandicap)])}
+          disabled={friends >= MAX_ROSTER_FRIENDS}
+          className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-sm font-medium bg-slate-700 text-slate-200 hover:bg-slate-600 transition disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <UserPlus className="w-4 h-4" />
+          Add friend
+        </button>
+        <button
+          onClick={() => onChange([...roster, createRosterAISetup(roster, aiOptions[0])])}
+          disabled={extraAI >= MAX_ROSTER_AI || aiOptions.length === 0}
+          className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg text-sm font-medium bg-slate-700 text-slate-200 hover:bg-slate-600 transition disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Bot className="w-4 h-4" />
+          Add AI
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,11 +2,25 @@ import { useGolfGame } from '../context/GolfGameContext';
 import { useCurrentRound } from '../context/CurrentRoundContext';
 import { getCourseHoleCount, getHoleInfoForCourse } from '../services/courseBounds';
 import { formatHandicapDisplay } from '../data/clubDistancesByHandicap';
-import { Trophy, Target, TrendingUp } from 'lucide-react';
+import { getAIPlayingHandicap } from '../utils/handicapStrokes';
+import { getRoundMatchStatus, describeMatchResult } from '../utils/matchPlay';
+import type { MatchHoleOutcome } from '../types/matchPlay';
+import { getRoundLeaderboard } from '../utils/tournament';
+import { TournamentLeaderboard } from './TournamentLeaderboard';
+import { getTeamShotsUsed, getTeamTotal } from '../utils/teamScramble';
+import { getRoundSkins, getRoundStableford } from '../utils/pointsGames';
+import { getRoundNassau } from '../utils/nassau';
+import { NassauLedger } from './NassauLedger';
+import { getRoundGroupStandings, getRosterPlayerTeeSet, setRosterPlayerScore } from '../utils/roster';
+import { formatToPar } from '../utils/tournament';
+import { Trophy, Target, TrendingUp, Swords, Star, Coins, Users } from 'lucide-react';
+
+/** Scores offered for a friend's hole. */
+const FRIEND_SCORE_OPTIONS = Array.from({ length: 15 }, (_, i) => i + 1);
 
 export function ScorecardView() {
   const { gameState, getTotalScore } = useGolfGame();
-  const { round: currentRound } = useCurrentRound();
+  const { round: currentRound, setRound } = useCurrentRound();
 
   const useMapRound = Boolean(currentRound.courseName);
   const holeCount = useMapRound ? (getCourseHoleCount(currentRound.courseName) || 18) : 18;
@@ -23,12 +37,7 @@ export function ScorecardView() {
     ? (currentRound.aiScoresByHole.reduce<number>((sum, s) => sum + (s ?? 0), 0) || 0)
     : getTotalScore('ai');
 
-  const AI_HANDICAP =
-    typeof gameState.aiProfile === 'string'
-      ? gameState.aiProfile === 'LPGA Tour'
-        ? 2
-        : 0
-      : Math.max(0, gameState.aiProfile);
+  const AI_HANDICAP = Math.max(0, getAIPlayingHandicap(gameState.aiProfile));
   const aiStrokesReceived = useMapRound
     ? Array.from({ length: holeCount }, (_, i) => i + 1).filter(
         (holeNum) =>
@@ -65,6 +74,37 @@ export function ScorecardView() {
   const scrambleSuccess = userStats.reduce((n, s) => n + (s != null && !s.gir && s.scrambling ? 1 : 0), 0);
   const totalPutts = userStats.reduce((sum, s) => sum + (s?.putts ?? 0), 0);
   const hasAnyUserStats = holesWithStats > 0;
+  const matchStatus = useMapRound ? getRoundMatchStatus(currentRound) : null;
+  const matchOutcomeByHole = new Map((matchStatus?.holes ?? []).map((h) => [h.holeNumber, h]));
+  const leaderboard = useMapRound ? getRoundLeaderboard(currentRound, gameState.aiProfile) : null;
+  const stableford = useMapRound ? getRoundStableford(currentRound) : null;
+  const skins = useMapRound ? getRoundSkins(currentRound) : null;
+  const nassau = useMapRound ? getRoundNassau(currentRound) : null;
+  const skinsByHole = new Map((skins?.holes ?? []).map((h) => [h.holeNumber, h]));
+  const currentHoleConcededBy = currentRound.matchPlay?.concessions[currentHole - 1];
+  const rosterPlayers = useMapRound ? currentRound.roster?.players ?? [] : [];
+  const groupStandings = useMapRound ? getRoundGroupStandings(currentRound, gameState.aiProfile) : null;
+  const standingsById = new Map((groupStandings ?? []).map((g) => [g.id, g]));
+
+  const setFriendScore = (playerId: string, holeNum: number, value: string) => {
+    const roster = currentRound.roster;
+    if (!roster) return;
+    setRound({ roster: setRosterPlayerScore(roster, playerId, holeNum, value ? Number(value) : undefined) });
+  };
+
+  const toggleConcession = (holeNum: number) => {
+    const match = currentRound.matchPlay;
+    if (!match) return;
+    const concessions = [...match.concessions];
+    concessions[holeNum - 1] = concessions[holeNum - 1] === 'user' ? undefined : 'user';
+    setRound({ matchPlay: { ...match, concessions } });
+  };
+
+  const formatMatchCell = (outcome: MatchHoleOutcome, conceded: boolean) => {
+    const label = outcome === 'user' ? 'W' : outcome === 'ai' ? 'L' : 'H';
+    return conceded ? `${label}*` : label;
+  };
+
   const roundComplete = useMapRound && Array.from({ length: holeCount }, (_, i) => currentRound.userScoresByHole[i]).every((s) => s != null);
 
   return (
@@ -117,6 +157,157 @@ export function ScorecardView() {
           </div>
         </div>
 
+        {groupStandings && (
+          <div className="bg-slate-800/50 rounded-2xl border border-slate-700 overflow-hidden">
+            <div className="p-4 border-b border-slate-700 flex items-center gap-2">
+              <Users className="w-5 h-5 text-green-400" />
+              <h3 className="font-semibold text-white">Group (net)</h3>
+            </div>
+            <div className="divide-y divide-slate-800">
+              {groupStandings.map((g, index) => (
+                <div
+                  key={g.id}
+                  className={`px-4 py-2.5 flex items-center justify-between text-sm ${g.kind === 'user' ? 'bg-green-600/10' : ''}`}
+                >
+                  <span className="min-w-0 truncate">
+                    <span className="text-slate-500 mr-2">{g.totals.holesPlayed > 0 ? index + 1 : '–'}</span>
+                    <span className={g.kind === 'user' ? 'text-green-400 font-semibold' : g.kind === 'ai' ? 'text-purple-300' : 'text-slate-200'}>
+                      {g.name}
+                    </span>
+                    <span className="ml-2 text-xs text-slate-500">
+                      HCP {formatHandicapDisplay(g.handicap)}
+                      {g.teeSet && g.teeSet !== currentRound.selectedTeeSet ? ` · ${g.teeSet}` : ''}
+                    </span>
+                  </span>
+                  <span className="shrink-0 text-right">
+                    <span className="font-bold text-white">
+                      {g.totals.holesPlayed > 0 ? formatToPar(g.totals.toPar - g.totals.strokesReceived) : '—'}
+                    </span>
+                    <span className="ml-2 text-xs text-slate-500">
+                      {g.totals.holesPlayed > 0 ? `${g.totals.gross} gross · thru ${g.totals.holesPlayed}` : 'not started'}
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {matchStatus && currentRound.matchPlay && (
+          <div className="bg-gradient-to-r from-sky-600/20 to-sky-700/20 border border-sky-500/30 rounded-2xl p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-slate-300 mb-1">
+                  Match play ({currentRound.matchPlay.scoring === 'net' ? 'net' : 'gross'})
+                </p>
+                <p className="text-2xl font-bold text-white">
+                  {matchStatus.finished
+                    ? describeMatchResult({ winner: matchStatus.winner, result: matchStatus.resultText ?? matchStatus.statusText })
+                    : matchStatus.statusText}
+                </p>
+                <p className="text-xs text-sky-300 mt-1">
+                  Won {matchStatus.holesWon} • Lost {matchStatus.holesLost} • Halved {matchStatus.holesHalved}
+                  {matchStatus.dormie && ' • Dormie'}
+                </p>
+              </div>
+              <Swords className="w-8 h-8 text-sky-400" />
+            </div>
+            {!matchStatus.finished && currentRound.userScoresByHole[currentHole - 1] == null && (
+              <button
+                onClick={() => toggleConcession(currentHole)}
+                className="mt-3 w-full py-2 rounded-xl text-sm font-medium bg-slate-700 text-slate-200 hover:bg-slate-600 transition"
+              >
+                {currentHoleConcededBy === 'user' ? `Withdraw concession (hole ${currentHole})` : `Concede hole ${currentHole}`}
+              </button>
+            )}
+          </div>
+        )}
+
+        {stableford && currentRound.stableford && (
+          <div className="bg-gradient-to-r from-amber-600/20 to-amber-700/20 border border-amber-500/30 rounded-2xl p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-slate-300 mb-1">
+                  {currentRound.stableford.variant === 'modified' ? 'Modified Stableford' : 'Stableford'} (net)
+                </p>
+                <p className="text-2xl font-bold text-white">
+                  You {stableford.user.total} • AI {stableford.ai.total}
+                </p>
+                <p className="text-xs text-amber-300 mt-1">
+                  {stableford.user.total === stableford.ai.total
+                    ? 'All square on points'
+                    : `${stableford.user.total > stableford.ai.total ? 'You lead' : 'AI leads'} by ${Math.abs(stableford.user.total - stableford.ai.total)}`}
+                </p>
+              </div>
+              <Star className="w-8 h-8 text-amber-400" />
+            </div>
+          </div>
+        )}
+
+        {skins && (
+          <div className="bg-gradient-to-r from-emerald-600/20 to-emerald-700/20 border border-emerald-500/30 rounded-2xl p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-slate-300 mb-1">Skins (net)</p>
+                <p className="text-2xl font-bold text-white">
+                  You {skins.userSkins} • AI {skins.aiSkins}
+                </p>
+                <p className="text-xs text-emerald-300 mt-1">
+                  {skins.carryover > 0
+                    ? `${skins.carryover} skin${skins.carryover === 1 ? '' : 's'} carrying over`
+                    : 'No carryover'}
+                </p>
+              </div>
+              <Coins className="w-8 h-8 text-emerald-400" />
+            </div>
+          </div>
+        )}
+
+        {nassau && currentRound.nassau && (
+          <NassauLedger ledgers={nassau} stake={currentRound.nassau.options.stake} />
+        )}
+
+        {leaderboard && currentRound.tournament && (
+          <TournamentLeaderboard
+            leaderboard={leaderboard}
+            playStyle={currentRound.tournament.options.playStyle}
+            holeCount={holeCount}
+          />
+        )}
+
+        {useMapRound && currentRound.teamScramble && (
+          <div className="bg-slate-800/50 rounded-2xl border border-slate-700 overflow-hidden">
+            <div className="p-4 border-b border-slate-700">
+              <h3 className="font-semibold text-white">Team scramble</h3>
+            </div>
+            <div className="divide-y divide-slate-800">
+              {currentRound.teamScramble.teams.map((team, index) => {
+                const shotsUsed = getTeamShotsUsed(team);
+                const total = getTeamTotal(team);
+                const thru = team.scoresByHole.filter((s) => s != null).length;
+                return (
+                  <div key={team.id} className={`p-4 ${index === 0 ? 'bg-green-600/10' : ''}`}>
+                    <div className="flex items-center justify-between">
+                      <span className={`font-semibold ${index === 0 ? 'text-green-400' : 'text-slate-200'}`}>{team.name}</span>
+                      <span className="text-white font-bold">
+                        {thru > 0 ? total : '—'}
+                        <span className="ml-2 text-xs text-slate-500 font-normal">thru {thru}</span>
+                      </span>
+                    </div>
+                    <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+                      {team.members.map((m) => (
+                        <span key={m.id} className="text-xs text-slate-400">
+                          {m.name}: {shotsUsed[m.id] ?? 0} shots used
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {gameState.settings.isProMode && (
           <div className="bg-gradient-to-r from-amber-600/20 to-amber-700/20 border border-amber-500/30 rounded-2xl p-4">
             <div className="flex items-center justify-between">
@@ -173,6 +364,30 @@ export function ScorecardView() {
                   <th className="text-center py-3 px-3 text-xs font-semibold text-slate-400">Par</th>
                   <th className="text-center py-3 px-3 text-xs font-semibold text-green-400">You</th>
                   <th className="text-center py-3 px-3 text-xs font-semibold text-purple-400">AI</th>
+                  {rosterPlayers.map((p) => {
+                    const teeSet = getRosterPlayerTeeSet(p, currentRound.selectedTeeSet);
+                    return (
+                      <th
+                        key={p.id}
+                        className={`text-center py-3 px-2 text-xs font-semibold ${p.kind === 'ai' ? 'text-purple-300' : 'text-slate-200'}`}
+                        title={`${p.name} · HCP ${formatHandicapDisplay(p.handicap)}${teeSet ? ` · ${teeSet} tees` : ''}`}
+                      >
+                        <span className="block max-w-[4.5rem] mx-auto truncate">{p.name}</span>
+                        {teeSet !== currentRound.selectedTeeSet && (
+                          <span className="block text-[10px] font-normal text-slate-500">{teeSet}</span>
+                        )}
+                      </th>
+                    );
+                  })}
+                  {matchStatus && (
+                    <th className="text-center py-3 px-2 text-xs font-semibold text-sky-400" title="Hole won/lost/halved (* = conceded)">Match</th>
+                  )}
+                  {stableford && (
+                    <th className="text-center py-3 px-2 text-xs font-semibold text-amber-400" title="Net Stableford points (you / AI)">Pts</th>
+                  )}
+                  {skins && (
+                    <th className="text-center py-3 px-2 text-xs font-semibold text-emerald-400" title="Skins won on the hole (= carried over)">Skins</th>
+                  )}
                 </tr>
               </thead>
               <tbody>
@@ -190,6 +405,10 @@ export function ScorecardView() {
                   const aiGetsStroke = useMapRound && strokeIndex != null && strokeIndex <= AI_HANDICAP;
                   const holeSkipped = useMapRound && (playerStrokes === undefined || playerStrokes === null);
                   const statsSkipped = useMapRound && playerStrokes != null && !currentRound.userStatsByHole?.[holeNum - 1];
+                  const matchHole = matchOutcomeByHole.get(holeNum);
+                  const skinsHole = skinsByHole.get(holeNum);
+                  const userPoints = stableford?.user.pointsByHole[holeNum - 1];
+                  const aiPoints = stableford?.ai.pointsByHole[holeNum - 1];
                   const rowHighlight = holeSkipped ? 'bg-amber-950/30' : statsSkipped ? 'bg-amber-950/15' : '';
 
                   return (
@@ -223,7 +442,7 @@ export function ScorecardView() {
                             </span>
                             {useMapRound && currentRound.userStatsByHole?.[holeNum - 1] && (
                               <span className="block text-[10px] text-slate-500 mt-0.5">
-                                FW {currentRound.userStatsByHole[holeNum - 1].fairway ? '✓' : '✗'} GIR {currentRound.userStatsByHole[holeNum - 1].gir ? '✓' : '✗'} Sc {currentRound.userStatsByHole[holeNum - 1].scrambling ? '✓' : '✗'} P{currentRound.userStatsByHole[holeNum - 1].putts}
+                                FW {par < 4 || currentRound.userStatsByHole[holeNum - 1]?.fairway == null ? '—' : currentRound.userStatsByHole[holeNum - 1]?.fairway ? '✓' : '✗'} GIR {currentRound.userStatsByHole[holeNum - 1].gir ? '✓' : '✗'} Sc {currentRound.userStatsByHole[holeNum - 1].scrambling ? '✓' : '✗'} P{currentRound.userStatsByHole[holeNum - 1].putts}
                               </span>
                             )}
                           </div>
@@ -250,6 +469,111 @@ export function ScorecardView() {
                           <span className="text-slate-600">-</span>
                         )}
                       </td>
+                      {rosterPlayers.map((p) => {
+                        const strokes = p.scoresByHole[holeNum - 1];
+                        const holePar = getHoleInfoForCourse(
+                          currentRound.courseName,
+                          holeNum,
+                          getRosterPlayerTeeSet(p, currentRound.selectedTeeSet)
+                        ).par;
+                        if (p.kind === 'human') {
+                          return (
+                            <td key={p.id} className="text-center py-3 px-2">
+                              <select
+                                value={strokes ?? ''}
+                                onChange={(e) => setFriendScore(p.id, holeNum, e.target.value)}
+                                className={`w-12 py-1 rounded bg-slate-800 border border-slate-700 text-center font-bold ${
+                                  strokes != null ? getScoreColor(strokes, holePar) : 'text-slate-500'
+                                }`}
+                                aria-label={`${p.name} hole ${holeNum}`}
+                              >
+                                <option value="">-</option>
+                                {FRIEND_SCORE_OPTIONS.map((n) => (
+                                  <option key={n} value={n}>
+                                    {n}
+                                  </option>
+                                ))}
+                              </select>
+                            </td>
+                          );
+                        }
+                        return (
+                          <td key={p.id} className="text-center py-3 px-2">
+                            {strokes != null ? (
+                              <div>
+                                <span className={`font-bold ${getScoreColor(strokes, holePar)}`}>{strokes}</span>
+                                <span className="block text-xs text-slate-500">{getScoreName(strokes, holePar)}</span>
+                              </div>
+                            ) : (
+                              <span className="text-slate-600">-</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                      {matchStatus && (
+                        <td className="text-center py-3 px-2 text-xs">
+                          {matchHole ? (
+                            <div>
+                              <span
+                                className={`font-bold ${
+                                  matchHole.outcome === 'user'
+                                    ? 'text-green-400'
+                                    : matchHole.outcome === 'ai'
+                                      ? 'text-purple-400'
+                                      : 'text-slate-300'
+                                }`}
+                              >
+                                {formatMatchCell(matchHole.outcome, matchHole.conceded)}
+                              </span>
+                              <span className="block text-[10px] text-slate-500">
+                                {matchHole.leadAfter === 0
+                                  ? 'AS'
+                                  : matchHole.leadAfter > 0
+                                    ? `${matchHole.leadAfter} UP`
+                                    : `${-matchHole.leadAfter} DN`}
+                              </span>
+                            </div>
+                          ) : (
+                            <span className="text-slate-600">-</span>
+                          )}
+                        </td>
+                      )}
+                      {stableford && (
+                        <td className="text-center py-3 px-2 text-xs">
+                          {userPoints != null || aiPoints != null ? (
+                            <span className="font-bold">
+                              <span className="text-green-400">{userPoints ?? '-'}</span>
+                              <span className="text-slate-500"> / </span>
+                              <span className="text-purple-400">{aiPoints ?? '-'}</span>
+                            </span>
+                          ) : (
+                            <span className="text-slate-600">-</span>
+                          )}
+                        </td>
+                      )}
+                      {skins && (
+                        <td className="text-center py-3 px-2 text-xs">
+                          {skinsHole ? (
+                            <span
+                              className={`font-bold ${
+                                skinsHole.winner === 'user'
+                                  ? 'text-green-400'
+                                  : skinsHole.winner === 'ai'
+                                    ? 'text-purple-400'
+                                    : 'text-slate-400'
+                              }`}
+                            >
+                              {skinsHole.winner === 'user'
+                                ? `You +${skinsHole.skinsAtStake}`
+                                : skinsHole.winner === 'ai'
+                                  ? `AI +${skinsHole.skinsAtStake}`
+                                  : '='}
+                            </span>
+                          ) : (
+                            <span className="text-slate-600">-</span>
+                          )}
+                        </td>
+                      )}
                     </tr>
                   );
                 })}
@@ -261,14 +585,45 @@ export function ScorecardView() {
                   <td className="text-center py-4 px-3 text-slate-400">{totalPar}</td>
                   <td className="text-center py-4 px-3 text-green-400 text-lg">{playerTotal || '-'}</td>
                   <td className="text-center py-4 px-3 text-purple-400 text-lg">{aiTotal || '-'}</td>
+                  {rosterPlayers.map((p) => (
+                    <td key={p.id} className="text-center py-4 px-2 text-slate-200 text-lg">
+                      {standingsById.get(p.id)?.totals.gross || '-'}
+                    </td>
+                  ))}
+                  {matchStatus && (
+                    <td className="text-center py-4 px-2 text-sky-400 text-sm">{matchStatus.statusText}</td>
+                  )}
+                  {stableford && (
+                    <td className="text-center py-4 px-2 text-amber-400 text-sm">
+                      {stableford.user.total} / {stableford.ai.total}
+                    </td>
+                  )}
+                  {skins && (
+                    <td className="text-center py-4 px-2 text-emerald-400 text-sm">
+                      {skins.userSkins} / {skins.aiSkins}
+                    </td>
+                  )}
                 </tr>
-                {useMapRound && aiStrokesReceived > 0 && (
+                {useMapRound && (aiStrokesReceived > 0 || rosterPlayers.length > 0) && (
                   <tr className="bg-slate-800/60 text-slate-300">
-                    <td className="py-2 px-4 text-slate-400 text-sm">Net (HCP {AI_HANDICAP})</td>
+                    <td className="py-2 px-4 text-slate-400 text-sm">
+                      {aiStrokesReceived > 0 ? `Net (HCP ${AI_HANDICAP})` : 'Net'}
+                    </td>
                     {useMapRound && <td className="py-2 px-2" />}
                     <td className="py-2 px-3" />
                     <td className="text-center py-2 px-3 text-slate-500 text-sm">—</td>
-                    <td className="text-center py-2 px-3 text-purple-300 text-sm">{aiNet}</td>
+                    <td className="text-center py-2 px-3 text-purple-300 text-sm">{aiStrokesReceived > 0 ? aiNet : '—'}</td>
+                    {rosterPlayers.map((p) => {
+                      const totals = standingsById.get(p.id)?.totals;
+                      return (
+                        <td key={p.id} className="text-center py-2 px-2 text-slate-300 text-sm">
+                          {totals && totals.holesPlayed > 0 ? totals.net : '—'}
+                        </td>
+                      );
+                    })}
+                    {matchStatus && <td className="py-2 px-2" />}
+                    {stableford && <td className="py-2 px-2" />}
+                    {skins && <td className="py-2 px-2" />}
                   </tr>
                 )}
               </tfoot>
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Users } from 'lucide-react';
+import { useCurrentRound } from '../context/CurrentRoundContext';
+import { getAIHoleSetup } from '../utils/aiHoleSetup';
+import { calculateHaversineDistance } from '../utils/haversine';
+import { createSeededRng, deriveSeed } from '../utils/rng';
+import {
+  applyScrambleShot,
+  markedCandidate,
+  playOpposingTeamsHole,
+  recordTeamHole,
+  simulateScrambleShot,
+  startScrambleHole,
+} from '../utils/teamScramble';
+import type { ScrambleCandidate } from '../types/teamScramble';
+
+type LatLng = { lat: number; lng: number };
+
+interface ScramblePanelProps {
+  holeNumber: number;
+  /** Device GPS position (where the user is standing at their ball). */
+  gpsPosition: LatLng | null;
+  /** Point tapped on the map; used to mark a ball without walking to it. */
+  mapPosition: LatLng | null;
+  /** Called with the team score when the team holes out. */
+  onHoleComplete: (teamScore: number) => void;
+}
+
+interface BallMark {
+  position: LatLng | null;
+  holed: boolean;
+}
+
+/**
+ * Team scramble play for the user's team: mark each human's ball (GPS or map pin), AI partner shots are
+ * simulated, the best ball is chosen and everyone plays from there. Opposing AI teams play the hole when
+ * the user's team holes out.
+ */
+export function ScramblePanel({ holeNumber, gpsPosition, mapPosition, onHoleComplete }: ScramblePanelProps) {
+  const { round, setRound } = useCurrentRound();
+  const [marks, setMarks] = useState<Record<string, BallMark>>({});
+  const scramble = round.teamScramble;
+  const setup = getAIHoleSetup(round.courseName, holeNumber, round.selectedTeeSet);
+  if (!scramble || !setup) return null;
+  const team = scramble.teams[0];
+  if (!team || team.scoresByHole[holeNumber - 1] != null) return null;
+
+  const green = setup.teeGreen.green;
+  const hole = scramble.hole?.holeNumber === holeNumber ? scramble.hole : startScrambleHole(holeNumber, setup.teeGreen.tee);
+  const humans = team.members.filter((m) => m.kind === 'human');
+  const allMarked = humans.every((m) => marks[m.id]?.holed || marks[m.id]?.position != null);
+  const yardsToPin = Math.round(calculateHaversineDistance(hole.position, green) * 1.09361);
+  const lastChosen = team.members.find((m) => m.id === hole.lastChosenMemberId);
+
+  const setMark = (memberId: string, mark: Partial<BallMark>) => {
+    setMarks((prev) => {
+      const current: BallMark = prev[memberId] ?? { position: null, holed: false };
+      return { ...prev, [memberId]: { ...current, ...mark } };
+    });
+  };
+
+  const handlePlayShot = () => {
+    const rng = createSeededRng(deriveSeed(deriveSeed(round.seed ?? 0, 3000 + holeNumber), hole.strokes));
+    const candidates: ScrambleCandidate[] = team.members.map((m) => {
+      if (m.kind === 'ai') return simulateScrambleShot(m, hole, setup, rng);
+      const mark = marks[m.id];
+      return markedCandidate(m.id, mark?.position ?? hole.position, mark?.holed ?? false, green, setup.holeFeatures, round.courseName);
+    });
+    const next = applyScrambleShot(hole, candidates, green, setup.holeFeatures, setup.par);
+    setMarks({});
+    if (!next.holed) {
+      setRound({ teamScramble: { ...scramble, hole: next } });
+      return;
+    }
+    const teams = playOpposingTeamsHole(
+      [recordTeamHole(team, next), ...scramble.teams.slice(1)],
+      round.courseName,
+      holeNumber,
+      round.selectedTeeSet,
+      round.seed ?? 0
+    );
+    setRound({ teamScramble: { ...scramble, teams, hole: null } });
+    onHoleComplete(next.strokes);
+  };
+
+  return (
+    <div className="bg-slate-800/98 backdrop-blur-sm rounded-xl p-3 border border-slate-600 shadow-xl space-y-2">
+      <div className="flex items-center gap-2">
+        <Users className="w-4 h-4 text-green-400" />
+        <p className="text-xs font-semibold text-slate-300 uppercase tracking-wide">
+          Scramble · Shot {hole.strokes + 1} · {yardsToPin} yds
+        </p>
+      </div>
+      {lastChosen && (
+        <p className="text-[10px] text-slate-400">Playing from {lastChosen.name}&apos;s ball</p>
+      )}
+      {hole.strokes > 0 && !lastChosen && (
+        <p className="text-[10px] text-amber-400">All balls penalized — replaying from the same spot (+2)</p>
+      )}
+      {humans.map((m) => {
+        const mark = marks[m.id];
+        return (
+          <div key={m.id} className="flex items-center justify-between gap-2">
+            <span className="text-xs text-slate-300 truncate">
+              {m.name}
+              {mark?.holed ? ' · holed' : mark?.position ? ' · marked' : ''}
+            </span>
+            <div className="flex items-center gap-1.5">
+              <button
+                type="button"
+                disabled={!gpsPosition}
+                onClick={() => gpsPosition && setMark(m.id, { position: gpsPosition, holed: false })}
+                className="px-2 py-1 rounded text-xs font-medium bg-slate-700 text-slate-300 disabled:text-slate-500"
+              >
+                GPS
+              </button>
+              <button
+                type="button"
+                disabled={!mapPosition}
+                onClick={() => mapPosition && setMark(m.id, { position: mapPosition, holed: false })}
+                className="px-2 py-1 rounded text-xs font-medium bg-slate-700 text-slate-300 disabled:text-slate-500"
+              >
+                Map pin
+              </button>
+              <button
+                type="button"
+                onClick={() => setMark(m.id, { holed: !mark?.holed })}
+                className={`px-2 py-1 rounded text-xs font-medium ${mark?.holed ? 'bg-green-600 text-white' : 'bg-slate-700 text-slate-300'}`}
+              >
+                Holed
+              </button>
+            </div>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={handlePlayShot}
+        disabled={!allMarked}
+        className="w-full py-2 rounded-lg bg-green-600 hover:bg-green-500 disabled:bg-slate-600 disabled:text-slate-500 text-white font-semibold text-sm transition"
+      >
+        Pick best ball
+      </button>
+    </div>
+  );
+}
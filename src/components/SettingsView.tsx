@@ -5,6 +5,7 @@ import {
   AI_CHARACTER_NAMES,
   formatHandicapDisplay,
 } from '../data/clubDistancesByHandicap';
+import { COURSE_FIRMNESS_OPTIONS } from '../engine/RollModel';
 import { Settings, Crown, Wind, TrendingUp, RotateCcw, Info, Home } from 'lucide-react';
 
 interface SettingsViewProps {
@@ -12,7 +13,8 @@ interface SettingsViewProps {
 }
 
 export function SettingsView({ onEndRound }: SettingsViewProps) {
-  const { gameState, setAiProfile, toggleProMode, resetGame } = useGolfGame();
+  const { gameState, setAiProfile, toggleProMode, setFirmness, setAirConditions, resetGame } = useGolfGame();
+  const { altitudeFeet, temperatureF } = gameState.settings;
   const { round } = useCurrentRound();
   const roundInProgress = Boolean(round.courseName);
   const isEW2K = gameState.aiProfile === 'EW 2K';
@@ -147,6 +149,63 @@ export function SettingsView({ onEndRound }: SettingsViewProps) {
           </div>
         </div>
 
+        <div className="bg-slate-800/50 rounded-2xl border border-slate-700 p-4">
+          <h3 className="font-semibold text-white mb-1">Course Firmness</h3>
+          <p className="text-xs text-slate-400 mb-3">How far shots roll out after landing</p>
+          <div className="flex gap-2">
+            {COURSE_FIRMNESS_OPTIONS.map((firmness) => (
+              <button
+                key={firmness}
+                onClick={() => setFirmness(firmness)}
+                className={`flex-1 px-3 py-2 rounded-lg border text-sm font-medium capitalize transition ${
+                  gameState.settings.firmness === firmness
+                    ? 'bg-green-600/30 border-green-500 text-white'
+                    : 'bg-slate-700/50 border-slate-600 text-slate-300 hover:border-slate-500'
+                }`}
+              >
+                {firmness}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-slate-800/50 rounded-2xl border border-slate-700 p-4">
+          <h3 className="font-semibold text-white mb-1">Air Conditions</h3>
+          <p className="text-xs text-slate-400 mb-3">Thin, warm air carries the ball farther</p>
+          <div className="space-y-3">
+            <label className="block">
+              <div className="flex justify-between text-sm mb-1">
+                <span className="text-slate-300">Altitude</span>
+                <span className="text-white font-semibold">{altitudeFeet.toLocaleString()} ft</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="8000"
+                step="250"
+                value={altitudeFeet}
+                onChange={(e) => setAirConditions(Number(e.target.value), temperatureF)}
+                className="w-full accent-green-500"
+              />
+            </label>
+            <label className="block">
+              <div className="flex justify-between text-sm mb-1">
+                <span className="text-slate-300">Temperature</span>
+                <span className="text-white font-semibold">{temperatureF}°F</span>
+              </div>
+              <input
+                type="range"
+                min="30"
+                max="110"
+                step="1"
+                value={temperatureF}
+                onChange={(e) => setAirConditions(altitudeFeet, Number(e.target.value))}
+                className="w-full accent-green-500"
+              />
+            </label>
+          </div>
+        </div>
+
         <div className="bg-slate-800/50 rounded-2xl border border-slate-700 p-4">
           <h3 className="font-semibold text-white mb-3">Game Info</h3>
           <div className="space-y-2">
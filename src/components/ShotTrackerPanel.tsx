@@ -0,0 +1,288 @@
+import { useState } from 'react';
+import { Crosshair, Undo2 } from 'lucide-react';
+import { useCurrentRound } from '../context/CurrentRoundContext';
+import { getAIHoleSetup } from '../utils/aiHoleSetup';
+import { calculateHaversineDistance } from '../utils/haversine';
+import { deriveUserHoleStats, getUserHoleScore } from '../utils/deriveUserHoleStats';
+import { getHoleStrokesGained, getUserShotsStrokesGained } from '../utils/strokesGained';
+import { getTrackedFreeRelief, getTrackedShotRelief } from '../utils/userRelief';
+import { getLieFromPosition } from '../data/lincolnParkCourse';
+import { HACKMOTION_DISTANCES_BY_HANDICAP } from '../data/clubDistancesByHandicap';
+import type { UserHoleStats } from '../types/holeStats';
+import type { UserHoleShots, UserShot, UserShotLie, UserShotPenalty } from '../types/userShots';
+import type { ReliefOption } from '../engine/ReliefEngine';
+import { isSurfaceLie, SURFACE_LIE_EFFECTS } from '../engine/SurfaceLies';
+
+type LatLng = { lat: number; lng: number };
+
+const CLUB_OPTIONS = Object.keys(HACKMOTION_DISTANCES_BY_HANDICAP[15]);
+
+const PENALTY_OPTIONS: { value: UserShotPenalty; label: string }[] = [
+  { value: 'water', label: 'Water' },
+  { value: 'ob', label: 'OB' },
+  { value: 'unplayable', label: 'Unplayable' },
+];
+
+/** Shot chip label: drawn surfaces by name ("Cart path"), base lies as stored. */
+function lieLabel(lie: UserShotLie): string {
+  return isSurfaceLie(lie) ? SURFACE_LIE_EFFECTS[lie].label : lie;
+}
+
+interface ShotTrackerPanelProps {
+  holeNumber: number;
+  /** Device GPS position from watchPosition (where the user is standing at their ball). */
+  gpsPosition: LatLng | null;
+  /** Point tapped on the map; used to mark a ball without walking to it. */
+  mapPosition: LatLng | null;
+  /** Called with the score and derived stats when the user holes out. */
+  onHoleComplete: (score: number, stats: UserHoleStats) => void;
+}
+
+/**
+ * Shot-by-shot tracking for the user's ball: mark each shot where it is played from (GPS or map pin), pick the
+ * club, lie is detected from the hole features, add penalties and putts. After water, OB or unplayable the legal
+ * relief options are listed from where the ball is marked on the map, the best by expected score flagged, and the
+ * next shot can be played from the chosen drop. A ball marked on a cart path or ground under repair gets a free drop
+ * instead. Shots are kept on the round per hole;
+ * fairway/GIR/scrambling/putts are derived when the ball is holed.
+ */
+export function ShotTrackerPanel({ holeNumber, gpsPosition, mapPosition, onHoleComplete }: ShotTrackerPanelProps) {
+  const { round, setRound } = useCurrentRound();
+  const [club, setClub] = useState<string>('driver');
+  const hole: UserHoleShots = round.userShotsByHole?.[holeNumber - 1] ?? { shots: [], holed: false };
+  const [expanded, setExpanded] = useState(false);
+  const setup = getAIHoleSetup(round.courseName, holeNumber, round.selectedTeeSet);
+  if (!setup || hole.holed) return null;
+
+  const { tee, green } = setup.teeGreen;
+  const lastShot = hole.shots[hole.shots.length - 1];
+  const lastPosition = [...hole.shots].reverse().find((s) => s.position != null)?.position ?? null;
+  const yardsToPin = Math.round(calculateHaversineDistance(lastPosition ?? tee, green) * 1.09361);
+  const relief = getTrackedShotRelief(round.courseName, holeNumber, setup, hole, mapPosition ?? gpsPosition);
+  const freeRelief =
+    hole.shots.length > 0 && !lastShot?.dropPosition
+      ? getTrackedFreeRelief(round.courseName, holeNumber, setup, mapPosition ?? gpsPosition)
+      : null;
+
+  const saveHole = (next: UserHoleShots) => {
+    const existing = round.userShotsByHole ?? [];
+    const byHole = [...existing];
+    byHole[holeNumber - 1] = next;
+    setRound({ userShotsByHole: byHole });
+  };
+
+  const detectLie = (position: LatLng): UserShotLie =>
+    setup.holeFeatures ? getLieFromPosition(position, setup.holeFeatures) : 'fairway';
+
+  const addShot = (position: LatLng | null, lie: UserShotLie, shotClub: string | null) => {
+    const shot: UserShot = { shotNumber: hole.shots.length + 1, position, club: shotClub, lie, penaltyStrokes: 0 };
+    saveHole({ ...hole, shots: [...hole.shots, shot] });
+  };
+
+  const setPenalty = (penalty: UserShotPenalty) => {
+    if (!lastShot) return;
+    const removing = lastShot.penalty === penalty;
+    const updated: UserShot = removing
+      ? { ...lastShot, penalty: undefined, penaltyStrokes: 0, relief: undefined, dropPosition: undefined }
+      : { ...lastShot, penalty, penaltyStrokes: 1, relief: undefined, dropPosition: undefined };
+    saveHole({ ...hole, shots: [...hole.shots.slice(0, -1), updated] });
+  };
+
+  const takeRelief = (option: ReliefOption) => {
+    if (!lastShot) return;
+    const updated: UserShot = {
+      ...lastShot,
+      penaltyStrokes: option.penaltyStrokes,
+      relief: option.kind,
+      dropPosition: option.dropPosition,
+    };
+    saveHole({ ...hole, shots: [...hole.shots.slice(0, -1), updated] });
+  };
+
+  const playFromDrop = (shot: UserShot, drop: LatLng) =>
+    addShot(drop, shot.relief === 'stroke-and-distance' ? shot.lie : detectLie(drop), club);
+
+  const handleHoled = () => {
+    const finished: UserHoleShots = { ...hole, holed: true };
+    const byHole = [...(round.userShotsByHole ?? [])];
+    byHole[holeNumber - 1] = finished;
+    const sgByHole = [...(round.userStrokesGainedByHole ?? [])];
+    sgByHole[holeNumber - 1] = getHoleStrokesGained(getUserShotsStrokesGained(finished, setup.par, green));
+    setRound({ userShotsByHole: byHole, userStrokesGainedByHole: sgByHole });
+    onHoleComplete(getUserHoleScore(finished), deriveUserHoleStats(finished, setup.par, tee, green));
+  };
+
+  if (!expanded && hole.shots.length === 0) {
+    return (
+      <button
+        type="button"
+        onClick={() => setExpanded(true)}
+        className="w-full py-2 rounded-lg bg-slate-800/95 border border-slate-600 text-slate-300 text-xs font-semibold flex items-center justify-center gap-1.5"
+      >
+        <Crosshair className="w-3.5 h-3.5 text-green-400" />
+        Track shots
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800/98 backdrop-blur-sm rounded-xl p-3 border border-slate-600 shadow-xl space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Crosshair className="w-4 h-4 text-green-400" />
+          <p className="text-xs font-semibold text-slate-300 uppercase tracking-wide">
+            Shot {hole.shots.length + 1} · {yardsToPin} yds
+          </p>
+        </div>
+        <span className="text-xs text-slate-400">Strokes {getUserHoleScore(hole)}</span>
+      </div>
+
+      {hole.shots.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {hole.shots.map((s) => (
+            <span key={s.shotNumber} className="px-1.5 py-0.5 rounded bg-slate-700 text-[10px] text-slate-300">
+              {s.shotNumber}. {s.club ?? '—'} · {lieLabel(s.lie)}
+              {s.penalty ? ` +${s.penaltyStrokes} ${s.penalty}` : ''}
+              {s.relief ? ` (${s.relief})` : ''}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <select
+          value={club}
+          onChange={(e) => setClub(e.target.value)}
+          className="flex-1 rounded bg-slate-700 border border-slate-600 px-2 py-1 text-white text-xs"
+        >
+          {CLUB_OPTIONS.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        {hole.shots.length === 0 ? (
+          <button
+            type="button"
+            onClick={() => addShot(tee, 'tee', club)}
+            className="px-2 py-1 rounded text-xs font-medium bg-green-600 text-white"
+          >
+            Tee shot
+          </button>
+        ) : lastShot?.dropPosition ? (
+          <button
+            type="button"
+            onClick={() => lastShot.dropPosition && playFromDrop(lastShot, lastShot.dropPosition)}
+            className="px-2 py-1 rounded text-xs font-medium bg-amber-600 text-white"
+          >
+            From drop
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              disabled={!gpsPosition}
+              onClick={() => gpsPosition && addShot(gpsPosition, detectLie(gpsPosition), club)}
+              className="px-2 py-1 rounded text-xs font-medium bg-slate-700 text-slate-300 disabled:text-slate-500"
+            >
+              Mark ball
+            </button>
+            <button
+              type="button"
+              disabled={!mapPosition}
+              onClick={() => mapPosition && addShot(mapPosition, detectLie(mapPosition), club)}
+              className="px-2 py-1 rounded text-xs font-medium bg-slate-700 text-slate-300 disabled:text-slate-500"
+            >
+              Map pin
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          disabled={hole.shots.length === 0}
+          onClick={() => addShot(null, 'green', 'putter')}
+          className="px-2 py-1 rounded text-xs font-medium bg-slate-700 text-slate-300 disabled:text-slate-500"
+        >
+          Putt
+        </button>
+      </div>
+
+      {lastShot && (
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] text-slate-500 mr-1">Shot {lastShot.shotNumber} penalty</span>
+          {PENALTY_OPTIONS.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setPenalty(value)}
+              className={`px-2 py-0.5 rounded text-[10px] font-medium ${
+                lastShot.penalty === value ? 'bg-amber-600 text-white' : 'bg-slate-700 text-slate-400'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {relief && (
+        <div className="space-y-1">
+          <p className="text-[10px] text-slate-500">
+            Relief measured from the map pin — tap where the ball {relief.shot.penalty === 'unplayable' ? 'lies' : 'ended'}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {relief.options.map((option) => (
+              <button
+                key={option.kind}
+                type="button"
+                onClick={() => takeRelief(option)}
+                className={`px-2 py-0.5 rounded text-[10px] font-medium ${
+                  option === relief.best ? 'bg-amber-600 text-white' : 'bg-slate-700 text-slate-300'
+                }`}
+              >
+                {option.label} +{option.penaltyStrokes} ·{' '}
+                {Math.round(calculateHaversineDistance(option.dropPosition, green) * 1.09361)} yds
+                {option === relief.best ? ' · best' : ''}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {freeRelief && (
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] text-slate-500">
+            {SURFACE_LIE_EFFECTS[freeRelief.surface].label} — free relief, no penalty
+          </span>
+          <button
+            type="button"
+            onClick={() => addShot(freeRelief.dropPosition, detectLie(freeRelief.dropPosition), club)}
+            className="px-2 py-0.5 rounded text-[10px] font-medium bg-amber-600 text-white"
+          >
+            From free drop · {Math.round(calculateHaversineDistance(freeRelief.dropPosition, green) * 1.09361)} yds
+          </button>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          disabled={hole.shots.length === 0}
+          onClick={() => saveHole({ ...hole, shots: hole.shots.slice(0, -1) })}
+          className="px-3 py-2 rounded-lg bg-slate-700 text-slate-300 disabled:text-slate-500 text-sm"
+          aria-label="Undo last shot"
+        >
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          disabled={hole.shots.length === 0}
+          onClick={handleHoled}
+          className="flex-1 py-2 rounded-lg bg-green-600 hover:bg-green-500 disabled:bg-slate-600 disabled:text-slate-500 text-white font-semibold text-sm transition"
+        >
+          Holed
+        </button>
+      </div>
+    </div>
+  );
+}
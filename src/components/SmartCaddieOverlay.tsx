@@ -1,11 +1,16 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Polygon, Marker, useMapEvents } from 'react-leaflet';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Polygon, Marker, Circle, useMapEvents } from 'react-leaflet';
 import { Icon, LatLngExpression, DragEndEvent, LeafletMouseEvent } from 'leaflet';
 import { Target, AlertTriangle, CheckCircle, TrendingUp } from 'lucide-react';
 import { GeoCoordinate } from '../types/courseData';
-import { ClubStats, HazardRisk, Hazard } from '../types/smartCaddie';
-import { useDispersion, useMonteCarloDispersion } from '../hooks/useDispersion';
+import { ClubStats, HazardRisk, Hazard, OptimalTargetResult, TargetCandidate } from '../types/smartCaddie';
+import { useBagClubStats, useDispersion, useMonteCarloDispersion } from '../hooks/useDispersion';
 import { HazardService } from '../services/hazardService';
+import { useGolfGame } from '../context/GolfGameContext';
+import { getPlaysAsYards } from '../utils/yardageConditions';
+import { describeAimOffset } from '../utils/targetOptimizer';
+import { bagClubToClubStats } from '../utils/myBag';
+import { useMyBag } from '../hooks/useMyBag';
 
 interface SmartCaddieOverlayProps {
   currentPosition: GeoCoordinate;
@@ -13,9 +18,24 @@ interface SmartCaddieOverlayProps {
   initialTarget?: GeoCoordinate;
   onTargetChange?: (target: GeoCoordinate) => void;
   onRiskUpdate?: (risk: HazardRisk) => void;
+  /** Re-pick the club from the user's bag for the target's "plays as" distance whenever the target moves. */
+  clubFromBag?: boolean;
+  /** Called when clubFromBag picks a different club. */
+  onClubChange?: (club: ClubStats) => void;
+  /** Target optimizer result (see useOptimalTarget): drawn as a heatmap of aim points; tap one to aim there. */
+  optimalTarget?: OptimalTargetResult | null;
+  /** Course whose DEM (if imported) gives the real slope to the target for "plays as". */
+  courseName?: string;
   enabled: boolean;
 }
 
+/** Heatmap colour by expected strokes above the best candidate: green (best) → amber → red (+0.5 or worse). */
+function heatmapColor(candidate: TargetCandidate, best: TargetCandidate): string {
+  const t = Math.min(1, (candidate.expectedStrokes - best.expectedStrokes) / 0.5);
+  const hue = Math.round(140 * (1 - t));
+  return `hsl(${hue}, 80%, 50%)`;
+}
+
 const targetIcon = new Icon({
   iconUrl: 'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-gold.png',
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
@@ -35,6 +55,7 @@ const targetIcon = new Icon({
  * - Real-time risk calculation via OSM hazard data
  * - Color-coded risk visualization (Green = Low, Orange = Medium, Red = High)
  * - Pulse animation for high-risk shots
+ * - Optional club choice from the user's bag for the "plays as" distance to the target
  */
 export function SmartCaddieOverlay({
   currentPosition,
@@ -42,6 +63,10 @@ export function SmartCaddieOverlay({
   initialTarget,
   onTargetChange,
   onRiskUpdate,
+  clubFromBag = false,
+  onClubChange,
+  optimalTarget,
+  courseName,
   enabled,
 }: SmartCaddieOverlayProps) {
   const [targetPoint, setTargetPoint] = useState<GeoCoordinate>(
@@ -51,9 +76,30 @@ export function SmartCaddieOverlay({
   const [riskAssessment, setRiskAssessment] = useState<HazardRisk | null>(null);
   const [isLoadingHazards, setIsLoadingHazards] = useState(false);
 
-  const dispersionData = useDispersion(selectedClub, currentPosition, targetPoint);
+  /** Heatmap candidate the user aimed at; its club is used instead of the distance-based pick until they re-aim. */
+  const [aimedCandidate, setAimedCandidate] = useState<TargetCandidate | null>(null);
+
+  const { gameState } = useGolfGame();
+  const bag = useMyBag();
+  const playsAsYards =
+    clubFromBag && !aimedCandidate
+      ? getPlaysAsYards(currentPosition, targetPoint, gameState.settings, undefined, courseName)
+      : null;
+  const { clubStats: recommendedClub } = useBagClubStats(playsAsYards);
+  const candidateClub = useMemo(() => {
+    const club = aimedCandidate && bag.clubs.find((c) => c.key === aimedCandidate.clubKey);
+    return club ? bagClubToClubStats(club) : null;
+  }, [aimedCandidate, bag]);
+  const bagClub = candidateClub ?? recommendedClub;
+  const club = (clubFromBag && bagClub) || selectedClub;
+
+  useEffect(() => {
+    if (clubFromBag && bagClub && onClubChange) onClubChange(bagClub);
+  }, [clubFromBag, bagClub, onClubChange]);
+
+  const dispersionData = useDispersion(club, currentPosition, targetPoint);
   const monteCarloPoints = useMonteCarloDispersion(
-    selectedClub,
+    club,
     currentPosition,
     targetPoint,
     100
@@ -95,6 +141,7 @@ export function SmartCaddieOverlay({
         lat: newLatLng.lat,
         lng: newLatLng.lng,
       };
+      setAimedCandidate(null);
       setTargetPoint(newTarget);
 
       if (onTargetChange) {
@@ -104,6 +151,17 @@ export function SmartCaddieOverlay({
     [onTargetChange]
   );
 
+  const aimAt = useCallback(
+    (candidate: TargetCandidate) => {
+      setAimedCandidate(candidate);
+      setTargetPoint(candidate.aimPoint);
+      if (onTargetChange) {
+        onTargetChange(candidate.aimPoint);
+      }
+    },
+    [onTargetChange]
+  );
+
   useMapEvents({
     click: (e: LeafletMouseEvent) => {
       if (enabled && e.originalEvent.shiftKey) {
@@ -111,6 +169,7 @@ export function SmartCaddieOverlay({
           lat: e.latlng.lat,
           lng: e.latlng.lng,
         };
+        setAimedCandidate(null);
         setTargetPoint(newTarget);
 
         if (onTargetChange) {
@@ -148,6 +207,25 @@ export function SmartCaddieOverlay({
 
   return (
     <>
+      {optimalTarget?.candidates.map((candidate, i) => {
+        const isBest = candidate === optimalTarget.best;
+        const color = heatmapColor(candidate, optimalTarget.best);
+        return (
+          <Circle
+            key={i}
+            center={[candidate.aimPoint.lat, candidate.aimPoint.lng]}
+            radius={isBest ? 5 : 3}
+            pathOptions={{
+              color: isBest ? '#ffffff' : color,
+              fillColor: color,
+              fillOpacity: 0.7,
+              weight: isBest ? 3 : 1,
+            }}
+            eventHandlers={{ click: () => aimAt(candidate) }}
+          />
+        );
+      })}
+
       <Polygon
         positions={polygonPositions}
         pathOptions={{
@@ -190,6 +268,10 @@ interface SmartCaddieSummaryCardProps {
   selectedClub: ClubStats;
   riskAssessment: HazardRisk | null;
   distanceToTarget: number;
+  /** "Plays as" yards the club was picked for (wind/slope adjusted); shown under the club when set. */
+  playsAsYards?: number;
+  /** Target optimizer result; the best aim point is summarized here. */
+  optimalTarget?: OptimalTargetResult | null;
   isLoading?: boolean;
 }
 
@@ -201,6 +283,8 @@ export function SmartCaddieSummaryCard({
   selectedClub,
   riskAssessment,
   distanceToTarget,
+  playsAsYards,
+  optimalTarget,
   isLoading,
 }: SmartCaddieSummaryCardProps) {
   const getRiskIcon = () => {
@@ -242,11 +326,32 @@ export function SmartCaddieSummaryCard({
               {Math.round(selectedClub.meanDistance * 1.09361)}y carry • ±
               {Math.round(selectedClub.standardDeviation * 1.09361)}y
             </p>
+            {playsAsYards != null && (
+              <p className="text-xs text-slate-400">
+                {Math.round(distanceToTarget * 1.09361)}y · plays as{' '}
+                <span className="text-green-400 font-semibold">{playsAsYards}y</span>
+              </p>
+            )}
           </div>
         </div>
         {getRiskIcon()}
       </div>
 
+      {optimalTarget && (
+        <div className="mb-3 p-2 rounded-lg bg-slate-900/50 border border-slate-700">
+          <p className="text-xs text-slate-300">
+            Best: <span className="font-semibold text-white">{optimalTarget.best.clubName}</span>,{' '}
+            {describeAimOffset(optimalTarget.best.lateralOffsetYards)}
+          </p>
+          <p className="text-xs text-slate-400 mt-1">
+            {optimalTarget.best.expectedStrokes.toFixed(2)} expected strokes to hole out
+            {optimalTarget.best.waterProbability > 0 && ` · ${Math.round(optimalTarget.best.waterProbability * 100)}% water`}
+            {' · '}
+            {Math.round(optimalTarget.best.greenProbability * 100)}% green
+          </p>
+        </div>
+      )}
+
       {isLoading ? (
         <div className="flex items-center gap-2 text-xs text-slate-400">
           <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-slate-400"></div>
@@ -291,7 +396,7 @@ export function SmartCaddieSummaryCard({
 
       <div className="mt-3 pt-3 border-t border-slate-700">
         <p className="text-xs text-slate-500">
-          💡 Shift+Click map or drag target to adjust aim
+          💡 Shift+Click map or drag target to adjust aim{optimalTarget ? '; tap a heatmap dot (best is ringed) to aim there' : ''}
         </p>
       </div>
     </div>
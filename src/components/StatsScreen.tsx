@@ -1,7 +1,20 @@
 import { useState, useMemo } from 'react';
 import { ChevronLeft } from 'lucide-react';
 import type { StatsPeriod } from '../types/roundHistory';
-import { getAggregatedStatsForPeriod } from '../services/roundHistoryStore';
+import {
+  getAggregatedStatsForPeriod,
+  getHandicapIndex,
+  getNassauRecords,
+  getRosterRecords,
+  getStrokesGainedForPeriod,
+} from '../services/roundHistoryStore';
+import { getCourseHoleCount } from '../services/courseBounds';
+import { COURSES } from '../data/courses';
+import { formatHandicapIndex, getCourseHandicapForTee } from '../utils/whsHandicap';
+import { formatHandicapDisplay } from '../data/clubDistancesByHandicap';
+import { formatNassauAmount } from '../utils/nassau';
+import { formatStrokesGained } from '../utils/strokesGained';
+import type { StrokesGainedCategory } from '../types/strokesGained';
 
 const PERIOD_LABELS: Record<StatsPeriod, string> = {
   round: 'Last round',
@@ -14,6 +27,17 @@ const PERIOD_LABELS: Record<StatsPeriod, string> = {
 
 const PERIOD_ORDER: StatsPeriod[] = ['round', 'week', 'month', 'quarter', '6months', 'year'];
 
+const SG_ROWS: { key: StrokesGainedCategory | 'total'; label: string }[] = [
+  { key: 'ott', label: 'Off the tee' },
+  { key: 'app', label: 'Approach' },
+  { key: 'arg', label: 'Around the green' },
+  { key: 'putt', label: 'Putting' },
+  { key: 'total', label: 'Total' },
+];
+
+/** Courses with rated tee sets, for the course handicap lookup. */
+const RATED_COURSES = COURSES.filter((c) => (c.teeSets?.length ?? 0) > 0);
+
 interface StatsScreenProps {
   onBackToHome: () => void;
 }
@@ -22,6 +46,19 @@ export function StatsScreen({ onBackToHome }: StatsScreenProps) {
   const [period, setPeriod] = useState<StatsPeriod>('month');
 
   const stats = useMemo(() => getAggregatedStatsForPeriod(period), [period]);
+  const nassauRecords = useMemo(() => getNassauRecords(), []);
+  const partnerRecords = useMemo(() => getRosterRecords(), []);
+  const handicap = useMemo(() => getHandicapIndex(), []);
+  const strokesGained = useMemo(() => getStrokesGainedForPeriod(period), [period]);
+  /** AI profile to compare strokes gained against ('' = every AI round in the period). */
+  const [sgProfileKey, setSgProfileKey] = useState('');
+  const sgAI =
+    strokesGained.byAIProfile.find((p) => String(p.aiProfile) === sgProfileKey)?.summary ?? strokesGained.ai;
+  const countingRoundIds = new Set(handicap.countingRoundIds);
+  const [handicapCourseName, setHandicapCourseName] = useState(
+    () => handicap.differentials[0]?.courseName ?? RATED_COURSES[0]?.name ?? ''
+  );
+  const handicapCourse = RATED_COURSES.find((c) => c.name === handicapCourseName) ?? RATED_COURSES[0];
 
   const fairwayPct =
     stats.fairwaysPossible > 0
@@ -52,6 +89,94 @@ export function StatsScreen({ onBackToHome }: StatsScreenProps) {
           Historical stats across all rounds, handicaps, and characters.
         </p>
 
+        <section className="mb-6 rounded-2xl bg-slate-800/50 border border-slate-700 p-4">
+          <h2 className="text-sm font-semibold text-slate-300 mb-3">Handicap index (WHS)</h2>
+          {handicap.index == null ? (
+            <p className="text-sm text-slate-400">
+              {handicap.differentials.length} of 3 acceptable scores posted. Finish rounds on rated tees (14+ holes) to
+              establish an index.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <div className="text-2xl font-bold text-white">{formatHandicapIndex(handicap.index)}</div>
+                  <div className="text-xs text-slate-500">
+                    Index{handicap.cap ? ` (${handicap.cap} cap applied)` : ''}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-white">
+                    {handicap.lowIndex != null ? formatHandicapIndex(handicap.lowIndex) : '—'}
+                  </div>
+                  <div className="text-xs text-slate-500">Low index (12 months)</div>
+                </div>
+              </div>
+
+              {handicapCourse && (
+                <div className="mt-4">
+                  <select
+                    value={handicapCourse.name}
+                    onChange={(e) => setHandicapCourseName(e.target.value)}
+                    className="w-full mb-2 px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 text-sm text-slate-200"
+                  >
+                    {RATED_COURSES.map((c) => (
+                      <option key={c.name} value={c.name}>
+                        {c.name}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="flex flex-wrap gap-2">
+                    {(handicapCourse.teeSets ?? []).map((tee, i) => {
+                      const courseHandicap = getCourseHandicapForTee(
+                        handicap.index!,
+                        handicapCourse.name,
+                        i,
+                        getCourseHoleCount(handicapCourse.name) || 18
+                      );
+                      return (
+                        <div key={tee.name} className="px-3 py-2 rounded-xl bg-slate-800 text-center">
+                          <div className="text-lg font-bold text-white">
+                            {courseHandicap != null ? formatHandicapDisplay(courseHandicap) : '—'}
+                          </div>
+                          <div className="text-[10px] text-slate-500">
+                            {tee.name} · {tee.courseRating}/{tee.slopeRating}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <p className="text-[10px] text-slate-500 mt-1">Course handicap by tee (rating/slope)</p>
+                </div>
+              )}
+            </>
+          )}
+
+          {handicap.differentials.length > 0 && (
+            <div className="mt-4 space-y-1">
+              <p className="text-xs text-slate-500 mb-1">
+                Recent scores ({handicap.differentials.length} of 20) — counting scores highlighted
+              </p>
+              {handicap.differentials.map((d) => (
+                <div
+                  key={d.roundId}
+                  className={`flex items-center justify-between text-xs px-2 py-1 rounded ${
+                    countingRoundIds.has(d.roundId) ? 'bg-green-600/15 text-green-300' : 'text-slate-400'
+                  }`}
+                >
+                  <span className="truncate">
+                    {d.date} · {d.courseName}
+                    {d.teeSet ? ` (${d.teeSet})` : ''}
+                  </span>
+                  <span className="shrink-0 ml-2">
+                    {d.adjustedGrossScore} · {d.differential.toFixed(1)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
         <div className="mb-6">
           <label className="block text-xs font-medium text-slate-500 uppercase tracking-wider mb-2">
             Time period
@@ -147,8 +272,144 @@ export function StatsScreen({ onBackToHome }: StatsScreenProps) {
                 </div>
               </div>
             </section>
+
+            {(strokesGained.user || strokesGained.ai) && (
+              <section className="rounded-2xl bg-slate-800/50 border border-slate-700 p-4">
+                <div className="flex items-center justify-between gap-2 mb-3">
+                  <h2 className="text-sm font-semibold text-slate-300">Strokes gained (per 18)</h2>
+                  {strokesGained.byAIProfile.length > 0 && (
+                    <select
+                      value={sgProfileKey}
+                      onChange={(e) => setSgProfileKey(e.target.value)}
+                      className="rounded-lg bg-slate-800 border border-slate-600 px-2 py-1 text-white text-xs"
+                    >
+                      <option value="">All AI</option>
+                      {strokesGained.byAIProfile.map((p) => (
+                        <option key={String(p.aiProfile)} value={String(p.aiProfile)}>
+                          {typeof p.aiProfile === 'number' ? `HCP ${formatHandicapDisplay(p.aiProfile)}` : p.aiProfile}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+                <div className="grid grid-cols-4 gap-2 text-xs text-slate-500 uppercase mb-1">
+                  <span className="col-span-2">vs tour baseline</span>
+                  <span className="text-right">You</span>
+                  <span className="text-right">AI</span>
+                </div>
+                <div className="space-y-1">
+                  {SG_ROWS.map(({ key, label }) => {
+                    const user = strokesGained.user?.[key];
+                    const ai = sgAI?.[key];
+                    return (
+                      <div
+                        key={key}
+                        className={`grid grid-cols-4 gap-2 text-sm ${key === 'total' ? 'border-t border-slate-700 pt-1 font-semibold' : ''}`}
+                      >
+                        <span className="col-span-2 text-slate-300">{label}</span>
+                        <span
+                          className={`text-right ${user != null && ai != null && user > ai ? 'text-green-400' : 'text-white'}`}
+                        >
+                          {user != null ? formatStrokesGained(user) : '—'}
+                        </span>
+                        <span className="text-right text-slate-300">{ai != null ? formatStrokesGained(ai) : '—'}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-[10px] text-slate-500 mt-2">
+                  You: {strokesGained.user?.holes ?? 0} tracked holes · AI: {sgAI?.holes ?? 0} holes
+                </p>
+              </section>
+            )}
+
+            {stats.tournamentsPlayed > 0 && (
+              <section className="rounded-2xl bg-slate-800/50 border border-slate-700 p-4">
+                <h2 className="text-sm font-semibold text-slate-300 mb-3">Tournaments</h2>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <div className="text-2xl font-bold text-white">{stats.tournamentsPlayed}</div>
+                    <div className="text-xs text-slate-500">Events</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-white">{stats.tournamentBestFinish ?? '—'}</div>
+                    <div className="text-xs text-slate-500">Best finish</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-white">{stats.tournamentWins}</div>
+                    <div className="text-xs text-slate-500">Wins</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-white">{stats.tournamentTopTens}</div>
+                    <div className="text-xs text-slate-500">Top 10s</div>
+                  </div>
+                </div>
+              </section>
+            )}
+
+            {stats.matchesPlayed > 0 && (
+              <section className="rounded-2xl bg-slate-800/50 border border-slate-700 p-4">
+                <h2 className="text-sm font-semibold text-slate-300 mb-3">Match play</h2>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <div className="text-2xl font-bold text-white">
+                      {stats.matchesWon}-{stats.matchesLost}-{stats.matchesHalved}
+                    </div>
+                    <div className="text-xs text-slate-500">Record (W-L-H)</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-white">
+                      {Math.round(((stats.matchesWon + stats.matchesHalved / 2) / stats.matchesPlayed) * 100)}%
+                    </div>
+                    <div className="text-xs text-slate-500">Points won ({stats.matchesPlayed} matches)</div>
+                  </div>
+                </div>
+              </section>
+            )}
           </div>
         )}
+
+        {nassauRecords.length > 0 && (
+          <section className="mt-4 rounded-2xl bg-slate-800/50 border border-slate-700 p-4">
+            <h2 className="text-sm font-semibold text-slate-300 mb-3">Nassau vs AI (lifetime)</h2>
+            <div className="space-y-2">
+              {nassauRecords.map((r) => (
+                <div key={String(r.aiProfile)} className="flex items-center justify-between text-sm">
+                  <span className="text-slate-300">
+                    {typeof r.aiProfile === 'number' ? `HCP ${formatHandicapDisplay(r.aiProfile)}` : r.aiProfile}
+                    <span className="ml-2 text-xs text-slate-500">
+                      {r.won}-{r.lost}-{r.even} in {r.rounds}
+                    </span>
+                  </span>
+                  <span className={`font-bold ${r.net > 0 ? 'text-green-400' : r.net < 0 ? 'text-red-400' : 'text-slate-300'}`}>
+                    {formatNassauAmount(r.net)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {partnerRecords.length > 0 && (
+          <section className="mt-4 rounded-2xl bg-slate-800/50 border border-slate-700 p-4">
+            <h2 className="text-sm font-semibold text-slate-300 mb-3">Playing partners (lifetime)</h2>
+            <div className="space-y-2">
+              {partnerRecords.map((r) => (
+                <div key={r.name} className="flex items-center justify-between text-sm">
+                  <span className="text-slate-300">
+                    {r.name}
+                    <span className="ml-2 text-xs text-slate-500">
+                      avg {r.avgScore.toFixed(1)} · best {r.bestScore} in {r.rounds}
+                    </span>
+                  </span>
+                  <span className="font-bold text-white" title="Your gross record against them (W-L-T)">
+                    {r.won}-{r.lost}-{r.tied}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
       </div>
     </div>
   );
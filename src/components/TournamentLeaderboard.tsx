@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Award } from 'lucide-react';
+import type { LeaderboardEntry } from '../types/tournament';
+import type { TournamentPlayStyle } from '../context/GolfGameContext';
+import { USER_ENTRY_ID, formatToPar } from '../utils/tournament';
+
+const COLLAPSED_ROWS = 10;
+
+interface TournamentLeaderboardProps {
+  leaderboard: LeaderboardEntry[];
+  playStyle: TournamentPlayStyle;
+  holeCount: number;
+}
+
+/** Tournament leaderboard: position, thru, to-par (net or gross), with the user's row always visible. */
+export function TournamentLeaderboard({ leaderboard, playStyle, holeCount }: TournamentLeaderboardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const userIndex = leaderboard.findIndex((e) => e.id === USER_ENTRY_ID);
+  const rows = expanded
+    ? leaderboard
+    : leaderboard.filter((_, i) => i < COLLAPSED_ROWS || i === userIndex);
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl border border-slate-700 overflow-hidden">
+      <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Award className="w-5 h-5 text-green-400" />
+          <h3 className="font-semibold text-white">Leaderboard</h3>
+        </div>
+        <span className="text-xs text-slate-400 capitalize">
+          {playStyle} • {leaderboard.length} players
+        </span>
+      </div>
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-slate-700 bg-slate-800/50">
+            <th className="text-left py-2 px-4 text-xs font-semibold text-slate-400">Pos</th>
+            <th className="text-left py-2 px-2 text-xs font-semibold text-slate-400">Player</th>
+            <th className="text-center py-2 px-2 text-xs font-semibold text-slate-400">Thru</th>
+            <th className="text-center py-2 px-2 text-xs font-semibold text-slate-400">
+              {playStyle === 'net' ? 'Net' : 'Gross'}
+            </th>
+            <th className="text-center py-2 px-3 text-xs font-semibold text-slate-400">To par</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((e) => {
+            const isUser = e.id === USER_ENTRY_ID;
+            return (
+              <tr key={e.id} className={`border-b border-slate-800 ${isUser ? 'bg-green-600/15' : ''}`}>
+                <td className="py-2 px-4 text-slate-300 text-sm font-medium">{e.positionLabel}</td>
+                <td className={`py-2 px-2 text-sm ${isUser ? 'text-green-400 font-semibold' : 'text-slate-200'}`}>
+                  {e.name}
+                </td>
+                <td className="text-center py-2 px-2 text-slate-400 text-sm">
+                  {e.thru === 0 ? '—' : e.thru === holeCount ? 'F' : e.thru}
+                </td>
+                <td className="text-center py-2 px-2 text-slate-300 text-sm">
+                  {e.thru === 0 ? '—' : playStyle === 'net' ? e.net : e.gross}
+                </td>
+                <td
+                  className={`text-center py-2 px-3 text-sm font-bold ${
+                    e.toPar < 0 ? 'text-red-400' : e.toPar > 0 ? 'text-slate-300' : 'text-white'
+                  }`}
+                >
+                  {e.thru === 0 ? '—' : formatToPar(e.toPar)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {leaderboard.length > COLLAPSED_ROWS && (
+        <button
+          onClick={() => setExpanded((v) => !v)}
+          className="w-full py-2.5 text-sm text-slate-400 hover:text-white hover:bg-slate-800 transition"
+        >
+          {expanded ? 'Show top 10' : `Show all ${leaderboard.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -101,7 +101,10 @@ export function VenueCourseSelectionScreen({
             {teeSetInfo && (
               <div className="mt-2 text-slate-400 text-xs space-y-0.5">
                 <p>{teeSetInfo.totalYardage.toLocaleString()} yds</p>
-                <p>Rating {teeSetInfo.courseRating} · Slope {teeSetInfo.slopeRating}</p>
+                <p>
+                  Rating {teeSetInfo.courseRating} · Slope {teeSetInfo.slopeRating}
+                  {teeSetInfo.estimated ? ' (estimated)' : ''}
+                </p>
               </div>
             )}
           </div>
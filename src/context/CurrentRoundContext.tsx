@@ -1,18 +1,7 @@
 import { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import type { UserHoleStats, AIHoleStats } from '../types/holeStats';
-
-export interface CurrentRoundState {
-  courseName: string;
-  /** Selected tee set (e.g. 'White', 'Blue') when course has multiple tees. */
-  selectedTeeSet?: string;
-  currentHoleNumber: number;
-  aiScoresByHole: (number | undefined)[];
-  userScoresByHole: (number | undefined)[];
-  /** User-entered stats per hole (fairway, GIR, scrambling, putts). */
-  userStatsByHole: (UserHoleStats | undefined)[];
-  /** AI stats per hole (derived from shot history); summarized under AI score. */
-  aiStatsByHole: (AIHoleStats | undefined)[];
-}
+import type { CurrentRoundState } from '../types/currentRound';
+
+export type { CurrentRoundState } from '../types/currentRound';
 
 interface CurrentRoundContextType {
   round: CurrentRoundState;
@@ -1,53 +1,39 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-const SETTINGS_STORAGE_KEY = 'golfGPS_settings';
-
-export interface PlayerScore {
-  holeNumber: number;
-  strokes: number;
-  par: number;
-}
-
-export interface GameSettings {
-  isProMode: boolean;
-  windSpeed: number;
-  windDirection: number;
-  slope: number;
-}
-
-/** AI opponent: named character/tour or numeric handicap. */
-export type AIProfile =
-  | 'EW 2K'
-  | 'PGA Tour'
-  | 'LPGA Tour'
-  | 'D.B.'
-  | 'J.D.'
-  | 'M.R.'
-  | 'N.J.'
-  | number;
-
-/** Competition format for the round. */
-export type CompetitionFormat = 'stroke-play' | 'match-play' | 'team-scramble' | 'tournament';
-
-/** Team best ball scramble: partner and number of opposing teams. */
-export interface TeamScrambleOptions {
-  partnerType: 'friend' | 'ai';
-  opponentsCount: 1 | 2;
-}
-
-/** Tournament mode: field size, play style, and field handicap variance (10% worse to 10% better). */
-export const TOURNAMENT_FIELD_SIZES = [20, 25, 30, 40, 50, 60, 100, 120] as const;
-export type TournamentFieldSize = (typeof TOURNAMENT_FIELD_SIZES)[number];
-export type TournamentPlayStyle = 'net' | 'gross';
+import type { RosterPlayerSetup } from '../types/roster';
+import type { AIStrategyProfile } from '../types/aiStrategy';
+import type { CourseFirmness } from '../engine/RollModel';
+import type {
+  PlayerScore,
+  GameSettings,
+  AIProfile,
+  CompetitionFormat,
+  TeamScrambleOptions,
+  TournamentOptions,
+  MatchPlayOptions,
+  StablefordOptions,
+  NassauOptions,
+  AppTier,
+} from '../types/gameSettings';
+
+export { TOURNAMENT_FIELD_SIZES } from '../types/gameSettings';
+export type {
+  PlayerScore,
+  GameSettings,
+  AIProfile,
+  CompetitionFormat,
+  TeamScrambleOptions,
+  TournamentFieldSize,
+  TournamentPlayStyle,
+  TournamentOptions,
+  MatchPlayScoring,
+  MatchPlayOptions,
+  StablefordVariant,
+  StablefordOptions,
+  NassauOptions,
+  AppTier,
+} from '../types/gameSettings';
 
-export interface TournamentOptions {
-  fieldSize: TournamentFieldSize;
-  playStyle: TournamentPlayStyle;
-  /** Field handicap variance: -0.1 (10% worse) to 0.1 (10% better). Same bar as AI variance. */
-  fieldHandicapVariance: number;
-}
-
-/** App tier: Free (limited AI, no variance), Premium (all features), Course Pro (+ course editor). */
-export type AppTier = 'free' | 'premium' | 'course-pro';
+const SETTINGS_STORAGE_KEY = 'golfGPS_settings';
 
 /** AI handicaps allowed on Free tier. */
 export const FREE_TIER_AI_HANDICAPS = [0, 5, 10, 15, 20] as const;
@@ -66,26 +52,43 @@ export interface GolfGameState {
   aiProfile: AIProfile;
   /** AI plays 10% worse to 10% better: -0.1 to 0.1. 0 = stock. Premium/Course Pro only. */
   aiVariance: number;
+  /** AI course-management style (lay-up vs go-for-it). Null = the profile's own style. */
+  aiStrategy: AIStrategyProfile | null;
   /** Free: AI 0,5,10,15,20 only, no variance. Premium: all. Course Pro: all + course editor. */
   appTier: AppTier;
   shotCommentary: string[];
   /** Competition format chosen between course and AI selection. */
   competitionFormat: CompetitionFormat;
+  /** Set when competitionFormat is 'match-play'. */
+  matchPlayOptions: MatchPlayOptions | null;
+  /** Set when competitionFormat is 'stableford'. */
+  stablefordOptions: StablefordOptions | null;
   /** Set when competitionFormat is 'team-scramble'. */
   teamScrambleOptions: TeamScrambleOptions | null;
   /** Set when competitionFormat is 'tournament'. */
   tournamentOptions: TournamentOptions | null;
+  /** Nassau side bet for the round; null when not betting. Kept across format changes. */
+  nassauOptions: NassauOptions | null;
+  /** Friends and extra AI golfers playing alongside the user and the selected AI. Kept across rounds. */
+  roster: RosterPlayerSetup[];
 }
 
 interface GolfGameContextType {
   gameState: GolfGameState;
   setAiProfile: (profile: AIProfile) => void;
   setAiVariance: (variance: number) => void;
+  setAiStrategy: (strategy: AIStrategyProfile | null) => void;
   setAppTier: (tier: AppTier) => void;
   setCompetitionFormat: (format: CompetitionFormat) => void;
+  setMatchPlayOptions: (options: MatchPlayOptions | null) => void;
+  setStablefordOptions: (options: StablefordOptions | null) => void;
   setTeamScrambleOptions: (options: TeamScrambleOptions | null) => void;
   setTournamentOptions: (options: TournamentOptions | null) => void;
+  setNassauOptions: (options: NassauOptions | null) => void;
+  setRoster: (roster: RosterPlayerSetup[]) => void;
   toggleProMode: () => void;
+  setFirmness: (firmness: CourseFirmness) => void;
+  setAirConditions: (altitudeFeet: number, temperatureF: number) => void;
   addPlayerScore: (holeNumber: number, strokes: number, par: number) => void;
   addAIScore: (holeNumber: number, strokes: number, par: number) => void;
   nextHole: () => void;
@@ -97,6 +100,14 @@ interface GolfGameContextType {
 
 const GolfGameContext = createContext<GolfGameContextType | undefined>(undefined);
 
+const defaultMatchPlayOptions: MatchPlayOptions = {
+  scoring: 'net',
+};
+
+const defaultStablefordOptions: StablefordOptions = {
+  variant: 'standard',
+};
+
 const defaultTournamentOptions: TournamentOptions = {
   fieldSize: 30,
   playStyle: 'net',
@@ -112,15 +123,23 @@ const initialGameState: GolfGameState = {
     windSpeed: 8,
     windDirection: 270,
     slope: 2.5,
+    firmness: 'medium',
+    altitudeFeet: 0,
+    temperatureF: 70,
   },
   aiHandicap: 15,
   aiProfile: 15 as AIProfile,
   aiVariance: 0,
+  aiStrategy: null,
   appTier: 'free' as AppTier,
   shotCommentary: [],
   competitionFormat: 'stroke-play',
+  matchPlayOptions: null,
+  stablefordOptions: null,
   teamScrambleOptions: null,
   tournamentOptions: null,
+  nassauOptions: null,
+  roster: [],
 };
 
 function loadPersistedSettings(): Partial<Pick<GolfGameState, 'aiProfile' | 'aiHandicap' | 'settings' | 'appTier'>> {
@@ -163,6 +182,13 @@ function loadPersistedSettings(): Partial<Pick<GolfGameState, 'aiProfile' | 'aiH
         windSpeed: typeof parsed.settings.windSpeed === 'number' ? parsed.settings.windSpeed : initialGameState.settings.windSpeed,
         windDirection: typeof parsed.settings.windDirection === 'number' ? parsed.settings.windDirection : initialGameState.settings.windDirection,
         slope: typeof parsed.settings.slope === 'number' ? parsed.settings.slope : initialGameState.settings.slope,
+        firmness: ['soft', 'medium', 'firm'].includes(parsed.settings.firmness)
+          ? parsed.settings.firmness
+          : initialGameState.settings.firmness,
+        altitudeFeet:
+          typeof parsed.settings.altitudeFeet === 'number' ? parsed.settings.altitudeFeet : initialGameState.settings.altitudeFeet,
+        temperatureF:
+          typeof parsed.settings.temperatureF === 'number' ? parsed.settings.temperatureF : initialGameState.settings.temperatureF,
       };
     }
     if (parsed.appTier === 'free' || parsed.appTier === 'premium' || parsed.appTier === 'course-pro') {
@@ -222,6 +248,10 @@ export function GolfGameProvider({ children }: { children: ReactNode }) {
     }));
   };
 
+  const setAiStrategy = (aiStrategy: AIStrategyProfile | null) => {
+    setGameState((prev) => ({ ...prev, aiStrategy }));
+  };
+
   const setAppTier = (tier: AppTier) => {
     setGameState((prev) => {
       const next = { ...prev, appTier: tier };
@@ -240,11 +270,21 @@ export function GolfGameProvider({ children }: { children: ReactNode }) {
     setGameState((prev) => ({
       ...prev,
       competitionFormat,
+      matchPlayOptions: competitionFormat === 'match-play' ? prev.matchPlayOptions ?? defaultMatchPlayOptions : null,
+      stablefordOptions: competitionFormat === 'stableford' ? prev.stablefordOptions ?? defaultStablefordOptions : null,
       teamScrambleOptions: competitionFormat === 'team-scramble' ? prev.teamScrambleOptions ?? { partnerType: 'ai', opponentsCount: 1 } : null,
       tournamentOptions: competitionFormat === 'tournament' ? prev.tournamentOptions ?? defaultTournamentOptions : null,
     }));
   };
 
+  const setMatchPlayOptions = (matchPlayOptions: MatchPlayOptions | null) => {
+    setGameState((prev) => ({ ...prev, matchPlayOptions }));
+  };
+
+  const setStablefordOptions = (stablefordOptions: StablefordOptions | null) => {
+    setGameState((prev) => ({ ...prev, stablefordOptions }));
+  };
+
   const setTeamScrambleOptions = (teamScrambleOptions: TeamScrambleOptions | null) => {
     setGameState((prev) => ({ ...prev, teamScrambleOptions }));
   };
@@ -253,6 +293,14 @@ export function GolfGameProvider({ children }: { children: ReactNode }) {
     setGameState((prev) => ({ ...prev, tournamentOptions }));
   };
 
+  const setNassauOptions = (nassauOptions: NassauOptions | null) => {
+    setGameState((prev) => ({ ...prev, nassauOptions }));
+  };
+
+  const setRoster = (roster: RosterPlayerSetup[]) => {
+    setGameState((prev) => ({ ...prev, roster }));
+  };
+
   const toggleProMode = () => {
     setGameState((prev) => ({
       ...prev,
@@ -263,6 +311,14 @@ export function GolfGameProvider({ children }: { children: ReactNode }) {
     }));
   };
 
+  const setFirmness = (firmness: CourseFirmness) => {
+    setGameState((prev) => ({ ...prev, settings: { ...prev.settings, firmness } }));
+  };
+
+  const setAirConditions = (altitudeFeet: number, temperatureF: number) => {
+    setGameState((prev) => ({ ...prev, settings: { ...prev.settings, altitudeFeet, temperatureF } }));
+  };
+
   const addPlayerScore = (holeNumber: number, strokes: number, par: number) => {
     setGameState((prev) => ({
       ...prev,
@@ -307,7 +363,9 @@ export function GolfGameProvider({ children }: { children: ReactNode }) {
               : 15,
       aiProfile: gameState.aiProfile,
       aiVariance: gameState.aiVariance,
+      aiStrategy: gameState.aiStrategy,
       appTier: gameState.appTier,
+      roster: gameState.roster,
     });
   };
 
@@ -336,11 +394,18 @@ export function GolfGameProvider({ children }: { children: ReactNode }) {
         gameState,
         setAiProfile,
         setAiVariance,
+        setAiStrategy,
         setAppTier,
         setCompetitionFormat,
+        setMatchPlayOptions,
+        setStablefordOptions,
         setTeamScrambleOptions,
         setTournamentOptions,
+        setNassauOptions,
+        setRoster,
         toggleProMode,
+        setFirmness,
+        setAirConditions,
         addPlayerScore,
         addAIScore,
         nextHole,
@@ -21,6 +21,10 @@ export interface TeeSetInfo {
   totalYardage: number;
   courseRating: number;
   slopeRating: number;
+  /** True when rating and slope were estimated by simulation over the mapped holes, not taken from a scorecard. */
+  estimated?: boolean;
+  /** Bogey rating (expected score of a bogey golfer) behind an estimated slope. */
+  bogeyRating?: number;
 }
 
 export interface Hazard {
@@ -132,11 +136,7 @@ export const LINCOLN_PARK_COURSE: Course = {
 };
 
 /** Generate 18-hole placeholder hole data (par 72) for mapping. Par 3s at 3,8,12,16; par 5s at 6,13,15,18; rest par 4. */
-function make18HolePlaceholder(
-  baseLat: number,
-  baseLng: number,
-  name: string
-): Hole[] {
+function make18HolePlaceholder(baseLat: number, baseLng: number): Hole[] {
   const pars = [4, 4, 3, 4, 4, 5, 4, 3, 4, 4, 4, 3, 5, 4, 5, 3, 4, 5] as const;
   const hcps = [7, 5, 15, 11, 3, 1, 9, 17, 13, 4, 8, 12, 2, 6, 14, 18, 10, 16];
   const step = 0.0004;
@@ -226,7 +226,7 @@ export const TPC_HARDING_PARK_COURSE: Course = {
 };
 
 /** Fleming Course at TPC Harding Park - 9-hole. Placeholder hole data. */
-const FLEMING_HOLES: Hole[] = make18HolePlaceholder(37.723, -122.494, 'Fleming').slice(0, 9);
+const FLEMING_HOLES: Hole[] = make18HolePlaceholder(37.723, -122.494).slice(0, 9);
 
 /** Fleming 9-hole: single tee set (placeholder rating/slope). */
 const FLEMING_TEE_SETS: TeeSetInfo[] = [
@@ -241,7 +241,7 @@ export const FLEMING_COURSE: Course = {
 };
 
 /** Half Moon Bay Golf Links - Ocean Course. 18 holes, par 72. Placeholder hole data; official: halfmoonbaygolf.com */
-const HALF_MOON_BAY_OCEAN_HOLES: Hole[] = make18HolePlaceholder(37.4347, -122.4399, 'Ocean');
+const HALF_MOON_BAY_OCEAN_HOLES: Hole[] = make18HolePlaceholder(37.4347, -122.4399);
 
 /** Half Moon Bay Ocean: placeholder tee set. */
 const HALF_MOON_BAY_OCEAN_TEE_SETS: TeeSetInfo[] = [
@@ -257,7 +257,7 @@ export const HALF_MOON_BAY_OCEAN_COURSE: Course = {
 };
 
 /** Half Moon Bay Golf Links - Old Course. 18 holes, par 72. Placeholder hole data; official: halfmoonbaygolf.com */
-const HALF_MOON_BAY_OLD_HOLES: Hole[] = make18HolePlaceholder(37.436, -122.442, 'Old');
+const HALF_MOON_BAY_OLD_HOLES: Hole[] = make18HolePlaceholder(37.436, -122.442);
 
 const HALF_MOON_BAY_OLD_TEE_SETS: TeeSetInfo[] = [
   { name: 'Blue', totalYardage: 6720, courseRating: 71.8, slopeRating: 128 },
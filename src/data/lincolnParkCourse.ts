@@ -1,5 +1,8 @@
 import { Hole, HoleFeature } from './mockHoleData';
 import { GOLDEN_GATE_PARK_COURSE, TPC_HARDING_PARK_COURSE } from './courses';
+import { SURFACES_OVER_FAIRWAY, SURFACES_UNDER_FAIRWAY } from '../engine/SurfaceLies';
+import type { CourseLie, SurfaceType } from '../types/courseSurface';
+import type { GreenSlope } from '../types/greenSlope';
 
 /**
  * Lincoln Park Golf Course - San Francisco, CA
@@ -714,6 +717,12 @@ export interface CircleFeature {
   radiusMeters: number;
 }
 
+/** Water penalty area; red when unmarked, as an unmarked penalty area is under the Rules (17.1). */
+export interface WaterFeature extends CircleFeature {
+  /** Red stakes allow lateral relief; yellow do not. */
+  stake?: 'red' | 'yellow';
+}
+
 /** All hole features the AI uses: fairway, bunkers, green, water, trees. Radii in meters. */
 export interface HoleFeaturesForAI {
   fairways: CircleFeature[];
@@ -721,10 +730,14 @@ export interface HoleFeaturesForAI {
   fairwayPolygons?: { lat: number; lng: number }[][];
   bunkers: CircleFeature[];
   green: CircleFeature;
+  /** Green contour for putting (editor data); flat when absent. */
+  greenSlope?: GreenSlope;
   /** Other holes' greens (in course boundary); ball on any green gets green lie. */
   otherGreens?: CircleFeature[];
-  water: CircleFeature[];
+  water: WaterFeature[];
   treeObstacles: TreeObstacle[];
+  /** Fringe, first cut, cart path, waste, native and GUR polygons (editor data, this hole and in-bounds others). */
+  surfaces?: { type: SurfaceType; vertices: { lat: number; lng: number }[] }[];
 }
 
 const YARDS_TO_METERS = 0.9144;
@@ -786,7 +799,7 @@ export function getHoleFeaturesForAI(holeNumber: number): HoleFeaturesForAI | nu
     radiusMeters: toMeters(greenRadius ?? 10),
   };
 
-  const water: CircleFeature[] = hole.features
+  const water: WaterFeature[] = hole.features
     .filter((f): f is HoleFeature & { type: 'water'; radius: number } => f.type === 'water' && typeof f.radius === 'number')
     .map((f) => ({ center: { ...f.coordinates }, radiusMeters: toMeters(f.radius) }));
 
@@ -800,18 +813,22 @@ export function getHoleFeaturesForAI(holeNumber: number): HoleFeaturesForAI | nu
 }
 
 /**
- * Determine lie from position (green > water > bunker > fairway > rough).
+ * Determine lie from position (water > green > bunker > GUR/cart path/fringe > fairway > first cut/waste/native > rough).
  * Fairway: when fairwayPolygons are present (editor data), check polygon containment first so
  * "everything around the green" drawn as fairway is always fairway; otherwise use fairway circles.
  */
 export function getLieFromPosition(
   position: { lat: number; lng: number },
   features: HoleFeaturesForAI
-): 'green' | 'water' | 'bunker' | 'fairway' | 'rough' {
+): CourseLie {
   if (features.water.some((w) => isInCircle(position, w.center, w.radiusMeters))) return 'water';
   if (isInCircle(position, features.green.center, features.green.radiusMeters)) return 'green';
   if (features.otherGreens?.some((g) => isInCircle(position, g.center, g.radiusMeters))) return 'green';
   if (features.bunkers.some((b) => isInCircle(position, b.center, b.radiusMeters))) return 'bunker';
+  const surfaces = (features.surfaces ?? []).filter((s) => s.vertices.length >= 3 && pointInPolygon(position, s.vertices));
+  for (const type of SURFACES_OVER_FAIRWAY) {
+    if (surfaces.some((s) => s.type === type)) return type;
+  }
   // Editor fairway polygons take precedence so "fairway around green" is always fairway
   if (features.fairwayPolygons?.length) {
     for (const path of features.fairwayPolygons) {
@@ -819,5 +836,8 @@ export function getLieFromPosition(
     }
   }
   if (features.fairways.some((f) => isInCircle(position, f.center, f.radiusMeters))) return 'fairway';
+  for (const type of SURFACES_UNDER_FAIRWAY) {
+    if (surfaces.some((s) => s.type === type)) return type;
+  }
   return 'rough';
 }
@@ -0,0 +1,33 @@
+/**
+ * Stock ball flight per AI profile (right-handed). Named characters play their signature shape; numeric handicaps
+ * drift from a slight draw at scratch toward a slice, and the higher the handicap the more of their direction error
+ * comes from curve (sidespin) rather than start line.
+ */
+
+import type { ShotTendency } from '../engine/BallisticsEngine';
+import { skillLevelToHandicapTier } from './clubDistancesByHandicap';
+
+export const CHARACTER_SHOT_TENDENCIES: Record<string, ShotTendency> = {
+  'EW 2K': { stockCurveDegrees: -1.5, curveShare: 0.35 },
+  'PGA Tour': { stockCurveDegrees: 1, curveShare: 0.4 },
+  'LPGA Tour': { stockCurveDegrees: -1, curveShare: 0.4 },
+  'D.B.': { stockCurveDegrees: 3.5, curveShare: 0.4 },
+  'J.D.': { stockCurveDegrees: 3, curveShare: 0.4 },
+  'M.R.': { stockCurveDegrees: -3.5, curveShare: 0.45 },
+  'N.J.': { stockCurveDegrees: 2.5, curveShare: 0.35 },
+};
+
+/** Tendency for a numeric handicap: slight draw at plus/scratch, fade by 10, slice by 20. */
+export function getHandicapShotTendency(handicap: number): ShotTendency {
+  const h = Math.max(-5, Math.min(36, handicap));
+  return {
+    stockCurveDegrees: Math.round((-1 + Math.max(0, h) * 0.45) * 10) / 10,
+    curveShare: Math.min(0.75, 0.4 + Math.max(0, h) * 0.015),
+  };
+}
+
+/** Tendency for any skill level (character name, legacy string tier, or numeric handicap). */
+export function getShotTendencyForSkill(skillLevel: string | number): ShotTendency {
+  if (typeof skillLevel === 'number') return getHandicapShotTendency(skillLevel);
+  return CHARACTER_SHOT_TENDENCIES[skillLevel] ?? getHandicapShotTendency(skillLevelToHandicapTier(skillLevel));
+}
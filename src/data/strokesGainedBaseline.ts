@@ -0,0 +1,157 @@
+/**
+ * Strokes-gained baseline: expected strokes to hole out by lie and distance.
+ * Source: Mark Broadie, "Every Shot Counts" (PGA Tour averages). Off-green distances in yards, putts in feet.
+ * Values between table rows are interpolated linearly; beyond the last row the last value is used.
+ */
+
+import type { StrokesGainedLie } from '../types/strokesGained';
+
+/** [distance, expected strokes] rows in ascending distance. */
+type BaselineRows = [number, number][];
+
+const TEE: BaselineRows = [
+  [100, 2.92],
+  [120, 2.99],
+  [140, 2.97],
+  [160, 2.99],
+  [180, 3.05],
+  [200, 3.12],
+  [220, 3.17],
+  [240, 3.25],
+  [260, 3.45],
+  [280, 3.65],
+  [300, 3.71],
+  [320, 3.79],
+  [340, 3.86],
+  [360, 3.92],
+  [380, 3.96],
+  [400, 3.99],
+  [420, 4.02],
+  [440, 4.08],
+  [460, 4.17],
+  [480, 4.28],
+  [500, 4.41],
+  [520, 4.54],
+  [540, 4.65],
+  [560, 4.74],
+  [580, 4.79],
+  [600, 4.82],
+];
+
+const FAIRWAY: BaselineRows = [
+  [5, 2.1],
+  [10, 2.18],
+  [20, 2.4],
+  [40, 2.6],
+  [60, 2.7],
+  [80, 2.75],
+  [100, 2.8],
+  [120, 2.85],
+  [140, 2.91],
+  [160, 2.98],
+  [180, 3.08],
+  [200, 3.19],
+  [220, 3.32],
+  [240, 3.45],
+  [260, 3.58],
+  [280, 3.69],
+  [300, 3.78],
+  [350, 3.95],
+  [400, 4.11],
+  [450, 4.28],
+  [500, 4.42],
+  [600, 4.78],
+];
+
+const ROUGH: BaselineRows = [
+  [5, 2.25],
+  [10, 2.38],
+  [20, 2.59],
+  [40, 2.78],
+  [60, 2.91],
+  [80, 2.96],
+  [100, 3.02],
+  [120, 3.08],
+  [140, 3.15],
+  [160, 3.23],
+  [180, 3.31],
+  [200, 3.42],
+  [220, 3.53],
+  [240, 3.64],
+  [260, 3.74],
+  [280, 3.83],
+  [300, 3.9],
+  [350, 4.1],
+  [400, 4.25],
+  [500, 4.6],
+  [600, 4.9],
+];
+
+const BUNKER: BaselineRows = [
+  [5, 2.3],
+  [10, 2.43],
+  [20, 2.53],
+  [40, 2.82],
+  [60, 3.15],
+  [80, 3.24],
+  [100, 3.23],
+  [120, 3.21],
+  [140, 3.22],
+  [160, 3.28],
+  [180, 3.4],
+  [200, 3.55],
+  [220, 3.7],
+  [240, 3.84],
+  [260, 3.93],
+  [280, 4.0],
+  [300, 4.04],
+  [400, 4.5],
+  [600, 5.0],
+];
+
+/** Putts: distance in feet. */
+const GREEN: BaselineRows = [
+  [0, 1.0],
+  [2, 1.01],
+  [3, 1.04],
+  [4, 1.13],
+  [5, 1.23],
+  [6, 1.34],
+  [8, 1.5],
+  [10, 1.61],
+  [15, 1.78],
+  [20, 1.87],
+  [30, 1.98],
+  [40, 2.06],
+  [50, 2.14],
+  [60, 2.21],
+  [90, 2.4],
+];
+
+const BASELINE_BY_LIE: Record<StrokesGainedLie, BaselineRows> = {
+  tee: TEE,
+  fairway: FAIRWAY,
+  rough: ROUGH,
+  bunker: BUNKER,
+  green: GREEN,
+};
+
+const FEET_PER_YARD = 3;
+
+function interpolate(rows: BaselineRows, distance: number): number {
+  if (distance <= rows[0][0]) return rows[0][1];
+  for (let i = 1; i < rows.length; i++) {
+    const [d1, s1] = rows[i];
+    if (distance <= d1) {
+      const [d0, s0] = rows[i - 1];
+      return s0 + ((distance - d0) / (d1 - d0)) * (s1 - s0);
+    }
+  }
+  return rows[rows.length - 1][1];
+}
+
+/** Expected strokes to hole out from a lie at a distance (yards) from the hole. */
+export function getExpectedStrokes(lie: StrokesGainedLie, distanceYards: number): number {
+  const distance = lie === 'green' ? distanceYards * FEET_PER_YARD : distanceYards;
+  return interpolate(BASELINE_BY_LIE[lie], Math.max(0, distance));
+}
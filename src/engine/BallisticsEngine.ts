@@ -2,11 +2,16 @@
  * Ballistics Engine — Patent-aligned shot execution with Benchmark-to-Dispersion.
  * Keeps trajectory integration (Euler/RK4) for gravity/drag; executeShot applies
  * distance/angle errors via Box-Muller from DispersionCalculator params.
+ *
+ * Shot shape: with a ShotTendency the direction error is split into a start line and a curve. The golfer aims off
+ * for their stock shape (a fader aims left), so the landing spread is the same as a straight-line error; only the
+ * flight between changes. The curved path is what trees and the map tracer see.
  */
 
 import { GolfPhysics, type TrajectoryPoint } from '../utils/PhysicsEngine';
 import { vincentyInverse, vincentyDirect, boxMullerPair } from '../utils/geodesic';
 import type { DispersionParams } from './DispersionCalculator';
+import { defaultRng, type Rng } from '../utils/rng';
 
 export type { TrajectoryPoint };
 
@@ -20,6 +25,77 @@ export interface ExecuteShotResult {
   actualDistanceMeters: number;
   distanceErrorMeters: number;
   angleErrorDegrees: number;
+  /** Start line relative to the aim (degrees, positive = right). Equals angleErrorDegrees for a straight shot. */
+  startLineDegrees: number;
+  /** Curve from start line to landing (degrees, positive = left to right, i.e. fade for a right-hander). */
+  curveDegrees: number;
+  /** Ball flight over the ground, start to landing (2 points for a straight shot). */
+  path: LatLng[];
+}
+
+/** A player's stock ball flight (right-handed: negative curve = draw/hook, positive = fade/slice). */
+export interface ShotTendency {
+  /** Mean curve of a full shot (degrees from start line to landing). */
+  stockCurveDegrees: number;
+  /** Share (0–1) of the direction variance that comes from curve rather than start line. */
+  curveShare: number;
+}
+
+/** Points along a curved flight, used for tree collision and the tracer. */
+const PATH_SEGMENTS = 12;
+
+/**
+ * Ground track of a shot that starts on `startBearing` and curves `curveDegrees` by landing. Sidespin bends the
+ * flight more the longer it is in the air, so the bearing to the ball turns linearly with distance (the lateral
+ * offset grows with the square of it).
+ */
+export function curvedFlightPath(
+  from: LatLng,
+  startBearing: number,
+  curveDegrees: number,
+  distanceMeters: number,
+  segments: number = PATH_SEGMENTS
+): LatLng[] {
+  if (Math.abs(curveDegrees) < 1e-6 || distanceMeters < 1e-6) {
+    return [from, vincentyDirect(from, (startBearing + 360) % 360, distanceMeters)];
+  }
+  const path: LatLng[] = [from];
+  for (let i = 1; i <= segments; i++) {
+    const f = i / segments;
+    const p = vincentyDirect(from, (startBearing + curveDegrees * f + 360) % 360, distanceMeters * f);
+    path.push({ lat: p.lat, lng: p.lng });
+  }
+  return path;
+}
+
+/**
+ * Split a direction error into start line and curve for a player's tendency. The stock curve is aimed off, so
+ * start line + curve = angleErrorDegrees (the landing is unchanged); `zCurve` (standard normal) spreads how much of
+ * the error the curve carries.
+ */
+export function splitAngleError(
+  angleErrorDegrees: number,
+  angularStdDevDegrees: number,
+  tendency: ShotTendency,
+  zCurve: number
+): { startLineDegrees: number; curveDegrees: number } {
+  const share = Math.max(0, Math.min(1, tendency.curveShare));
+  const curveDegrees = tendency.stockCurveDegrees + share * angleErrorDegrees + zCurve * angularStdDevDegrees * share * 0.5;
+  return { startLineDegrees: angleErrorDegrees - curveDegrees, curveDegrees };
+}
+
+/** "straight", "slight draw", "draw", "hook", "slight fade", "fade", "slice" (right-handed), with push/pull start. */
+export function describeShotShape(startLineDegrees: number, curveDegrees: number): string {
+  const c = Math.abs(curveDegrees);
+  const curve =
+    c < 1 ? 'straight'
+      : curveDegrees < 0
+        ? c < 3 ? 'slight draw' : c < 8 ? 'draw' : 'hook'
+        : c < 3 ? 'slight fade' : c < 8 ? 'fade' : 'slice';
+  // Start line well off the target line the "wrong" way for the curve reads as a push or a pull
+  if (startLineDegrees > 4 && curveDegrees >= -1) return `push ${curve === 'straight' ? '' : curve}`.trim();
+  if (startLineDegrees < -4 && curveDegrees <= 1) return `pull ${curve === 'straight' ? '' : curve}`.trim();
+  return curve;
 }
 
 /**
@@ -27,9 +103,12 @@ export interface ExecuteShotResult {
  */
 export class BallisticsEngine {
   private physics: GolfPhysics;
+  private rng: Rng;
 
-  constructor() {
+  /** @param rng - Random source for dispersion draws; pass a seeded Rng to replay shots exactly. */
+  constructor(rng: Rng = defaultRng) {
     this.physics = new GolfPhysics();
+    this.rng = rng;
   }
 
   /**
@@ -49,14 +128,14 @@ export class BallisticsEngine {
    * @param intendedTarget - Aim point (lat/lng)
    * @param intendedDistanceMeters - Intended carry distance (m)
    * @param dispersionParams - From DispersionCalculator (full-shot or chip)
-   * @param options - Optional max distance cap (e.g. for bunker/chip)
+   * @param options - Optional max distance cap (e.g. for bunker/chip); tendency for a curved full shot
    */
   executeShot(
     fromPosition: LatLng,
     intendedTarget: LatLng,
     intendedDistanceMeters: number,
     dispersionParams: DispersionParams,
-    options?: { maxDistanceMeters?: number }
+    options?: { maxDistanceMeters?: number; tendency?: ShotTendency }
   ): ExecuteShotResult {
     const cappedDistance = Math.min(
       intendedDistanceMeters,
@@ -66,7 +145,7 @@ export class BallisticsEngine {
     const distanceStdDev = cappedDistance * (dispersionParams.distanceStdDevPercent / 100);
     const angleStdDev = dispersionParams.angularStdDevDegrees;
 
-    const [z1, z2] = boxMullerPair();
+    const [z1, z2] = boxMullerPair(this.rng);
     const distanceErrorMeters = z1 * distanceStdDev;
     const angleErrorDegrees = z2 * angleStdDev;
 
@@ -80,11 +159,21 @@ export class BallisticsEngine {
 
     const landingPosition = vincentyDirect(fromPosition, adjustedBearing, actualDistanceMeters);
 
+    const { startLineDegrees, curveDegrees } = options?.tendency
+      ? splitAngleError(angleErrorDegrees, angleStdDev, options.tendency, boxMullerPair(this.rng)[0])
+      : { startLineDegrees: angleErrorDegrees, curveDegrees: 0 };
+    const path = options?.tendency
+      ? curvedFlightPath(fromPosition, initialBearing + startLineDegrees, curveDegrees, actualDistanceMeters)
+      : [fromPosition, landingPosition];
+
     return {
       landingPosition: { lat: landingPosition.lat, lng: landingPosition.lng },
       actualDistanceMeters,
       distanceErrorMeters,
       angleErrorDegrees,
+      startLineDegrees,
+      curveDegrees,
+      path: path.map((p) => ({ lat: p.lat, lng: p.lng })),
     };
   }
 }
@@ -0,0 +1,157 @@
+/**
+ * Launch conditions by club and handicap, and ball flight through the round's air and wind (GolfPhysics).
+ *
+ * Launch angle and spin start from tour averages per club; higher handicaps launch a little higher with more spin
+ * (less efficient strikes). Ball speed is then solved so the flight in standard still air (sea level, 15 °C) carries
+ * the intended distance, so every skill level's chart yardages stay the still-air reference. Flying the same launch
+ * in the round's conditions gives the real carry and wind drift, and "plays as" is the still-air yardage that would
+ * carry the actual distance.
+ */
+
+import { GolfPhysics, type FlightEnvironment, type FlightResult, type LaunchConditions } from '../utils/PhysicsEngine';
+import type { RollClub } from './RollModel';
+
+export type { LaunchConditions, FlightResult };
+
+export type LaunchClub = Exclude<RollClub, 'chip'>;
+
+/** Round conditions for a shot (GameSettings units). */
+export interface FlightConditions {
+  windSpeedMph: number;
+  /** Wind is FROM this direction (degrees, 0 = N). */
+  windDirectionDeg: number;
+  /** Direction of the shot (degrees, 0 = N). */
+  shotBearingDeg: number;
+  altitudeFeet?: number;
+  temperatureF?: number;
+}
+
+export interface ClubFlight {
+  /** Carry in the conditions (m). */
+  carryMeters: number;
+  /** Wind drift at landing (m, positive = right of the launch line). */
+  lateralMeters: number;
+  /** Drift as an angle from the launch line (degrees, positive = right). */
+  driftDegrees: number;
+  apexMeters: number;
+  flightTimeSeconds: number;
+  launch: LaunchConditions;
+  trajectory: FlightResult['points'];
+}
+
+/** Tour-average launch angle (degrees) and backspin (rpm) per club. */
+const TOUR_LAUNCH: Record<LaunchClub, { launchAngleDegrees: number; backspinRpm: number }> = {
+  driver: { launchAngleDegrees: 10.9, backspinRpm: 2700 },
+  '3-wood': { launchAngleDegrees: 9.2, backspinRpm: 3650 },
+  '4-hybrid': { launchAngleDegrees: 10.2, backspinRpm: 4450 },
+  '4-iron': { launchAngleDegrees: 11, backspinRpm: 4850 },
+  '5-iron': { launchAngleDegrees: 12.1, backspinRpm: 5350 },
+  '6-iron': { launchAngleDegrees: 14.1, backspinRpm: 6250 },
+  '7-iron': { launchAngleDegrees: 16.3, backspinRpm: 7100 },
+  '8-iron': { launchAngleDegrees: 18.1, backspinRpm: 8000 },
+  '9-iron': { launchAngleDegrees: 20.4, backspinRpm: 8650 },
+  PW: { launchAngleDegrees: 24.2, backspinRpm: 9300 },
+  GW: { launchAngleDegrees: 27, backspinRpm: 9800 },
+  SW: { launchAngleDegrees: 30, backspinRpm: 10200 },
+  LW: { launchAngleDegrees: 33, backspinRpm: 10500 },
+};
+
+/** Per handicap stroke above scratch: extra launch (degrees) and extra spin (fraction). */
+const LAUNCH_PER_HANDICAP = 0.08;
+const SPIN_PER_HANDICAP = 0.006;
+const MPH_TO_MPS = 0.44704;
+const FEET_TO_METERS = 0.3048;
+const MIN_BALL_SPEED = 5;
+const MAX_BALL_SPEED = 95;
+const SPEED_SOLVE_ITERATIONS = 22;
+
+const physics = new GolfPhysics();
+/** Solved ball speeds by club, handicap and carry (whole meters); the solve is the expensive part. */
+const ballSpeedCache = new Map<string, number>();
+
+function standardCarry(launch: LaunchConditions): number {
+  return physics.simulateFlight(launch).carry;
+}
+
+/** Launch angle and spin for a club and handicap (ball speed still to solve). */
+function launchShape(club: LaunchClub, handicap: number): Omit<LaunchConditions, 'ballSpeed'> {
+  const tour = TOUR_LAUNCH[club];
+  const h = Math.max(0, Math.min(36, handicap));
+  return {
+    launchAngleDegrees: tour.launchAngleDegrees + h * LAUNCH_PER_HANDICAP,
+    backspinRpm: tour.backspinRpm * (1 + h * SPIN_PER_HANDICAP),
+    sidespinRpm: 0,
+  };
+}
+
+/**
+ * Launch conditions that carry `stillAirCarryMeters` in standard still air with this club and handicap.
+ * Ball speed is found by bisection (carry grows with speed) and cached.
+ */
+export function getLaunchConditions(club: LaunchClub, handicap: number, stillAirCarryMeters: number): LaunchConditions {
+  const shape = launchShape(club, handicap);
+  const carry = Math.max(1, Math.round(stillAirCarryMeters));
+  const key = `${club}|${Math.round(Math.max(0, handicap))}|${carry}`;
+  let ballSpeed = ballSpeedCache.get(key);
+  if (ballSpeed === undefined) {
+    let lo = MIN_BALL_SPEED;
+    let hi = MAX_BALL_SPEED;
+    for (let i = 0; i < SPEED_SOLVE_ITERATIONS; i++) {
+      const mid = (lo + hi) / 2;
+      if (standardCarry({ ...shape, ballSpeed: mid }) < carry) lo = mid;
+      else hi = mid;
+    }
+    ballSpeed = (lo + hi) / 2;
+    ballSpeedCache.set(key, ballSpeed);
+  }
+  return { ...shape, ballSpeed };
+}
+
+/** Air density and wind (in the shot's frame) for the conditions. */
+export function getFlightEnvironment(conditions: FlightConditions): FlightEnvironment {
+  const altitudeMeters = (conditions.altitudeFeet ?? 0) * FEET_TO_METERS;
+  const temperatureC = ((conditions.temperatureF ?? 59) - 32) * (5 / 9);
+  // Wind blows toward direction + 180; split it along and across the shot (positive = tail / toward the right)
+  const toward = ((conditions.windDirectionDeg + 180 - conditions.shotBearingDeg) * Math.PI) / 180;
+  const speed = conditions.windSpeedMph * MPH_TO_MPS;
+  return {
+    airDensity: GolfPhysics.airDensity(altitudeMeters, temperatureC),
+    wind: { x: speed * Math.cos(toward), y: speed * Math.sin(toward) },
+  };
+}
+
+/** Fly a club's stock launch for a still-air carry through the conditions. */
+export function simulateClubFlight(
+  club: LaunchClub,
+  handicap: number,
+  stillAirCarryMeters: number,
+  conditions: FlightConditions
+): ClubFlight {
+  const launch = getLaunchConditions(club, handicap, stillAirCarryMeters);
+  const flight = physics.simulateFlight(launch, getFlightEnvironment(conditions));
+  return {
+    carryMeters: flight.carry,
+    lateralMeters: flight.lateral,
+    driftDegrees: (Math.atan2(flight.lateral, Math.max(1, flight.carry)) * 180) / Math.PI,
+    apexMeters: flight.apex,
+    flightTimeSeconds: flight.flightTime,
+    launch,
+    trajectory: flight.points,
+  };
+}
+
+/**
+ * Still-air distance (m) that carries `actualMeters` in the conditions with this club: the swing the golfer makes
+ * for a target that far. Uses the carry ratio at that distance (close to constant across nearby distances).
+ */
+export function getPlaysAsMeters(
+  actualMeters: number,
+  club: LaunchClub,
+  handicap: number,
+  conditions: FlightConditions
+): number {
+  if (actualMeters <= 1) return actualMeters;
+  const { carryMeters } = simulateClubFlight(club, handicap, actualMeters, conditions);
+  const ratio = carryMeters / Math.max(1, Math.round(actualMeters));
+  return actualMeters / Math.max(0.2, ratio);
+}
@@ -1,9 +1,35 @@
 /**
- * Lie Detection Module — FIG 3: Priority-order containment (water → green → bunker → fairway → rough).
+ * Lie Detection Module — FIG 3: Priority-order containment (water → green → bunker → fairway → rough), with the
+ * editor-drawn surfaces slotted in: ground under repair and cart path over everything but bunkers, fringe over
+ * fairway, and first cut, waste and native areas only where no fairway is drawn.
  * Input: current coordinate and hole geometry (circles or polygons).
  */
 
-export type LieType = 'LIE_WATER' | 'LIE_GREEN' | 'LIE_BUNKER' | 'LIE_FAIRWAY' | 'LIE_ROUGH';
+import type { SurfaceType } from '../types/courseSurface';
+import { SURFACES_OVER_FAIRWAY, SURFACES_UNDER_FAIRWAY } from './SurfaceLies';
+
+export type LieType =
+  | 'LIE_WATER'
+  | 'LIE_GREEN'
+  | 'LIE_BUNKER'
+  | 'LIE_FAIRWAY'
+  | 'LIE_ROUGH'
+  | 'LIE_FRINGE'
+  | 'LIE_FIRST_CUT'
+  | 'LIE_CART_PATH'
+  | 'LIE_WASTE'
+  | 'LIE_NATIVE'
+  | 'LIE_GUR';
+
+/** LieType for each drawn surface. */
+export const SURFACE_LIE_TYPE: Record<SurfaceType, LieType> = {
+  fringe: 'LIE_FRINGE',
+  first_cut: 'LIE_FIRST_CUT',
+  cart_path: 'LIE_CART_PATH',
+  waste: 'LIE_WASTE',
+  native: 'LIE_NATIVE',
+  gur: 'LIE_GUR',
+};
 
 export interface LatLng {
   lat: number;
@@ -25,11 +51,17 @@ export interface PolygonRegion {
 
 export type Region = CircleRegion | PolygonRegion;
 
+export interface SurfaceRegion {
+  surface: SurfaceType;
+  region: Region;
+}
+
 export interface HoleGeoJSON {
   water: Region[];
   green: Region;
   bunker: Region[];
   fairway: Region[];
+  surfaces?: SurfaceRegion[];
 }
 
 function haversineMeters(a: LatLng, b: LatLng): number {
@@ -74,19 +106,32 @@ function inAny(point: LatLng, regions: Region[]): boolean {
   return regions.some((r) => contains(point, r));
 }
 
+function surfaceAt(point: LatLng, surfaces: SurfaceRegion[] | undefined, types: SurfaceType[]): SurfaceType | null {
+  for (const type of types) {
+    if (surfaces?.some((s) => s.surface === type && contains(point, s.region))) return type;
+  }
+  return null;
+}
+
 /**
  * FIG 3: Lie detection in priority order.
  * 1. Is in Water? → LIE_WATER
  * 2. Is on Green? → LIE_GREEN
  * 3. Is in Bunker? → LIE_BUNKER
- * 4. Is on Fairway? → LIE_FAIRWAY
- * 5. Else → LIE_ROUGH
+ * 4. Is in Ground under repair / on a Cart path / on the Fringe? → LIE_GUR / LIE_CART_PATH / LIE_FRINGE
+ * 5. Is on Fairway? → LIE_FAIRWAY
+ * 6. Is in First cut / Waste area / Native area? → LIE_FIRST_CUT / LIE_WASTE / LIE_NATIVE
+ * 7. Else → LIE_ROUGH
  */
 export function detectLie(currentCoordinate: LatLng, holeGeoJSON: HoleGeoJSON): LieType {
   if (holeGeoJSON.water.length && inAny(currentCoordinate, holeGeoJSON.water)) return 'LIE_WATER';
   if (contains(currentCoordinate, holeGeoJSON.green)) return 'LIE_GREEN';
   if (holeGeoJSON.bunker.length && inAny(currentCoordinate, holeGeoJSON.bunker)) return 'LIE_BUNKER';
+  const over = surfaceAt(currentCoordinate, holeGeoJSON.surfaces, SURFACES_OVER_FAIRWAY);
+  if (over) return SURFACE_LIE_TYPE[over];
   if (holeGeoJSON.fairway.length && inAny(currentCoordinate, holeGeoJSON.fairway)) return 'LIE_FAIRWAY';
+  const under = surfaceAt(currentCoordinate, holeGeoJSON.surfaces, SURFACES_UNDER_FAIRWAY);
+  if (under) return SURFACE_LIE_TYPE[under];
   return 'LIE_ROUGH';
 }
 
@@ -98,12 +143,19 @@ export function holeFeaturesToGeoJSON(features: {
   green: { center: LatLng; radiusMeters: number };
   bunkers: { center: LatLng; radiusMeters: number }[];
   fairways: { center: LatLng; radiusMeters: number }[];
+  surfaces?: { type: SurfaceType; vertices: LatLng[] }[];
 }): HoleGeoJSON {
   return {
     water: features.water.map((w) => ({ type: 'circle' as const, center: w.center, radiusMeters: w.radiusMeters })),
     green: { type: 'circle', center: features.green.center, radiusMeters: features.green.radiusMeters },
     bunker: features.bunkers.map((b) => ({ type: 'circle' as const, center: b.center, radiusMeters: b.radiusMeters })),
     fairway: features.fairways.map((f) => ({ type: 'circle' as const, center: f.center, radiusMeters: f.radiusMeters })),
+    ...(features.surfaces?.length && {
+      surfaces: features.surfaces.map((s) => ({
+        surface: s.type,
+        region: { type: 'polygon' as const, coordinates: s.vertices },
+      })),
+    }),
   };
 }
 
@@ -1,45 +1,278 @@
 /**
- * Putting Module — Patent distance bands (0–3 ft, 3–5 ft) for make probability.
- * Returns holed or leave position.
+ * Putting Module — reads the green and resolves one putt.
+ *
+ * The green is a tilted plane (GreenSlope). Slope along the putt changes the distance it plays (uphill longer,
+ * downhill shorter, more so on fast greens); slope across it breaks the ball toward the fall line, more on long,
+ * fast and downhill putts. Make probability follows a tour make-rate curve over the plays-as distance, made harder
+ * by break and scaled by skill. A miss leaves the ball where the golfer's speed and read put it: long or short by a
+ * spread proportional to the putt, and wide by line error plus a share of the break.
+ *
+ * Skill per handicap is calibrated so that, over a reference mix of first putts (long ones after a green in
+ * regulation, short ones after a chip), expected putts per hole and the three-putt rate match puttsPerRound and
+ * threePuttPercent in BENCHMARK_TABLE. Make rates stay at or below the tour curve and get worse with handicap; plus
+ * handicaps close the gap from scratch to the tour curve, reached at TOUR_PUTTING_HANDICAP.
  */
 
 import type { LatLng } from './LieDetector';
-import { vincentyDirect } from '../utils/geodesic';
+import { getBenchmarkForHandicap } from './BenchmarkSystem';
+import { vincentyDirect, vincentyInverse, boxMullerPair } from '../utils/geodesic';
+import { defaultRng, type Rng } from '../utils/rng';
+import type { GreenSlope } from '../types/greenSlope';
 
 const M_TO_FT = 3.28084;
+const FT_TO_M = 0.3048;
 
-/** Make probability by band (patent: 0–3 ft, 3–5 ft, etc.). */
-function makeProbability(distanceFeet: number): number {
-  if (distanceFeet <= 3) return 0.998;
-  if (distanceFeet <= 5) return 0.96;
-  if (distanceFeet <= 9) return 0.65;
-  if (distanceFeet <= 15) return 0.38;
-  if (distanceFeet <= 20) return 0.22;
-  if (distanceFeet <= 25) return 0.15;
-  return Math.max(0.02, 0.15 * Math.exp(-0.08 * (distanceFeet - 25)));
+export const DEFAULT_STIMP = 10;
+/** Plays-as change per percent of slope along the putt, at stimp 10. */
+const SPEED_PER_SLOPE_PERCENT = 0.08;
+/** Break (ft) = coefficient × side slope % × length^exponent × stimp / 10 / speed factor. */
+const BREAK_COEFFICIENT = 0.016;
+const BREAK_EXPONENT = 1.2;
+/** Each foot of break makes the putt play this much longer for make probability. */
+const BREAK_DIFFICULTY_PER_FOOT = 0.35;
+/** Tour make-rate curve: p = 1 / (1 + ((d - 1) / A)^B), d in feet (≈ 93% at 3 ft, 40% at 10 ft, 13% at 20 ft). */
+const MAKE_CURVE_A = 7.34;
+const MAKE_CURVE_B = 1.985;
+/** Good lag speed: aim to finish this share of the putt past the hole (capped). */
+const LAG_PAST_SHARE = 0.08;
+const LAG_PAST_MAX_FEET = 1.5;
+/** Line error (share of length) and share of the break misread, one standard deviation. */
+const LINE_SPREAD = 0.03;
+const READ_ERROR = 0.25;
+/** A missed putt finishes at least this far from the hole. */
+const MIN_LEAVE_FEET = 0.5;
+/** Handicap (plus) that putts to the tour curve; better handicaps putt no better. */
+export const TOUR_PUTTING_HANDICAP = -8;
+/** Speed error at TOUR_PUTTING_HANDICAP as a share of scratch's. */
+const TOUR_LAG_SPREAD_SHARE = 0.6;
+
+export interface PuttRead {
+  /** Straight-line length (ft). */
+  distanceFeet: number;
+  /** Slope along the putt (%, positive = uphill). */
+  uphillPercent: number;
+  /** Slope across the putt (%, positive = falls to the right). */
+  sidePercent: number;
+  /** Distance the putt plays (ft). */
+  playsAsFeet: number;
+  /** Break at the hole (ft, positive = breaks right). */
+  breakFeet: number;
+}
+
+export interface PuttingSkill {
+  /** Multiplies the plays-as distance before the make curve (1 = tour curve; higher = worse). */
+  difficultyScale: number;
+  /** Speed error, one standard deviation as a share of the plays-as distance. */
+  lagSpread: number;
 }
 
 export interface PuttResult {
   holed: boolean;
   leavePosition: LatLng;
+  read: PuttRead;
+}
+
+/** Read a putt of `distanceFeet` whose bearing is `relativeBearing` degrees clockwise from the fall line. */
+function readLocal(distanceFeet: number, relativeBearing: number, slope: GreenSlope | undefined): PuttRead {
+  const s = slope?.slopePercent ?? 0;
+  const stimpFactor = (slope?.stimp ?? DEFAULT_STIMP) / DEFAULT_STIMP;
+  const rad = (relativeBearing * Math.PI) / 180;
+  // Along the fall line is downhill; the fall line lies to the right of the putt when it is clockwise of it
+  const uphillPercent = -s * Math.cos(rad);
+  const sidePercent = -s * Math.sin(rad);
+  const speedFactor = Math.max(0.4, Math.min(2, 1 + uphillPercent * SPEED_PER_SLOPE_PERCENT * stimpFactor));
+  const breakFeet =
+    (BREAK_COEFFICIENT * sidePercent * Math.pow(distanceFeet, BREAK_EXPONENT) * stimpFactor) / speedFactor;
+  return { distanceFeet, uphillPercent, sidePercent, playsAsFeet: distanceFeet * speedFactor, breakFeet };
+}
+
+/** Read a putt from the ball to the hole on a green (flat when `slope` is omitted). */
+export function readPutt(from: LatLng, pin: LatLng, slope?: GreenSlope): PuttRead {
+  const { distance, initialBearing } = vincentyInverse(from, pin);
+  return readLocal(distance * M_TO_FT, initialBearing - (slope?.fallLineDegrees ?? 0), slope);
+}
+
+/** Make probability for a read putt and skill. */
+export function puttMakeProbability(read: PuttRead, skill: PuttingSkill): number {
+  const d = read.playsAsFeet * skill.difficultyScale * (1 + BREAK_DIFFICULTY_PER_FOOT * Math.abs(read.breakFeet));
+  if (d <= 1) return 1;
+  return 1 / (1 + Math.pow((d - 1) / MAKE_CURVE_A, MAKE_CURVE_B));
+}
+
+/** Where a miss finishes relative to the hole (ft): `long` past the hole along the putt, `right` of the line. */
+function missLeave(read: PuttRead, skill: PuttingSkill, zLong: number, zLine: number): { long: number; right: number } {
+  const past = Math.min(LAG_PAST_MAX_FEET, read.distanceFeet * LAG_PAST_SHARE);
+  // Speed error is a share of the plays-as distance; scaled back onto the ground it is that share of the length
+  const long = past + zLong * skill.lagSpread * read.distanceFeet;
+  const right = zLine * (LINE_SPREAD * read.distanceFeet + READ_ERROR * Math.abs(read.breakFeet));
+  const leave = Math.hypot(long, right);
+  if (leave >= MIN_LEAVE_FEET) return { long, right };
+  const scale = leave > 0 ? MIN_LEAVE_FEET / leave : 1;
+  return leave > 0 ? { long: long * scale, right: right * scale } : { long: MIN_LEAVE_FEET, right: 0 };
+}
+
+// --- Calibration -------------------------------------------------------------------------------------------
+
+/** Gauss–Hermite nodes and weights for a standard normal (5 points). */
+const NORMAL_NODES = [-2.857, -1.3556, 0, 1.3556, 2.857];
+const NORMAL_WEIGHTS = [0.01126, 0.2221, 0.5333, 0.2221, 0.01126];
+/** Putt directions relative to the fall line and the slope of the reference green. */
+/** Half the circle, each bearing weighted for itself and its mirror (putts either side of the fall line read alike). */
+const REFERENCE_BEARINGS = [0, 45, 90, 135, 180];
+const REFERENCE_BEARING_WEIGHTS = [1, 2, 2, 2, 1];
+const REFERENCE_SLOPE: GreenSlope = { slopePercent: 1.5, fallLineDegrees: 0 };
+const CALIBRATION_ROUNDS = 3;
+const BISECTION_STEPS = 16;
+
+/**
+ * Reference first putts (ft) with weights: lognormal around a GIR length and a post-chip length. The lengths grow
+ * slowly with handicap so the benchmark putts are made up by both the make rate and speed, landing the fit near
+ * published amateur make rates (about a third from 10 ft at scratch, under a fifth at 20).
+ */
+function referenceFirstPutts(handicap: number, girShare: number): { feet: number; weight: number }[] {
+  const girMedian = 18 + 0.15 * handicap;
+  const chipMedian = 4 + 0.1 * handicap;
+  const out: { feet: number; weight: number }[] = [];
+  NORMAL_NODES.forEach((z, i) => {
+    out.push({ feet: girMedian * Math.exp(0.55 * z), weight: girShare * NORMAL_WEIGHTS[i] });
+    out.push({ feet: chipMedian * Math.exp(0.7 * z), weight: (1 - girShare) * NORMAL_WEIGHTS[i] });
+  });
+  return out;
+}
+
+/** Expected putts per hole and three-putt rate for a skill over the reference putts and green. */
+function expectedPutting(
+  skill: PuttingSkill,
+  firstPutts: { feet: number; weight: number }[]
+): { puttsPerHole: number; threePuttRate: number } {
+  let putts = 0;
+  let threePutts = 0;
+  let total = 0;
+  for (const { feet, weight } of firstPutts) {
+    REFERENCE_BEARINGS.forEach((bearing, b) => {
+      const read = readLocal(feet, bearing, REFERENCE_SLOPE);
+      const miss = 1 - puttMakeProbability(read, skill);
+      let secondMiss = 0;
+      NORMAL_NODES.forEach((zLong, i) => {
+        NORMAL_NODES.forEach((zLine, j) => {
+          const { long, right } = missLeave(read, skill, zLong, zLine);
+          // Coming back: long leaves putt back up the line, short ones continue along it
+          const back = (Math.atan2(-right, -long) * 180) / Math.PI;
+          const second = readLocal(Math.hypot(long, right), bearing + back, REFERENCE_SLOPE);
+          secondMiss += NORMAL_WEIGHTS[i] * NORMAL_WEIGHTS[j] * (1 - puttMakeProbability(second, skill));
+        });
+      });
+      const w = weight * REFERENCE_BEARING_WEIGHTS[b];
+      putts += w * (1 + miss + miss * secondMiss);
+      threePutts += w * miss * secondMiss;
+      total += w;
+    });
+  }
+  return { puttsPerHole: putts / total, threePuttRate: threePutts / total };
+}
+
+function bisect(lo: number, hi: number, tooHigh: (x: number) => boolean): number {
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = (lo + hi) / 2;
+    if (tooHigh(mid)) hi = mid;
+    else lo = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/** Handicaps calibrated (the BENCHMARK_TABLE tiers); skill in between is interpolated. */
+const CALIBRATION_STEP = 5;
+const MAX_CALIBRATED_HANDICAP = 25;
+
+const skillCache = new Map<number, PuttingSkill>();
+
+/** Skill at a benchmark tier. The make-rate scale is at least 1 (the tour curve) and the tier below's. */
+function calibratedSkill(handicap: number): PuttingSkill {
+  const cached = skillCache.get(handicap);
+  if (cached) return cached;
+  const minScale = handicap > 0 ? calibratedSkill(handicap - CALIBRATION_STEP).difficultyScale : 1;
+  const bench = getBenchmarkForHandicap(handicap);
+  const targetPutts = bench.puttsPerRound / 18;
+  const targetThreePutts = bench.threePuttPercent / 100;
+  const firstPutts = referenceFirstPutts(handicap, bench.girPercent / 100);
+  let skill: PuttingSkill = { difficultyScale: 1, lagSpread: 0.15 };
+  for (let round = 0; round < CALIBRATION_ROUNDS; round++) {
+    const lagSpread = skill.lagSpread;
+    const difficultyScale = bisect(
+      minScale,
+      4,
+      (m) => expectedPutting({ difficultyScale: m, lagSpread }, firstPutts).puttsPerHole > targetPutts
+    );
+    skill = {
+      difficultyScale,
+      lagSpread: bisect(
+        0.01,
+        0.8,
+        (s) => expectedPutting({ difficultyScale, lagSpread: s }, firstPutts).threePuttRate > targetThreePutts
+      ),
+    };
+  }
+  skillCache.set(handicap, skill);
+  return skill;
+}
+
+function interpolateSkill(a: PuttingSkill, b: PuttingSkill, t: number): PuttingSkill {
+  return {
+    difficultyScale: a.difficultyScale + (b.difficultyScale - a.difficultyScale) * t,
+    lagSpread: a.lagSpread + (b.lagSpread - a.lagSpread) * t,
+  };
+}
+
+/**
+ * Putting skill for a handicap: calibrated to BENCHMARK_TABLE at its tiers (cached) and interpolated between them,
+ * so it never improves as the handicap rises. Plus handicaps, and tour-level profiles passed as negative handicaps,
+ * improve on scratch up to the tour curve.
+ */
+export function getPuttingSkill(handicap: number): PuttingSkill {
+  const h = Math.max(TOUR_PUTTING_HANDICAP, Math.min(MAX_CALIBRATED_HANDICAP, handicap));
+  if (h < 0) {
+    const scratch = calibratedSkill(0);
+    const tour = { difficultyScale: 1, lagSpread: scratch.lagSpread * TOUR_LAG_SPREAD_SHARE };
+    return interpolateSkill(scratch, tour, h / TOUR_PUTTING_HANDICAP);
+  }
+  const lower = Math.min(
+    MAX_CALIBRATED_HANDICAP - CALIBRATION_STEP,
+    Math.floor(h / CALIBRATION_STEP) * CALIBRATION_STEP
+  );
+  return interpolateSkill(
+    calibratedSkill(lower),
+    calibratedSkill(lower + CALIBRATION_STEP),
+    (h - lower) / CALIBRATION_STEP
+  );
 }
 
 /**
- * Resolve one putt: distance-based make probability; on miss, leave 1–3 ft from pin.
+ * Resolve one putt: read the green, roll for the make, and on a miss leave the ball where speed and line put it.
+ * @param options.handicap - Putting skill (default scratch)
+ * @param options.slope - Green contour (flat when omitted)
+ * @param options.makeBonus - Added to the make probability (e.g. a par-save nerve bonus)
  */
 export function executePutt(
   fromPosition: LatLng,
   pinPosition: LatLng,
-  distanceToPinMeters: number
+  distanceToPinMeters: number,
+  rng: Rng = defaultRng,
+  options?: { handicap?: number; slope?: GreenSlope; makeBonus?: number }
 ): PuttResult {
-  const distanceFeet = distanceToPinMeters * M_TO_FT;
-  const p = makeProbability(distanceFeet);
-  if (Math.random() < p) {
-    return { holed: true, leavePosition: pinPosition };
+  const { initialBearing } = vincentyInverse(fromPosition, pinPosition);
+  const read = readLocal(
+    distanceToPinMeters * M_TO_FT,
+    initialBearing - (options?.slope?.fallLineDegrees ?? 0),
+    options?.slope
+  );
+  const skill = getPuttingSkill(options?.handicap ?? 0);
+  const p = Math.min(1, puttMakeProbability(read, skill) + (options?.makeBonus ?? 0));
+  if (rng.next() < p) {
+    return { holed: true, leavePosition: pinPosition, read };
   }
-  const leaveFeet = 1 + Math.random() * 2;
-  const leaveMeters = leaveFeet * 0.3048;
-  const bearing = Math.random() * 360;
-  const leavePosition = vincentyDirect(pinPosition, bearing, leaveMeters);
-  return { holed: false, leavePosition: { lat: leavePosition.lat, lng: leavePosition.lng } };
+  const [zLong, zLine] = boxMullerPair(rng);
+  const { long, right } = missLeave(read, skill, zLong, zLine);
+  const bearing = initialBearing + (Math.atan2(right, long) * 180) / Math.PI;
+  const leavePosition = vincentyDirect(pinPosition, (bearing + 360) % 360, Math.hypot(long, right) * FT_TO_M);
+  return { holed: false, leavePosition: { lat: leavePosition.lat, lng: leavePosition.lng }, read };
 }
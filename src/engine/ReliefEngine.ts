@@ -0,0 +1,273 @@
+/**
+ * Relief Engine — the Rules of Golf options after a ball goes into a penalty area, out of bounds or is declared
+ * unplayable, and the pick among them by expected score.
+ *
+ * Penalty area (Rule 17.1), one stroke: stroke-and-distance from the previous spot; back-on-the-line, keeping the
+ * point where the ball last crossed into the area between the hole and the drop; and, for red stakes only, lateral
+ * relief within two club-lengths of that point, no nearer the hole. Out of bounds (Rule 18.2): stroke-and-distance for
+ * one stroke, or Local Rule E-5 for two — a drop on the fairway edge, no nearer the hole than where the ball went out.
+ * Unplayable ball (Rule 19.2), one stroke: stroke-and-distance, back-on-the-line or lateral, measured from the ball.
+ * Free relief (Rule 16.1) from a cart path or ground under repair: the nearest point of complete relief no nearer the
+ * hole, and a drop within one club-length of it.
+ */
+
+import { vincentyDirect, vincentyInverse } from '../utils/geodesic';
+import type { LatLng } from './BallisticsEngine';
+
+export type ReliefKind = 'stroke-and-distance' | 'back-on-line' | 'lateral' | 'e5';
+
+/** Penalty area stake colour: yellow areas have no lateral relief. */
+export type PenaltyAreaStake = 'red' | 'yellow';
+
+export interface ReliefOption {
+  kind: ReliefKind;
+  /** Where the next stroke is played from. */
+  dropPosition: LatLng;
+  penaltyStrokes: number;
+  /** Point the option is measured from: previous spot, entry or crossing point, the ball, or the fairway edge. */
+  referencePoint: LatLng;
+  label: string;
+}
+
+export interface ReliefCircle {
+  center: LatLng;
+  radiusMeters: number;
+}
+
+/** Where the ball was played from, where the hole is, and where a ball may be dropped. */
+export interface ReliefSetting {
+  previousSpot: LatLng;
+  pin: LatLng;
+  /** True where a ball may come to rest after the drop: in bounds and outside every penalty area. */
+  isPlayable: (position: LatLng) => boolean;
+}
+
+/** One club-length (m), the longest club in the bag other than a putter — a driver. */
+export const CLUB_LENGTH_METERS = 1.17;
+export const TWO_CLUB_LENGTHS_METERS = 2 * CLUB_LENGTH_METERS;
+
+/** How far back on the line to look for a playable spot before giving up on that option (m). */
+const MAX_BACK_ON_LINE_METERS = 300;
+const BACK_ON_LINE_STEP_METERS = 1;
+/** Spacing of the samples along a ball's path and fairway edges (m). */
+const SAMPLE_STEP_METERS = 2;
+/** Bearings tried around a reference point for lateral relief. */
+const LATERAL_BEARING_STEP_DEG = 15;
+/** Search step and limit for the nearest point of complete relief (m). */
+const FREE_RELIEF_STEP_METERS = 0.5;
+const MAX_FREE_RELIEF_METERS = 40;
+/** Distance the E-5 drop is moved from the fairway edge onto the fairway (m). */
+const FAIRWAY_EDGE_INSET_METERS = 1;
+
+const STROKE_AND_DISTANCE_LABEL = 'Stroke and distance';
+
+function distance(a: LatLng, b: LatLng): number {
+  return vincentyInverse(a, b).distance;
+}
+
+function destination(from: LatLng, bearingDeg: number, meters: number): LatLng {
+  const p = vincentyDirect(from, bearingDeg, meters);
+  return { lat: p.lat, lng: p.lng };
+}
+
+function lerp(a: LatLng, b: LatLng, t: number): LatLng {
+  return { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t };
+}
+
+/** Points along a segment no more than SAMPLE_STEP_METERS apart, excluding the start. */
+function sampleSegment(a: LatLng, b: LatLng): LatLng[] {
+  const n = Math.max(1, Math.ceil(distance(a, b) / SAMPLE_STEP_METERS));
+  const points: LatLng[] = [];
+  for (let i = 1; i <= n; i++) points.push(lerp(a, b, i / n));
+  return points;
+}
+
+/**
+ * Point where a ball's path last crossed into an area (a penalty area, or out of bounds), refined by bisection.
+ * `path` runs from where the ball was struck to where it came to rest and may include points in the air; the crossing
+ * is then where the ball flew over the edge. Returns the path's start when it never was outside the area.
+ */
+export function findCrossingPoint(path: LatLng[], isInside: (position: LatLng) => boolean): LatLng | null {
+  if (path.length === 0) return null;
+  const samples: LatLng[] = [path[0]];
+  for (let i = 1; i < path.length; i++) samples.push(...sampleSegment(path[i - 1], path[i]));
+  for (let i = samples.length - 1; i > 0; i--) {
+    if (!isInside(samples[i]) || isInside(samples[i - 1])) continue;
+    let outside = samples[i - 1];
+    let inside = samples[i];
+    for (let k = 0; k < 10; k++) {
+      const mid = lerp(outside, inside, 0.5);
+      if (isInside(mid)) inside = mid;
+      else outside = mid;
+    }
+    return inside;
+  }
+  return path[0];
+}
+
+/** First playable spot on the line from the hole through `reference`, going back (away from the hole). */
+function backOnLineDrop(reference: LatLng, setting: ReliefSetting): LatLng | null {
+  const back = vincentyInverse(setting.pin, reference).initialBearing;
+  for (let d = BACK_ON_LINE_STEP_METERS; d <= MAX_BACK_ON_LINE_METERS; d += BACK_ON_LINE_STEP_METERS) {
+    const p = destination(reference, back, d);
+    if (setting.isPlayable(p)) return p;
+  }
+  return null;
+}
+
+/** Playable spot within `radius` of `reference` and no nearer the hole, as near the hole as allowed. */
+function lateralDrop(reference: LatLng, radius: number, setting: ReliefSetting): LatLng | null {
+  const limit = distance(reference, setting.pin);
+  let best: LatLng | null = null;
+  let bestToPin = Infinity;
+  for (const r of [radius, radius * 0.66, radius * 0.33]) {
+    for (let b = 0; b < 360; b += LATERAL_BEARING_STEP_DEG) {
+      const p = destination(reference, b, r);
+      const toPin = distance(p, setting.pin);
+      if (toPin < limit || toPin >= bestToPin || !setting.isPlayable(p)) continue;
+      best = p;
+      bestToPin = toPin;
+    }
+  }
+  return best;
+}
+
+function strokeAndDistance(setting: ReliefSetting): ReliefOption {
+  return {
+    kind: 'stroke-and-distance',
+    dropPosition: setting.previousSpot,
+    penaltyStrokes: 1,
+    referencePoint: setting.previousSpot,
+    label: STROKE_AND_DISTANCE_LABEL,
+  };
+}
+
+/** One-stroke options measured from `reference`: stroke-and-distance, back-on-the-line and (if allowed) lateral. */
+function oneStrokeOptions(reference: LatLng, setting: ReliefSetting, lateral: boolean): ReliefOption[] {
+  const options = [strokeAndDistance(setting)];
+  const back = backOnLineDrop(reference, setting);
+  if (back) {
+    options.push({ kind: 'back-on-line', dropPosition: back, penaltyStrokes: 1, referencePoint: reference, label: 'Back on the line' });
+  }
+  if (lateral) {
+    const side = lateralDrop(reference, TWO_CLUB_LENGTHS_METERS, setting);
+    if (side) {
+      options.push({ kind: 'lateral', dropPosition: side, penaltyStrokes: 1, referencePoint: reference, label: 'Lateral (two club-lengths)' });
+    }
+  }
+  return options;
+}
+
+/** Options for a ball in a penalty area that last crossed into it at `entryPoint` (Rule 17.1d). */
+export function penaltyAreaReliefOptions(
+  setting: ReliefSetting & { entryPoint: LatLng; stake: PenaltyAreaStake }
+): ReliefOption[] {
+  return oneStrokeOptions(setting.entryPoint, setting, setting.stake === 'red');
+}
+
+/** Options for an unplayable ball at `ballPosition` (Rule 19.2). */
+export function unplayableReliefOptions(setting: ReliefSetting & { ballPosition: LatLng }): ReliefOption[] {
+  return oneStrokeOptions(setting.ballPosition, setting, true);
+}
+
+/** Fairway edge point nearest `reference` that is no nearer the hole than it, moved slightly onto the fairway. */
+function fairwayReferencePoint(
+  reference: LatLng,
+  setting: ReliefSetting,
+  fairwayPolygons: LatLng[][],
+  fairwayCircles: ReliefCircle[]
+): LatLng | null {
+  const limit = distance(reference, setting.pin);
+  let best: LatLng | null = null;
+  let bestDistance = Infinity;
+  const consider = (edge: LatLng, inward: LatLng) => {
+    const d = distance(reference, edge);
+    if (d >= bestDistance) return;
+    const inwardBearing = vincentyInverse(edge, inward).initialBearing;
+    const drop = destination(edge, inwardBearing, FAIRWAY_EDGE_INSET_METERS);
+    if (distance(drop, setting.pin) < limit || !setting.isPlayable(drop)) return;
+    best = drop;
+    bestDistance = d;
+  };
+  for (const polygon of fairwayPolygons) {
+    if (polygon.length < 3) continue;
+    const centroid = {
+      lat: polygon.reduce((s, p) => s + p.lat, 0) / polygon.length,
+      lng: polygon.reduce((s, p) => s + p.lng, 0) / polygon.length,
+    };
+    for (let i = 0; i < polygon.length; i++) {
+      const a = polygon[i];
+      for (const p of sampleSegment(a, polygon[(i + 1) % polygon.length])) consider(p, centroid);
+    }
+  }
+  for (const circle of fairwayCircles) {
+    for (let b = 0; b < 360; b += 5) consider(destination(circle.center, b, circle.radiusMeters), circle.center);
+  }
+  return best;
+}
+
+/**
+ * Options for a ball that went out of bounds, crossing the boundary at `crossingPoint` (Rule 18.2, Local Rule E-5).
+ * E-5 drops at the fairway reference point, or within two club-lengths of the crossing when the hole has no fairway.
+ */
+export function outOfBoundsReliefOptions(
+  setting: ReliefSetting & { crossingPoint: LatLng; fairwayPolygons?: LatLng[][]; fairwayCircles?: ReliefCircle[] }
+): ReliefOption[] {
+  const options = [strokeAndDistance(setting)];
+  const fairway = fairwayReferencePoint(
+    setting.crossingPoint,
+    setting,
+    setting.fairwayPolygons ?? [],
+    setting.fairwayCircles ?? []
+  );
+  const drop = fairway ?? lateralDrop(setting.crossingPoint, TWO_CLUB_LENGTHS_METERS, setting);
+  if (drop) {
+    options.push({
+      kind: 'e5',
+      dropPosition: drop,
+      penaltyStrokes: 2,
+      referencePoint: fairway ?? setting.crossingPoint,
+      label: 'Local Rule E-5',
+    });
+  }
+  return options;
+}
+
+/**
+ * Free relief from a condition the ball lies in (Rule 16.1): the nearest point where `isClear` holds that is no nearer
+ * the hole, and the drop one club-length on from it (or the point itself when that spot is not clear). Null when no
+ * clear spot is within reach, in which case the ball is played as it lies.
+ */
+export function freeReliefDrop(
+  ball: LatLng,
+  pin: LatLng,
+  isClear: (position: LatLng) => boolean
+): { nearestPoint: LatLng; dropPosition: LatLng } | null {
+  const limit = distance(ball, pin);
+  for (let r = FREE_RELIEF_STEP_METERS; r <= MAX_FREE_RELIEF_METERS; r += FREE_RELIEF_STEP_METERS) {
+    for (let b = 0; b < 360; b += LATERAL_BEARING_STEP_DEG) {
+      const point = destination(ball, b, r);
+      if (distance(point, pin) < limit || !isClear(point)) continue;
+      const drop = destination(ball, b, r + CLUB_LENGTH_METERS);
+      const useDrop = distance(drop, pin) >= limit && isClear(drop);
+      return { nearestPoint: point, dropPosition: useDrop ? drop : point };
+    }
+  }
+  return null;
+}
+
+/**
+ * Option with the lowest penalty plus expected strokes to hole out from the drop. `expectedStrokes` gets the whole
+ * option so callers can score a stroke-and-distance replay from the tee by its lie.
+ */
+export function chooseBestRelief(
+  options: ReliefOption[],
+  expectedStrokes: (option: ReliefOption) => number
+): { option: ReliefOption; expectedScore: number } | null {
+  let best: { option: ReliefOption; expectedScore: number } | null = null;
+  for (const option of options) {
+    const expectedScore = option.penaltyStrokes + expectedStrokes(option);
+    if (!best || expectedScore < best.expectedScore) best = { option, expectedScore };
+  }
+  return best;
+}
@@ -0,0 +1,155 @@
+/**
+ * Roll-out after landing: carry vs total. The ball's first bounce keeps a share of its pace set by the landing lie
+ * (rough grabs it, a green's spin checks it, sand stops it, a cart path kicks it on), then it rolls along the shot line losing pace faster in
+ * rough than on short grass, until it stops or runs into a bunker or water.
+ *
+ * Roll on a medium fairway is a fraction of carry by club (steep wedges stop, drivers run); course firmness scales
+ * it, and slope along the shot (positive = uphill, as in GameSettings.slope) shortens or lengthens it.
+ */
+
+import { vincentyDirect } from '../utils/geodesic';
+import type { LatLng } from './BallisticsEngine';
+
+export type CourseFirmness = 'soft' | 'medium' | 'firm';
+
+/** Club keys as in the distance charts, plus low-running chips. */
+export type RollClub =
+  | 'driver'
+  | '3-wood'
+  | '4-hybrid'
+  | '4-iron'
+  | '5-iron'
+  | '6-iron'
+  | '7-iron'
+  | '8-iron'
+  | '9-iron'
+  | 'PW'
+  | 'GW'
+  | 'SW'
+  | 'LW'
+  | 'chip';
+
+export type RollLie = 'fairway' | 'rough' | 'green' | 'bunker' | 'water' | 'cart_path' | 'waste' | 'native';
+
+export interface RollOutResult {
+  restPosition: LatLng;
+  rollMeters: number;
+  /** Lie where the ball stopped. */
+  restLie: RollLie;
+}
+
+/** Roll as a fraction of carry on a medium fairway. */
+const ROLL_FRACTION: Record<RollClub, number> = {
+  driver: 0.09,
+  '3-wood': 0.075,
+  '4-hybrid': 0.06,
+  '4-iron': 0.05,
+  '5-iron': 0.045,
+  '6-iron': 0.04,
+  '7-iron': 0.035,
+  '8-iron': 0.03,
+  '9-iron': 0.025,
+  PW: 0.02,
+  GW: 0.015,
+  SW: 0.01,
+  LW: 0.008,
+  chip: 0.6,
+};
+
+const FIRMNESS_FACTOR: Record<CourseFirmness, number> = {
+  soft: 0.5,
+  medium: 1,
+  firm: 1.7,
+};
+
+/** Share of pace kept by the first bounce, by landing lie. */
+const FIRST_BOUNCE_FACTOR: Record<RollLie, number> = {
+  fairway: 1,
+  rough: 0.35,
+  green: 0.7,
+  bunker: 0,
+  water: 0,
+  cart_path: 1.6,
+  waste: 0.6,
+  native: 0.15,
+};
+
+/** Rolling resistance per meter relative to fairway (bunker and water stop the ball). */
+const ROLLING_COST: Record<Exclude<RollLie, 'bunker' | 'water'>, number> = {
+  fairway: 1,
+  green: 0.8,
+  rough: 3,
+  cart_path: 0.35,
+  waste: 1.8,
+  native: 6,
+};
+
+/** Change in roll per degree of slope (uphill shortens). */
+const SLOPE_FACTOR_PER_DEGREE = 0.08;
+const ROLL_STEP_METERS = 1;
+
+export const COURSE_FIRMNESS_OPTIONS: CourseFirmness[] = ['soft', 'medium', 'firm'];
+
+function slopeFactor(slopeDegrees: number): number {
+  return Math.max(0.3, Math.min(2, 1 - slopeDegrees * SLOPE_FACTOR_PER_DEGREE));
+}
+
+/** Expected roll (meters) for a carry with a club landing in a lie; 0 in a bunker or water. */
+export function estimateRollMeters(
+  carryMeters: number,
+  club: RollClub,
+  landingLie: RollLie,
+  firmness: CourseFirmness = 'medium',
+  slopeDegrees: number = 0
+): number {
+  return (
+    carryMeters *
+    ROLL_FRACTION[club] *
+    FIRMNESS_FACTOR[firmness] *
+    slopeFactor(slopeDegrees) *
+    FIRST_BOUNCE_FACTOR[landingLie]
+  );
+}
+
+/**
+ * Roll the ball out from its landing spot along `bearing`. The roll budget from estimateRollMeters is spent faster
+ * in rough; entering a bunker or water ends the roll there.
+ */
+export function rollOut(params: {
+  landing: LatLng;
+  bearing: number;
+  carryMeters: number;
+  club: RollClub;
+  firmness?: CourseFirmness;
+  slopeDegrees?: number;
+  lieAt: (position: LatLng) => RollLie;
+}): RollOutResult {
+  const { landing, bearing, carryMeters, club, firmness, slopeDegrees, lieAt } = params;
+  const landingLie = lieAt(landing);
+  let budget = estimateRollMeters(carryMeters, club, landingLie, firmness, slopeDegrees);
+  let rolled = 0;
+  let lie = landingLie;
+  let position = landing;
+  while (budget > 0 && lie !== 'bunker' && lie !== 'water') {
+    const cost = ROLLING_COST[lie];
+    const step = Math.min(ROLL_STEP_METERS, budget / cost);
+    const next = vincentyDirect(landing, bearing, rolled + step);
+    rolled += step;
+    budget -= step * cost;
+    position = { lat: next.lat, lng: next.lng };
+    lie = lieAt(position);
+  }
+  return { restPosition: position, rollMeters: rolled, restLie: lie };
+}
+
+/** Roll club for a full shot of this many yards with a chart (distance by club key), e.g. HACKMOTION tiers. */
+export function rollClubForYards(
+  yards: number,
+  distances: Record<Exclude<RollClub, 'chip'>, number>
+): Exclude<RollClub, 'chip'> {
+  const keys = Object.keys(ROLL_FRACTION).filter((k): k is Exclude<RollClub, 'chip'> => k !== 'chip');
+  for (let i = keys.length - 1; i >= 0; i--) {
+    if (yards <= distances[keys[i]]) return keys[i];
+  }
+  return 'driver';
+}
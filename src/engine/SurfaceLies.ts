@@ -0,0 +1,55 @@
+/**
+ * How the surfaces drawn in the course editor play (HoleOverride.surfaces), next to the base fairway/rough lies.
+ * Dispersion and distance are multipliers on a full shot from the fairway; `playsAs` is the shot the engines treat
+ * it as (fairway approach, or rough-style recovery with chip-outs). Cart paths and ground under repair are not played
+ * from: the ball gets free relief first (Rule 16.1), and these values only apply when no relief spot is found.
+ */
+
+import type { CourseLie, SurfaceType } from '../types/courseSurface';
+import type { StrokesGainedLie } from '../types/strokesGained';
+import type { RollLie } from './RollModel';
+
+export interface SurfaceLieEffect {
+  label: string;
+  playsAs: 'fairway' | 'rough';
+  /** Multiplier on distance and direction dispersion. */
+  dispersion: number;
+  /** Multiplier on the longest full shot from this lie. */
+  distance: number;
+  /** How a ball rolls across it. */
+  roll: RollLie;
+  /** Lie it is scored from in strokes gained. */
+  baseline: StrokesGainedLie;
+  /** Free relief (no penalty) before the next shot. */
+  freeRelief: boolean;
+}
+
+export const SURFACE_LIE_EFFECTS: Record<SurfaceType, SurfaceLieEffect> = {
+  fringe: { label: 'Fringe', playsAs: 'fairway', dispersion: 1, distance: 1, roll: 'fairway', baseline: 'fairway', freeRelief: false },
+  first_cut: { label: 'First cut', playsAs: 'fairway', dispersion: 1.12, distance: 0.97, roll: 'fairway', baseline: 'fairway', freeRelief: false },
+  cart_path: { label: 'Cart path', playsAs: 'fairway', dispersion: 1.3, distance: 0.95, roll: 'cart_path', baseline: 'fairway', freeRelief: true },
+  waste: { label: 'Waste area', playsAs: 'rough', dispersion: 1.25, distance: 0.94, roll: 'waste', baseline: 'rough', freeRelief: false },
+  native: { label: 'Native / fescue', playsAs: 'rough', dispersion: 1.8, distance: 0.65, roll: 'native', baseline: 'rough', freeRelief: false },
+  gur: { label: 'Ground under repair', playsAs: 'rough', dispersion: 1.35, distance: 0.92, roll: 'rough', baseline: 'rough', freeRelief: true },
+};
+
+export const SURFACE_TYPES = Object.keys(SURFACE_LIE_EFFECTS) as SurfaceType[];
+
+/** Surfaces that win over a fairway drawn under them, and those a fairway wins over, each in priority order. */
+export const SURFACES_OVER_FAIRWAY: SurfaceType[] = ['gur', 'cart_path', 'fringe'];
+export const SURFACES_UNDER_FAIRWAY: SurfaceType[] = ['first_cut', 'waste', 'native'];
+
+export function isSurfaceLie(lie: CourseLie | 'tee'): lie is SurfaceType {
+  return lie in SURFACE_LIE_EFFECTS;
+}
+
+/** Surface a ball rolls across at a lie. */
+export function rollLieFor(lie: CourseLie): RollLie {
+  return isSurfaceLie(lie) ? SURFACE_LIE_EFFECTS[lie].roll : lie;
+}
+
+/** Strokes-gained baseline lie for a lie (water plays as rough: the next shot is from a drop). */
+export function baselineLieFor(lie: CourseLie | 'tee'): StrokesGainedLie {
+  if (isSurfaceLie(lie)) return SURFACE_LIE_EFFECTS[lie].baseline;
+  return lie === 'water' ? 'rough' : lie;
+}
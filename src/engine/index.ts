@@ -16,20 +16,86 @@ export {
 
 export {
   BallisticsEngine,
+  curvedFlightPath,
+  splitAngleError,
+  describeShotShape,
   type LatLng,
   type ExecuteShotResult,
+  type ShotTendency,
   type TrajectoryPoint,
 } from './BallisticsEngine';
 
 export {
   detectLie,
   holeFeaturesToGeoJSON,
+  SURFACE_LIE_TYPE,
   type LieType,
   type HoleGeoJSON,
   type LatLng as LieDetectorLatLng,
   type CircleRegion,
   type PolygonRegion,
   type Region,
+  type SurfaceRegion,
 } from './LieDetector';
 
-export { executePutt, type PuttResult } from './PuttingModule';
+export {
+  executePutt,
+  readPutt,
+  puttMakeProbability,
+  getPuttingSkill,
+  DEFAULT_STIMP,
+  TOUR_PUTTING_HANDICAP,
+  type PuttResult,
+  type PuttRead,
+  type PuttingSkill,
+} from './PuttingModule';
+
+export {
+  estimateRollMeters,
+  rollOut,
+  rollClubForYards,
+  COURSE_FIRMNESS_OPTIONS,
+  type CourseFirmness,
+  type RollClub,
+  type RollLie,
+  type RollOutResult,
+} from './RollModel';
+
+export {
+  getLaunchConditions,
+  getFlightEnvironment,
+  simulateClubFlight,
+  getPlaysAsMeters,
+  type LaunchClub,
+  type LaunchConditions,
+  type FlightConditions,
+  type FlightResult,
+  type ClubFlight,
+} from './LaunchModel';
+
+export {
+  findCrossingPoint,
+  penaltyAreaReliefOptions,
+  outOfBoundsReliefOptions,
+  unplayableReliefOptions,
+  freeReliefDrop,
+  chooseBestRelief,
+  CLUB_LENGTH_METERS,
+  TWO_CLUB_LENGTHS_METERS,
+  type ReliefKind,
+  type ReliefOption,
+  type ReliefCircle,
+  type ReliefSetting,
+  type PenaltyAreaStake,
+} from './ReliefEngine';
+
+export {
+  SURFACE_LIE_EFFECTS,
+  SURFACE_TYPES,
+  SURFACES_OVER_FAIRWAY,
+  SURFACES_UNDER_FAIRWAY,
+  isSurfaceLie,
+  rollLieFor,
+  baselineLieFor,
+  type SurfaceLieEffect,
+} from './SurfaceLies';
@@ -3,11 +3,20 @@
  */
 
 import { vincentyInverse } from '../utils/geodesic';
-import { detectLie, type LieType, type HoleGeoJSON, type LatLng } from './LieDetector';
+import { detectLie, SURFACE_LIE_TYPE, type LieType, type HoleGeoJSON, type LatLng } from './LieDetector';
 import { BallisticsEngine } from './BallisticsEngine';
 import { DispersionCalculator } from './DispersionCalculator';
 import { executePutt } from './PuttingModule';
-import { getMaxShotDistanceYards, handicapNumberToTier } from '../data/clubDistancesByHandicap';
+import { freeReliefDrop } from './ReliefEngine';
+import { SURFACE_LIE_EFFECTS, SURFACE_TYPES, type SurfaceLieEffect } from './SurfaceLies';
+import { estimateRollMeters, rollClubForYards, rollOut, type CourseFirmness, type RollLie } from './RollModel';
+import {
+  getMaxShotDistanceYards,
+  handicapNumberToTier,
+  HACKMOTION_DISTANCES_BY_HANDICAP,
+} from '../data/clubDistancesByHandicap';
+import { defaultRng, type Rng } from '../utils/rng';
+import type { GreenSlope } from '../types/greenSlope';
 
 const GIMME_THRESHOLD_METERS = 0.2;
 const PUTT_CHIP_RANGE_METERS = 20;
@@ -21,6 +30,8 @@ export interface ShotStep {
   lie: LieType;
   penalty?: boolean;
   holed?: boolean;
+  /** Full shots that rolled out: where the ball landed before rolling to `to`. */
+  carry?: LatLng;
 }
 
 export interface RunHoleSimulationParams {
@@ -31,6 +42,14 @@ export interface RunHoleSimulationParams {
   handicap: number;
   fairwayCenter?: LatLng | null;
   maxShots?: number;
+  /** Random source for every shot and putt; pass a seeded Rng to replay the hole exactly. */
+  rng?: Rng;
+  /** Course firmness for roll-out after landing. Default 'medium'. */
+  firmness?: CourseFirmness;
+  /** Slope along the shot in degrees (positive = uphill), as GameSettings.slope. Default 0. */
+  slopeDegrees?: number;
+  /** Green contour for putting; flat when omitted. */
+  greenSlope?: GreenSlope;
 }
 
 export interface RunHoleSimulationResult {
@@ -44,6 +63,25 @@ function distanceMeters(a: LatLng, b: LatLng): number {
   return vincentyInverse(a, b).distance;
 }
 
+const ROLL_LIE: Record<LieType, RollLie> = {
+  LIE_WATER: 'water',
+  LIE_GREEN: 'green',
+  LIE_BUNKER: 'bunker',
+  LIE_FAIRWAY: 'fairway',
+  LIE_ROUGH: 'rough',
+  LIE_FRINGE: SURFACE_LIE_EFFECTS.fringe.roll,
+  LIE_FIRST_CUT: SURFACE_LIE_EFFECTS.first_cut.roll,
+  LIE_CART_PATH: SURFACE_LIE_EFFECTS.cart_path.roll,
+  LIE_WASTE: SURFACE_LIE_EFFECTS.waste.roll,
+  LIE_NATIVE: SURFACE_LIE_EFFECTS.native.roll,
+  LIE_GUR: SURFACE_LIE_EFFECTS.gur.roll,
+};
+
+/** Dispersion and distance effects of the drawn-surface lies; fairway and rough play at the base values. */
+const SURFACE_EFFECT_BY_LIE = new Map<LieType, SurfaceLieEffect>(
+  SURFACE_TYPES.map((t) => [SURFACE_LIE_TYPE[t], SURFACE_LIE_EFFECTS[t]])
+);
+
 export function runHoleSimulation(params: RunHoleSimulationParams): RunHoleSimulationResult {
   const {
     teePosition,
@@ -53,9 +91,13 @@ export function runHoleSimulation(params: RunHoleSimulationParams): RunHoleSimul
     handicap,
     fairwayCenter,
     maxShots = 20,
+    rng = defaultRng,
+    firmness = 'medium',
+    slopeDegrees = 0,
+    greenSlope,
   } = params;
 
-  const ballistics = new BallisticsEngine();
+  const ballistics = new BallisticsEngine(rng);
   const dispersion = new DispersionCalculator(handicap);
   const tier = handicapNumberToTier(handicap);
 
@@ -64,7 +106,7 @@ export function runHoleSimulation(params: RunHoleSimulationParams): RunHoleSimul
   let strokes = 0;
 
   while (strokes < maxShots) {
-    const distanceToPin = distanceMeters(position, pinPosition);
+    let distanceToPin = distanceMeters(position, pinPosition);
 
     if (distanceToPin < GIMME_THRESHOLD_METERS) {
       shots.push({
@@ -81,10 +123,23 @@ export function runHoleSimulation(params: RunHoleSimulationParams): RunHoleSimul
       };
     }
 
-    const lie = detectLie(position, holeGeoJSON);
+    let lie = detectLie(position, holeGeoJSON);
+
+    // Cart path or ground under repair: free relief to the nearest clear spot, then play from there
+    if (SURFACE_EFFECT_BY_LIE.get(lie)?.freeRelief) {
+      const relief = freeReliefDrop(position, pinPosition, (p) => {
+        const at = detectLie(p, holeGeoJSON);
+        return at !== 'LIE_WATER' && at !== 'LIE_GREEN' && at !== 'LIE_BUNKER' && !SURFACE_EFFECT_BY_LIE.get(at)?.freeRelief;
+      });
+      if (relief) {
+        position = relief.dropPosition;
+        distanceToPin = distanceMeters(position, pinPosition);
+        lie = detectLie(position, holeGeoJSON);
+      }
+    }
 
     if (lie === 'LIE_GREEN') {
-      const putt = executePutt(position, pinPosition, distanceToPin);
+      const putt = executePutt(position, pinPosition, distanceToPin, rng, { handicap, slope: greenSlope });
       shots.push({
         from: position,
         to: putt.leavePosition,
@@ -120,9 +175,10 @@ export function runHoleSimulation(params: RunHoleSimulationParams): RunHoleSimul
       continue;
     }
 
+    const surface = SURFACE_EFFECT_BY_LIE.get(lie);
     const distanceToPinYards = distanceToPin / YARDS_TO_METERS;
     const maxShotYards = getMaxShotDistanceYards(distanceToPinYards, tier);
-    const maxShotMeters = maxShotYards * YARDS_TO_METERS;
+    const maxShotMeters = maxShotYards * YARDS_TO_METERS * (surface?.distance ?? 1);
 
     let target: LatLng;
     let intendedDistanceMeters: number;
@@ -136,18 +192,44 @@ export function runHoleSimulation(params: RunHoleSimulationParams): RunHoleSimul
       intendedDistanceMeters = Math.min(distanceToPin, maxShotMeters);
     }
 
-    const disp =
-      distanceToPin <= PUTT_CHIP_RANGE_METERS && lie !== 'LIE_GREEN'
-        ? dispersion.getChipDispersion()
-        : dispersion.getFullShotDispersion();
-
-    const result = ballistics.executeShot(position, target, intendedDistanceMeters, disp);
+    const isChip = distanceToPin <= PUTT_CHIP_RANGE_METERS && lie !== 'LIE_GREEN';
+    const baseDisp = isChip ? dispersion.getChipDispersion() : dispersion.getFullShotDispersion();
+    const disp = surface
+      ? {
+          distanceStdDevPercent: baseDisp.distanceStdDevPercent * surface.dispersion,
+          angularStdDevDegrees: baseDisp.angularStdDevDegrees * surface.dispersion,
+        }
+      : baseDisp;
+
+    // Full shots: plan carry so carry + expected roll reaches the target, then roll out from the actual landing
+    const lieAt = (p: LatLng) => ROLL_LIE[detectLie(p, holeGeoJSON)];
+    const rollClub = isChip
+      ? null
+      : rollClubForYards(intendedDistanceMeters / YARDS_TO_METERS, HACKMOTION_DISTANCES_BY_HANDICAP[tier]);
+    const carryMeters = rollClub
+      ? intendedDistanceMeters -
+        estimateRollMeters(intendedDistanceMeters, rollClub, lieAt(target), firmness, slopeDegrees)
+      : intendedDistanceMeters;
+    const result = ballistics.executeShot(position, target, carryMeters, disp);
+    const roll = rollClub
+      ? rollOut({
+          landing: result.landingPosition,
+          bearing: vincentyInverse(position, result.landingPosition).initialBearing,
+          carryMeters: result.actualDistanceMeters,
+          club: rollClub,
+          firmness,
+          slopeDegrees,
+          lieAt,
+        })
+      : null;
+    const rolled = roll != null && roll.rollMeters > 0;
     shots.push({
       from: position,
-      to: result.landingPosition,
+      to: rolled ? roll.restPosition : result.landingPosition,
       lie,
+      ...(rolled && { carry: result.landingPosition }),
     });
-    position = result.landingPosition;
+    position = rolled ? roll.restPosition : result.landingPosition;
     strokes += 1;
   }
 
@@ -2,6 +2,9 @@ import { useMemo } from 'react';
 import { GeoCoordinate } from '../types/courseData';
 import { ClubStats, DispersionPolygon, DispersionResult } from '../types/smartCaddie';
 import { vincentyDirect, boxMullerPair } from '../utils/geodesic';
+import { bagClubToClubStats, recommendBagClub } from '../utils/myBag';
+import { useMyBag } from './useMyBag';
+import type { BagClubRecommendation } from '../types/myBag';
 
 /**
  * Custom hook for calculating probabilistic shot dispersion using 2-sigma (95% confidence) ellipse.
@@ -140,3 +143,22 @@ export function useMonteCarloDispersion(
     return simulatedPoints;
   }, [clubStats, currentPosition, targetCoordinates, numSimulations]);
 }
+
+/**
+ * Club from the user's bag (see useMyBag) for a "plays as" distance, with its ClubStats for the dispersion hooks
+ * above. Both null without a distance or with an empty bag.
+ *
+ * @param playsAsYards - Adjusted distance to the target (see getPlaysAsYards), or null
+ * @returns Recommendation (club, carry margin) and ClubStats in meters
+ */
+export function useBagClubStats(playsAsYards: number | null): {
+  recommendation: BagClubRecommendation | null;
+  clubStats: ClubStats | null;
+} {
+  const bag = useMyBag();
+  const yards = playsAsYards != null && playsAsYards > 0 ? Math.round(playsAsYards) : null;
+  return useMemo(() => {
+    const recommendation = yards != null ? recommendBagClub(bag, yards) : null;
+    return { recommendation, clubStats: recommendation ? bagClubToClubStats(recommendation.club) : null };
+  }, [bag, yards]);
+}
@@ -6,6 +6,9 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { detectLie, type LieType, type HoleGeoJSON, type LatLng } from '../engine/LieDetector';
 import { runHoleSimulation, type ShotStep } from '../engine/runHoleSimulation';
+import type { CourseFirmness } from '../engine/RollModel';
+import type { Rng } from '../utils/rng';
+import type { GreenSlope } from '../types/greenSlope';
 
 export type { ShotStep };
 
@@ -17,6 +20,13 @@ export interface UseHoleSimulationParams {
   handicap: number;
   fairwayCenter?: LatLng | null;
   maxShots?: number;
+  /** Random source for the simulation; pass a seeded Rng to replay the hole exactly. */
+  rng?: Rng;
+  /** Course firmness and slope (degrees, positive = uphill) for roll-out after landing. */
+  firmness?: CourseFirmness;
+  slopeDegrees?: number;
+  /** Green contour for putting; flat when omitted. */
+  greenSlope?: GreenSlope;
 }
 
 export interface UseHoleSimulationResult {
@@ -39,6 +49,10 @@ export function useHoleSimulation(params: UseHoleSimulationParams): UseHoleSimul
     handicap,
     fairwayCenter,
     maxShots = 20,
+    rng,
+    firmness,
+    slopeDegrees,
+    greenSlope,
   } = params;
 
   const [ballPosition, setBallPosition] = useState<LatLng>(() => ({ ...teePosition }));
@@ -73,6 +87,10 @@ export function useHoleSimulation(params: UseHoleSimulationParams): UseHoleSimul
       handicap,
       fairwayCenter,
       maxShots,
+      rng,
+      firmness,
+      slopeDegrees,
+      greenSlope,
     });
     resultRef.current = result;
     setShots(result.shots);
@@ -123,6 +141,10 @@ export function useHoleSimulation(params: UseHoleSimulationParams): UseHoleSimul
     handicap,
     fairwayCenter,
     maxShots,
+    rng,
+    firmness,
+    slopeDegrees,
+    greenSlope,
   ]);
 
   useEffect(() => {
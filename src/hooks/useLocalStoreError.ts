@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getLocalStoreError, subscribeLocalStore } from '../services/localStore';
+
+/** Last failed write to device storage (see localStore), or null; re-renders when it changes. */
+export function useLocalStoreError(): string | null {
+  return useSyncExternalStore(subscribeLocalStore, getLocalStoreError);
+}
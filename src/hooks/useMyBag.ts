@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getEffectiveBag, subscribeMyBag } from '../services/myBagStore';
+import type { EffectiveBag } from '../types/myBag';
+
+/** The user's bag refined from tracked shots (see myBagStore), re-rendering when it is edited or rounds change. */
+export function useMyBag(): EffectiveBag {
+  return useSyncExternalStore(subscribeMyBag, getEffectiveBag);
+}
@@ -0,0 +1,33 @@
+import { useMemo } from 'react';
+import { useMyBag } from './useMyBag';
+import { findOptimalTarget } from '../utils/targetOptimizer';
+import type { HoleFeaturesForAI } from '../data/lincolnParkCourse';
+import type { GeoCoordinate } from '../types/courseData';
+import type { OptimalTargetResult } from '../types/smartCaddie';
+import type { StrokesGainedLie } from '../types/strokesGained';
+
+/**
+ * Best aim point and club from the ball with the user's bag (see utils/targetOptimizer), recomputed when the ball,
+ * pin, hole or bag changes. Null when disabled, without hole features, or on the green.
+ *
+ * @param ball - Ball position
+ * @param pin - Hole location
+ * @param features - In-play features for lie detection
+ * @param handicap - Golfer's handicap for DispersionCalculator
+ * @param lie - Ball lie; detected from the features when omitted
+ * @param enabled - Skip the search (it samples tens of thousands of shots) while the caddie is off
+ */
+export function useOptimalTarget(
+  ball: GeoCoordinate,
+  pin: GeoCoordinate | null | undefined,
+  features: HoleFeaturesForAI | null | undefined,
+  handicap: number,
+  lie?: StrokesGainedLie,
+  enabled: boolean = true
+): OptimalTargetResult | null {
+  const bag = useMyBag();
+  return useMemo(() => {
+    if (!enabled || !pin || !features) return null;
+    return findOptimalTarget({ ball, pin, features, clubs: bag.clubs, handicap, lie });
+  }, [enabled, ball, pin, features, bag, handicap, lie]);
+}
@@ -0,0 +1,25 @@
+/**
+ * useRosterAI — plays the group's extra AI golfers hole by hole as the user posts scores,
+ * so their scorecard columns always run through the same holes as the user.
+ */
+
+import { useEffect } from 'react';
+import { useCurrentRound } from '../context/CurrentRoundContext';
+import { playRosterAIHole } from '../utils/roster';
+
+export function useRosterAI(): void {
+  const { round, setRound } = useCurrentRound();
+  const { roster, courseName, selectedTeeSet, userScoresByHole, seed } = round;
+
+  useEffect(() => {
+    if (!roster || !courseName) return;
+    let next = roster;
+    userScoresByHole.forEach((score, i) => {
+      if (score == null) return;
+      next = playRosterAIHole(next, courseName, i + 1, selectedTeeSet, seed ?? 0);
+    });
+    if (next !== roster) {
+      setRound({ roster: next });
+    }
+  }, [roster, courseName, selectedTeeSet, userScoresByHole, seed, setRound]);
+}
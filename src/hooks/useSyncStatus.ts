@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getSyncStatus, subscribeSyncStatus } from '../services/syncService';
+import type { SyncStatus } from '../types/sync';
+
+/** Current cloud sync status (see syncService), re-rendering on every change. */
+export function useSyncStatus(): SyncStatus {
+  return useSyncExternalStore(subscribeSyncStatus, getSyncStatus);
+}
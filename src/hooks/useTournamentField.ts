@@ -0,0 +1,26 @@
+/**
+ * useTournamentField — plays the simulated tournament field hole by hole as the user posts scores,
+ * so the leaderboard always shows the field through the same holes as the user.
+ */
+
+import { useEffect } from 'react';
+import { useCurrentRound } from '../context/CurrentRoundContext';
+import { playFieldHole } from '../utils/tournament';
+
+export function useTournamentField(): void {
+  const { round, setRound } = useCurrentRound();
+  const { tournament, courseName, selectedTeeSet, userScoresByHole, seed } = round;
+
+  useEffect(() => {
+    if (!tournament || !courseName) return;
+    let field = tournament.field;
+    userScoresByHole.forEach((score, i) => {
+      if (score == null) return;
+      if (field.every((c) => c.scoresByHole[i] != null)) return;
+      field = playFieldHole(field, courseName, i + 1, selectedTeeSet, seed ?? 0);
+    });
+    if (field !== tournament.field) {
+      setRound({ tournament: { ...tournament, field } });
+    }
+  }, [tournament, courseName, selectedTeeSet, userScoresByHole, seed, setRound]);
+}
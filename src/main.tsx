@@ -3,11 +3,17 @@ import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
 import { initCalibrationFromNetwork } from './utils/aiCalibration';
+import { initLocalStore } from './services/indexedDbStore';
+import { startSync } from './services/syncService';
 
 initCalibrationFromNetwork();
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+// Rounds and course edits are read synchronously from the local store, so load it before the first render.
+initLocalStore().then(() => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>
+  );
+  void startSync();
+});
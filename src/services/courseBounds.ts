@@ -2,7 +2,8 @@
  * Course bounds and hole positions for Explore (full course map, hole-by-hole).
  */
 
-import { getTeeAndGreen, getHoleByNumber } from '../data/lincolnParkCourse';
+import { getTeeAndGreen, getHoleByNumber, getCourseRatingAndSlope } from '../data/lincolnParkCourse';
+import { getEstimatedTeeSets } from './courseEditorStore';
 import type { TeeSetInfo } from '../data/courses';
 import {
   LINCOLN_PARK_COURSE,
@@ -119,12 +120,52 @@ export function getTeeSetNames(courseName: string): string[] {
   return [];
 }
 
-/** Tee set summary for a course (total yardage, course rating, slope). Returns undefined if no tee sets or index out of range. */
+/** Name an estimated rating is stored under on courses without named tee sets. */
+export const DEFAULT_TEE_SET_NAME = 'Default';
+
+/**
+ * Tee set summary for a course (total yardage, course rating, slope): the scorecard's when it has a rating, else the
+ * estimate from simulating the mapped holes (TeeSetInfo.estimated). Returns undefined if neither exists or index out
+ * of range.
+ */
 export function getTeeSetInfo(courseName: string, teeSetIndex: number): TeeSetInfo | undefined {
   const course = COURSES.find((c) => c.name === courseName);
   const sets = course?.teeSets;
-  if (!sets?.length || teeSetIndex < 0 || teeSetIndex >= sets.length) return undefined;
-  return sets[teeSetIndex];
+  if (sets?.length) {
+    if (teeSetIndex < 0 || teeSetIndex >= sets.length) return undefined;
+    const scorecard = sets[teeSetIndex];
+    if (scorecard.courseRating > 0 && scorecard.slopeRating > 0) return scorecard;
+    return getEstimatedTeeSets(courseName).find((t) => t.name === scorecard.name) ?? scorecard;
+  }
+  const names = getTeeSetNames(courseName);
+  const name = names.length > 0 ? names[teeSetIndex] : teeSetIndex === 0 ? DEFAULT_TEE_SET_NAME : undefined;
+  return name ? getEstimatedTeeSets(courseName).find((t) => t.name === name) : undefined;
+}
+
+/**
+ * Course rating, slope and total par the AI calibrates to (AIGolfer playHole options): the published ratings when
+ * known, else the tee set's TeeSetInfo, scorecard or estimated. Null when the course has neither.
+ */
+export function getCourseRatingForPlay(
+  courseName: string,
+  teeSetName?: string
+): { courseRating: number; slopeRating: number; totalPar: number } | null {
+  const published = getCourseRatingAndSlope(courseName);
+  if (published) return published;
+  const index = teeSetName ? getTeeSetNames(courseName).indexOf(teeSetName) : 0;
+  const teeSet = getTeeSetInfo(courseName, Math.max(0, index));
+  if (!teeSet) return null;
+  const holeCount = getCourseHoleCount(courseName);
+  let totalPar = 0;
+  for (let n = 1; n <= holeCount; n++) totalPar += getHoleInfoForCourse(courseName, n, teeSetName).par;
+  return { courseRating: teeSet.courseRating, slopeRating: teeSet.slopeRating, totalPar };
+}
+
+/** True when the AI plays a tee set to its simulated estimate (no published or scorecard rating to use instead). */
+export function isEstimatedRatingInPlay(courseName: string, teeSetName: string): boolean {
+  if (getCourseRatingAndSlope(courseName)) return false;
+  const index = getTeeSetNames(courseName).indexOf(teeSetName);
+  return getTeeSetInfo(courseName, Math.max(0, index))?.estimated === true;
 }
 
 /**
@@ -2,6 +2,20 @@
  * Course Pro editor: persist tee/green overrides, hazards, trees, fairway, boundary and presets per course.
  */
 
+import type { TeeSetInfo } from '../data/courses';
+import type { CourseGeoJSONParseResult } from '../types/courseGeoJson';
+import type { SurfaceType } from '../types/courseSurface';
+import type { ElevationGrid, ElevationGridParseResult } from '../types/elevationGrid';
+import type { GreenSlope } from '../types/greenSlope';
+import { courseToGeoJSON, parseCourseGeoJSON } from '../utils/courseGeoJson';
+import { parseElevationFile } from '../utils/elevationGrid';
+import {
+  getStoredCourseEdits,
+  getStoredElevationGrid,
+  putStoredCourseEdits,
+  putStoredElevationGrid,
+} from './localStore';
+
 export interface LatLng {
   lat: number;
   lng: number;
@@ -77,6 +91,13 @@ export interface TreePatch {
   vertices: LatLng[];
 }
 
+/** Drawn playing surface (fringe, first cut, cart path, waste, native, ground under repair) with its own lie. */
+export interface SurfaceShape {
+  id: string;
+  type: SurfaceType;
+  vertices: LatLng[];
+}
+
 /** Pin (hole) position on the green. Multiple pins allowed for different hole locations. */
 export interface PinPosition {
   id: string;
@@ -92,6 +113,8 @@ export interface HoleOverride {
   trees?: TreeShape[];
   /** Forest/patch polygons (dense tree areas). */
   treePatches?: TreePatch[];
+  /** Fringe, first cut, cart path, waste, native and GUR polygons. */
+  surfaces?: SurfaceShape[];
   /** One or more fairway polygons (e.g. split by cart path or hazard). Each is a ring of vertices. */
   fairways?: LatLng[][];
   /** @deprecated Use fairways. Kept for migration from single fairway. */
@@ -100,6 +123,8 @@ export interface HoleOverride {
   boundary?: LatLng[];
   /** Green outline as polygon (closed). */
   greenBoundary?: LatLng[];
+  /** Green contour and speed for putting. Flat at stimp 10 when unset. */
+  greenSlope?: GreenSlope;
 }
 
 export interface CoursePreset {
@@ -114,35 +139,27 @@ export interface CourseEdits {
   presets: CoursePreset[];
   /** Course boundary: array of polygons. Play is in-bounds only inside these; everything outside is OB unless otherwise marked. */
   courseBoundary?: LatLng[][];
+  /** Tee sets rated by the course rating estimator (utils/courseRatingEstimator), one per tee set name. */
+  estimatedTeeSets?: TeeSetInfo[];
 }
 
-const STORAGE_PREFIX = 'golfGPS_courseEdits_';
-
-function storageKey(courseName: string): string {
-  return `${STORAGE_PREFIX}${courseName.replace(/\s+/g, '_')}`;
+/** Normalize stored edits (older saves may lack presets or carry a malformed boundary). */
+export function normalizeCourseEdits(parsed: Partial<CourseEdits> | null | undefined): CourseEdits {
+  return {
+    overrides: parsed?.overrides ?? {},
+    presets: Array.isArray(parsed?.presets) ? parsed.presets : [],
+    courseBoundary: Array.isArray(parsed?.courseBoundary) ? parsed.courseBoundary : undefined,
+    estimatedTeeSets: Array.isArray(parsed?.estimatedTeeSets) ? parsed.estimatedTeeSets : undefined,
+  };
 }
 
 export function loadCourseEdits(courseName: string): CourseEdits {
-  try {
-    const raw = localStorage.getItem(storageKey(courseName));
-    if (!raw) return { overrides: {}, presets: [] };
-    const parsed = JSON.parse(raw) as CourseEdits;
-    return {
-      overrides: parsed.overrides ?? {},
-      presets: Array.isArray(parsed.presets) ? parsed.presets : [],
-      courseBoundary: Array.isArray(parsed.courseBoundary) ? parsed.courseBoundary : undefined,
-    };
-  } catch {
-    return { overrides: {}, presets: [] };
-  }
+  return normalizeCourseEdits(getStoredCourseEdits(courseName)?.edits);
 }
 
+/** Save edits locally (IndexedDB) and queue them for sync; see localStore. */
 export function saveCourseEdits(courseName: string, edits: CourseEdits): void {
-  try {
-    localStorage.setItem(storageKey(courseName), JSON.stringify(edits));
-  } catch {
-    // ignore
-  }
+  putStoredCourseEdits(courseName, edits);
 }
 
 export function getCourseBoundary(courseName: string): LatLng[][] {
@@ -172,6 +189,37 @@ export function setCourseBoundary(courseName: string, sections: LatLng[][]): voi
   saveCourseEdits(courseName, { ...edits, courseBoundary: normalized.length > 0 ? normalized : undefined });
 }
 
+/** Ground heights from the course's imported DEM; used for the slope between ball and target. */
+export function getElevationGrid(courseName: string): ElevationGrid | null {
+  return getStoredElevationGrid(courseName) ?? null;
+}
+
+export function clearElevationGrid(courseName: string): void {
+  putStoredElevationGrid(courseName, null);
+}
+
+/**
+ * Read a DEM file (GeoTIFF or ASCII grid) and store it for the course on this device (not synced with the edits).
+ * Nothing is saved when it cannot be read.
+ */
+export function importElevationGrid(courseName: string, fileName: string, buffer: ArrayBuffer): ElevationGridParseResult {
+  const result = parseElevationFile(fileName, buffer);
+  if (!result.ok) return result;
+  putStoredElevationGrid(courseName, result.grid);
+  return result;
+}
+
+export function getEstimatedTeeSets(courseName: string): TeeSetInfo[] {
+  return loadCourseEdits(courseName).estimatedTeeSets ?? [];
+}
+
+/** Store an estimated tee set, replacing an earlier estimate for the same tee set name. */
+export function saveEstimatedTeeSet(courseName: string, teeSet: TeeSetInfo): void {
+  const edits = loadCourseEdits(courseName);
+  const others = (edits.estimatedTeeSets ?? []).filter((t) => t.name !== teeSet.name);
+  saveCourseEdits(courseName, { ...edits, estimatedTeeSets: [...others, { ...teeSet, estimated: true }] });
+}
+
 export function getTeeGreenOverride(
   courseName: string,
   holeNumber: number
@@ -199,9 +247,11 @@ export function getHoleOverride(courseName: string, holeNumber: number): HoleOve
     hazards: o.hazards ? o.hazards.map(normalizeHazard) : undefined,
     trees: o.trees ? [...o.trees] : undefined,
     treePatches: o.treePatches ? [...o.treePatches] : undefined,
+    surfaces: o.surfaces ? [...o.surfaces] : undefined,
     fairways: fairways.length > 0 ? fairways : undefined,
     boundary: o.boundary ? [...o.boundary] : undefined,
     greenBoundary: o.greenBoundary ? [...o.greenBoundary] : undefined,
+    greenSlope: o.greenSlope ? { ...o.greenSlope } : undefined,
   };
 }
 
@@ -218,9 +268,11 @@ function getRawHoleOverride(courseName: string, holeNumber: number): HoleOverrid
     hazards: o.hazards ? o.hazards.map(normalizeHazard) : undefined,
     trees: o.trees ? [...o.trees] : undefined,
     treePatches: o.treePatches ? [...o.treePatches] : undefined,
+    surfaces: o.surfaces ? [...o.surfaces] : undefined,
     fairways: fairways.length > 0 ? fairways : undefined,
     boundary: o.boundary ? [...o.boundary] : undefined,
     greenBoundary: o.greenBoundary ? [...o.greenBoundary] : undefined,
+    greenSlope: o.greenSlope ? { ...o.greenSlope } : undefined,
   };
 }
 
@@ -242,9 +294,11 @@ export function getEffectiveHoleData(
     hazards: base?.hazards ?? [],
     trees: base?.trees ?? [],
     treePatches: base?.treePatches ?? [],
+    surfaces: base?.surfaces ?? [],
     fairways: fairways.length > 0 ? fairways : undefined,
     boundary: base?.boundary,
     greenBoundary: base?.greenBoundary,
+    greenSlope: base?.greenSlope,
   };
 }
 
@@ -271,14 +325,14 @@ export function setHoleOverride(
 ): void {
   const edits = loadCourseEdits(courseName);
   const existing = edits.overrides[holeNumber];
-  const next: Record<string, unknown> = {
+  const next: HoleOverride = {
     ...existing,
     ...data,
     tee: data.tee ? { ...data.tee } : existing?.tee ?? { lat: 0, lng: 0 },
     green: data.green ? { ...data.green } : existing?.green ?? { lat: 0, lng: 0 },
   };
   if ('fairways' in data) delete next.fairway;
-  edits.overrides[holeNumber] = next as HoleOverride;
+  edits.overrides[holeNumber] = next;
   saveCourseEdits(courseName, edits);
 }
 
@@ -528,6 +582,45 @@ export function updateTreePatchVertices(
   setHoleOverride(courseName, holeNumber, { ...o, treePatches });
 }
 
+/** Append one surface polygon. Base from store so pin moves aren't overwritten. */
+export function addSurface(
+  courseName: string,
+  holeNumber: number,
+  type: SurfaceType,
+  vertices: LatLng[],
+  currentData: HoleOverride
+): string {
+  if (vertices.length < 3) return '';
+  const o = getHoleOverride(courseName, holeNumber);
+  const base = o ?? currentData;
+  const id = `surface_${Date.now()}`;
+  const surfaces = [...(base.surfaces ?? []), { id, type, vertices: [...vertices] }];
+  setHoleOverride(courseName, holeNumber, { ...base, surfaces });
+  return id;
+}
+
+export function removeSurface(courseName: string, holeNumber: number, surfaceId: string): void {
+  const o = getHoleOverride(courseName, holeNumber);
+  if (!o) return;
+  const surfaces = (o.surfaces ?? []).filter((p) => p.id !== surfaceId);
+  setHoleOverride(courseName, holeNumber, { ...o, surfaces: surfaces.length > 0 ? surfaces : undefined });
+}
+
+export function updateSurfaceVertices(
+  courseName: string,
+  holeNumber: number,
+  surfaceId: string,
+  vertices: LatLng[]
+): void {
+  if (vertices.length < 3) return;
+  const o = getHoleOverride(courseName, holeNumber);
+  if (!o) return;
+  const surfaces = (o.surfaces ?? []).map((p) =>
+    p.id === surfaceId ? { ...p, vertices: vertices.map((v) => ({ ...v })) } : p
+  );
+  setHoleOverride(courseName, holeNumber, { ...o, surfaces });
+}
+
 /** Append one fairway polygon (e.g. for holes with multiple fairways separated by path or hazard). Base from store so pin moves aren't overwritten. */
 export function addFairway(courseName: string, holeNumber: number, path: LatLng[], currentData: HoleOverride): void {
   if (path.length < 3) return;
@@ -569,6 +662,17 @@ export function setGreenBoundary(courseName: string, holeNumber: number, path: L
   setHoleOverride(courseName, holeNumber, { ...base, greenBoundary: path.length > 0 ? path : undefined });
 }
 
+export function setGreenSlope(
+  courseName: string,
+  holeNumber: number,
+  slope: GreenSlope | undefined,
+  currentData: HoleOverride
+): void {
+  const o = getHoleOverride(courseName, holeNumber);
+  const base = o ?? currentData;
+  setHoleOverride(courseName, holeNumber, { ...base, greenSlope: slope ? { ...slope } : undefined });
+}
+
 export function discardHoleChanges(courseName: string, holeNumber: number): void {
   const edits = loadCourseEdits(courseName);
   delete edits.overrides[holeNumber];
@@ -635,3 +739,41 @@ export function deletePreset(courseName: string, presetId: string): void {
   edits.presets = edits.presets.filter((p) => p.id !== presetId);
   saveCourseEdits(courseName, edits);
 }
+
+/** Whole course as GeoJSON text (see docs/COURSE_GEOJSON.md). Legacy hazards and single fairways are normalized. */
+export function exportCourseGeoJSON(courseName: string): string {
+  const edits = loadCourseEdits(courseName);
+  const overrides: Record<number, HoleOverride> = {};
+  Object.keys(edits.overrides).forEach((k) => {
+    const hole = Number(k);
+    const o = getHoleOverride(courseName, hole) ?? getRawHoleOverride(courseName, hole);
+    if (o) overrides[hole] = o;
+  });
+  return JSON.stringify(courseToGeoJSON(courseName, overrides, edits.courseBoundary), null, 2);
+}
+
+/**
+ * Replace every hole override and the course boundary with the contents of a GeoJSON file. Nothing is saved when
+ * validation fails. Presets are kept.
+ */
+export function importCourseGeoJSON(courseName: string, text: string): CourseGeoJSONParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: [{ message: 'File is not valid JSON' }], warnings: [] };
+  }
+  const result = parseCourseGeoJSON(parsed);
+  if (!result.ok) return result;
+  const warnings = [...result.warnings];
+  if (result.layout.courseName && result.layout.courseName !== courseName) {
+    warnings.push({ message: `File was exported from "${result.layout.courseName}"` });
+  }
+  const edits = loadCourseEdits(courseName);
+  saveCourseEdits(courseName, {
+    ...edits,
+    overrides: result.layout.overrides,
+    courseBoundary: result.layout.courseBoundary,
+  });
+  return { ...result, warnings };
+}
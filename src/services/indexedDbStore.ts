@@ -0,0 +1,278 @@
+/**
+ * Browser persistence for the local store (see localStore): saved rounds, course edits, imported DEMs and the sync
+ * queue in IndexedDB. initLocalStore opens the database once at startup, loads everything into localStore's in-memory
+ * copy and installs itself to save later writes in the background.
+ *
+ * On first run, rounds and course edits from the old localStorage keys are moved in and queued for upload. When
+ * IndexedDB is unavailable (some private browsing modes) the store falls back to those localStorage keys; DEMs are
+ * too large for localStorage and then last only for the session.
+ */
+
+import type { SavedRound } from '../types/roundHistory';
+import type { ChangeQueueEntry, StoredCourseEdits, StoredElevationGrid } from '../types/sync';
+import type { CourseEdits } from './courseEditorStore';
+import {
+  getStoredRounds,
+  loadLocalStore,
+  queueEntry,
+  setLocalStoreError,
+  type LocalStorePersistence,
+} from './localStore';
+import { COURSES } from '../data/courses';
+
+const DB_NAME = 'golfGPS';
+const DB_VERSION = 2;
+const ROUNDS_STORE = 'rounds';
+const COURSE_EDITS_STORE = 'courseEdits';
+const ELEVATION_GRIDS_STORE = 'elevationGrids';
+const QUEUE_STORE = 'changeQueue';
+const META_STORE = 'meta';
+const MIGRATED_META_KEY = 'localStorageMigrated';
+
+/** Pre-IndexedDB localStorage keys (still used as the fallback store). */
+const LEGACY_ROUNDS_KEY = 'golfGPS_roundHistory';
+const LEGACY_COURSE_EDITS_PREFIX = 'golfGPS_courseEdits_';
+/** Retry failed writes after this long. */
+const WRITE_RETRY_MS = 30_000;
+
+let db: IDBDatabase | null = null;
+let initPromise: Promise<void> | null = null;
+/** Newest write issued per record; an older write finishing late is ignored. */
+const latestWrites = new Map<string, () => IDBTransaction>();
+/** Writes that failed, by record, waiting to be retried. */
+const failedWrites = new Map<string, () => IDBTransaction>();
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(ROUNDS_STORE)) database.createObjectStore(ROUNDS_STORE, { keyPath: 'id' });
+      if (!database.objectStoreNames.contains(COURSE_EDITS_STORE)) {
+        database.createObjectStore(COURSE_EDITS_STORE, { keyPath: 'courseName' });
+      }
+      if (!database.objectStoreNames.contains(ELEVATION_GRIDS_STORE)) {
+        database.createObjectStore(ELEVATION_GRIDS_STORE, { keyPath: 'courseName' });
+      }
+      if (!database.objectStoreNames.contains(QUEUE_STORE)) database.createObjectStore(QUEUE_STORE, { keyPath: 'key' });
+      if (!database.objectStoreNames.contains(META_STORE)) database.createObjectStore(META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Course name for a legacy key; keys replaced whitespace with '_', so match known courses first. */
+function courseNameFromLegacyKey(key: string): string {
+  const suffix = key.slice(LEGACY_COURSE_EDITS_PREFIX.length);
+  const course = COURSES.find((c) => c.name.replace(/\s+/g, '_') === suffix);
+  return course?.name ?? suffix.replace(/_/g, ' ');
+}
+
+function legacyCourseEditsKey(courseName: string): string {
+  return `${LEGACY_COURSE_EDITS_PREFIX}${courseName.replace(/\s+/g, '_')}`;
+}
+
+function readLegacyStorage(): { rounds: SavedRound[]; courseEdits: StoredCourseEdits[] } {
+  const out: { rounds: SavedRound[]; courseEdits: StoredCourseEdits[] } = { rounds: [], courseEdits: [] };
+  try {
+    const raw = localStorage.getItem(LEGACY_ROUNDS_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (Array.isArray(parsed)) out.rounds = parsed as SavedRound[];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(LEGACY_COURSE_EDITS_PREFIX)) continue;
+      const value = localStorage.getItem(key);
+      if (!value) continue;
+      out.courseEdits.push({ courseName: courseNameFromLegacyKey(key), edits: JSON.parse(value) as CourseEdits, updatedAt: 0 });
+    }
+  } catch {
+    // localStorage unavailable or corrupt: start empty
+  }
+  return out;
+}
+
+/** Move localStorage data into IndexedDB (first run only) and queue it for upload. Legacy keys are removed after. */
+async function migrateFromLocalStorage(database: IDBDatabase): Promise<void> {
+  const migrated = await requestToPromise(database.transaction(META_STORE).objectStore(META_STORE).get(MIGRATED_META_KEY));
+  if (migrated) return;
+  const legacy = readLegacyStorage();
+  const now = Date.now();
+  const tx = database.transaction([ROUNDS_STORE, COURSE_EDITS_STORE, QUEUE_STORE, META_STORE], 'readwrite');
+  legacy.rounds.forEach((r) => {
+    tx.objectStore(ROUNDS_STORE).put(r);
+    tx.objectStore(QUEUE_STORE).put(queueEntry('rounds', r.id, now));
+  });
+  legacy.courseEdits.forEach((c) => {
+    const record = { ...c, updatedAt: now };
+    tx.objectStore(COURSE_EDITS_STORE).put(record);
+    tx.objectStore(QUEUE_STORE).put(queueEntry('course_edits', c.courseName, now));
+  });
+  tx.objectStore(META_STORE).put(true, MIGRATED_META_KEY);
+  await transactionDone(tx);
+  try {
+    localStorage.removeItem(LEGACY_ROUNDS_KEY);
+    legacy.courseEdits.forEach((c) => localStorage.removeItem(legacyCourseEditsKey(c.courseName)));
+  } catch {
+    // ignore
+  }
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') return 'device storage is full';
+  return error instanceof Error ? error.message : 'write failed';
+}
+
+function scheduleRetry(): void {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    retryFailedWrites();
+  }, WRITE_RETRY_MS);
+}
+
+function retryFailedWrites(): void {
+  [...failedWrites].forEach(([key, write]) => runWrite(key, write));
+}
+
+/**
+ * Run a write in the background. A failure is kept (and reported through the local store's error) and retried later,
+ * so a record that only reached the in-memory copy is not lost quietly; the error clears once all are saved.
+ */
+function runWrite(key: string, write: () => IDBTransaction): void {
+  latestWrites.set(key, write);
+  const done = new Promise<void>((resolve, reject) => {
+    try {
+      transactionDone(write()).then(resolve, reject);
+    } catch (error) {
+      reject(error);
+    }
+  });
+  done.then(
+    () => {
+      if (latestWrites.get(key) !== write) return;
+      latestWrites.delete(key);
+      failedWrites.delete(key);
+      if (failedWrites.size === 0) setLocalStoreError(null);
+    },
+    (error: unknown) => {
+      if (latestWrites.get(key) !== write) return;
+      failedWrites.set(key, write);
+      setLocalStoreError(errorMessage(error));
+      scheduleRetry();
+    }
+  );
+}
+
+/** Persist a record (and its queue entry for local changes) in one transaction, in the background. */
+function persist(
+  database: IDBDatabase,
+  storeName: string,
+  key: string,
+  value: SavedRound | StoredCourseEdits,
+  entry: ChangeQueueEntry | null
+): void {
+  runWrite(`${storeName}:${key}`, () => {
+    const tx = database.transaction(entry ? [storeName, QUEUE_STORE] : [storeName], 'readwrite');
+    tx.objectStore(storeName).put(value);
+    if (entry) tx.objectStore(QUEUE_STORE).put(entry);
+    return tx;
+  });
+}
+
+function indexedDbPersistence(database: IDBDatabase): LocalStorePersistence {
+  return {
+    syncable: true,
+    putRound: (round, entry) => persist(database, ROUNDS_STORE, round.id, round, entry),
+    putCourseEdits: (record, entry) => persist(database, COURSE_EDITS_STORE, record.courseName, record, entry),
+    removeQueued: (entries) => {
+      runWrite(`${QUEUE_STORE}:${entries.map((e) => `${e.key}@${e.queuedAt}`).join(',')}`, () => {
+        const tx = database.transaction(QUEUE_STORE, 'readwrite');
+        entries.forEach((e) => tx.objectStore(QUEUE_STORE).delete(e.key));
+        return tx;
+      });
+    },
+    putElevationGrid: (courseName, grid) => {
+      runWrite(`${ELEVATION_GRIDS_STORE}:${courseName}`, () => {
+        const tx = database.transaction(ELEVATION_GRIDS_STORE, 'readwrite');
+        if (grid) tx.objectStore(ELEVATION_GRIDS_STORE).put({ courseName, grid });
+        else tx.objectStore(ELEVATION_GRIDS_STORE).delete(courseName);
+        return tx;
+      });
+    },
+  };
+}
+
+/** localStorage write for the fallback store; a failure (quota) is reported instead of dropped. */
+function writeLegacy(key: string, value: string): void {
+  try {
+    localStorage.setItem(key, value);
+    setLocalStoreError(null);
+  } catch (error) {
+    setLocalStoreError(errorMessage(error));
+  }
+}
+
+/** Device-only fallback: the whole round list and each course's edits under the legacy localStorage keys. */
+const localStoragePersistence: LocalStorePersistence = {
+  syncable: false,
+  putRound: () => writeLegacy(LEGACY_ROUNDS_KEY, JSON.stringify(getStoredRounds())),
+  putCourseEdits: (record) => writeLegacy(legacyCourseEditsKey(record.courseName), JSON.stringify(record.edits)),
+  removeQueued: () => {},
+  // A DEM is far over the localStorage quota: kept in memory for the session only
+  putElevationGrid: () => {},
+};
+
+/**
+ * Open IndexedDB, migrate legacy localStorage data once, and load everything into the local store. Call (and await)
+ * before the first render; later calls return the same promise.
+ */
+export function initLocalStore(): Promise<void> {
+  if (initPromise) return initPromise;
+  initPromise = (async () => {
+    if (typeof indexedDB === 'undefined') throw new Error('IndexedDB unavailable');
+    const database = await openDatabase();
+    await migrateFromLocalStorage(database);
+    const tx = database.transaction([ROUNDS_STORE, COURSE_EDITS_STORE, ELEVATION_GRIDS_STORE, QUEUE_STORE]);
+    const [rounds, courseEdits, elevationGrids, queue] = await Promise.all([
+      requestToPromise(tx.objectStore(ROUNDS_STORE).getAll() as IDBRequest<SavedRound[]>),
+      requestToPromise(tx.objectStore(COURSE_EDITS_STORE).getAll() as IDBRequest<StoredCourseEdits[]>),
+      requestToPromise(tx.objectStore(ELEVATION_GRIDS_STORE).getAll() as IDBRequest<StoredElevationGrid[]>),
+      requestToPromise(tx.objectStore(QUEUE_STORE).getAll() as IDBRequest<ChangeQueueEntry[]>),
+    ]);
+    db = database;
+    loadLocalStore({ rounds, courseEdits, elevationGrids, queue }, indexedDbPersistence(database));
+  })().catch(() => {
+    db = null;
+    loadLocalStore({ ...readLegacyStorage(), elevationGrids: [], queue: [] }, localStoragePersistence);
+  });
+  return initPromise;
+}
+
+export async function getMeta<T>(key: string): Promise<T | undefined> {
+  if (!db) return undefined;
+  return requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).get(key) as IDBRequest<T | undefined>);
+}
+
+export async function setMeta(key: string, value: unknown): Promise<void> {
+  if (!db) return;
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(value, key);
+  await transactionDone(tx);
+}
@@ -0,0 +1,169 @@
+/**
+ * Offline-first local store: saved rounds and course edits, plus the queue of changes waiting to sync (see
+ * syncService). Reads are synchronous from this in-memory copy, so the round history and course editor stores keep
+ * their synchronous APIs; writes update it immediately and hand the record to the persistence installed at startup
+ * (IndexedDB or the localStorage fallback, see indexedDbStore), which saves it in the background. Imported DEMs are
+ * kept apart from the course edits and never queued, so an edit does not re-upload megabytes of heights.
+ *
+ * No browser APIs here: the simulation code shared with the Worker and Node scripts reads course edits through this
+ * module, and there nothing is installed and nothing persisted.
+ */
+
+import type { SavedRound } from '../types/roundHistory';
+import type { ChangeQueueEntry, StoredCourseEdits, StoredElevationGrid, SyncTable } from '../types/sync';
+import type { ElevationGrid } from '../types/elevationGrid';
+import type { CourseEdits } from './courseEditorStore';
+
+/** Where writes go after the in-memory copy is updated. */
+export interface LocalStorePersistence {
+  /** True when changes are kept in a store that syncs (IndexedDB); the localStorage fallback is device-only. */
+  syncable: boolean;
+  putRound(round: SavedRound, entry: ChangeQueueEntry | null): void;
+  putCourseEdits(record: StoredCourseEdits, entry: ChangeQueueEntry | null): void;
+  removeQueued(entries: ChangeQueueEntry[]): void;
+  /** Save a course's DEM, or delete it when `grid` is null. */
+  putElevationGrid(courseName: string, grid: ElevationGrid | null): void;
+}
+
+let persistence: LocalStorePersistence | null = null;
+let rounds: SavedRound[] = [];
+const courseEdits = new Map<string, StoredCourseEdits>();
+const elevationGrids = new Map<string, ElevationGrid>();
+const queue = new Map<string, ChangeQueueEntry>();
+const listeners = new Set<() => void>();
+let storageError: string | null = null;
+
+function sortRounds(): void {
+  rounds.sort((a, b) => a.savedAt - b.savedAt);
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+export function queueEntry(table: SyncTable, recordId: string, queuedAt: number): ChangeQueueEntry {
+  return { key: `${table}:${recordId}`, table, recordId, queuedAt };
+}
+
+/** Replace the in-memory copy with what was loaded at startup and send later writes to `store`. */
+export function loadLocalStore(
+  data: {
+    rounds: SavedRound[];
+    courseEdits: StoredCourseEdits[];
+    elevationGrids: StoredElevationGrid[];
+    queue: ChangeQueueEntry[];
+  },
+  store: LocalStorePersistence
+): void {
+  persistence = store;
+  rounds = [...data.rounds];
+  sortRounds();
+  courseEdits.clear();
+  data.courseEdits.forEach((c) => courseEdits.set(c.courseName, c));
+  elevationGrids.clear();
+  data.elevationGrids.forEach((g) => elevationGrids.set(g.courseName, g.grid));
+  queue.clear();
+  data.queue.forEach((e) => queue.set(e.key, e));
+  notify();
+}
+
+/**
+ * Last failed write to device storage (quota exceeded, aborted transaction), or null once every failed write has
+ * been saved. Set by the persistence, which keeps retrying the failed records.
+ */
+export function getLocalStoreError(): string | null {
+  return storageError;
+}
+
+export function setLocalStoreError(error: string | null): void {
+  if (error === storageError) return;
+  storageError = error;
+  notify();
+}
+
+/** True when backed by IndexedDB (sync only runs then; the localStorage fallback is device-only). */
+export function isLocalStorePersistent(): boolean {
+  return persistence?.syncable === true;
+}
+
+/** Queue entry for a local change, or null when the store does not sync. */
+function queueLocalChange(table: SyncTable, recordId: string, queuedAt: number): ChangeQueueEntry | null {
+  if (!persistence?.syncable) return null;
+  const entry = queueEntry(table, recordId, queuedAt);
+  queue.set(entry.key, entry);
+  return entry;
+}
+
+/** All saved rounds, oldest first. */
+export function getStoredRounds(): SavedRound[] {
+  return rounds;
+}
+
+/**
+ * Save a round. Local saves are queued for sync; remote rounds (fromRemote) replace the local copy only when their
+ * savedAt is newer, and are not queued.
+ */
+export function putStoredRound(round: SavedRound, fromRemote = false): void {
+  const index = rounds.findIndex((r) => r.id === round.id);
+  if (fromRemote && index >= 0 && rounds[index].savedAt >= round.savedAt) return;
+  rounds = index >= 0 ? rounds.map((r, i) => (i === index ? round : r)) : [...rounds, round];
+  sortRounds();
+  const entry = fromRemote ? null : queueLocalChange('rounds', round.id, Date.now());
+  persistence?.putRound(round, entry);
+  notify();
+}
+
+export function getStoredCourseEdits(courseName: string): StoredCourseEdits | undefined {
+  return courseEdits.get(courseName);
+}
+
+/**
+ * Save edits for a course. Local edits are stamped now and queued; remote edits (fromRemote) carry their own
+ * updatedAt and replace the local copy only when newer.
+ */
+export function putStoredCourseEdits(courseName: string, edits: CourseEdits, remoteUpdatedAt?: number): void {
+  const existing = courseEdits.get(courseName);
+  if (remoteUpdatedAt != null && existing && existing.updatedAt >= remoteUpdatedAt) return;
+  const record: StoredCourseEdits = { courseName, edits, updatedAt: remoteUpdatedAt ?? Date.now() };
+  courseEdits.set(courseName, record);
+  const entry = remoteUpdatedAt == null ? queueLocalChange('course_edits', courseName, record.updatedAt) : null;
+  persistence?.putCourseEdits(record, entry);
+  notify();
+}
+
+export function getStoredElevationGrid(courseName: string): ElevationGrid | undefined {
+  return elevationGrids.get(courseName);
+}
+
+/** Save a course's DEM (null removes it). Device-only: not queued for sync. */
+export function putStoredElevationGrid(courseName: string, grid: ElevationGrid | null): void {
+  if (grid) elevationGrids.set(courseName, grid);
+  else elevationGrids.delete(courseName);
+  persistence?.putElevationGrid(courseName, grid);
+  notify();
+}
+
+/** Pending changes, oldest first. */
+export function getQueuedChanges(): ChangeQueueEntry[] {
+  return [...queue.values()].sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+/** Drop pushed changes. An entry re-queued by a newer local change while pushing is kept. */
+export function removeQueuedChanges(pushed: ChangeQueueEntry[]): void {
+  const done = pushed.filter((e) => queue.get(e.key)?.queuedAt === e.queuedAt);
+  if (done.length === 0) return;
+  done.forEach((e) => queue.delete(e.key));
+  persistence?.removeQueued(done);
+  notify();
+}
+
+/**
+ * Called after every local or remote write (rounds, course edits, queue) and when the storage error changes. Returns
+ * an unsubscribe function.
+ */
+export function subscribeLocalStore(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
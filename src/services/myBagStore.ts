@@ -0,0 +1,81 @@
+/**
+ * Persist the user's bag (see utils/myBag) and serve it refined from the round history. The refined bag is cached
+ * and recomputed when the bag is edited or rounds change in the local store.
+ */
+
+import type { EffectiveBag, MyBag } from '../types/myBag';
+import { BAG_CLUB_KEYS, createBagFromHandicap, isBagClubKey, refineBagFromShots } from '../utils/myBag';
+import { getHandicapIndex, getRoundHistory } from './roundHistoryStore';
+import { subscribeLocalStore } from './localStore';
+
+const STORAGE_KEY = 'golfGPS_myBag';
+/** Seed handicap before the user has a handicap index. */
+const DEFAULT_SEED_HANDICAP = 15;
+
+const listeners = new Set<() => void>();
+let effective: EffectiveBag | null = null;
+let watchingRounds = false;
+
+function loadBag(): MyBag | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as MyBag;
+    if (!Array.isArray(parsed.clubs)) return null;
+    const clubs = parsed.clubs.filter((c) => isBagClubKey(c.key));
+    // Clubs added to the chart since the bag was saved start from the stock values
+    const stock = createBagFromHandicap(parsed.seededHandicap ?? DEFAULT_SEED_HANDICAP);
+    BAG_CLUB_KEYS.forEach((key) => {
+      if (!clubs.some((c) => c.key === key)) clubs.push(stock.clubs.find((c) => c.key === key)!);
+    });
+    return { ...parsed, clubs };
+  } catch {
+    return null;
+  }
+}
+
+/** Handicap a new bag is seeded from: the WHS index when there is one, else 15. */
+export function getDefaultSeedHandicap(): number {
+  return getHandicapIndex().index ?? DEFAULT_SEED_HANDICAP;
+}
+
+/** The saved bag as entered, or a stock bag for the user's handicap when none has been saved. */
+export function getMyBag(): MyBag {
+  return loadBag() ?? createBagFromHandicap(getDefaultSeedHandicap());
+}
+
+/** The bag used for recommendations: saved bag refined from tracked shots. */
+export function getEffectiveBag(): EffectiveBag {
+  if (!watchingRounds) {
+    subscribeLocalStore(invalidate);
+    watchingRounds = true;
+  }
+  if (!effective) effective = refineBagFromShots(getMyBag(), getRoundHistory());
+  return effective;
+}
+
+function invalidate(): void {
+  effective = null;
+  listeners.forEach((listener) => listener());
+}
+
+export function saveMyBag(bag: MyBag): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...bag, updatedAt: Date.now() }));
+  } catch {
+    // ignore
+  }
+  invalidate();
+}
+
+/** Replace the bag with stock values for a handicap (edits and locks are dropped). */
+export function reseedMyBag(handicap: number): void {
+  saveMyBag(createBagFromHandicap(handicap));
+}
+
+export function subscribeMyBag(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -3,33 +3,26 @@
  */
 
 import type { SavedRound, StatsPeriod, AggregatedStats } from '../types/roundHistory';
-import type { CurrentRoundState } from '../context/CurrentRoundContext';
-import type { AIProfile } from '../context/GolfGameContext';
+import type { CurrentRoundState } from '../types/currentRound';
+import type { AIProfile } from '../types/gameSettings';
 import { getCourseHoleCount, getHoleInfoForCourse } from './courseBounds';
-
-const STORAGE_KEY = 'golfGPS_roundHistory';
-/** When saving, only the most recent MAX_SAVED rounds are kept; older rounds are dropped (no warning). */
-const MAX_SAVED = 500;
-
+import { getRoundMatchStatus, toSavedMatchResult } from '../utils/matchPlay';
+import { getRoundLeaderboard, toSavedTournamentResult } from '../utils/tournament';
+import { toSavedTeamScrambleResult } from '../utils/teamScramble';
+import { getRoundSkins, getRoundStableford, toSavedSkinsResult, toSavedStablefordResult } from '../utils/pointsGames';
+import { getNassauRecordsByAIProfile, getRoundNassau, toSavedNassauResult } from '../utils/nassau';
+import type { NassauProfileRecord } from '../types/nassau';
+import { compareStrokesGained, sumStrokesGained } from '../utils/strokesGained';
+import { getRosterPartnerRecords, toSavedRosterPlayers } from '../utils/roster';
+import type { RosterPartnerRecord } from '../types/roster';
+import type { StrokesGainedComparison } from '../types/strokesGained';
+import type { HandicapIndexResult } from '../types/handicap';
+import { calculateHandicapIndex } from '../utils/whsHandicap';
+import { getStoredRounds, putStoredRound } from './localStore';
+
+/** All saved rounds, oldest first (IndexedDB-backed, synced to Supabase when signed in; see localStore). */
 function loadRounds(): SavedRound[] {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return [];
-  }
-}
-
-function saveRounds(rounds: SavedRound[]): void {
-  try {
-    // Keep only the most recent MAX_SAVED rounds; oldest are dropped
-    const toPersist = rounds.length > MAX_SAVED ? rounds.slice(-MAX_SAVED) : rounds;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(toPersist));
-  } catch {
-    // ignore
-  }
+  return [...getStoredRounds()];
 }
 
 function toStoredAIProfile(profile: AIProfile): string | number {
@@ -81,6 +74,15 @@ export function saveRoundToHistory(
     userPutts += s.putts;
   });
 
+  const matchStatus = getRoundMatchStatus(round);
+  const leaderboard = getRoundLeaderboard(round, aiProfile);
+  const stableford = getRoundStableford(round);
+  const skins = getRoundSkins(round);
+  const nassau = getRoundNassau(round);
+  const userStrokesGained = sumStrokesGained((round.userStrokesGainedByHole ?? []).slice(0, holeCount));
+  const aiStrokesGained = sumStrokesGained((round.aiStrokesGainedByHole ?? []).slice(0, holeCount));
+  const tournament = round.tournament && leaderboard ? toSavedTournamentResult(round.tournament.options, leaderboard) : null;
+
   const saved: SavedRound = {
     id: `round_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
     date: new Date().toISOString().slice(0, 10),
@@ -102,11 +104,22 @@ export function saveRoundToHistory(
     aiTotal,
     aiScoresByHole: aiScores.slice(0, holeCount),
     aiStatsByHole: (round.aiStatsByHole ?? []).slice(0, holeCount),
+    ...(round.seed != null && { seed: round.seed }),
+    ...(round.matchPlay && matchStatus && { matchPlay: toSavedMatchResult(round.matchPlay.scoring, matchStatus) }),
+    ...(tournament && { tournament }),
+    ...(round.teamScramble && { teamScramble: toSavedTeamScrambleResult(round.teamScramble.teams) }),
+    ...(round.stableford && stableford && { stableford: toSavedStablefordResult(round.stableford.variant, stableford) }),
+    ...(skins && { skins: toSavedSkinsResult(skins) }),
+    ...(round.nassau && nassau && { nassau: toSavedNassauResult(round.nassau.options, nassau) }),
+    ...(round.userShotsByHole && { userShotsByHole: round.userShotsByHole.slice(0, holeCount) }),
+    ...(userStrokesGained && { userStrokesGained }),
+    ...(aiStrokesGained && { aiStrokesGained }),
+    ...(round.roster && {
+      roster: toSavedRosterPlayers(round.roster, round.courseName, round.selectedTeeSet, holeCount),
+    }),
   };
 
-  const rounds = loadRounds();
-  rounds.push(saved);
-  saveRounds(rounds);
+  putStoredRound(saved);
   return saved;
 }
 
@@ -156,6 +169,14 @@ export function aggregateStats(rounds: SavedRound[]): AggregatedStats {
   let totalPutts = 0;
   let totalScore = 0;
   let totalPar = 0;
+  let matchesPlayed = 0;
+  let matchesWon = 0;
+  let matchesLost = 0;
+  let matchesHalved = 0;
+  let tournamentsPlayed = 0;
+  let tournamentWins = 0;
+  let tournamentTopTens = 0;
+  let tournamentBestFinish: number | null = null;
 
   rounds.forEach((r) => {
     totalScore += r.userTotal;
@@ -168,6 +189,19 @@ export function aggregateStats(rounds: SavedRound[]): AggregatedStats {
     scrambleSuccess += r.userScrambleSuccess ?? 0;
     scrambleOpportunities += r.userScrambleOpps ?? 0;
     totalPutts += r.userPutts ?? (r.userStatsByHole ?? []).reduce((sum, s) => sum + (s?.putts ?? 0), 0);
+    if (r.matchPlay?.winner != null) {
+      matchesPlayed++;
+      if (r.matchPlay.winner === 'user') matchesWon++;
+      else if (r.matchPlay.winner === 'ai') matchesLost++;
+      else matchesHalved++;
+    }
+    if (r.tournament) {
+      const position = r.tournament.position;
+      tournamentsPlayed++;
+      if (position === 1) tournamentWins++;
+      if (position <= 10) tournamentTopTens++;
+      tournamentBestFinish = tournamentBestFinish == null ? position : Math.min(tournamentBestFinish, position);
+    }
   });
 
   const n = rounds.length;
@@ -183,6 +217,14 @@ export function aggregateStats(rounds: SavedRound[]): AggregatedStats {
     scrambleOpportunities,
     totalPutts,
     avgPuttsPerRound: n > 0 ? totalPutts / n : 0,
+    matchesPlayed,
+    matchesWon,
+    matchesLost,
+    matchesHalved,
+    tournamentsPlayed,
+    tournamentWins,
+    tournamentTopTens,
+    tournamentBestFinish,
   };
 }
 
@@ -190,3 +232,23 @@ export function getAggregatedStatsForPeriod(period: StatsPeriod): AggregatedStat
   const rounds = getRoundsInPeriod(period);
   return aggregateStats(rounds);
 }
+
+/** Lifetime Nassau win/loss against each AI profile (all saved rounds, not limited to a period). */
+export function getNassauRecords(): NassauProfileRecord[] {
+  return getNassauRecordsByAIProfile(loadRounds());
+}
+
+/** Lifetime record against each friend played with (all saved rounds). */
+export function getRosterRecords(): RosterPartnerRecord[] {
+  return getRosterPartnerRecords(loadRounds());
+}
+
+/** WHS Handicap Index from all saved rounds. */
+export function getHandicapIndex(): HandicapIndexResult {
+  return calculateHandicapIndex(loadRounds());
+}
+
+/** User vs AI strokes gained (per 18 holes) over the period. */
+export function getStrokesGainedForPeriod(period: StatsPeriod): StrokesGainedComparison {
+  return compareStrokesGained(getRoundsInPeriod(period));
+}
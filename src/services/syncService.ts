@@ -0,0 +1,218 @@
+/**
+ * Sync the local store (rounds and course edits, see localStore) with Supabase when online: push the change queue,
+ * then pull rows changed on other devices. Conflicts resolve by savedAt / updatedAt (newer wins) on both sides —
+ * locally in localStore and on the server in the BEFORE UPDATE triggers of the `rounds` / `course_edits` tables.
+ *
+ * Uses the existing Supabase session, or an anonymous one on first run. Builds without Supabase configured keep data
+ * on the device only (state 'disabled').
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SavedRound } from '../types/roundHistory';
+import type { ChangeQueueEntry, SyncStatus } from '../types/sync';
+import type { CourseEdits } from './courseEditorStore';
+import { getMeta, setMeta } from './indexedDbStore';
+import {
+  getQueuedChanges,
+  getStoredCourseEdits,
+  getStoredRounds,
+  isLocalStorePersistent,
+  putStoredCourseEdits,
+  putStoredRound,
+  removeQueuedChanges,
+  subscribeLocalStore,
+} from './localStore';
+
+const PULL_CURSOR_META_KEY = 'syncPullCursor';
+/** Rows per upsert request. */
+const PUSH_BATCH_SIZE = 100;
+/** Wait after a local write before pushing, so a burst of edits goes out together. */
+const PUSH_DEBOUNCE_MS = 2000;
+/** Retry after a failed sync while online. */
+const RETRY_MS = 60_000;
+/**
+ * Pull from slightly before the cursor: synced_at is the writing transaction's start time, so a row committed late
+ * can carry a time just before the last pull. Re-pulled rows are ignored by the savedAt / updatedAt comparison.
+ */
+const PULL_OVERLAP_MS = 60_000;
+
+interface RoundRow {
+  user_id: string;
+  id: string;
+  saved_at: number;
+  data: SavedRound;
+  synced_at?: string;
+}
+
+interface CourseEditsRow {
+  user_id: string;
+  course_name: string;
+  updated_at: number;
+  data: CourseEdits;
+  synced_at?: string;
+}
+
+let client: SupabaseClient | null = null;
+let userId: string | null = null;
+let status: SyncStatus = { state: 'disabled', pendingChanges: 0, lastSyncedAt: null };
+const listeners = new Set<(status: SyncStatus) => void>();
+let running: Promise<void> | null = null;
+let rerun = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let started = false;
+
+function setStatus(patch: Partial<SyncStatus>): void {
+  status = { ...status, pendingChanges: getQueuedChanges().length, ...patch };
+  listeners.forEach((listener) => listener(status));
+}
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+function schedule(delayMs: number): void {
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(() => {
+    timer = null;
+    void syncNow();
+  }, delayMs);
+}
+
+async function pushChanges(supabase: SupabaseClient, uid: string): Promise<void> {
+  const changes = getQueuedChanges();
+  for (let i = 0; i < changes.length; i += PUSH_BATCH_SIZE) {
+    const batch = changes.slice(i, i + PUSH_BATCH_SIZE);
+    const roundRows: RoundRow[] = [];
+    const courseRows: CourseEditsRow[] = [];
+    const pushed: ChangeQueueEntry[] = [];
+    batch.forEach((entry) => {
+      if (entry.table === 'rounds') {
+        const round = getStoredRounds().find((r) => r.id === entry.recordId);
+        if (round) roundRows.push({ user_id: uid, id: round.id, saved_at: round.savedAt, data: round });
+      } else {
+        const stored = getStoredCourseEdits(entry.recordId);
+        if (stored) {
+          courseRows.push({ user_id: uid, course_name: stored.courseName, updated_at: stored.updatedAt, data: stored.edits });
+        }
+      }
+      pushed.push(entry);
+    });
+    if (roundRows.length > 0) {
+      const { error } = await supabase.from('rounds').upsert(roundRows, { onConflict: 'user_id,id' });
+      if (error) throw error;
+    }
+    if (courseRows.length > 0) {
+      const { error } = await supabase.from('course_edits').upsert(courseRows, { onConflict: 'user_id,course_name' });
+      if (error) throw error;
+    }
+    removeQueuedChanges(pushed);
+  }
+}
+
+async function pullChanges(supabase: SupabaseClient): Promise<void> {
+  const cursor = (await getMeta<string>(PULL_CURSOR_META_KEY)) ?? null;
+  const since = cursor ? new Date(new Date(cursor).getTime() - PULL_OVERLAP_MS).toISOString() : null;
+  let latest = cursor;
+
+  let roundsQuery = supabase.from('rounds').select('id, saved_at, data, synced_at').order('synced_at');
+  if (since) roundsQuery = roundsQuery.gt('synced_at', since);
+  const { data: rounds, error: roundsError } = await roundsQuery;
+  if (roundsError) throw roundsError;
+  (rounds as RoundRow[]).forEach((row) => {
+    putStoredRound({ ...row.data, id: row.id, savedAt: Number(row.saved_at) }, true);
+    if (row.synced_at && (!latest || row.synced_at > latest)) latest = row.synced_at;
+  });
+
+  let editsQuery = supabase.from('course_edits').select('course_name, updated_at, data, synced_at').order('synced_at');
+  if (since) editsQuery = editsQuery.gt('synced_at', since);
+  const { data: edits, error: editsError } = await editsQuery;
+  if (editsError) throw editsError;
+  (edits as CourseEditsRow[]).forEach((row) => {
+    putStoredCourseEdits(row.course_name, row.data, Number(row.updated_at));
+    if (row.synced_at && (!latest || row.synced_at > latest)) latest = row.synced_at;
+  });
+
+  if (latest && latest !== cursor) await setMeta(PULL_CURSOR_META_KEY, latest);
+}
+
+/** Push queued changes then pull remote ones. Concurrent calls coalesce into one follow-up run. */
+export function syncNow(): Promise<void> {
+  if (running) {
+    rerun = true;
+    return running;
+  }
+  const supabase = client;
+  const uid = userId;
+  if (!supabase || !uid) return Promise.resolve();
+  if (!isOnline()) {
+    setStatus({ state: 'offline' });
+    return Promise.resolve();
+  }
+  running = (async () => {
+    setStatus({ state: 'syncing', error: undefined });
+    try {
+      await pushChanges(supabase, uid);
+      await pullChanges(supabase);
+      setStatus({ state: 'idle', lastSyncedAt: Date.now() });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? error);
+      setStatus({ state: 'error', error: message });
+      schedule(RETRY_MS);
+    }
+  })().finally(() => {
+    running = null;
+    if (rerun) {
+      rerun = false;
+      void syncNow();
+    }
+  });
+  return running;
+}
+
+/**
+ * Connect to Supabase and start syncing: now, when the browser comes back online, and shortly after local writes.
+ * Call once after initLocalStore. Without Supabase configured (or IndexedDB) the status stays 'disabled'.
+ */
+export async function startSync(): Promise<void> {
+  if (started) return;
+  started = true;
+  if (!isLocalStorePersistent()) return;
+  try {
+    // supabaseClient throws at import when the build has no Supabase URL/key
+    const { supabase } = await import('../utils/supabaseClient');
+    const { data } = await supabase.auth.getSession();
+    let uid = data.session?.user.id ?? null;
+    if (!uid) {
+      const { data: anon, error } = await supabase.auth.signInAnonymously();
+      if (error) throw error;
+      uid = anon.user?.id ?? null;
+    }
+    if (!uid) throw new Error('No Supabase session');
+    client = supabase;
+    userId = uid;
+  } catch (error) {
+    setStatus({ state: 'disabled', error: error instanceof Error ? error.message : undefined });
+    return;
+  }
+
+  subscribeLocalStore(() => {
+    if (status.pendingChanges !== getQueuedChanges().length) setStatus({});
+    if (getQueuedChanges().length > 0) schedule(PUSH_DEBOUNCE_MS);
+  });
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => void syncNow());
+    window.addEventListener('offline', () => setStatus({ state: 'offline' }));
+  }
+  await syncNow();
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+export function subscribeSyncStatus(listener: (status: SyncStatus) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
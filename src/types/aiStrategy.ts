@@ -0,0 +1,24 @@
+/**
+ * AI course management: how an AI golfer weighs going for the green against laying up, and the decision it made
+ * (recorded on the shot's commentary).
+ */
+
+/** Aggressive takes on hazards for a small edge; conservative needs a clear edge and little risk. */
+export type AIStrategyProfile = 'aggressive' | 'balanced' | 'conservative';
+
+export interface StrategyDecision {
+  profile: AIStrategyProfile;
+  choice: 'go-for-it' | 'lay-up';
+  /** Hazard that shaped the decision (most likely trouble on the go-for-it shot). */
+  hazard: 'water' | 'bunker' | 'none';
+  /** Chance the go-for-it shot finishes in that hazard (0–1); 0 when the green is out of reach. */
+  hazardProbability: number;
+  /** Expected strokes to hole out going for the green; null when the green is out of reach. */
+  goForItExpectedStrokes: number | null;
+  /** Expected strokes to hole out after the best lay-up; null when no lay-up spot was worth considering. */
+  layUpExpectedStrokes: number | null;
+  /** Yards to the pin the lay-up leaves (the favorite wedge yardage when it scores well). */
+  leaveYards?: number;
+  /** One-line explanation for the commentary, e.g. "Laid up to 100 yds – water guards the green (34% risk)". */
+  summary: string;
+}
@@ -0,0 +1,92 @@
+/**
+ * Course layout as a GeoJSON FeatureCollection (see docs/COURSE_GEOJSON.md).
+ * Every feature carries `properties.kind`; hole features also carry `properties.hole`.
+ * Coordinates are GeoJSON order: [longitude, latitude].
+ */
+
+import type { HazardStake, HazardType, HoleOverride, LatLng, OBSide } from '../services/courseEditorStore';
+import type { SurfaceType } from './courseSurface';
+
+export type GeoJSONPosition = [number, number];
+
+export interface GeoJSONPoint {
+  type: 'Point';
+  coordinates: GeoJSONPosition;
+}
+
+/** Single outer ring, closed (first position repeated last). Holes in polygons are not used. */
+export interface GeoJSONPolygon {
+  type: 'Polygon';
+  coordinates: GeoJSONPosition[][];
+}
+
+export type CourseFeatureKind =
+  | 'tee'
+  | 'green'
+  | 'pin'
+  | 'greenBoundary'
+  | 'fairway'
+  | 'hazard'
+  | 'tree'
+  | 'treePatch'
+  | 'surface'
+  | 'holeBoundary'
+  | 'courseBoundary';
+
+export interface CourseFeatureProperties {
+  kind: CourseFeatureKind;
+  /** Hole number; every kind except courseBoundary. */
+  hole?: number;
+  /** Editor id for pins, hazards, trees, tree patches and surfaces. */
+  id?: string;
+  /** Hazards. */
+  hazardType?: HazardType;
+  stake?: HazardStake;
+  obSide?: OBSide;
+  /** Circle hazards and trees (Point geometry). */
+  radiusMeters?: number;
+  /** Trees. */
+  heightMeters?: number;
+  /** Surfaces (fringe, first cut, cart path, waste, native, GUR). */
+  surfaceType?: SurfaceType;
+  /** Green (optional contour for putting, HoleOverride.greenSlope). */
+  slopePercent?: number;
+  fallLineDegrees?: number;
+  stimp?: number;
+}
+
+export interface CourseFeature {
+  type: 'Feature';
+  geometry: GeoJSONPoint | GeoJSONPolygon;
+  properties: CourseFeatureProperties;
+}
+
+/** Top-level metadata (a GeoJSON foreign member) identifying the file. */
+export interface CourseGeoJSONMeta {
+  format: 'golfgps-course';
+  version: number;
+  courseName: string;
+}
+
+export interface CourseFeatureCollection {
+  type: 'FeatureCollection';
+  golfGPS: CourseGeoJSONMeta;
+  features: CourseFeature[];
+}
+
+/** Validation problem; featureIndex points into `features` when the problem is with one feature. */
+export interface CourseGeoJSONIssue {
+  featureIndex?: number;
+  message: string;
+}
+
+/** Layout read from a file: what gets written to CourseEdits on import. */
+export interface CourseLayout {
+  courseName: string | null;
+  overrides: Record<number, HoleOverride>;
+  courseBoundary?: LatLng[][];
+}
+
+export type CourseGeoJSONParseResult =
+  | { ok: true; layout: CourseLayout; warnings: CourseGeoJSONIssue[] }
+  | { ok: false; errors: CourseGeoJSONIssue[]; warnings: CourseGeoJSONIssue[] };
@@ -0,0 +1,9 @@
+/**
+ * Playing surfaces drawn in the course editor on top of the fairway, rough, bunker, water and green layout
+ * (HoleOverride.surfaces). Each is its own lie for the shot engines; see engine/SurfaceLies for how they play.
+ */
+
+export type SurfaceType = 'fringe' | 'first_cut' | 'cart_path' | 'waste' | 'native' | 'gur';
+
+/** Lie at a point on a mapped hole: the base lies plus the drawn surfaces. */
+export type CourseLie = 'green' | 'water' | 'bunker' | 'fairway' | 'rough' | SurfaceType;
@@ -0,0 +1,49 @@
+/**
+ * State of the round in progress (scores, stats and format state per hole), held by CurrentRoundContext and read by
+ * the scoring utils and the round history store.
+ */
+
+import type { UserHoleStats, AIHoleStats } from '../types/holeStats';
+import type { RoundMatchPlay } from '../types/matchPlay';
+import type { RoundTournament } from '../types/tournament';
+import type { RoundTeamScramble } from '../types/teamScramble';
+import type { RoundSkins, RoundStableford } from '../types/pointsGames';
+import type { RoundNassau } from '../types/nassau';
+import type { UserHoleShots } from '../types/userShots';
+import type { StrokesGainedTotals } from '../types/strokesGained';
+import type { RoundRoster } from '../types/roster';
+
+export interface CurrentRoundState {
+  courseName: string;
+  /** Selected tee set (e.g. 'White', 'Blue') when course has multiple tees. */
+  selectedTeeSet?: string;
+  currentHoleNumber: number;
+  aiScoresByHole: (number | undefined)[];
+  userScoresByHole: (number | undefined)[];
+  /** User-entered stats per hole (fairway, GIR, scrambling, putts). */
+  userStatsByHole: (UserHoleStats | undefined)[];
+  /** AI stats per hole (derived from shot history); summarized under AI score. */
+  aiStatsByHole: (AIHoleStats | undefined)[];
+  /** Round seed; each hole's AI play uses a stream derived from it (see utils/rng). */
+  seed?: number;
+  /** Set when the round is played as match play (see utils/matchPlay). */
+  matchPlay?: RoundMatchPlay;
+  /** Set when the round is played in tournament mode (see utils/tournament). */
+  tournament?: RoundTournament;
+  /** Set when the round is a team best-ball scramble (see utils/teamScramble). */
+  teamScramble?: RoundTeamScramble;
+  /** Set when the round is scored as Stableford (see utils/pointsGames). */
+  stableford?: RoundStableford;
+  /** Set when the round is played for skins (see utils/pointsGames). */
+  skins?: RoundSkins;
+  /** Nassau side bet layered on the round, whatever the format (see utils/nassau). */
+  nassau?: RoundNassau;
+  /** User shots per hole when shot tracking is used; stats are derived from them (see utils/deriveUserHoleStats). */
+  userShotsByHole?: (UserHoleShots | undefined)[];
+  /** Strokes gained per hole from tracked user shots (see utils/strokesGained). */
+  userStrokesGainedByHole?: (StrokesGainedTotals | undefined)[];
+  /** Strokes gained per hole from the AI's shot history. */
+  aiStrokesGainedByHole?: (StrokesGainedTotals | undefined)[];
+  /** Friends and extra AI golfers in the group (see utils/roster). */
+  roster?: RoundRoster;
+}
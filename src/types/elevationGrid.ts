@@ -0,0 +1,25 @@
+/**
+ * Course terrain from a DEM (digital elevation model): a regular grid of ground heights in WGS84 longitude/latitude.
+ * Imported in the course editor from a GeoTIFF or ESRI ASCII grid and stored on the device apart from the course edits
+ * (see localStore), so the large grid is not synced with every edit.
+ */
+
+export interface ElevationGrid {
+  /** Columns (west → east) and rows (north → south). */
+  cols: number;
+  rows: number;
+  /** Longitude of the grid's west edge and latitude of its north edge (degrees). */
+  west: number;
+  north: number;
+  /** Cell size (degrees of longitude and of latitude). */
+  cellWidth: number;
+  cellHeight: number;
+  /** Height above the DEM datum (meters), row by row from the north-west cell; null where the file has no data. */
+  heights: (number | null)[];
+  /** File the grid was imported from. */
+  source?: string;
+}
+
+export type ElevationGridParseResult =
+  | { ok: true; grid: ElevationGrid; warnings: string[] }
+  | { ok: false; error: string };
@@ -0,0 +1,88 @@
+/**
+ * Game settings and competition options chosen before a round, shared by GolfGameContext and the scoring utils (kept
+ * free of React so the Worker and Node scripts can use them).
+ */
+
+import type { CourseFirmness } from '../engine/RollModel';
+
+export interface PlayerScore {
+  holeNumber: number;
+  strokes: number;
+  par: number;
+}
+
+export interface GameSettings {
+  isProMode: boolean;
+  windSpeed: number;
+  windDirection: number;
+  slope: number;
+  /** How far balls roll out after landing. */
+  firmness: CourseFirmness;
+  /** Course altitude (feet above sea level); with temperature sets the air density for ball flight. */
+  altitudeFeet: number;
+  temperatureF: number;
+}
+
+/** AI opponent: named character/tour or numeric handicap. */
+export type AIProfile =
+  | 'EW 2K'
+  | 'PGA Tour'
+  | 'LPGA Tour'
+  | 'D.B.'
+  | 'J.D.'
+  | 'M.R.'
+  | 'N.J.'
+  | number;
+
+/** Competition format for the round. */
+export type CompetitionFormat =
+  | 'stroke-play'
+  | 'match-play'
+  | 'team-scramble'
+  | 'tournament'
+  | 'stableford'
+  | 'skins';
+
+/** Team best ball scramble: partner and number of opposing teams. */
+export interface TeamScrambleOptions {
+  partnerType: 'friend' | 'ai';
+  opponentsCount: 1 | 2;
+}
+
+/** Tournament mode: field size, play style, and field handicap variance (10% worse to 10% better). */
+export const TOURNAMENT_FIELD_SIZES = [20, 25, 30, 40, 50, 60, 100, 120] as const;
+export type TournamentFieldSize = (typeof TOURNAMENT_FIELD_SIZES)[number];
+export type TournamentPlayStyle = 'net' | 'gross';
+
+export interface TournamentOptions {
+  fieldSize: TournamentFieldSize;
+  playStyle: TournamentPlayStyle;
+  /** Field handicap variance: -0.1 (10% worse) to 0.1 (10% better). Same bar as AI variance. */
+  fieldHandicapVariance: number;
+}
+
+/** Match play: hole winners decided on gross strokes or net of handicap strokes by stroke index. */
+export type MatchPlayScoring = 'gross' | 'net';
+
+export interface MatchPlayOptions {
+  scoring: MatchPlayScoring;
+}
+
+/** Stableford point table: standard (par = 2) or modified (par = 0, birdie +2, bogey −1, double or worse −3). */
+export type StablefordVariant = 'standard' | 'modified';
+
+export interface StablefordOptions {
+  variant: StablefordVariant;
+}
+
+/** Nassau side bet (front 9, back 9, overall) with automatic presses; layered on any competition format. */
+export interface NassauOptions {
+  /** Stake per bet (each segment and each press). */
+  stake: number;
+  scoring: MatchPlayScoring;
+  /** Tournament mode only: also bet against this many players from the field. */
+  fieldOpponents: 0 | 1 | 2 | 3;
+}
+
+/** App tier: Free (limited AI, no variance), Premium (all features), Course Pro (+ course editor). */
+export type AppTier = 'free' | 'premium' | 'course-pro';
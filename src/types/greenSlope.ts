@@ -0,0 +1,13 @@
+/**
+ * Green contour for putting: the green as a tilted plane falling toward one direction, and its speed.
+ * Stored per hole next to the green boundary (HoleOverride.greenSlope).
+ */
+
+export interface GreenSlope {
+  /** Steepest slope across the green (percent rise over run; most greens are 1–3%). */
+  slopePercent: number;
+  /** Direction the green falls toward (degrees, 0 = N, 90 = E). */
+  fallLineDegrees: number;
+  /** Green speed on the Stimpmeter (feet). Default 10. */
+  stimp?: number;
+}
@@ -0,0 +1,46 @@
+/**
+ * World Handicap System: score differentials from saved rounds and the resulting Handicap Index.
+ * Plus indexes are stored negative (e.g. +1.2 → −1.2), like AI handicaps.
+ */
+
+/** One acceptable score converted to an 18-hole differential. */
+export interface ScoreDifferential {
+  roundId: string;
+  date: string;
+  savedAt: number;
+  courseName: string;
+  teeSet?: string;
+  holeCount: number;
+  holesPlayed: number;
+  /** Gross score after net double bogey (and net par on unplayed holes). */
+  adjustedGrossScore: number;
+  courseRating: number;
+  slopeRating: number;
+  /** 18-hole differential. For 9-hole rounds this includes the expected differential for the other nine. */
+  differential: number;
+}
+
+/** Handicap Index after a score was posted. */
+export interface HandicapIndexSnapshot {
+  roundId: string;
+  date: string;
+  savedAt: number;
+  index: number;
+}
+
+export type HandicapCap = 'soft' | 'hard';
+
+export interface HandicapIndexResult {
+  /** Null until 3 acceptable scores have been posted. */
+  index: number | null;
+  /** Lowest index in the 365 days before the latest score; null until 20 scores are on record. */
+  lowIndex: number | null;
+  /** Cap that limited the latest index, if any. */
+  cap: HandicapCap | null;
+  /** Most recent 20 differentials, newest first. */
+  differentials: ScoreDifferential[];
+  /** Rounds whose differentials count toward the current index. */
+  countingRoundIds: string[];
+  /** Index after each posted score, oldest first. */
+  history: HandicapIndexSnapshot[];
+}
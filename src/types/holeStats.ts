@@ -7,8 +7,8 @@
 export type MissDirection = 'left' | 'right' | 'short' | 'long' | 'ob';
 
 export interface UserHoleStats {
-  /** Hit fairway (par 4/5) or N/A (par 3). */
-  fairway: boolean;
+  /** Hit fairway (par 4/5); null on par 3 (not applicable, left out of fairway %). */
+  fairway: boolean | null;
   /** When fairway = false: where the drive went. */
   fairwayMiss?: MissDirection;
   /** Green in regulation (on green in par-2 or less for par 3, par-3 or less for par 4, etc.). */
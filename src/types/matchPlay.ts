@@ -0,0 +1,34 @@
+/**
+ * Match play (user vs AI): per-round settings kept on the current round and the final result saved to history.
+ */
+
+import type { MatchPlayScoring } from './gameSettings';
+
+/** A side in the match. Status and results are always from the user's point of view. */
+export type MatchSide = 'user' | 'ai';
+
+/** Who won a hole, or halved. */
+export type MatchHoleOutcome = MatchSide | 'halved';
+
+/** Match settings fixed when the round starts, plus hole concessions made during play. */
+export interface RoundMatchPlay {
+  scoring: MatchPlayScoring;
+  /** Playing handicaps at round start; net strokes go to the higher handicap on the difference. */
+  userHandicap: number;
+  aiHandicap: number;
+  /** Per hole: the side that conceded the hole (the other side wins it regardless of strokes). */
+  concessions: (MatchSide | undefined)[];
+}
+
+/** Final match result stored on SavedRound. */
+export interface SavedMatchResult {
+  scoring: MatchPlayScoring;
+  /** Null when the round ended before the match was decided. */
+  winner: MatchHoleOutcome | null;
+  /** Result in match play notation: "4&3", "1 UP", "AS"; status text (e.g. "2 UP thru 7") when undecided. */
+  result: string;
+  holesWon: number;
+  holesLost: number;
+  holesHalved: number;
+  holesConceded: number;
+}
@@ -0,0 +1,56 @@
+/**
+ * The user's own bag ("my bag"): clubs with carry/total distances and dispersion, seeded from the handicap chart
+ * and refined from shots tracked in rounds. Drives club recommendations for the "plays as" yardage.
+ */
+
+import type { ClubDistances } from '../data/clubDistancesByHandicap';
+
+/** Club keys shared with the handicap distance charts and tracked shots (e.g. 'driver', '7-iron', 'PW'). */
+export type BagClubKey = keyof Omit<ClubDistances, 'putter'>;
+
+export interface BagClub {
+  key: BagClubKey;
+  /** Out of the bag: never recommended, hidden on the yardage card. */
+  inBag: boolean;
+  carryYards: number;
+  /** Carry plus typical roll on a fairway. */
+  totalYards: number;
+  /** One standard deviation of total distance (yards). */
+  stdDevYards: number;
+  /** One standard deviation of start line left/right of target (degrees). */
+  dispersionDeg: number;
+  /** Edited by hand: kept as entered instead of refined from shots. */
+  locked?: boolean;
+}
+
+export interface MyBag {
+  /** Handicap the chart values were seeded from. */
+  seededHandicap: number;
+  /** Refine unlocked clubs from tracked shots. */
+  autoRefine: boolean;
+  clubs: BagClub[];
+  updatedAt: number;
+}
+
+/** Tracked-shot summary for one club, shown in the editor next to the refined values. */
+export interface BagClubShotSample {
+  key: BagClubKey;
+  /** Full shots used (shots well short of the club's stock total are treated as partial and skipped). */
+  shots: number;
+  /** Median total distance of those shots (yards). */
+  medianYards: number;
+}
+
+/** Bag after refinement from shots, with the samples behind it. */
+export interface EffectiveBag extends MyBag {
+  samples: BagClubShotSample[];
+}
+
+/** Club recommendation for a "plays as" distance. */
+export interface BagClubRecommendation {
+  club: BagClub;
+  /** Plays-as yards the club was chosen for. */
+  yards: number;
+  /** Carry minus plays-as yards: positive = the club carries past the target. */
+  carryMarginYards: number;
+}
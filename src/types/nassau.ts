@@ -0,0 +1,74 @@
+/**
+ * Nassau side bets: front 9, back 9 and overall match-play bets against one or more opponents, with
+ * automatic presses when a bet goes 2 down. The ledger is recomputed from round scores; settlement is saved.
+ */
+
+import type { MatchPlayScoring, NassauOptions } from './gameSettings';
+
+export type NassauSegment = 'front' | 'back' | 'overall';
+
+/** Opponent in the bet: the selected AI ('ai') or a tournament field competitor (by competitor id). */
+export interface NassauOpponent {
+  id: string;
+  name: string;
+  /** Playing handicap; net bets give the difference to the higher handicap. */
+  handicap: number;
+}
+
+export interface RoundNassau {
+  options: NassauOptions;
+  userHandicap: number;
+  opponents: NassauOpponent[];
+}
+
+export type NassauBetResult = 'won' | 'lost' | 'halved';
+
+/** One bet in the ledger: a segment or a press on it. Lead is from the user's side (negative = user down). */
+export interface NassauBet {
+  id: string;
+  segment: NassauSegment;
+  /** e.g. "Front", "Front press 1". */
+  label: string;
+  startHole: number;
+  endHole: number;
+  /** Bet this press was opened on; null for the three segment bets. */
+  pressOf: string | null;
+  lead: number;
+  holesPlayed: number;
+  /** Every hole in the bet's range has been played. */
+  finished: boolean;
+}
+
+export interface SavedNassauBet {
+  label: string;
+  lead: number;
+  result: NassauBetResult;
+}
+
+export interface SavedNassauOpponentResult {
+  id: string;
+  name: string;
+  bets: SavedNassauBet[];
+  /** Units won (+) or lost (−) against this opponent: stake × (bets won − bets lost). */
+  net: number;
+}
+
+/** Nassau settlement stored on SavedRound. */
+export interface SavedNassauResult {
+  stake: number;
+  scoring: MatchPlayScoring;
+  opponents: SavedNassauOpponentResult[];
+  /** Net across all opponents. */
+  net: number;
+}
+
+/** Lifetime Nassau record against one AI profile (bets against the selected AI only). */
+export interface NassauProfileRecord {
+  aiProfile: string | number;
+  rounds: number;
+  /** Rounds settled up, down, or even against this profile. */
+  won: number;
+  lost: number;
+  even: number;
+  net: number;
+}
@@ -0,0 +1,34 @@
+/**
+ * Points games (user vs AI): Stableford (standard or modified table) and Skins with carryovers.
+ * Round settings are fixed at round start; totals are saved to history.
+ */
+
+import type { StablefordVariant } from './gameSettings';
+
+/** Stableford settings for the current round. Points are on net score (strokes by stroke index). */
+export interface RoundStableford {
+  variant: StablefordVariant;
+  userHandicap: number;
+  aiHandicap: number;
+}
+
+/** Skins settings for the current round. Net scores; tied holes carry the skin to the next hole. */
+export interface RoundSkins {
+  userHandicap: number;
+  aiHandicap: number;
+}
+
+export interface SavedStablefordResult {
+  variant: StablefordVariant;
+  userPoints: number;
+  aiPoints: number;
+  userPointsByHole: (number | undefined)[];
+  aiPointsByHole: (number | undefined)[];
+}
+
+export interface SavedSkinsResult {
+  userSkins: number;
+  aiSkins: number;
+  /** Skins still on the line after the last hole played (nobody won them). */
+  carryover: number;
+}
@@ -0,0 +1,93 @@
+/**
+ * Group play: friends scoring on this phone and extra AI golfers alongside the user and the selected AI opponent.
+ */
+
+import type { AIProfile } from './gameSettings';
+import type { AIHoleStats } from './holeStats';
+
+/** Friends enter their own scores; AI players are simulated hole by hole with AIGolfer.playHole. */
+export type RosterPlayerKind = 'human' | 'ai';
+
+/** A roster player as chosen before the round. The user and the selected AI opponent are not roster players. */
+export interface RosterPlayerSetup {
+  id: string;
+  name: string;
+  kind: RosterPlayerKind;
+  /** Playing handicap for net scoring (plus handicaps negative). AI players play off their profile's handicap. */
+  handicap: number;
+  /** Tee set the player plays from; the round's tee when unset. */
+  teeSet?: string;
+  /** AI players only: the profile they are simulated with. */
+  aiProfile?: AIProfile;
+}
+
+/** Roster player during the round. */
+export interface RosterPlayer extends RosterPlayerSetup {
+  scoresByHole: (number | undefined)[];
+  /** AI players only: fairway/GIR/putts derived from the simulated shots. */
+  aiStatsByHole?: (AIHoleStats | undefined)[];
+}
+
+export interface RoundRoster {
+  /** User's playing handicap at round start, for net standings across the group. */
+  userHandicap: number;
+  players: RosterPlayer[];
+}
+
+export interface PlayerTotals {
+  holesPlayed: number;
+  gross: number;
+  net: number;
+  /** Gross vs par over the holes played (par from the player's tee). */
+  toPar: number;
+  /** Handicap strokes received on the holes played. */
+  strokesReceived: number;
+}
+
+/** One row of the group standings on the scorecard. */
+export interface GroupStanding {
+  id: string;
+  name: string;
+  kind: 'user' | RosterPlayerKind;
+  handicap: number;
+  teeSet?: string;
+  totals: PlayerTotals;
+}
+
+/** Per-player result stored on SavedRound. */
+export interface SavedRosterPlayer {
+  id: string;
+  name: string;
+  kind: RosterPlayerKind;
+  handicap: number;
+  teeSet?: string;
+  aiProfile?: string | number;
+  scoresByHole: (number | undefined)[];
+  holesPlayed: number;
+  total: number;
+  /** Total minus handicap strokes received on the holes played. */
+  netTotal: number;
+  /** Gross score vs par over the holes played. */
+  toPar: number;
+  /** AI players only (from their simulated shots). */
+  putts?: number;
+  fairwaysHit?: number;
+  fairwaysPossible?: number;
+  girHit?: number;
+  birdiesOrBetter: number;
+  pars: number;
+  bogeys: number;
+  doublesOrWorse: number;
+}
+
+/** Lifetime record against a friend, by name (gross score over rounds both finished). */
+export interface RosterPartnerRecord {
+  name: string;
+  rounds: number;
+  avgScore: number;
+  bestScore: number;
+  /** Rounds the user beat, lost to or tied the friend on gross total (complete rounds only). */
+  won: number;
+  lost: number;
+  tied: number;
+}
@@ -3,6 +3,14 @@
  */
 
 import type { UserHoleStats, AIHoleStats } from './holeStats';
+import type { SavedMatchResult } from './matchPlay';
+import type { SavedTournamentResult } from './tournament';
+import type { SavedTeamScrambleResult } from './teamScramble';
+import type { SavedSkinsResult, SavedStablefordResult } from './pointsGames';
+import type { SavedNassauResult } from './nassau';
+import type { UserHoleShots } from './userShots';
+import type { StrokesGainedTotals } from './strokesGained';
+import type { SavedRosterPlayer } from './roster';
 
 /** AI profile as stored (string name or number handicap). */
 export type StoredAIProfile = string | number;
@@ -33,6 +41,28 @@ export interface SavedRound {
   aiTotal: number;
   aiScoresByHole: (number | undefined)[];
   aiStatsByHole: (AIHoleStats | undefined)[];
+  /** Round seed for the AI's random stream; replaying with it reproduces every AI shot. */
+  seed?: number;
+  /** Match play result when the round was played as match play. */
+  matchPlay?: SavedMatchResult;
+  /** Final leaderboard and finishing position when the round was played in tournament mode. */
+  tournament?: SavedTournamentResult;
+  /** Team totals and per-player shots used when the round was a team scramble. */
+  teamScramble?: SavedTeamScrambleResult;
+  /** Stableford points when the round was scored as Stableford. */
+  stableford?: SavedStablefordResult;
+  /** Skins won when the round was played for skins. */
+  skins?: SavedSkinsResult;
+  /** Nassau bets and settlement when a Nassau was played alongside the round. */
+  nassau?: SavedNassauResult;
+  /** Tracked user shots per hole (holes without tracking are undefined). */
+  userShotsByHole?: (UserHoleShots | undefined)[];
+  /** Strokes gained over the holes the user tracked shot by shot. */
+  userStrokesGained?: StrokesGainedTotals;
+  /** Strokes gained over the holes the AI played. */
+  aiStrokesGained?: StrokesGainedTotals;
+  /** Friends and extra AI golfers who played in the group, with their scores and stats. */
+  roster?: SavedRosterPlayer[];
 }
 
 export type StatsPeriod =
@@ -55,4 +85,14 @@ export interface AggregatedStats {
   scrambleOpportunities: number;
   totalPutts: number;
   avgPuttsPerRound: number;
+  /** Match play record over decided matches (closed out or played to the last hole). */
+  matchesPlayed: number;
+  matchesWon: number;
+  matchesLost: number;
+  matchesHalved: number;
+  /** Tournament finishes over the period. Best finish is null when no tournaments were played. */
+  tournamentsPlayed: number;
+  tournamentWins: number;
+  tournamentTopTens: number;
+  tournamentBestFinish: number | null;
 }
@@ -52,3 +52,29 @@ export interface ShotPlanningContext {
   dispersionData: DispersionResult | null;
   riskAssessment: HazardRisk | null;
 }
+
+/** One aim point + club evaluated by the target optimizer (see utils/targetOptimizer). */
+export interface TargetCandidate {
+  aimPoint: GeoCoordinate;
+  /** Bag club key (e.g. '7-iron'). */
+  clubKey: string;
+  clubName: string;
+  /** Distance the shot is hit (full swing, or the pin distance for a partial swing). */
+  intendedYards: number;
+  /** Aim left (negative) or right (positive) of the line to the pin, in yards at the intended distance. */
+  lateralOffsetYards: number;
+  /** Mean strokes to hole out including this shot and any penalty stroke. */
+  expectedStrokes: number;
+  waterProbability: number;
+  bunkerProbability: number;
+  greenProbability: number;
+}
+
+export interface OptimalTargetResult {
+  best: TargetCandidate;
+  /** Every candidate, for the heatmap. */
+  candidates: TargetCandidate[];
+  /** Expected strokes from the ball before the shot (baseline for the current lie and distance). */
+  currentExpectedStrokes: number;
+  samplesPerCandidate: number;
+}
@@ -0,0 +1,51 @@
+/**
+ * Strokes gained against the tour baseline (see data/strokesGainedBaseline), split into off-the-tee, approach,
+ * around-the-green and putting. Positive = better than baseline.
+ */
+
+import type { StoredAIProfile } from './roundHistory';
+
+/** Lies the baseline is defined for. */
+export type StrokesGainedLie = 'tee' | 'fairway' | 'rough' | 'bunker' | 'green';
+
+/**
+ * ott: tee shot on a par 4/5. app: any other shot from beyond 30 yards (par-3 tee shots included).
+ * arg: off the green within 30 yards. putt: on the green.
+ */
+export type StrokesGainedCategory = 'ott' | 'app' | 'arg' | 'putt';
+
+/** One stroke valued against the baseline. Penalty strokes are charged to the shot that caused them. */
+export interface StrokesGainedShot {
+  shotNumber: number;
+  category: StrokesGainedCategory;
+  lie: StrokesGainedLie;
+  distanceYards: number;
+  strokesGained: number;
+}
+
+/** Strokes gained by category summed over one or more holes. */
+export interface StrokesGainedTotals {
+  ott: number;
+  app: number;
+  arg: number;
+  putt: number;
+  total: number;
+  holes: number;
+}
+
+/** Average strokes gained per 18 holes over a set of rounds. */
+export interface StrokesGainedSummary extends StrokesGainedTotals {
+  rounds: number;
+}
+
+export interface StrokesGainedProfileSummary {
+  aiProfile: StoredAIProfile;
+  summary: StrokesGainedSummary;
+}
+
+/** User vs AI strokes gained over a period, with the AI split by profile for category-by-category comparison. */
+export interface StrokesGainedComparison {
+  user: StrokesGainedSummary | null;
+  ai: StrokesGainedSummary | null;
+  byAIProfile: StrokesGainedProfileSummary[];
+}
@@ -0,0 +1,50 @@
+/**
+ * Offline-first storage: local records in IndexedDB, a queue of changes to push, and the sync status shown in settings.
+ */
+
+import type { CourseEdits } from '../services/courseEditorStore';
+import type { ElevationGrid } from './elevationGrid';
+
+/** Synced tables (Supabase) and matching local object stores. */
+export type SyncTable = 'rounds' | 'course_edits';
+
+/** A pending local change. One entry per record: a later change to the same record replaces the queued one. */
+export interface ChangeQueueEntry {
+  /** `${table}:${recordId}`. */
+  key: string;
+  table: SyncTable;
+  /** Round id or course name. */
+  recordId: string;
+  /** Local time of the change (ms). */
+  queuedAt: number;
+}
+
+/** Course edits as stored locally, keyed by course, with the time of the last edit for conflict resolution. */
+export interface StoredCourseEdits {
+  courseName: string;
+  edits: CourseEdits;
+  /** Epoch ms of the last local edit (or the remote copy's updated_at once pulled). */
+  updatedAt: number;
+}
+
+/** A course's imported DEM, kept on the device only (not synced: large, and re-importable from its file). */
+export interface StoredElevationGrid {
+  courseName: string;
+  grid: ElevationGrid;
+}
+
+export type SyncState =
+  /** No Supabase URL/key in this build, or no session could be established. Data stays on the device. */
+  | 'disabled'
+  | 'offline'
+  | 'syncing'
+  | 'idle'
+  | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pendingChanges: number;
+  /** Epoch ms of the last successful push + pull. */
+  lastSyncedAt: number | null;
+  error?: string;
+}
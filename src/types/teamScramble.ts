@@ -0,0 +1,69 @@
+/**
+ * Team best-ball scramble: teams, per-hole state for the user's team, and the result saved to history.
+ */
+
+import type { TeamScrambleOptions } from './gameSettings';
+
+type LatLng = { lat: number; lng: number };
+
+/** A team member. Human shots are marked on the map/GPS; AI shots are simulated with AIGolfer. */
+export interface ScrambleMember {
+  id: string;
+  name: string;
+  kind: 'human' | 'ai';
+  /** Playing handicap used when the member's shots are simulated. */
+  handicap: number;
+}
+
+export interface ScrambleTeam {
+  id: string;
+  name: string;
+  members: ScrambleMember[];
+  scoresByHole: (number | undefined)[];
+  /** Per hole: how many of the team's shots were played from each member's ball (member id → count). */
+  shotsUsedByHole: (Record<string, number> | undefined)[];
+}
+
+/** One member's result for the current team shot. */
+export interface ScrambleCandidate {
+  memberId: string;
+  toPosition: LatLng;
+  holed: boolean;
+  /** Ball finished in water or out of bounds. */
+  penalty: boolean;
+}
+
+/** The user's team on the hole in progress. */
+export interface ScrambleHoleState {
+  holeNumber: number;
+  /** Where the team plays the next shot from. */
+  position: LatLng;
+  strokes: number;
+  shotsUsedBy: Record<string, number>;
+  holed: boolean;
+  /** Member whose ball was chosen on the last shot (null when every ball was penalized). */
+  lastChosenMemberId: string | null;
+}
+
+export interface RoundTeamScramble {
+  options: TeamScrambleOptions;
+  /** Team 0 is the user's team; the rest are opposing AI teams. */
+  teams: ScrambleTeam[];
+  hole: ScrambleHoleState | null;
+}
+
+export interface SavedScrambleTeamResult {
+  name: string;
+  members: { id: string; name: string }[];
+  total: number;
+  scoresByHole: (number | undefined)[];
+  /** Shots used per member over the round. */
+  shotsUsed: Record<string, number>;
+}
+
+/** Team scramble result stored on SavedRound. */
+export interface SavedTeamScrambleResult {
+  teams: SavedScrambleTeamResult[];
+  /** User's team finishing position (1 = best total). */
+  position: number;
+}
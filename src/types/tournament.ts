@@ -0,0 +1,49 @@
+/**
+ * Tournament mode: simulated AI field kept on the current round, leaderboard rows, and the result saved to history.
+ */
+
+import type { TournamentOptions, TournamentPlayStyle } from './gameSettings';
+
+/** One entrant in the field. The user ('user') and the selected AI opponent ('ai') are entrants too. */
+export interface TournamentCompetitor {
+  id: string;
+  name: string;
+  /** Playing handicap (plus handicaps negative). Net play allocates strokes by stroke index. */
+  handicap: number;
+  scoresByHole: (number | undefined)[];
+}
+
+/** Tournament state for the current round. Field scores fill in hole by hole as the user posts scores. */
+export interface RoundTournament {
+  options: TournamentOptions;
+  /** Simulated competitors (excludes the user and the selected AI opponent, whose scores live on the round). */
+  field: TournamentCompetitor[];
+  userHandicap: number;
+  aiHandicap: number;
+}
+
+export interface LeaderboardEntry {
+  id: string;
+  name: string;
+  handicap: number;
+  /** 1-based position; tied entries share it. */
+  position: number;
+  /** Display position, e.g. "1", "T3". */
+  positionLabel: string;
+  /** Holes completed. */
+  thru: number;
+  gross: number;
+  net: number;
+  /** Score vs par of holes played, using gross or net per play style. */
+  toPar: number;
+}
+
+/** Tournament result stored on SavedRound, including the final leaderboard. */
+export interface SavedTournamentResult {
+  playStyle: TournamentPlayStyle;
+  fieldSize: number;
+  /** User's final position and display label (e.g. 3 and "T3"). */
+  position: number;
+  positionLabel: string;
+  leaderboard: LeaderboardEntry[];
+}
@@ -0,0 +1,36 @@
+/**
+ * Shot-by-shot tracking for the user: each shot is marked where it was played from (GPS or map pin),
+ * with club, detected lie, and any penalty strokes it cost.
+ */
+
+import type { ReliefKind } from '../engine/ReliefEngine';
+import type { CourseLie } from './courseSurface';
+
+type LatLng = { lat: number; lng: number };
+
+/** Lie the shot was played from. 'tee' for the first shot; otherwise detected from the marked position. */
+export type UserShotLie = 'tee' | CourseLie;
+
+/** Why penalty strokes were added to a shot (the ball it hit ended in the hazard/OB or was declared unplayable). */
+export type UserShotPenalty = 'water' | 'ob' | 'unplayable';
+
+export interface UserShot {
+  shotNumber: number;
+  /** Where the shot was played from; null for putts entered without marking. */
+  position: LatLng | null;
+  /** Club key (e.g. 'driver', '7-iron', 'putter'); null when not picked. */
+  club: string | null;
+  lie: UserShotLie;
+  penalty?: UserShotPenalty;
+  /** Strokes added by the penalty (1 for water, OB stroke-and-distance, unplayable; 2 for OB under Local Rule E-5). */
+  penaltyStrokes: number;
+  /** Relief taken for the penalty; the next shot is played from dropPosition. */
+  relief?: ReliefKind;
+  dropPosition?: LatLng;
+}
+
+/** Shots on one hole. Holed = the last shot went in; score = shots + penalty strokes. */
+export interface UserHoleShots {
+  shots: UserShot[];
+  holed: boolean;
+}
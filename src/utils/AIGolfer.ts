@@ -12,6 +12,8 @@ import {
   skillLevelToHandicapTier,
   handicapNumberToTier,
   isTiger2000Skill,
+  getYardagesForSkill,
+  HACKMOTION_DISTANCES_BY_HANDICAP,
 } from '../data/clubDistancesByHandicap';
 import { getBenchmarkStatsForHandicap } from '../data/handicapBenchmarkStats';
 import { getCalibration, type AICalibration } from './aiCalibration';
@@ -19,6 +21,28 @@ import type { HoleFeaturesForAI } from '../data/lincolnParkCourse';
 import { getLieFromPosition } from '../data/lincolnParkCourse';
 import { adjustYardageForConditions } from './yardageConditions';
 import { isInBounds } from './courseLie';
+import { getGroundSlopeDegrees, getShotSlopeDegrees } from './courseTerrain';
+import { defaultRng, type Rng } from './rng';
+import { getDefaultStrategyProfile, planStrategicShot } from './aiStrategy';
+import { curvedFlightPath, describeShotShape, splitAngleError } from '../engine/BallisticsEngine';
+import { estimateRollMeters, rollClubForYards, rollOut, type CourseFirmness } from '../engine/RollModel';
+import { simulateClubFlight } from '../engine/LaunchModel';
+import { executePutt, TOUR_PUTTING_HANDICAP } from '../engine/PuttingModule';
+import {
+  chooseBestRelief,
+  findCrossingPoint,
+  freeReliefDrop,
+  outOfBoundsReliefOptions,
+  penaltyAreaReliefOptions,
+  type ReliefKind,
+  type ReliefOption,
+  type ReliefSetting,
+} from '../engine/ReliefEngine';
+import { baselineLieFor, rollLieFor, SURFACE_LIE_EFFECTS, isSurfaceLie } from '../engine/SurfaceLies';
+import { getExpectedStrokes } from '../data/strokesGainedBaseline';
+import type { StrokesGainedLie } from '../types/strokesGained';
+import { getShotTendencyForSkill } from '../data/shotTendencies';
+import type { AIStrategyProfile, StrategyDecision } from '../types/aiStrategy';
 
 export type SkillLevel =
   | 'Tour Pro'
@@ -43,6 +67,10 @@ export interface ShotOutcome {
   distance: number; // Actual distance traveled in meters
   error: number; // Error from target in meters
   angleError: number; // Degrees (positive = right, negative = left)
+  /** Shaped (full) shots: start line and curve making up angleError, and the curved ground track to the landing. */
+  startLineDegrees?: number;
+  curveDegrees?: number;
+  path?: { lat: number; lng: number }[];
 }
 
 export interface ShotCommentary {
@@ -52,6 +80,8 @@ export interface ShotCommentary {
   shotHeight: string;
   proximityToHole: string;
   weatherLie: string;
+  /** Lay-up vs go-for-it call behind this shot, when course management came into play. */
+  decision?: StrategyDecision;
 }
 
 export interface ShotHistory {
@@ -63,17 +93,30 @@ export interface ShotHistory {
   distance: number;
   targetDistance: number;
   commentary?: ShotCommentary;
+  /** Set on a shot that finished in water or out of bounds (the penalty stroke follows as its own entry). */
+  penalty?: 'water' | 'ob';
+  /** Penalty stroke (no swing): counts toward the score and is charged to the penalized shot before it. */
+  penaltyStroke?: boolean;
+  /** On the first penalty stroke after a water or OB shot: the relief taken (the ball is played from its drop). */
+  relief?: ReliefOption;
+  /** Where the ball was dropped with free relief from a cart path or ground under repair after this shot. */
+  freeReliefDrop?: { lat: number; lng: number };
+  /** Curved ball flight from fromPosition to the landing (or to treeImpactPosition), for the tracer. */
+  flightPath?: { lat: number; lng: number }[];
+  /** Full shots that rolled out: where the ball landed (end of flightPath) before rolling to toPosition. */
+  carryPosition?: { lat: number; lng: number };
 }
 
 /**
  * Generate a random number from a Gaussian distribution using Box-Muller transform
  * @param mean - Mean of the distribution
  * @param stdDev - Standard deviation
+ * @param rng - Uniform random source
  * @returns Random number from Gaussian distribution
  */
-function gaussianRandom(mean: number = 0, stdDev: number = 1): number {
-  const u1 = Math.random();
-  const u2 = Math.random();
+function gaussianRandom(mean: number = 0, stdDev: number = 1, rng: Rng = defaultRng): number {
+  const u1 = rng.next();
+  const u2 = rng.next();
   const z0 = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
   return z0 * stdDev + mean;
 }
@@ -150,90 +193,28 @@ const TIGER_THREE_FEET_METERS = 0.9144;
 const TIGER_ROUGH_DISPERSION_MULTIPLIER = 1.15;
 const TIGER_ROUGH_DISTANCE_MULTIPLIER = 0.98;
 
-/**
- * Tiger Woods 2000-era putting make probability by distance (feet).
- * 0–3 ft ~99.8%, 4–5 ft ~96%, 6–9 ft ~65%, 10–15 ft ~38%, 15–20 ft ~22%, 20–25 ft ~15%, >25 ft decay.
- * Par-save bias: +5% when putting for par.
- */
-function getTigerPuttMakeProbability(distanceFeet: number, isParSave: boolean = false): number {
-  let p: number;
-  if (distanceFeet <= 3) p = 0.998;
-  else if (distanceFeet <= 5) p = 0.96;
-  else if (distanceFeet <= 9) p = 0.65;
-  else if (distanceFeet <= 15) p = 0.38;
-  else if (distanceFeet <= 20) p = 0.22;
-  else if (distanceFeet <= 25) p = 0.15;
-  else p = Math.max(0.02, 0.15 * Math.exp(-0.08 * (distanceFeet - 25)));
-  if (isParSave) p = Math.min(1, p + 0.05);
-  return p;
-}
-
-/**
- * EW 2K: resolve putt using distance-based make probability. If miss, leave ball 1–3 ft from hole.
- */
-function executeTigerPutt(
-  distanceToHoleMeters: number,
-  holePosition: { lat: number; lng: number },
-  isParSave: boolean
-): { holed: boolean; leavePosition: { lat: number; lng: number } } {
-  const distanceFeet = distanceToHoleMeters * 3.28084;
-  const p = getTigerPuttMakeProbability(distanceFeet, isParSave);
-  if (Math.random() < p) {
-    return { holed: true, leavePosition: holePosition };
-  }
-  const leaveFeet = 1 + Math.random() * 2;
-  const leaveMeters = leaveFeet * 0.3048;
-  const bearing = Math.random() * 360;
-  const leavePosition = calculateDestination(holePosition, bearing, leaveMeters);
-  return { holed: false, leavePosition };
-}
-
-/**
- * Make probability for numeric handicap putts (so EW 2K stays best).
- * Plus handicaps (negative h) blend toward Tiger make % so +3/+1 putt better than scratch.
- */
-function getNumericHandicapPuttMakeProbability(distanceFeet: number, handicap: number): number {
-  const h = Math.max(-5, Math.min(25, handicap)); // allow -5..25 for plus handicaps
-  const hForBench = Math.max(0, h);
-  const bench = getBenchmarkStatsForHandicap(hForBench);
-  const threePuttScale = 1 - (bench.threePuttPercent - 6) / 100;
-  const scale = Math.max(0.5, Math.min(1.2, threePuttScale));
-
-  let p: number;
-  if (distanceFeet <= 3) p = 0.99 - hForBench * 0.01;
-  else if (distanceFeet <= 5) p = 0.92 - hForBench * 0.014;
-  else if (distanceFeet <= 9) p = 0.58 - hForBench * 0.018;
-  else if (distanceFeet <= 15) p = (0.34 - hForBench * 0.016) * scale;
-  else if (distanceFeet <= 20) p = (0.2 - hForBench * 0.01) * scale;
-  else if (distanceFeet <= 25) p = (0.12 - hForBench * 0.006) * scale;
-  else p = Math.max(0.02, (0.12 - hForBench * 0.004) * scale * Math.exp(-0.08 * (distanceFeet - 25)));
-  p = Math.max(0.02, Math.min(0.99, p));
-  const tigerMax = getTigerPuttMakeProbability(distanceFeet, false);
-  p = Math.min(p, tigerMax);
-  // Plus handicaps: blend toward Tiger so they putt better than scratch but not better than EW 2K
-  if (h < 0) {
-    const blend = Math.min(1, -h / 5);
-    p = p + (tigerMax - p) * blend;
-  }
-  return Math.min(tigerMax, p);
-}
-
-function executeNumericPutt(
-  distanceToHoleMeters: number,
-  holePosition: { lat: number; lng: number },
-  handicap: number
-): { holed: boolean; leavePosition: { lat: number; lng: number } } {
-  const distanceFeet = distanceToHoleMeters * 3.28084;
-  const p = getNumericHandicapPuttMakeProbability(distanceFeet, handicap);
-  if (Math.random() < p) {
-    return { holed: true, leavePosition: holePosition };
-  }
-  const leaveFeet = 1 + Math.random() * 2;
-  const leaveMeters = leaveFeet * 0.3048;
-  const bearing = Math.random() * 360;
-  const leavePosition = calculateDestination(holePosition, bearing, leaveMeters);
-  return { holed: false, leavePosition };
-}
+/** Round conditions when none are given but the course DEM still sets the slope. */
+const CALM_CONDITIONS = { windSpeedMph: 0, windDirectionDeg: 0, slopeDegrees: 0 };
+
+/** Penalty-stroke commentary by relief taken; stroke-and-distance keeps the original re-hit wording. */
+const RELIEF_COMMENTARY: Record<'water' | 'ob', Record<ReliefKind, string>> = {
+  water: {
+    'stroke-and-distance': 'Ball in water – re-hit from previous spot',
+    'back-on-line': 'Ball in water – drop back on the line',
+    lateral: 'Ball in water – lateral drop',
+    e5: 'Ball in water – drop',
+  },
+  ob: {
+    'stroke-and-distance': 'OB – re-hit from previous spot',
+    'back-on-line': 'OB – drop',
+    lateral: 'OB – drop',
+    e5: 'OB – drop on the fairway (Local Rule E-5)',
+  },
+};
+
+/** EW 2K putts to the tour curve (PuttingModule skill), with a nerve bonus when putting for par. */
+const TIGER_PUTT_HANDICAP = TOUR_PUTTING_HANDICAP;
+const TIGER_PAR_SAVE_MAKE_BONUS = 0.05;
 
 export interface TreeObstacle {
   lat: number;
@@ -330,6 +311,52 @@ function isDirectPathBlockedByTree(
   return false;
 }
 
+/**
+ * First tree hit along a curved flight (polyline from the ball to the landing). Distance is measured along the
+ * path; point is where the ball meets the tree and bearing the direction it was travelling.
+ */
+function pathTreeIntersection(
+  path: { lat: number; lng: number }[],
+  tree: TreeObstacle
+): { distanceFromStart: number; point: { lat: number; lng: number }; bearing: number } | null {
+  let travelled = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    const hit = segmentTreeIntersection(path[i], path[i + 1], tree);
+    const bearing = calculateBearing(path[i], path[i + 1]);
+    if (hit) {
+      return {
+        distanceFromStart: travelled + hit.distanceFromStart,
+        point: calculateDestination(path[i], bearing, hit.distanceFromStart),
+        bearing,
+      };
+    }
+    travelled += calculateDistance(path[i], path[i + 1]);
+  }
+  return null;
+}
+
+/** Path from the start up to `distance` along it (ends exactly at that point). */
+function pathUpTo(path: { lat: number; lng: number }[], distance: number): { lat: number; lng: number }[] {
+  const out = [path[0]];
+  let travelled = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    const leg = calculateDistance(path[i], path[i + 1]);
+    if (travelled + leg >= distance) {
+      out.push(calculateDestination(path[i], calculateBearing(path[i], path[i + 1]), distance - travelled));
+      return out;
+    }
+    out.push(path[i + 1]);
+    travelled += leg;
+  }
+  return out;
+}
+
+function pathLength(path: { lat: number; lng: number }[]): number {
+  let total = 0;
+  for (let i = 0; i < path.length - 1; i++) total += calculateDistance(path[i], path[i + 1]);
+  return total;
+}
+
 /** True if ball is within TREE_TROUBLE_RADIUS_METERS of any tree (single tree or patch). Enables chip-out when beside a tree even if direct path to green doesn't intersect it. */
 function isBallNearAnyTree(
   position: { lat: number; lng: number },
@@ -407,6 +434,7 @@ export class AIGolfer {
   private _slopeRating: number = STANDARD_SLOPE;
   private _totalPar: number | undefined;
   private _calibration: AICalibration = { dispersionScale: 1, chipMultScale: 1 };
+  private _rng: Rng = defaultRng;
 
   constructor(skillLevel: SkillLevel, startingPosition: { lat: number; lng: number }) {
     this.skillLevel = skillLevel;
@@ -499,13 +527,14 @@ export class AIGolfer {
    * Calculate shot outcome using Gaussian distribution
    * @param targetPosition - Where the AI is aiming
    * @param targetDistance - Intended distance to travel in meters
-   * @param options - Override dispersion or cap distance (e.g. for putting, bunker)
+   * @param options - Override dispersion or cap distance (e.g. for putting, bunker); shaped for a full swing that
+   *   curves with the golfer's tendency (BallisticsEngine), plus any wind drift the golfer aimed off for
    * @returns ShotOutcome with landing position and error
    */
   shotOutcome(
     targetPosition: { lat: number; lng: number },
     targetDistance: number,
-    options?: { stdDevPercent?: number; maxDistanceMeters?: number }
+    options?: { stdDevPercent?: number; maxDistanceMeters?: number; shaped?: boolean; windDriftDegrees?: number }
   ): ShotOutcome {
     const maxDist = options?.maxDistanceMeters;
     const cappedDistance = maxDist != null ? Math.min(targetDistance, maxDist) : targetDistance;
@@ -513,12 +542,12 @@ export class AIGolfer {
     const stdDev = cappedDistance * stdDevPercent;
 
     // Generate distance error using Gaussian distribution
-    const distanceError = gaussianRandom(0, stdDev);
+    const distanceError = gaussianRandom(0, stdDev, this._rng);
     let actualDistance = Math.max(0, cappedDistance + distanceError);
     if (maxDist != null) actualDistance = Math.min(actualDistance, maxDist);
 
     const angleStdDev = this.getAngleStdDevDegrees();
-    const angleError = gaussianRandom(0, angleStdDev);
+    const angleError = gaussianRandom(0, angleStdDev, this._rng);
 
     // Calculate bearing to target
     const bearing = calculateBearing(this.currentPosition, targetPosition);
@@ -530,6 +559,18 @@ export class AIGolfer {
     // Calculate error from target
     const error = calculateDistance(landingPosition, targetPosition);
 
+    if (options?.shaped) {
+      const tendency = getShotTendencyForSkill(this.skillLevel);
+      const split = splitAngleError(angleError, angleStdDev, tendency, gaussianRandom(0, 1, this._rng));
+      const drift = options.windDriftDegrees ?? 0;
+      const startLineDegrees = split.startLineDegrees - drift;
+      const curveDegrees = split.curveDegrees + drift;
+      const path = curvedFlightPath(this.currentPosition, bearing + startLineDegrees, curveDegrees, actualDistance);
+      // Same landing as the straight-line error; the last point only differs by rounding
+      path[path.length - 1] = landingPosition;
+      return { landingPosition, distance: actualDistance, error, angleError, startLineDegrees, curveDegrees, path };
+    }
+
     return {
       landingPosition,
       distance: actualDistance,
@@ -541,6 +582,7 @@ export class AIGolfer {
   /**
    * Build commentary for a shot (distance, club, shape, height, proximity, weather/lie).
    * When targetYardsForClub is set (e.g. wind/slope adjusted), club and displayed distance use it.
+   * shotShape is the shape actually flown (shaped full shots); otherwise it is read off the angle error.
    */
   private buildCommentary(
     distanceMeters: number,
@@ -549,7 +591,8 @@ export class AIGolfer {
     isHoled: boolean,
     hitTree: boolean = false,
     targetYardsForClub?: number,
-    chipOut: boolean = false
+    chipOut: boolean = false,
+    shotShape?: string
   ): ShotCommentary {
     const distanceYards = targetYardsForClub != null ? Math.round(targetYardsForClub) : Math.round(distanceMeters * 1.09361);
     const tier = typeof this.skillLevel === 'number'
@@ -559,13 +602,13 @@ export class AIGolfer {
       ? clubFromDistanceYardsForSkill(distanceYards, this.skillLevel)
       : clubFromDistanceYards(distanceYards, tier);
     const shapeIndex = Math.max(0, Math.min(4, Math.floor((angleErrorDeg + 8) / 4)));
-    const shotShape = SHOT_SHAPES[shapeIndex];
-    const shotHeight = SHOT_HEIGHTS[Math.floor(Math.random() * SHOT_HEIGHTS.length)];
+    const shape = shotShape ?? SHOT_SHAPES[shapeIndex];
+    const shotHeight = SHOT_HEIGHTS[Math.floor(this._rng.next() * SHOT_HEIGHTS.length)];
     const weatherLie = hitTree
       ? 'Hit tree! Ball deflected.'
       : chipOut
         ? 'Chipped out to fairway'
-        : WEATHER_LIE[Math.floor(Math.random() * WEATHER_LIE.length)];
+        : WEATHER_LIE[Math.floor(this._rng.next() * WEATHER_LIE.length)];
     const ONE_FOOT_METERS = 0.3048;
     let proximityToHole: string;
     if (isHoled) proximityToHole = 'Holed!';
@@ -578,7 +621,7 @@ export class AIGolfer {
     return {
       distanceYards,
       club,
-      shotShape,
+      shotShape: shape,
       shotHeight,
       proximityToHole,
       weatherLie,
@@ -588,6 +631,8 @@ export class AIGolfer {
   /**
    * Play a hole until the ball is within gimme range (6 inches) of the hole.
    * When options.conditions is set, the AI uses wind and slope to adjust effective yardage for club selection.
+   * When options.courseName has an imported DEM, the slope is the real height difference to the green (and the ground
+   * slope at the landing spot for roll-out) instead of conditions.slopeDegrees.
    * Stroke index (hole handicap) is used for both net scoring and for shot simulation: the competitor recognizes
    * the difficulty of the hole and plans accordingly.
    */
@@ -598,7 +643,13 @@ export class AIGolfer {
     options?: {
       holeFeatures?: HoleFeaturesForAI;
       par: number;
-      conditions?: { windSpeedMph: number; windDirectionDeg: number; slopeDegrees: number };
+      conditions?: {
+        windSpeedMph: number;
+        windDirectionDeg: number;
+        slopeDegrees: number;
+        altitudeFeet?: number;
+        temperatureF?: number;
+      };
       /** USGA course rating (scratch expected score). When set with totalPar, scratch plays easier on easier courses. */
       courseRating?: number;
       /** USGA slope rating (113 = standard). Scales handicap effect on difficulty. */
@@ -609,6 +660,14 @@ export class AIGolfer {
       calibration?: AICalibration;
       /** When set, shots landing outside this course's boundary (Lincoln Park sections) are treated as OB (stroke-and-distance). */
       courseName?: string;
+      /** Random source for every shot, putt and commentary pick. Pass a seeded Rng to replay the hole exactly. */
+      rng?: Rng;
+      /** Stroke number of the first shot when resuming mid-hole (e.g. scramble from the chosen ball). Default 1 (tee shot). */
+      firstShotNumber?: number;
+      /** Course-management style for lay-up vs go-for-it calls. Default: the skill level's own style. */
+      strategy?: AIStrategyProfile;
+      /** Course firmness for roll-out after landing (with holeFeatures). Default 'medium'. */
+      firmness?: CourseFirmness;
     }
   ): ShotHistory[] {
     this.shotHistory = [];
@@ -617,32 +676,74 @@ export class AIGolfer {
     this._slopeRating = options?.slopeRating ?? STANDARD_SLOPE;
     this._totalPar = options?.totalPar;
     this._calibration = options?.calibration ?? getCalibration();
+    this._rng = options?.rng ?? defaultRng;
     const features = options?.holeFeatures ?? null;
     const par = options?.par ?? 4;
     const conditions = options?.conditions;
     const trees = features ? features.treeObstacles : treeObstacles;
     const courseName = options?.courseName;
+    const strategy = options?.strategy ?? getDefaultStrategyProfile(this.skillLevel);
+    const firmness = options?.firmness ?? 'medium';
+    /** Full-swing yardages by club: strategy wedge numbers and the roll-out club. */
+    const clubYardages = isTiger2000Skill(this.skillLevel)
+      ? getYardagesForSkill(this.skillLevel)
+      : HACKMOTION_DISTANCES_BY_HANDICAP[
+          typeof this.skillLevel === 'number'
+            ? handicapNumberToTier(Math.round(this.getEffectiveHandicap() ?? this.skillLevel))
+            : skillLevelToHandicapTier(this.skillLevel)
+        ];
     /** Max score per hole is triple par (e.g. Par 3 → 9, Par 4 → 12, Par 5 → 15). Cap by stroke count so penalty (water) doesn't exceed cap. */
     const effectiveMaxShots = options?.par != null ? Math.min(maxShots, options.par * 3) : maxShots;
 
-    let shotNumber = 0;
+    /** Handicap the launch model flies this golfer's shots with (characters and Tiger 2000 launch like scratch). */
+    const flightHandicap =
+      typeof this.skillLevel === 'number'
+        ? Math.max(0, this.getEffectiveHandicap() ?? this.skillLevel)
+        : skillLevelToHandicapTier(this.skillLevel);
+
+    const shotNumberOffset = Math.max(0, (options?.firstShotNumber ?? 1) - 1);
+    let shotNumber = shotNumberOffset;
     /** Consecutive tree hits so far; if >= 3, next shot from rough is chip out by default. */
     let consecutiveTreeHits = 0;
 
-    while (shotNumber < effectiveMaxShots && this.shotHistory.length < effectiveMaxShots) {
+    while (shotNumber - shotNumberOffset < effectiveMaxShots && this.shotHistory.length < effectiveMaxShots) {
       shotNumber++;
 
+      // Cart path or ground under repair: free relief to the nearest clear spot before playing on
+      const restingLie = features && shotNumber > 1 ? getLieFromPosition(this.currentPosition, features) : null;
+      if (features && restingLie && isSurfaceLie(restingLie) && SURFACE_LIE_EFFECTS[restingLie].freeRelief) {
+        const relief = freeReliefDrop(this.currentPosition, greenPosition, (p) => {
+          const at = getLieFromPosition(p, features);
+          const blocked = at === 'water' || at === 'green' || at === 'bunker';
+          return !blocked && !(isSurfaceLie(at) && SURFACE_LIE_EFFECTS[at].freeRelief) && (!courseName || isInBounds(p, courseName));
+        });
+        const last = this.shotHistory[this.shotHistory.length - 1];
+        if (relief) {
+          this.currentPosition = relief.dropPosition;
+          if (last) last.freeReliefDrop = { ...relief.dropPosition };
+        }
+      }
+
       const distanceToGreen = calculateDistance(this.currentPosition, greenPosition);
       const shotBearing = calculateBearing(this.currentPosition, greenPosition);
       const rawYards = distanceToGreen * 1.09361;
+      // A course DEM gives the real rise or fall to the green; it replaces the slope setting even without conditions
+      const terrainSlope = courseName ? getShotSlopeDegrees(courseName, this.currentPosition, greenPosition) : null;
+      const shotConditions =
+        terrainSlope != null ? { ...(conditions ?? CALM_CONDITIONS), slopeDegrees: terrainSlope } : conditions;
       const effectiveYards =
-        conditions && rawYards > 0
+        shotConditions && rawYards > 0
           ? adjustYardageForConditions(
               rawYards,
-              conditions.windSpeedMph,
-              conditions.windDirectionDeg,
+              shotConditions.windSpeedMph,
+              shotConditions.windDirectionDeg,
               shotBearing,
-              conditions.slopeDegrees
+              shotConditions.slopeDegrees,
+              {
+                handicap: flightHandicap,
+                altitudeFeet: shotConditions.altitudeFeet,
+                temperatureF: shotConditions.temperatureF,
+              }
             ).adjustedYards
           : rawYards;
       const effectiveDistanceToGreenMeters = effectiveYards / 1.09361;
@@ -668,10 +769,13 @@ export class AIGolfer {
           : features
             ? getLieFromPosition(this.currentPosition, features)
             : 'fairway';
+      // Drawn surfaces play as a fairway approach or a rough-style recovery, with their own multipliers
+      const surfaceEffect = isSurfaceLie(currentLie) ? SURFACE_LIE_EFFECTS[currentLie] : null;
+      const playLie = surfaceEffect?.playsAs ?? currentLie;
 
       if (isTiger2000Skill(this.skillLevel) && distanceToGreen <= TIGER_THREE_FEET_METERS) {
-        const holed = Math.random() < 0.998;
-        const toPos = holed ? greenPosition : calculateDestination(greenPosition, Math.random() * 360, 0.46);
+        const holed = this._rng.next() < 0.998;
+        const toPos = holed ? greenPosition : calculateDestination(greenPosition, this._rng.next() * 360, 0.46);
         const commentary = this.buildCommentary(distanceToGreen, 0, 0, holed);
         this.shotHistory.push({
           shotNumber,
@@ -690,7 +794,11 @@ export class AIGolfer {
       if (distanceToGreen <= PUTT_CHIP_RANGE_METERS && features) {
         if (isTiger2000Skill(this.skillLevel)) {
           const isParSave = shotNumber >= par;
-          const { holed, leavePosition } = executeTigerPutt(distanceToGreen, greenPosition, isParSave);
+          const { holed, leavePosition } = executePutt(this.currentPosition, greenPosition, distanceToGreen, this._rng, {
+            handicap: TIGER_PUTT_HANDICAP,
+            slope: features.greenSlope,
+            makeBonus: isParSave ? TIGER_PAR_SAVE_MAKE_BONUS : 0,
+          });
           const commentary = this.buildCommentary(distanceToGreen, 0, 0, holed);
           this.shotHistory.push({
             shotNumber,
@@ -707,7 +815,10 @@ export class AIGolfer {
         }
         if (currentLie === 'green' && typeof this.skillLevel === 'number') {
           const puttHandicap = this.getEffectiveHandicap() ?? this.skillLevel;
-          const { holed, leavePosition } = executeNumericPutt(distanceToGreen, greenPosition, puttHandicap);
+          const { holed, leavePosition } = executePutt(this.currentPosition, greenPosition, distanceToGreen, this._rng, {
+            handicap: puttHandicap,
+            slope: features.greenSlope,
+          });
           const commentary = this.buildCommentary(distanceToGreen, 0, 0, holed);
           this.shotHistory.push({
             shotNumber,
@@ -763,7 +874,11 @@ export class AIGolfer {
 
       if (features && currentLie === 'green' && isTiger2000Skill(this.skillLevel)) {
         const isParSave = shotNumber >= par;
-        const { holed, leavePosition } = executeTigerPutt(distanceToGreen, greenPosition, isParSave);
+        const { holed, leavePosition } = executePutt(this.currentPosition, greenPosition, distanceToGreen, this._rng, {
+          handicap: TIGER_PUTT_HANDICAP,
+          slope: features.greenSlope,
+          makeBonus: isParSave ? TIGER_PAR_SAVE_MAKE_BONUS : 0,
+        });
         const commentary = this.buildCommentary(distanceToGreen, 0, 0, holed);
         this.shotHistory.push({
           shotNumber,
@@ -780,7 +895,10 @@ export class AIGolfer {
       }
       if (features && currentLie === 'green' && typeof this.skillLevel === 'number') {
         const puttHandicap = this.getEffectiveHandicap() ?? this.skillLevel;
-        const { holed, leavePosition } = executeNumericPutt(distanceToGreen, greenPosition, puttHandicap);
+        const { holed, leavePosition } = executePutt(this.currentPosition, greenPosition, distanceToGreen, this._rng, {
+          handicap: puttHandicap,
+          slope: features.greenSlope,
+        });
         const commentary = this.buildCommentary(distanceToGreen, 0, 0, holed);
         this.shotHistory.push({
           shotNumber,
@@ -800,6 +918,7 @@ export class AIGolfer {
       let targetDistanceMeters = distanceToGreen;
       let shotOptions: { stdDevPercent?: number; maxDistanceMeters?: number } | undefined;
       let isChipOut = false;
+      let strategyDecision: StrategyDecision | undefined;
 
       if (features) {
         const distanceToGreenYards = effectiveYards;
@@ -812,6 +931,8 @@ export class AIGolfer {
         const fullMaxMeters = maxShotYards / 1.09361;
         const roughDispMult = isTiger2000Skill(this.skillLevel) ? TIGER_ROUGH_DISPERSION_MULTIPLIER : ROUGH_DISPERSION_MULTIPLIER;
         const roughDistMult = isTiger2000Skill(this.skillLevel) ? TIGER_ROUGH_DISTANCE_MULTIPLIER : ROUGH_DISTANCE_MULTIPLIER;
+        const lieDispMult = surfaceEffect?.dispersion ?? (currentLie === 'rough' ? roughDispMult : 1);
+        const lieDistMult = surfaceEffect?.distance ?? (currentLie === 'rough' ? roughDistMult : 1);
 
         if (currentLie === 'green') {
           targetPosition = greenPosition;
@@ -849,7 +970,7 @@ export class AIGolfer {
               maxDistanceMeters: BUNKER_SHOT_MAX_METERS,
             };
           }
-        } else if (currentLie === 'rough') {
+        } else if (playLie === 'rough') {
           // Chip out to fairway when: path blocked, OR ball near a tree, OR 3+ tree hits in a row (force chip out by default).
           const pathBlocked = trees.length > 0 && isDirectPathBlockedByTree(this.currentPosition, greenPosition, trees);
           const nearTree = trees.length > 0 && isBallNearAnyTree(this.currentPosition, trees);
@@ -879,15 +1000,15 @@ export class AIGolfer {
             targetPosition = chipOutFw.center;
             targetDistanceMeters = Math.min(chipOutDist, CHIP_OUT_MAX_METERS);
             shotOptions = {
-              stdDevPercent: this.getStandardDeviationPercent() * roughDispMult,
+              stdDevPercent: this.getStandardDeviationPercent() * lieDispMult,
               maxDistanceMeters: CHIP_OUT_MAX_METERS,
             };
           } else {
-            // Play from rough: full shot toward green with rough multipliers.
+            // Play from rough (or waste, native, GUR): full shot toward green with the lie's multipliers.
             targetPosition = greenPosition;
-            targetDistanceMeters = Math.min(effectiveDistanceToGreenMeters, fullMaxMeters * roughDistMult);
+            targetDistanceMeters = Math.min(effectiveDistanceToGreenMeters, fullMaxMeters * lieDistMult);
             shotOptions = {
-              stdDevPercent: this.getStandardDeviationPercent() * roughDispMult,
+              stdDevPercent: this.getStandardDeviationPercent() * lieDispMult,
               maxDistanceMeters: targetDistanceMeters,
             };
           }
@@ -950,9 +1071,37 @@ export class AIGolfer {
               Math.min(distToFairway, fullMaxMeters)
             );
           } else {
-            targetDistanceMeters = Math.min(effectiveDistanceToGreenMeters, fullMaxMeters);
+            targetDistanceMeters = Math.min(effectiveDistanceToGreenMeters, fullMaxMeters * lieDistMult);
+          }
+          // First cut or a cart path with no relief spot: wider and shorter than from the fairway
+          shotOptions =
+            lieDispMult !== 1
+              ? { stdDevPercent: this.getStandardDeviationPercent() * lieDispMult, maxDistanceMeters: targetDistanceMeters }
+              : undefined;
+        }
+
+        // Course management: lay up or go for it when a par 5 green is in reach or water is in play.
+        if ((playLie === 'fairway' || playLie === 'rough') && !isChipOut && targetPosition === greenPosition) {
+          const plan = planStrategicShot({
+            ball: this.currentPosition,
+            pin: greenPosition,
+            features,
+            par,
+            lie: shotNumber === 1 ? 'tee' : playLie,
+            maxShotYards: maxShotYards * lieDistMult,
+            yardages: clubYardages,
+            distanceStdDevFraction: this.getStandardDeviationPercent() * lieDispMult,
+            angleStdDevDegrees: this.getAngleStdDevDegrees(),
+            profile: strategy,
+          });
+          if (plan) {
+            strategyDecision = plan.decision;
+            if (plan.decision.choice === 'lay-up') {
+              targetPosition = plan.target;
+              targetDistanceMeters = plan.targetDistanceMeters;
+              if (shotOptions) shotOptions = { ...shotOptions, maxDistanceMeters: targetDistanceMeters };
+            }
           }
-          if (currentLie !== 'rough') shotOptions = undefined;
         }
       } else {
         const distanceToGreenYards = effectiveYards;
@@ -965,34 +1114,78 @@ export class AIGolfer {
         targetDistanceMeters = Math.min(effectiveDistanceToGreenMeters, maxShotYards / 1.09361);
       }
 
-      let outcome = this.shotOutcome(targetPosition, targetDistanceMeters, shotOptions);
+      // The plays-as yardage picked the swing; in the wind and air that swing carries the real distance to the pin
+      if (shotConditions && targetPosition === greenPosition && effectiveDistanceToGreenMeters > 0) {
+        const groundPerPlaysAs = distanceToGreen / effectiveDistanceToGreenMeters;
+        targetDistanceMeters *= groundPerPlaysAs;
+        if (shotOptions?.maxDistanceMeters != null) {
+          shotOptions = { ...shotOptions, maxDistanceMeters: shotOptions.maxDistanceMeters * groundPerPlaysAs };
+        }
+      }
+
+      // Full swings curve with the golfer's shape; putts, bunker shots and chip-outs fly straight
+      const fullSwing = currentLie !== 'green' && currentLie !== 'bunker' && !isChipOut;
+      // Crosswind drift: the golfer aims off by it, so it bends the flight without moving the landing
+      const windDriftDegrees =
+        conditions && fullSwing && conditions.windSpeedMph > 0
+          ? simulateClubFlight(
+              rollClubForYards(targetDistanceMeters * 1.09361, clubYardages),
+              flightHandicap,
+              targetDistanceMeters,
+              {
+                windSpeedMph: conditions.windSpeedMph,
+                windDirectionDeg: conditions.windDirectionDeg,
+                shotBearingDeg: calculateBearing(this.currentPosition, targetPosition),
+                altitudeFeet: conditions.altitudeFeet,
+                temperatureF: conditions.temperatureF,
+              }
+            ).driftDegrees
+          : 0;
+      // Full swings roll out after landing: plan the carry so carry + expected roll reaches the target
+      const rollClub = features && fullSwing ? rollClubForYards(targetDistanceMeters * 1.09361, clubYardages) : null;
+      const landingSlope =
+        courseName && rollClub
+          ? getGroundSlopeDegrees(courseName, targetPosition, calculateBearing(this.currentPosition, targetPosition))
+          : null;
+      const slopeDegrees = landingSlope ?? conditions?.slopeDegrees ?? 0;
+      const carryMeters =
+        features && rollClub
+          ? targetDistanceMeters -
+            estimateRollMeters(
+              targetDistanceMeters,
+              rollClub,
+              rollLieFor(getLieFromPosition(targetPosition, features)),
+              firmness,
+              slopeDegrees
+            )
+          : targetDistanceMeters;
+      let outcome = this.shotOutcome(targetPosition, carryMeters, { ...shotOptions, shaped: fullSwing, windDriftDegrees });
+      let flightPath = outcome.path ?? [{ ...this.currentPosition }, outcome.landingPosition];
+      const shotShape =
+        outcome.startLineDegrees != null && outcome.curveDegrees != null
+          ? describeShotShape(outcome.startLineDegrees, outcome.curveDegrees)
+          : undefined;
       let hitTree = false;
       let treeImpactPoint: { lat: number; lng: number } | undefined;
 
-      // Check tree obstacles: first hit (if any) where ball doesn't clear the tree height
+      // Check tree obstacles along the (curved) flight: first hit (if any) where ball doesn't clear the tree height
       if (trees.length > 0) {
-        const segmentLength = outcome.distance;
-        let firstHit: { t: number; distanceFromStart: number; tree: TreeObstacle } | null = null;
+        const flightLength = pathLength(flightPath);
+        let firstHit: { distanceFromStart: number; point: { lat: number; lng: number }; bearing: number } | null = null;
         for (const tree of trees) {
-          const hit = segmentTreeIntersection(this.currentPosition, outcome.landingPosition, tree);
+          const hit = pathTreeIntersection(flightPath, tree);
           if (!hit) continue;
-          const ballHeight = trajectoryHeightAt(hit.distanceFromStart, segmentLength);
+          const ballHeight = trajectoryHeightAt(hit.distanceFromStart, flightLength);
           if (ballHeight > tree.heightMeters) continue; // Ball clears the tree
-          if (!firstHit || hit.t < firstHit.t) {
-            firstHit = { t: hit.t, distanceFromStart: hit.distanceFromStart, tree };
-          }
+          if (!firstHit || hit.distanceFromStart < firstHit.distanceFromStart) firstHit = hit;
         }
         if (firstHit) {
           hitTree = true;
-          const bearingToTarget = calculateBearing(this.currentPosition, outcome.landingPosition);
-          treeImpactPoint = calculateDestination(
-            this.currentPosition,
-            bearingToTarget,
-            firstHit.distanceFromStart
-          );
+          treeImpactPoint = firstHit.point;
+          flightPath = pathUpTo(flightPath, firstHit.distanceFromStart);
           // Deflection: bounce off tree, ball ends up near tree with random direction (2–7 m)
-          const deflectionAngle = (bearingToTarget + 90 + (Math.random() * 60 - 30) + 360) % 360;
-          const deflectionDist = 2 + Math.random() * 5;
+          const deflectionAngle = (firstHit.bearing + 90 + (this._rng.next() * 60 - 30) + 360) % 360;
+          const deflectionDist = 2 + this._rng.next() * 5;
           outcome = {
             ...outcome,
             landingPosition: calculateDestination(treeImpactPoint, deflectionAngle, deflectionDist),
@@ -1003,8 +1196,43 @@ export class AIGolfer {
         }
       }
 
+      let carryPosition: { lat: number; lng: number } | undefined;
+      if (features && rollClub && !hitTree) {
+        const roll = rollOut({
+          landing: outcome.landingPosition,
+          bearing: calculateBearing(flightPath[flightPath.length - 2], outcome.landingPosition),
+          carryMeters: outcome.distance,
+          club: rollClub,
+          firmness,
+          slopeDegrees,
+          lieAt: (position) => rollLieFor(getLieFromPosition(position, features)),
+        });
+        if (roll.rollMeters > 0) {
+          carryPosition = outcome.landingPosition;
+          outcome = {
+            ...outcome,
+            landingPosition: roll.restPosition,
+            distance: outcome.distance + roll.rollMeters,
+            error: calculateDistance(roll.restPosition, targetPosition),
+          };
+        }
+      }
+      const flightPathEntry = {
+        ...(flightPath.length > 2 && { flightPath }),
+        ...(carryPosition && { carryPosition }),
+      };
+
       const landingLie = features ? getLieFromPosition(outcome.landingPosition, features) : 'rough';
       const outOfBounds = courseName && !isInBounds(outcome.landingPosition, courseName);
+      // Relief is measured from where the ball crossed into the penalty area or out of bounds along its flight and roll
+      const ballPath = carryPosition ? [...flightPath, outcome.landingPosition] : flightPath;
+      const reliefSetting: ReliefSetting = {
+        previousSpot: { ...this.currentPosition },
+        pin: greenPosition,
+        isPlayable: (p) =>
+          (!features || getLieFromPosition(p, features) !== 'water') && (!courseName || isInBounds(p, courseName)),
+      };
+      const replayFromTee = shotNumber === 1;
 
       if (features && landingLie === 'water') {
         const commentary = this.buildCommentary(
@@ -1014,36 +1242,35 @@ export class AIGolfer {
           false,
           hitTree,
           undefined,
-          isChipOut
+          isChipOut,
+          shotShape
         );
         this.shotHistory.push({
           shotNumber,
           fromPosition: { ...this.currentPosition },
           toPosition: outcome.landingPosition,
           ...(hitTree && treeImpactPoint && { treeImpactPosition: treeImpactPoint }),
+          ...flightPathEntry,
           distance: outcome.distance,
           targetDistance: distanceToGreen,
-          commentary: { ...commentary, weatherLie: 'Ball in water – penalty' },
+          commentary: {
+            ...commentary,
+            weatherLie: 'Ball in water – penalty',
+            ...(strategyDecision && { decision: strategyDecision }),
+          },
+          penalty: 'water',
         });
         consecutiveTreeHits = hitTree ? consecutiveTreeHits + 1 : 0;
         if (this.shotHistory.length >= effectiveMaxShots) break;
-        shotNumber++;
-        const penaltyCommentary: ShotCommentary = {
-          distanceYards: 0,
-          club: 'Penalty',
-          shotShape: '—',
-          shotHeight: '—',
-          proximityToHole: 'Penalty stroke',
-          weatherLie: 'Ball in water – re-hit from previous spot',
-        };
-        this.shotHistory.push({
-          shotNumber,
-          fromPosition: { ...this.currentPosition },
-          toPosition: { ...this.currentPosition },
-          distance: 0,
-          targetDistance: 0,
-          commentary: penaltyCommentary,
+        const area = features.water.find((w) => calculateDistance(outcome.landingPosition, w.center) <= w.radiusMeters);
+        const inArea = (p: { lat: number; lng: number }) =>
+          area != null && calculateDistance(p, area.center) <= area.radiusMeters;
+        const options = penaltyAreaReliefOptions({
+          ...reliefSetting,
+          entryPoint: findCrossingPoint(ballPath, inArea) ?? outcome.landingPosition,
+          stake: area?.stake ?? 'red',
         });
+        shotNumber = this.takeRelief(options, 'water', shotNumber, effectiveMaxShots, replayFromTee, greenPosition, features);
         continue;
       }
 
@@ -1055,44 +1282,42 @@ export class AIGolfer {
           false,
           hitTree,
           undefined,
-          isChipOut
+          isChipOut,
+          shotShape
         );
         this.shotHistory.push({
           shotNumber,
           fromPosition: { ...this.currentPosition },
           toPosition: outcome.landingPosition,
           ...(hitTree && treeImpactPoint && { treeImpactPosition: treeImpactPoint }),
+          ...flightPathEntry,
           distance: outcome.distance,
           targetDistance: distanceToGreen,
-          commentary: { ...commentary, weatherLie: 'Out of bounds – penalty' },
+          commentary: {
+            ...commentary,
+            weatherLie: 'Out of bounds – penalty',
+            ...(strategyDecision && { decision: strategyDecision }),
+          },
+          penalty: 'ob',
         });
         consecutiveTreeHits = hitTree ? consecutiveTreeHits + 1 : 0;
         if (this.shotHistory.length >= effectiveMaxShots) break;
-        shotNumber++;
-        const penaltyCommentary: ShotCommentary = {
-          distanceYards: 0,
-          club: 'Penalty',
-          shotShape: '—',
-          shotHeight: '—',
-          proximityToHole: 'Penalty stroke',
-          weatherLie: 'OB – re-hit from previous spot',
-        };
-        this.shotHistory.push({
-          shotNumber,
-          fromPosition: { ...this.currentPosition },
-          toPosition: { ...this.currentPosition },
-          distance: 0,
-          targetDistance: 0,
-          commentary: penaltyCommentary,
+        const options = outOfBoundsReliefOptions({
+          ...reliefSetting,
+          crossingPoint:
+            findCrossingPoint(ballPath, (p) => !!courseName && !isInBounds(p, courseName)) ?? outcome.landingPosition,
+          fairwayPolygons: features?.fairwayPolygons,
+          fairwayCircles: features?.fairways,
         });
+        shotNumber = this.takeRelief(options, 'ob', shotNumber, effectiveMaxShots, replayFromTee, greenPosition, features);
         continue;
       }
 
       // When ball hits a tree, show intended club/distance (what the AI chose), not the shortened actual travel.
       const yardsForClub =
-        hitTree
+        hitTree || strategyDecision?.choice === 'lay-up'
           ? Math.round(targetDistanceMeters * 1.09361)
-          : conditions
+          : shotConditions
             ? effectiveYards
             : undefined;
       const commentary = this.buildCommentary(
@@ -1102,7 +1327,8 @@ export class AIGolfer {
         false,
         hitTree,
         yardsForClub,
-        isChipOut
+        isChipOut,
+        shotShape
       );
 
       this.shotHistory.push({
@@ -1110,9 +1336,10 @@ export class AIGolfer {
         fromPosition: { ...this.currentPosition },
         toPosition: outcome.landingPosition,
         ...(hitTree && treeImpactPoint && { treeImpactPosition: treeImpactPoint }),
+        ...flightPathEntry,
         distance: outcome.distance,
         targetDistance: distanceToGreen,
-        commentary,
+        commentary: strategyDecision ? { ...commentary, decision: strategyDecision } : commentary,
       });
 
       this.currentPosition = outcome.landingPosition;
@@ -1122,6 +1349,55 @@ export class AIGolfer {
     return this.shotHistory;
   }
 
+  /**
+   * Takes the relief option with the best expected score after a water or OB shot: adds its penalty stroke entries
+   * (two for E-5, at most up to the stroke cap) and moves the ball to the drop. Returns the last shot number used.
+   */
+  private takeRelief(
+    options: ReliefOption[],
+    reason: 'water' | 'ob',
+    shotNumber: number,
+    maxShots: number,
+    replayFromTee: boolean,
+    greenPosition: { lat: number; lng: number },
+    features: HoleFeaturesForAI | null
+  ): number {
+    const best = chooseBestRelief(options, (option) => {
+      const lie: StrokesGainedLie =
+        option.kind === 'stroke-and-distance' && replayFromTee
+          ? 'tee'
+          : features
+            ? baselineLieFor(getLieFromPosition(option.dropPosition, features))
+            : 'fairway';
+      return getExpectedStrokes(lie, calculateDistance(option.dropPosition, greenPosition) * 1.09361);
+    });
+    const option = best?.option;
+    const drop = option ? option.dropPosition : { ...this.currentPosition };
+    const strokes = option?.penaltyStrokes ?? 1;
+    for (let i = 0; i < strokes && this.shotHistory.length < maxShots; i++) {
+      shotNumber++;
+      this.shotHistory.push({
+        shotNumber,
+        fromPosition: { ...drop },
+        toPosition: { ...drop },
+        distance: 0,
+        targetDistance: 0,
+        commentary: {
+          distanceYards: 0,
+          club: 'Penalty',
+          shotShape: '—',
+          shotHeight: '—',
+          proximityToHole: 'Penalty stroke',
+          weatherLie: RELIEF_COMMENTARY[reason][option?.kind ?? 'stroke-and-distance'],
+        },
+        penaltyStroke: true,
+        ...(i === 0 && option && { relief: option }),
+      });
+    }
+    this.currentPosition = { ...drop };
+    return shotNumber;
+  }
+
   /**
    * Get current position
    */
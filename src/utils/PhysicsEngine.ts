@@ -1,6 +1,9 @@
 /**
  * Golf Physics Engine
- * Calculates ball trajectory based on initial conditions
+ * Calculates ball trajectory based on initial conditions: gravity, drag and Magnus lift from backspin and sidespin,
+ * through air of a given density with a wind that strengthens with height.
+ *
+ * Coordinates: x = forward along the launch line, y = lateral (positive = right), z = height (meters).
  */
 
 export interface TrajectoryPoint {
@@ -9,16 +12,63 @@ export interface TrajectoryPoint {
   z: number;
 }
 
+/** Ball leaving the clubface. */
+export interface LaunchConditions {
+  /** Ball speed (m/s). */
+  ballSpeed: number;
+  /** Vertical launch angle in degrees (0 = horizontal). */
+  launchAngleDegrees: number;
+  backspinRpm: number;
+  /** Sidespin in RPM (positive = curves right, i.e. fade/slice for a right-hander). */
+  sidespinRpm: number;
+}
+
+/** Air the ball flies through. */
+export interface FlightEnvironment {
+  /** kg/m^3 (see GolfPhysics.airDensity). */
+  airDensity: number;
+  /** Wind at 10 m height in the trajectory frame (m/s, blowing toward +x / +y); weaker near the ground. */
+  wind: { x: number; y: number };
+}
+
+export interface FlightResult {
+  points: TrajectoryPoint[];
+  /** Forward distance at landing (m). */
+  carry: number;
+  /** Lateral distance at landing (m, positive = right). */
+  lateral: number;
+  /** Highest point (m). */
+  apex: number;
+  /** Time in the air (s). */
+  flightTime: number;
+}
+
 export class GolfPhysics {
   // Physics constants
   static readonly GRAVITY = 9.81; // m/s^2
   static readonly BALL_MASS = 0.0459; // kg
-  static readonly AIR_DENSITY = 1.225; // kg/m^3
-  static readonly DRAG_COEFFICIENT = 0.3; // dimensionless
+  static readonly AIR_DENSITY = 1.225; // kg/m^3 (sea level, 15 °C)
+  static readonly DRAG_COEFFICIENT = 0.22; // dimensionless, without spin
+  static readonly SPIN_DRAG_COEFFICIENT = 0.2; // extra drag per unit spin factor
+  static readonly MAX_LIFT_COEFFICIENT = 0.25;
+  static readonly SPIN_DECAY_SECONDS = 25; // spin e-folding time (~4% per second)
+  static readonly WIND_REFERENCE_HEIGHT = 10; // meters (forecast wind height)
+  static readonly WIND_SHEAR_EXPONENT = 0.15;
+  static readonly WIND_GROUND_HEIGHT = 1; // meters (below this the wind tapers linearly to calm at the ground)
   static readonly TIME_STEP = 0.01; // seconds
   static readonly BALL_RADIUS = 0.02135; // meters (standard golf ball radius)
   static readonly BALL_AREA = Math.PI * this.BALL_RADIUS ** 2; // cross-sectional area
 
+  /**
+   * Air density from altitude and temperature (standard-atmosphere pressure, dry air).
+   * @param altitudeMeters - Height above sea level
+   * @param temperatureC - Air temperature in °C
+   */
+  static airDensity(altitudeMeters: number = 0, temperatureC: number = 15): number {
+    const pressure = 101325 * Math.pow(1 - 2.25577e-5 * altitudeMeters, 5.25588);
+    return pressure / (287.05 * (temperatureC + 273.15));
+  }
+
   /**
    * Calculate trajectory of a golf ball
    * @param speed - Initial speed in m/s
@@ -27,48 +77,85 @@ export class GolfPhysics {
    * @returns Array of position coordinates
    */
   calculateTrajectory(speed: number, angle: number, backspin: number = 0): TrajectoryPoint[] {
-    // Convert angle from degrees to radians
-    const angleRad = (angle * Math.PI) / 180;
+    return this.simulateFlight({ ballSpeed: speed, launchAngleDegrees: angle, backspinRpm: backspin, sidespinRpm: 0 })
+      .points;
+  }
+
+  /**
+   * Integrate a full flight until the ball returns to launch height. Drag opposes the velocity relative to the air;
+   * lift is perpendicular to it along spin × velocity, with a coefficient that grows with the spin factor
+   * (surface speed / air speed) and saturates. Spin decays exponentially.
+   */
+  simulateFlight(
+    launch: LaunchConditions,
+    environment: FlightEnvironment = { airDensity: GolfPhysics.AIR_DENSITY, wind: { x: 0, y: 0 } }
+  ): FlightResult {
+    const angleRad = (launch.launchAngleDegrees * Math.PI) / 180;
+    const k = (0.5 * environment.airDensity * GolfPhysics.BALL_AREA) / GolfPhysics.BALL_MASS;
+    const rpmToRadPerSecond = (2 * Math.PI) / 60;
 
     // Initial velocity components
-    let vx = speed * Math.cos(angleRad); // horizontal velocity (forward)
-    let vy = 0; // lateral velocity (sideways, assumed 0)
-    let vz = speed * Math.sin(angleRad); // vertical velocity (upward)
+    let vx = launch.ballSpeed * Math.cos(angleRad); // horizontal velocity (forward)
+    let vy = 0; // lateral velocity (right)
+    let vz = launch.ballSpeed * Math.sin(angleRad); // vertical velocity (upward)
 
     // Initial position
-    let x = 0; // forward distance
-    let y = 0; // lateral distance
-    let z = 0; // height (starting at ground level)
+    let x = 0;
+    let y = 0;
+    let z = 0;
+    let t = 0;
+    let apex = 0;
 
     // Trajectory positions
     const positions: TrajectoryPoint[] = [{ x, y, z }];
 
     // Simulation loop
     while (z >= 0) {
-      // Calculate current speed magnitude
-      const currentSpeed = Math.sqrt(vx ** 2 + vy ** 2 + vz ** 2);
-
-      // Calculate drag force (F_drag = 0.5 * ρ * C_d * A * v^2)
-      const dragForce = 0.5 * GolfPhysics.AIR_DENSITY * GolfPhysics.DRAG_COEFFICIENT * GolfPhysics.BALL_AREA * currentSpeed ** 2;
-
-      // Drag acceleration (opposite to velocity direction)
-      const dragAcceleration = dragForce / GolfPhysics.BALL_MASS;
-      
-      // Normalize velocity to get direction
-      const speedNormalized = currentSpeed > 0 ? currentSpeed : 1;
-      const dragAccelX = -dragAcceleration * (vx / speedNormalized);
-      const dragAccelY = -dragAcceleration * (vy / speedNormalized);
-      const dragAccelZ = -dragAcceleration * (vz / speedNormalized);
-
-      // Update velocities with drag and gravity
-      vx += dragAccelX * GolfPhysics.TIME_STEP;
-      vy += dragAccelY * GolfPhysics.TIME_STEP;
-      vz += dragAccelZ * GolfPhysics.TIME_STEP - GolfPhysics.GRAVITY * GolfPhysics.TIME_STEP;
-
-      // Update positions
+      const decay = Math.exp(-t / GolfPhysics.SPIN_DECAY_SECONDS);
+      const backspin = launch.backspinRpm * rpmToRadPerSecond * decay;
+      const sidespin = launch.sidespinRpm * rpmToRadPerSecond * decay;
+      const spin = Math.sqrt(backspin ** 2 + sidespin ** 2);
+
+      // Velocity relative to the air (wind shear: power law, tapering to calm at the ground below 1 m)
+      const windHeight = Math.max(GolfPhysics.WIND_GROUND_HEIGHT, z);
+      const shear =
+        Math.pow(windHeight / GolfPhysics.WIND_REFERENCE_HEIGHT, GolfPhysics.WIND_SHEAR_EXPONENT) *
+        Math.min(1, Math.max(0, z) / GolfPhysics.WIND_GROUND_HEIGHT);
+      const rx = vx - environment.wind.x * shear;
+      const ry = vy - environment.wind.y * shear;
+      const rz = vz;
+      const airSpeed = Math.sqrt(rx ** 2 + ry ** 2 + rz ** 2) || 1;
+
+      const spinFactor = (GolfPhysics.BALL_RADIUS * spin) / airSpeed;
+      const cd = GolfPhysics.DRAG_COEFFICIENT + GolfPhysics.SPIN_DRAG_COEFFICIENT * spinFactor;
+      const cl = Math.min(GolfPhysics.MAX_LIFT_COEFFICIENT, 1.99 * spinFactor - 3.25 * spinFactor ** 2);
+
+      // Drag (opposite the relative velocity) and gravity
+      let ax = -k * cd * airSpeed * rx;
+      let ay = -k * cd * airSpeed * ry;
+      let az = -k * cd * airSpeed * rz - GolfPhysics.GRAVITY;
+
+      // Magnus lift along spin × relative velocity: backspin lifts, sidespin pushes right (positive) or left
+      if (spin > 0) {
+        const lx = -backspin * rz - sidespin * ry;
+        const ly = sidespin * rx;
+        const lz = backspin * rx;
+        const norm = Math.sqrt(lx ** 2 + ly ** 2 + lz ** 2) || 1;
+        const lift = k * cl * airSpeed ** 2;
+        ax += (lift * lx) / norm;
+        ay += (lift * ly) / norm;
+        az += (lift * lz) / norm;
+      }
+
+      // Update velocities and positions
+      vx += ax * GolfPhysics.TIME_STEP;
+      vy += ay * GolfPhysics.TIME_STEP;
+      vz += az * GolfPhysics.TIME_STEP;
       x += vx * GolfPhysics.TIME_STEP;
       y += vy * GolfPhysics.TIME_STEP;
       z += vz * GolfPhysics.TIME_STEP;
+      t += GolfPhysics.TIME_STEP;
+      apex = Math.max(apex, z);
 
       // Store position
       positions.push({ x, y, z });
@@ -79,12 +166,16 @@ export class GolfPhysics {
       }
     }
 
-    // Ensure final position is at ground level
-    const lastPosition = positions[positions.length - 1];
-    if (lastPosition.z < 0) {
-      lastPosition.z = 0;
+    // Interpolate the landing back to ground level
+    const last = positions[positions.length - 1];
+    const prev = positions[positions.length - 2] ?? last;
+    if (last.z < 0 && prev.z > last.z) {
+      const f = prev.z / (prev.z - last.z);
+      last.x = prev.x + (last.x - prev.x) * f;
+      last.y = prev.y + (last.y - prev.y) * f;
     }
+    last.z = 0;
 
-    return positions;
+    return { points: positions, carry: last.x, lateral: last.y, apex, flightTime: t };
   }
 }
@@ -23,8 +23,8 @@ export function setCalibration(c: Partial<AICalibration>): void {
 /** Load calibration from /calibration.json (public/). Call from app startup. This is the baseline for all AI play until the next AI round test run (which may recalibrate and overwrite the file). */
 export function initCalibrationFromNetwork(): void {
   fetch('/calibration.json')
-    .then((r) => (r.ok ? r.json() : Promise.reject(new Error('No calibration file'))))
-    .then((c: AICalibration) => {
+    .then((r) => (r.ok ? (r.json() as Promise<AICalibration>) : Promise.reject(new Error('No calibration file'))))
+    .then((c) => {
       if (typeof c?.dispersionScale === 'number' && typeof c?.chipMultScale === 'number') {
         setCalibration({ dispersionScale: c.dispersionScale, chipMultScale: c.chipMultScale });
       }
@@ -0,0 +1,58 @@
+/**
+ * Everything AIGolfer.playHole needs for a hole outside the map view (tournament field, scramble teams):
+ * tee/green (editor override first), par, in-play features and course rating. Mirrors what the play screen
+ * passes so simulated players face the same hole as the head-to-head AI.
+ */
+
+import type { HoleFeaturesForAI, TreeObstacle } from '../data/lincolnParkCourse';
+import { getHoleFeaturesForAI, getTreesForHole } from '../data/lincolnParkCourse';
+import { LINCOLN_PARK_COURSE } from '../data/courses';
+import { buildInPlayFeaturesForHole } from './editorHoleToAI';
+import { getHoleOverride, getTeeGreenOverride } from '../services/courseEditorStore';
+import { getCourseRatingForPlay, getHoleInfoForCourse, getTeeAndGreenForCourse, type TeeGreen } from '../services/courseBounds';
+
+export interface AIHoleSetup {
+  teeGreen: TeeGreen;
+  par: number;
+  trees: TreeObstacle[];
+  holeFeatures: HoleFeaturesForAI | null;
+  /** playHole options shared by every simulated player on this hole (add rng per player). */
+  playOptions: {
+    par: number;
+    courseName: string;
+    holeFeatures?: HoleFeaturesForAI;
+    courseRating?: number;
+    slopeRating?: number;
+    totalPar?: number;
+  };
+}
+
+/** Resolve the hole for simulation, or null when the course has no tee/green for it. */
+export function getAIHoleSetup(courseName: string, holeNumber: number, teeSet?: string): AIHoleSetup | null {
+  const teeGreen = getTeeGreenOverride(courseName, holeNumber) ?? getTeeAndGreenForCourse(courseName, holeNumber, teeSet);
+  if (!teeGreen) return null;
+  const par = getHoleInfoForCourse(courseName, holeNumber, teeSet).par;
+  const isLincoln = courseName === LINCOLN_PARK_COURSE.name;
+  const holeFeatures = getHoleOverride(courseName, holeNumber)
+    ? buildInPlayFeaturesForHole(courseName, holeNumber)
+    : isLincoln
+      ? getHoleFeaturesForAI(holeNumber)
+      : null;
+  const ratingSlope = getCourseRatingForPlay(courseName, teeSet);
+  return {
+    teeGreen,
+    par,
+    trees: isLincoln ? getTreesForHole(holeNumber) : [],
+    holeFeatures,
+    playOptions: {
+      par,
+      courseName,
+      ...(holeFeatures && { holeFeatures }),
+      ...(ratingSlope && {
+        courseRating: ratingSlope.courseRating,
+        slopeRating: ratingSlope.slopeRating,
+        totalPar: ratingSlope.totalPar,
+      }),
+    },
+  };
+}
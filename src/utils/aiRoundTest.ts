@@ -17,6 +17,7 @@ import * as path from 'path';
 import { AIGolfer } from './AIGolfer';
 import type { SkillLevel } from './AIGolfer';
 import { calculateHaversineDistance } from './haversine';
+import { createSeededRng, randomSeed, type Rng } from './rng';
 import {
   getHoleByNumber,
   getTeeAndGreen,
@@ -74,8 +75,8 @@ function getFairwayAndGreen(holeNumber: number) {
   return { fairways, greenRadiusMeters };
 }
 
-function randomUserScore(par: number): number {
-  const offset = Math.floor(Math.random() * 4) - 1;
+function randomUserScore(par: number, rng: Rng): number {
+  const offset = Math.floor(rng.next() * 4) - 1;
   return Math.max(1, par + offset);
 }
 
@@ -119,13 +120,7 @@ export const WEEKLY_REPORT_PROFILES: WeeklyReportProfile[] = [0, 5, 10, 20, 'EW
 function runOneRound(profile: number | 'EW 2K' | 'LPGA Tour', seed: number, calibration?: AICalibration): RoundResult {
   const skillLevel: SkillLevel = profile === 'EW 2K' ? 'EW 2K' : profile === 'LPGA Tour' ? 'LPGA Tour' : profile;
   const ratingSlope = getCourseRatingAndSlope(LINCOLN_PARK_COURSE.name);
-  const mul = 0x41c64e6d;
-  const inc = 0x3039;
-  const oldRandom = Math.random;
-  Math.random = () => {
-    seed = (seed * mul + inc) >>> 0;
-    return seed / 0x1_0000_0000;
-  };
+  const rng = createSeededRng(seed);
 
   const holes: HoleResult[] = [];
   const routes: HoleRoute[] = [];
@@ -153,11 +148,12 @@ function runOneRound(profile: number | 'EW 2K' | 'LPGA Tour', seed: number, cali
         totalPar: ratingSlope.totalPar,
       }),
       ...(calibration && { calibration }),
+      rng,
     };
     const shots = ai.playHole(green, 20, trees, playOptions);
 
     const aiScore = shots.length;
-    const userScore = randomUserScore(par);
+    const userScore = randomUserScore(par, rng);
 
     const routePositions: { lat: number; lng: number; distanceYardsToPin: number }[] = [];
     routePositions.push({
@@ -214,8 +210,6 @@ function runOneRound(profile: number | 'EW 2K' | 'LPGA Tour', seed: number, cali
     });
   }
 
-  Math.random = oldRandom;
-
   const fairwayHoles = holes.filter((h) => h.fairwayHit !== null);
   const fairwaysHit = fairwayHoles.filter((h) => h.fairwayHit === true).length;
   const girCount = holes.filter((h) => h.gir).length;
@@ -462,7 +456,7 @@ export function runWeeklyReportSimulations(
 
 export function runAIRoundTest(seed?: number): { holes: HoleResult[]; report: string; routes: HoleRoute[] } {
   const profile: SkillLevel = 15;
-  const seedVal = seed != null ? seed : Math.floor(Math.random() * 0xffffffff);
+  const seedVal = seed != null ? seed : randomSeed();
   const result = runOneRound(profile, seedVal);
   const report = buildReport(result.holes, '15');
   return { holes: result.holes, report, routes: result.routes };
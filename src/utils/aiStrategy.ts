@@ -0,0 +1,276 @@
+/**
+ * AI course management: lay-up vs go-for-it. When the green is reachable on a par 5, or water sits on the line or
+ * guards the green, both options are simulated with the golfer's dispersion against the hole's hazard geometry
+ * (HoleFeaturesForAI) and scored by expected strokes to hole out (strokes-gained baseline). The strategy profile
+ * decides how much edge and how much hazard risk it takes to go for it. Lay-ups aim to leave a favorite full-wedge
+ * yardage; on a par 5 out of reach, a shot that would leave an awkward half wedge becomes a lay-up too.
+ *
+ * Water is scored as AIGolfer.playHole plays it: the penalty stroke plus the best relief option (stroke-and-distance,
+ * back on the line or lateral) for where the shot crossed into the area. Both options share the same random draws
+ * (common random numbers) from a fixed seed, so the plan does not consume the round's rng.
+ */
+
+import { getLieFromPosition, type HoleFeaturesForAI } from '../data/lincolnParkCourse';
+import { getExpectedStrokes } from '../data/strokesGainedBaseline';
+import { baselineLieFor } from '../engine/SurfaceLies';
+import { chooseBestRelief, findCrossingPoint, penaltyAreaReliefOptions } from '../engine/ReliefEngine';
+import type { ClubDistances } from '../data/clubDistancesByHandicap';
+import { vincentyDirect, vincentyInverse, boxMullerPair } from './geodesic';
+import { createSeededRng } from './rng';
+import type { SkillLevel } from './AIGolfer';
+import type { StrokesGainedLie } from '../types/strokesGained';
+import type { GeoCoordinate } from '../types/courseData';
+import type { AIStrategyProfile, StrategyDecision } from '../types/aiStrategy';
+
+const YARDS_TO_METERS = 0.9144;
+const SAMPLES = 80;
+const SEED = 7;
+/** Inside this the AI just plays at the pin (short game), no strategy needed. */
+const MIN_PLAN_YARDS = 60;
+/** Shortest lay-up worth hitting; a shorter one is a wasted stroke. */
+const MIN_LAY_UP_SHOT_YARDS = 40;
+/** Water this close to the line of the shot (yards beyond its radius) counts as "over water". */
+const WATER_LINE_MARGIN_YARDS = 10;
+/** Water this close to the green's edge (yards) guards it. */
+const WATER_GUARD_YARDS = 20;
+/** Par 5 out of reach: a full shot leaving less than favorite minus this is an awkward half wedge. */
+const AWKWARD_LEAVE_YARDS = 25;
+/**
+ * Bonus (strokes) for leaving the favorite yardage. The baseline always prefers closer, but it knows nothing of
+ * partial swings; this is roughly what 20 yards closer is worth, so only a hazard moves the lay-up off the number.
+ */
+const FAVORITE_LEAVE_BONUS = 0.1;
+
+interface ProfileSettings {
+  /** Go for it when its expected strokes are at most lay-up + this. */
+  edge: number;
+  /** ...and its chance of finding water is at most this. */
+  maxHazardProbability: number;
+  /** Wedge whose full yardage the lay-up tries to leave. */
+  favoriteWedge: 'PW' | 'GW' | 'SW';
+}
+
+const PROFILE_SETTINGS: Record<AIStrategyProfile, ProfileSettings> = {
+  aggressive: { edge: 0.15, maxHazardProbability: 0.45, favoriteWedge: 'SW' },
+  balanced: { edge: 0, maxHazardProbability: 0.3, favoriteWedge: 'GW' },
+  conservative: { edge: -0.1, maxHazardProbability: 0.15, favoriteWedge: 'PW' },
+};
+
+export const AI_STRATEGY_PROFILES: AIStrategyProfile[] = ['aggressive', 'balanced', 'conservative'];
+
+export const AI_STRATEGY_LABELS: Record<AIStrategyProfile, string> = {
+  aggressive: 'Aggressive',
+  balanced: 'Balanced',
+  conservative: 'Conservative',
+};
+
+/** Style a profile plays with unless one is chosen: the long hitters attack, N.J. manages his way around. */
+export function getDefaultStrategyProfile(skillLevel: SkillLevel): AIStrategyProfile {
+  if (skillLevel === 'D.B.' || skillLevel === 'J.D.' || skillLevel === 'M.R.') return 'aggressive';
+  if (skillLevel === 'N.J.') return 'conservative';
+  return 'balanced';
+}
+
+export interface StrategyShotInput {
+  ball: GeoCoordinate;
+  pin: GeoCoordinate;
+  features: HoleFeaturesForAI;
+  par: number;
+  /** Lie of the ball ('tee' on the first shot). */
+  lie: Exclude<StrokesGainedLie, 'green' | 'bunker'>;
+  /** Longest shot the golfer can hit from this lie (yards). */
+  maxShotYards: number;
+  /** Full-swing yardages, for the favorite wedge. */
+  yardages: ClubDistances;
+  /** Distance spread as a fraction of the shot (one standard deviation). */
+  distanceStdDevFraction: number;
+  /** Start-line spread (degrees, one standard deviation). */
+  angleStdDevDegrees: number;
+  profile: AIStrategyProfile;
+}
+
+export interface StrategyPlan {
+  target: GeoCoordinate;
+  targetDistanceMeters: number;
+  decision: StrategyDecision;
+}
+
+interface OptionScore {
+  expectedStrokes: number;
+  waterProbability: number;
+  bunkerProbability: number;
+}
+
+/** True when a water circle lies across the shot line (ball to `reachMeters` toward the pin) or guards the green. */
+function isWaterInPlay(ball: GeoCoordinate, pin: GeoCoordinate, features: HoleFeaturesForAI, reachMeters: number): boolean {
+  const { initialBearing: lineBearing } = vincentyInverse(ball, pin);
+  const margin = WATER_LINE_MARGIN_YARDS * YARDS_TO_METERS;
+  const guard = WATER_GUARD_YARDS * YARDS_TO_METERS;
+  return features.water.some((w) => {
+    const { distance, initialBearing } = vincentyInverse(ball, w.center);
+    const angle = ((initialBearing - lineBearing) * Math.PI) / 180;
+    const along = distance * Math.cos(angle);
+    const across = Math.abs(distance * Math.sin(angle));
+    if (along > 0 && along < reachMeters + w.radiusMeters && across < w.radiusMeters + margin) return true;
+    const toGreen = vincentyInverse(w.center, features.green.center).distance;
+    return toGreen - w.radiusMeters - features.green.radiusMeters < guard;
+  });
+}
+
+/**
+ * Penalty plus expected strokes to hole out after a shot from `ball` finished in the water at `landing`, taking the
+ * relief option AIGolfer.takeRelief would take.
+ */
+function waterReliefStrokes(input: StrategyShotInput, landing: GeoCoordinate): number {
+  const { ball, pin, features } = input;
+  const area = features.water.find((w) => vincentyInverse(landing, w.center).distance <= w.radiusMeters);
+  const inArea = (p: GeoCoordinate) => area != null && vincentyInverse(p, area.center).distance <= area.radiusMeters;
+  const options = penaltyAreaReliefOptions({
+    previousSpot: ball,
+    pin,
+    isPlayable: (p) => getLieFromPosition(p, features) !== 'water',
+    entryPoint: findCrossingPoint([ball, landing], inArea) ?? landing,
+    stake: area?.stake ?? 'red',
+  });
+  const best = chooseBestRelief(options, (option) => {
+    const lie: StrokesGainedLie =
+      option.kind === 'stroke-and-distance'
+        ? input.lie
+        : baselineLieFor(getLieFromPosition(option.dropPosition, features));
+    return getExpectedStrokes(lie, vincentyInverse(option.dropPosition, pin).distance / YARDS_TO_METERS);
+  });
+  return best?.expectedScore ?? 1 + getExpectedStrokes(input.lie, vincentyInverse(ball, pin).distance / YARDS_TO_METERS);
+}
+
+/** Simulate a shot at `aim` from `ball`; expected strokes to hole out including this one. */
+function scoreOption(
+  input: StrategyShotInput,
+  aim: GeoCoordinate,
+  intendedMeters: number,
+  draws: [number, number][]
+): OptionScore {
+  const { ball, pin, features } = input;
+  const aimBearing = vincentyInverse(ball, aim).initialBearing;
+  const sigma = intendedMeters * input.distanceStdDevFraction;
+  let total = 0;
+  let water = 0;
+  let bunker = 0;
+  draws.forEach(([zDistance, zAngle]) => {
+    const distance = Math.max(0, intendedMeters + zDistance * sigma);
+    const bearing = (aimBearing + zAngle * input.angleStdDevDegrees + 360) % 360;
+    const landing = vincentyDirect(ball, bearing, distance);
+    const lie = getLieFromPosition(landing, features);
+    const yards = vincentyInverse(landing, pin).distance / YARDS_TO_METERS;
+    if (lie === 'water') {
+      water++;
+      total += 1 + waterReliefStrokes(input, landing);
+      return;
+    }
+    if (lie === 'bunker') bunker++;
+    total += 1 + getExpectedStrokes(baselineLieFor(lie), yards);
+  });
+  return {
+    expectedStrokes: total / draws.length,
+    waterProbability: water / draws.length,
+    bunkerProbability: bunker / draws.length,
+  };
+}
+
+/** Lay-up leaves to try: every full wedge, and the favorite ±10/±20. */
+function layUpLeaves(input: StrategyShotInput, favoriteYards: number): number[] {
+  const { yardages } = input;
+  const leaves = [favoriteYards, favoriteYards - 20, favoriteYards - 10, favoriteYards + 10, favoriteYards + 20];
+  [yardages.PW, yardages.GW, yardages.SW].forEach((y) => {
+    if (!leaves.includes(y)) leaves.push(y);
+  });
+  return leaves.filter((y) => y >= MIN_PLAN_YARDS * 0.75);
+}
+
+function percent(p: number): string {
+  return `${Math.round(p * 100)}%`;
+}
+
+/**
+ * Plan the shot when course management matters; null when the AI should just play its normal shot (close in,
+ * nothing in play, or a full shot already leaves a fine yardage).
+ */
+export function planStrategicShot(input: StrategyShotInput): StrategyPlan | null {
+  const { ball, pin, features, par, profile } = input;
+  const { distance: pinMeters, initialBearing: pinBearing } = vincentyInverse(ball, pin);
+  const pinYards = pinMeters / YARDS_TO_METERS;
+  if (pinYards < MIN_PLAN_YARDS) return null;
+
+  const settings = PROFILE_SETTINGS[profile];
+  const favoriteYards = input.yardages[settings.favoriteWedge];
+  const reachable = pinYards <= input.maxShotYards;
+  const reachMeters = Math.min(pinYards, input.maxShotYards) * YARDS_TO_METERS;
+  const waterInPlay = isWaterInPlay(ball, pin, features, reachMeters);
+  const awkwardLeave = !reachable && par >= 5 && pinYards - input.maxShotYards < favoriteYards - AWKWARD_LEAVE_YARDS;
+  if (!(reachable && (par >= 5 || waterInPlay)) && !awkwardLeave) return null;
+
+  const rng = createSeededRng(SEED);
+  const draws = Array.from({ length: SAMPLES }, () => boxMullerPair(rng));
+
+  let layUp: { leave: number; score: OptionScore; aim: GeoCoordinate; meters: number } | null = null;
+  let bestRank = Infinity;
+  for (const leave of layUpLeaves(input, favoriteYards)) {
+    const shotYards = pinYards - leave;
+    if (shotYards < MIN_LAY_UP_SHOT_YARDS || shotYards > input.maxShotYards) continue;
+    const meters = shotYards * YARDS_TO_METERS;
+    const aim = vincentyDirect(ball, pinBearing, meters);
+    if (getLieFromPosition(aim, features) === 'water') continue;
+    const score = scoreOption(input, aim, meters, draws);
+    const rank = score.expectedStrokes - (leave === favoriteYards ? FAVORITE_LEAVE_BONUS : 0);
+    if (rank < bestRank) {
+      bestRank = rank;
+      layUp = { leave, score, aim, meters };
+    }
+  }
+
+  if (!reachable) {
+    if (!layUp) return null;
+    return {
+      target: layUp.aim,
+      targetDistanceMeters: layUp.meters,
+      decision: {
+        profile,
+        choice: 'lay-up',
+        hazard: 'none',
+        hazardProbability: 0,
+        goForItExpectedStrokes: null,
+        layUpExpectedStrokes: layUp.score.expectedStrokes,
+        leaveYards: Math.round(layUp.leave),
+        summary: `Laid up to ${Math.round(layUp.leave)} yds – green out of reach, full wedge in`,
+      },
+    };
+  }
+
+  // Nothing to weigh: no lay-up spot short of the green and nothing wet in play
+  if (!layUp && !waterInPlay) return null;
+  const goForIt = scoreOption(input, pin, pinMeters, draws);
+  const hazard: StrategyDecision['hazard'] =
+    goForIt.waterProbability > 0 ? 'water' : goForIt.bunkerProbability > 0 ? 'bunker' : 'none';
+  const hazardProbability =
+    hazard === 'water' ? goForIt.waterProbability : hazard === 'bunker' ? goForIt.bunkerProbability : 0;
+  // Bunkers cost a shot at most; only water caps the risk a profile accepts
+  const goes =
+    !layUp ||
+    (goForIt.expectedStrokes <= layUp.score.expectedStrokes + settings.edge &&
+      goForIt.waterProbability <= settings.maxHazardProbability);
+  const hazardNote = hazard === 'none' ? 'nothing in play' : `${hazard} in play (${percent(hazardProbability)} risk)`;
+  const decision: StrategyDecision = {
+    profile,
+    choice: goes ? 'go-for-it' : 'lay-up',
+    hazard,
+    hazardProbability,
+    goForItExpectedStrokes: goForIt.expectedStrokes,
+    layUpExpectedStrokes: layUp ? layUp.score.expectedStrokes : null,
+    ...(!goes && layUp && { leaveYards: Math.round(layUp.leave) }),
+    summary:
+      goes || !layUp
+        ? `Went for the green – ${hazardNote}`
+        : `Laid up to ${Math.round(layUp.leave)} yds – ${hazardNote}`,
+  };
+  if (goes || !layUp) return { target: pin, targetDistanceMeters: pinMeters, decision };
+  return { target: layUp.aim, targetDistanceMeters: layUp.meters, decision };
+}
@@ -0,0 +1,358 @@
+/**
+ * Convert Course Pro edits to and from a GeoJSON FeatureCollection (format in docs/COURSE_GEOJSON.md).
+ * Export is deterministic (holes ascending, features in a fixed order) so files diff cleanly under version control.
+ * Import validates every feature and reports all problems at once instead of stopping at the first.
+ */
+
+import type {
+  HazardShape,
+  HazardStake,
+  HazardType,
+  HoleOverride,
+  LatLng,
+  OBSide,
+} from '../services/courseEditorStore';
+import type {
+  CourseFeature,
+  CourseFeatureCollection,
+  CourseFeatureKind,
+  CourseFeatureProperties,
+  CourseGeoJSONIssue,
+  CourseGeoJSONParseResult,
+  GeoJSONPoint,
+  GeoJSONPolygon,
+  GeoJSONPosition,
+} from '../types/courseGeoJson';
+import type { SurfaceType } from '../types/courseSurface';
+import { SURFACE_TYPES } from '../engine/SurfaceLies';
+
+export const COURSE_GEOJSON_FORMAT = 'golfgps-course';
+export const COURSE_GEOJSON_VERSION = 1;
+
+const POINT_KINDS: CourseFeatureKind[] = ['tee', 'green', 'pin', 'tree'];
+const POLYGON_KINDS: CourseFeatureKind[] = ['greenBoundary', 'fairway', 'treePatch', 'surface', 'holeBoundary', 'courseBoundary'];
+const HAZARD_TYPES: HazardType[] = ['water', 'out_of_bounds', 'bunker'];
+const HAZARD_STAKES: HazardStake[] = ['red', 'yellow'];
+const OB_SIDES: OBSide[] = ['left', 'right'];
+
+/** Tee/green placeholder the editor stores for holes with features but no tee/green yet. */
+function isPlaceholder(p: LatLng): boolean {
+  return p.lat === 0 && p.lng === 0;
+}
+
+function toPosition(p: LatLng): GeoJSONPosition {
+  return [p.lng, p.lat];
+}
+
+function point(p: LatLng): GeoJSONPoint {
+  return { type: 'Point', coordinates: toPosition(p) };
+}
+
+/** Close the ring as GeoJSON requires (first position repeated last). */
+function polygon(ring: LatLng[]): GeoJSONPolygon {
+  const coords = ring.map(toPosition);
+  return { type: 'Polygon', coordinates: [[...coords, coords[0]]] };
+}
+
+function feature(geometry: GeoJSONPoint | GeoJSONPolygon, properties: CourseFeatureProperties): CourseFeature {
+  return { type: 'Feature', geometry, properties };
+}
+
+function hazardFeature(hole: number, h: HazardShape): CourseFeature {
+  const properties: CourseFeatureProperties = {
+    kind: 'hazard',
+    hole,
+    id: h.id,
+    hazardType: h.type,
+    ...(h.stake && { stake: h.stake }),
+    ...(h.obSide && { obSide: h.obSide }),
+  };
+  return h.shape === 'circle'
+    ? feature(point(h.center), { ...properties, radiusMeters: h.radiusMeters })
+    : feature(polygon(h.vertices), properties);
+}
+
+function holeFeatures(hole: number, o: HoleOverride): CourseFeature[] {
+  const features: CourseFeature[] = [];
+  if (!isPlaceholder(o.tee)) features.push(feature(point(o.tee), { kind: 'tee', hole }));
+  if (!isPlaceholder(o.green)) {
+    const slope = o.greenSlope;
+    features.push(
+      feature(point(o.green), {
+        kind: 'green',
+        hole,
+        ...(slope && { slopePercent: slope.slopePercent, fallLineDegrees: slope.fallLineDegrees }),
+        ...(slope?.stimp != null && { stimp: slope.stimp }),
+      })
+    );
+  }
+  o.pins?.forEach((p) => features.push(feature(point(p.position), { kind: 'pin', hole, id: p.id })));
+  if (o.greenBoundary && o.greenBoundary.length >= 3) {
+    features.push(feature(polygon(o.greenBoundary), { kind: 'greenBoundary', hole }));
+  }
+  const fairways = o.fairways ?? (o.fairway ? [o.fairway] : []);
+  fairways.filter((f) => f.length >= 3).forEach((f) => features.push(feature(polygon(f), { kind: 'fairway', hole })));
+  o.hazards?.forEach((h) => features.push(hazardFeature(hole, h)));
+  o.trees?.forEach((t) =>
+    features.push(
+      feature(point(t.center), {
+        kind: 'tree',
+        hole,
+        id: t.id,
+        radiusMeters: t.radiusMeters,
+        ...(t.heightMeters != null && { heightMeters: t.heightMeters }),
+      })
+    )
+  );
+  o.treePatches
+    ?.filter((p) => p.vertices.length >= 3)
+    .forEach((p) => features.push(feature(polygon(p.vertices), { kind: 'treePatch', hole, id: p.id })));
+  o.surfaces
+    ?.filter((p) => p.vertices.length >= 3)
+    .forEach((p) => features.push(feature(polygon(p.vertices), { kind: 'surface', hole, id: p.id, surfaceType: p.type })));
+  if (o.boundary && o.boundary.length >= 3) {
+    features.push(feature(polygon(o.boundary), { kind: 'holeBoundary', hole }));
+  }
+  return features;
+}
+
+/** Build the FeatureCollection for a course's hole overrides and course boundary. */
+export function courseToGeoJSON(
+  courseName: string,
+  overrides: Record<number, HoleOverride>,
+  courseBoundary: LatLng[][] | undefined
+): CourseFeatureCollection {
+  const holes = Object.keys(overrides)
+    .map(Number)
+    .filter((n) => Number.isInteger(n) && n > 0)
+    .sort((a, b) => a - b);
+  const features = holes.flatMap((hole) => holeFeatures(hole, overrides[hole]));
+  (courseBoundary ?? [])
+    .filter((ring) => ring.length >= 3)
+    .forEach((ring) => features.push(feature(polygon(ring), { kind: 'courseBoundary' })));
+  return {
+    type: 'FeatureCollection',
+    golfGPS: {
+      format: COURSE_GEOJSON_FORMAT,
+      version: COURSE_GEOJSON_VERSION,
+      courseName,
+    },
+    features,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** [lng, lat] with both finite and in range; extra positions (altitude) are ignored. */
+function readPosition(value: unknown): LatLng | null {
+  if (!Array.isArray(value) || value.length < 2) return null;
+  const [lng, lat] = value;
+  if (typeof lng !== 'number' || typeof lat !== 'number' || !Number.isFinite(lng) || !Number.isFinite(lat)) return null;
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return null;
+  return { lat, lng };
+}
+
+/** Outer ring without the closing position; inner rings are dropped with a warning. */
+function readRing(coordinates: unknown, warn: (message: string) => void): LatLng[] | string {
+  if (!Array.isArray(coordinates) || coordinates.length === 0 || !Array.isArray(coordinates[0])) {
+    return 'Polygon coordinates must be an array of rings';
+  }
+  if (coordinates.length > 1) warn('Polygon holes (inner rings) are not supported and were ignored');
+  const ring: LatLng[] = [];
+  for (const position of coordinates[0] as unknown[]) {
+    const p = readPosition(position);
+    if (!p) return 'Polygon has an invalid [longitude, latitude] position';
+    ring.push(p);
+  }
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (ring.length > 1 && first.lat === last.lat && first.lng === last.lng) ring.pop();
+  if (ring.length < 3) return 'Polygon needs at least 3 distinct positions';
+  return ring;
+}
+
+function blankHole(): HoleOverride {
+  return { tee: { lat: 0, lng: 0 }, green: { lat: 0, lng: 0 } };
+}
+
+/**
+ * Validate a parsed GeoJSON document and turn it into hole overrides. Any error fails the whole import so a
+ * partly read course never overwrites the saved one; warnings (ignored extras, holes missing a tee) do not.
+ */
+export function parseCourseGeoJSON(input: unknown): CourseGeoJSONParseResult {
+  const errors: CourseGeoJSONIssue[] = [];
+  const warnings: CourseGeoJSONIssue[] = [];
+  if (!isRecord(input) || input.type !== 'FeatureCollection') {
+    return { ok: false, errors: [{ message: 'Expected a GeoJSON FeatureCollection' }], warnings };
+  }
+  if (!Array.isArray(input.features)) {
+    return { ok: false, errors: [{ message: 'FeatureCollection has no features array' }], warnings };
+  }
+  const meta = isRecord(input.golfGPS) ? input.golfGPS : null;
+  if (!meta || meta.format !== COURSE_GEOJSON_FORMAT) {
+    warnings.push({ message: 'File has no golfGPS course metadata; reading features by their properties' });
+  } else if (typeof meta.version === 'number' && meta.version > COURSE_GEOJSON_VERSION) {
+    warnings.push({ message: `File version ${meta.version} is newer than supported version ${COURSE_GEOJSON_VERSION}` });
+  }
+  const courseName = meta && typeof meta.courseName === 'string' ? meta.courseName : null;
+
+  const overrides: Record<number, HoleOverride> = {};
+  const courseBoundary: LatLng[][] = [];
+  const seen = new Map<string, number>();
+  const nextId = (prefix: string, hole: number) => {
+    const key = `${prefix}_${hole}`;
+    const n = (seen.get(key) ?? 0) + 1;
+    seen.set(key, n);
+    return `${prefix}_import_${hole}_${n}`;
+  };
+
+  input.features.forEach((raw, featureIndex) => {
+    const fail = (message: string): void => {
+      errors.push({ featureIndex, message });
+    };
+    const warn = (message: string): void => {
+      warnings.push({ featureIndex, message });
+    };
+    if (!isRecord(raw) || raw.type !== 'Feature' || !isRecord(raw.geometry) || !isRecord(raw.properties)) {
+      fail('Not a GeoJSON Feature with geometry and properties');
+      return;
+    }
+    const { geometry, properties } = raw;
+    const kind = properties.kind as CourseFeatureKind;
+    if (![...POINT_KINDS, ...POLYGON_KINDS, 'hazard'].includes(kind)) {
+      fail(`Unknown kind "${String(properties.kind)}"`);
+      return;
+    }
+
+    const isPoint = geometry.type === 'Point';
+    const isPolygon = geometry.type === 'Polygon';
+    if (POINT_KINDS.includes(kind) && !isPoint) return fail(`${kind} must be a Point`);
+    if (POLYGON_KINDS.includes(kind) && !isPolygon) return fail(`${kind} must be a Polygon`);
+    if (kind === 'hazard' && !isPoint && !isPolygon) return fail('hazard must be a Point (circle) or Polygon');
+
+    let position: LatLng | null = null;
+    let ring: LatLng[] = [];
+    if (isPoint) {
+      position = readPosition(geometry.coordinates);
+      if (!position) return fail('Point has an invalid [longitude, latitude] position');
+    } else {
+      const read = readRing(geometry.coordinates, warn);
+      if (typeof read === 'string') return fail(read);
+      ring = read;
+    }
+
+    if (kind === 'courseBoundary') {
+      courseBoundary.push(ring);
+      return;
+    }
+
+    const hole = properties.hole;
+    if (typeof hole !== 'number' || !Number.isInteger(hole) || hole < 1) {
+      return fail(`${kind} needs a positive integer "hole" property`);
+    }
+    const o = (overrides[hole] ??= blankHole());
+    const id = typeof properties.id === 'string' && properties.id ? properties.id : null;
+    const radius = properties.radiusMeters;
+    const validRadius = typeof radius === 'number' && Number.isFinite(radius) && radius > 0;
+
+    switch (kind) {
+      case 'tee':
+      case 'green': {
+        if (!isPlaceholder(o[kind])) return fail(`Hole ${hole} has more than one ${kind}`);
+        o[kind] = position!;
+        if (kind === 'green' && properties.slopePercent != null) {
+          const { slopePercent, fallLineDegrees, stimp } = properties;
+          if (typeof slopePercent !== 'number' || !(slopePercent >= 0)) {
+            return fail('green slopePercent must be 0 or more');
+          }
+          if (typeof fallLineDegrees !== 'number' || !Number.isFinite(fallLineDegrees)) {
+            return fail('green with slopePercent needs a fallLineDegrees');
+          }
+          if (stimp != null && (typeof stimp !== 'number' || !(stimp > 0))) return fail('green stimp must be positive');
+          o.greenSlope = {
+            slopePercent,
+            fallLineDegrees: ((fallLineDegrees % 360) + 360) % 360,
+            ...(stimp != null && { stimp }),
+          };
+        }
+        return;
+      }
+      case 'pin':
+        o.pins = [...(o.pins ?? []), { id: id ?? nextId('pin', hole), position: position! }];
+        return;
+      case 'greenBoundary':
+      case 'holeBoundary': {
+        const field = kind === 'greenBoundary' ? 'greenBoundary' : 'boundary';
+        if (o[field]) return fail(`Hole ${hole} has more than one ${kind}`);
+        o[field] = ring;
+        return;
+      }
+      case 'fairway':
+        o.fairways = [...(o.fairways ?? []), ring];
+        return;
+      case 'treePatch':
+        o.treePatches = [...(o.treePatches ?? []), { id: id ?? nextId('patch', hole), vertices: ring }];
+        return;
+      case 'surface': {
+        const type = properties.surfaceType as SurfaceType;
+        if (!SURFACE_TYPES.includes(type)) return fail(`surfaceType must be one of ${SURFACE_TYPES.join(', ')}`);
+        o.surfaces = [...(o.surfaces ?? []), { id: id ?? nextId('surface', hole), type, vertices: ring }];
+        return;
+      }
+      case 'tree': {
+        if (!validRadius) return fail('tree needs a positive radiusMeters');
+        const height = properties.heightMeters;
+        if (height != null && (typeof height !== 'number' || !(height > 0))) return fail('tree heightMeters must be positive');
+        o.trees = [
+          ...(o.trees ?? []),
+          {
+            id: id ?? nextId('tree', hole),
+            center: position!,
+            radiusMeters: radius as number,
+            ...(height != null && { heightMeters: height as number }),
+          },
+        ];
+        return;
+      }
+      case 'hazard': {
+        const type = properties.hazardType as HazardType;
+        if (!HAZARD_TYPES.includes(type)) return fail(`hazardType must be one of ${HAZARD_TYPES.join(', ')}`);
+        const stake = properties.stake as HazardStake | undefined;
+        if (stake != null && !HAZARD_STAKES.includes(stake)) return fail(`stake must be one of ${HAZARD_STAKES.join(', ')}`);
+        const obSide = properties.obSide as OBSide | undefined;
+        if (obSide != null && !OB_SIDES.includes(obSide)) return fail(`obSide must be one of ${OB_SIDES.join(', ')}`);
+        if (obSide != null && type !== 'out_of_bounds') warn('obSide only applies to out_of_bounds hazards');
+        const common = { id: id ?? nextId('hazard', hole), type, ...(stake && { stake }), ...(obSide && { obSide }) };
+        let hazard: HazardShape;
+        if (isPoint) {
+          if (!validRadius) return fail('Circle hazard (Point) needs a positive radiusMeters');
+          hazard = { ...common, shape: 'circle', center: position!, radiusMeters: radius as number };
+        } else {
+          hazard = { ...common, shape: 'polygon', vertices: ring };
+        }
+        o.hazards = [...(o.hazards ?? []), hazard];
+        return;
+      }
+    }
+  });
+
+  Object.entries(overrides).forEach(([hole, o]) => {
+    if (isPlaceholder(o.tee) || isPlaceholder(o.green)) {
+      warnings.push({ message: `Hole ${hole} has no ${isPlaceholder(o.tee) ? 'tee' : 'green'}; the course default is used` });
+    }
+  });
+
+  if (errors.length > 0) return { ok: false, errors, warnings };
+  return {
+    ok: true,
+    layout: { courseName, overrides, ...(courseBoundary.length > 0 && { courseBoundary }) },
+    warnings,
+  };
+}
+
+/** "Feature 3: …" for display; file-level issues have no prefix. */
+export function formatCourseGeoJSONIssue(issue: CourseGeoJSONIssue): string {
+  return issue.featureIndex != null ? `Feature ${issue.featureIndex + 1}: ${issue.message}` : issue.message;
+}
@@ -5,7 +5,7 @@
  */
 
 import { getCourseBoundary, getHoleOverride } from '../services/courseEditorStore';
-import type { LatLng } from '../services/courseEditorStore';
+import type { HazardStake, LatLng } from '../services/courseEditorStore';
 
 function pointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
   const x = point.lng;
@@ -42,6 +42,28 @@ export function isInBounds(position: LatLng, courseName: string): boolean {
   return boundary.some((poly) => poly.length >= 3 && pointInPolygon(position, poly));
 }
 
+/** Water penalty area drawn on a hole: its stake colour (red when unmarked) and whether a point is inside it. */
+export interface MappedPenaltyArea {
+  stake: HazardStake;
+  contains: (position: LatLng) => boolean;
+}
+
+/** Water penalty areas of the hole's editor mapping, with their exact circle or polygon shape. */
+export function getMappedPenaltyAreas(courseName: string, holeNumber: number): MappedPenaltyArea[] {
+  const override = getHoleOverride(courseName, holeNumber);
+  const areas: MappedPenaltyArea[] = [];
+  for (const h of override?.hazards ?? []) {
+    if (h.type !== 'water') continue;
+    const stake = h.stake ?? 'red';
+    if (h.shape === 'circle') {
+      areas.push({ stake, contains: (p) => isInCircle(p, h.center, h.radiusMeters) });
+    } else if (h.vertices.length >= 3) {
+      areas.push({ stake, contains: (p) => pointInPolygon(p, h.vertices) });
+    }
+  }
+  return areas;
+}
+
 /**
  * Lie from mapped course: OB if outside course boundary; else green > water > bunker > fairway > rough.
  * Uses editor overrides for the hole when present.
@@ -0,0 +1,133 @@
+/**
+ * Course rating and slope for a mapped course by simulation. A scratch golfer (index 0) and a bogey golfer (index 20,
+ * the USGA men's bogey golfer) each play many rounds over the mapped holes with their in-play features
+ * (buildInPlayFeaturesForHole), from each tee set's tees. Per the USGA definitions:
+ *
+ * - Course Rating: the scratch golfer's expected score. Like a handicap index it reflects good rounds, so it is the
+ *   mean of the better half of the simulated rounds.
+ * - Bogey Rating: the same for the bogey golfer.
+ * - Slope Rating: 5.381 × (Bogey Rating − Course Rating), within 55–155 (113 = standard). A 9-hole rating's gap is
+ *   about half an 18-hole one, so 9-hole courses use twice the multiplier.
+ *
+ * Golfers play without a rating (it is what is being measured), so the estimate does not feed back on itself.
+ * Results are stored as TeeSetInfo (estimated: true) with the course edits, where getTeeSetInfo and
+ * getCourseRatingForPlay use them for tee sets without a published or scorecard rating.
+ */
+
+import { AIGolfer } from './AIGolfer';
+import { getAIHoleSetup, type AIHoleSetup } from './aiHoleSetup';
+import { calculateHaversineDistance } from './haversine';
+import { createSeededRng, type Rng } from './rng';
+import { getHoleOverride, saveEstimatedTeeSet } from '../services/courseEditorStore';
+import { DEFAULT_TEE_SET_NAME, getCourseHoleCount, getTeeSetNames } from '../services/courseBounds';
+import { COURSES, type TeeSetInfo } from '../data/courses';
+
+export const SCRATCH_HANDICAP = 0;
+export const BOGEY_HANDICAP = 20;
+/** Men's slope multiplier: a standard course (slope 113) has a bogey rating about 21 above its course rating. */
+const SLOPE_MULTIPLIER = 5.381;
+/** Same for 9-hole ratings, whose bogey − scratch gap is half as large. */
+const NINE_HOLE_SLOPE_MULTIPLIER = SLOPE_MULTIPLIER * 2;
+const FULL_ROUND_HOLES = 18;
+const MIN_SLOPE = 55;
+const MAX_SLOPE = 155;
+const DEFAULT_ROUNDS = 40;
+const MAX_SHOTS_PER_HOLE = 20;
+
+export interface CourseRatingOptions {
+  /** Rounds simulated per golfer per tee set. Default 40. */
+  rounds?: number;
+  /** Seed for the shared random source, so an estimate can be repeated exactly. Default 1. */
+  seed?: number;
+}
+
+interface RatedHole {
+  setup: AIHoleSetup;
+  tee: { lat: number; lng: number };
+}
+
+/** Holes as played from a tee set, or null when any hole has no mapping (the rating would not cover the course). */
+function getRatedHoles(courseName: string, teeSetName: string | undefined): RatedHole[] | null {
+  const holeCount = getCourseHoleCount(courseName);
+  if (holeCount === 0) return null;
+  const course = COURSES.find((c) => c.name === courseName);
+  const holes: RatedHole[] = [];
+  for (let n = 1; n <= holeCount; n++) {
+    const setup = getHoleOverride(courseName, n) ? getAIHoleSetup(courseName, n, teeSetName) : null;
+    if (!setup?.holeFeatures) return null;
+    // Named tee sets play from their own tee markers; the mapped tee otherwise
+    const marker = teeSetName
+      ? course?.holes.find((h) => h.holeNumber === n)?.tees?.find((t) => t.name === teeSetName)
+      : undefined;
+    holes.push({ setup, tee: marker?.position ?? setup.teeGreen.tee });
+  }
+  return holes;
+}
+
+function playRound(holes: RatedHole[], courseName: string, handicap: number, rng: Rng): number {
+  let score = 0;
+  for (const { setup, tee } of holes) {
+    const golfer = new AIGolfer(handicap, { ...tee });
+    const shots = golfer.playHole(setup.teeGreen.green, MAX_SHOTS_PER_HOLE, setup.trees, {
+      par: setup.par,
+      courseName,
+      holeFeatures: setup.holeFeatures ?? undefined,
+      rng,
+    });
+    score += shots.length;
+  }
+  return score;
+}
+
+/** Mean of the better (lower) half of the scores. */
+function betterHalfMean(scores: number[]): number {
+  const sorted = [...scores].sort((a, b) => a - b);
+  const half = sorted.slice(0, Math.ceil(sorted.length / 2));
+  return half.reduce((sum, s) => sum + s, 0) / half.length;
+}
+
+/** Estimated rating for one tee set (undefined = the mapped tees), or null when not every hole is mapped. */
+export function estimateTeeSetRating(
+  courseName: string,
+  teeSetName?: string,
+  options?: CourseRatingOptions
+): TeeSetInfo | null {
+  const holes = getRatedHoles(courseName, teeSetName);
+  if (!holes) return null;
+  const rounds = Math.max(1, options?.rounds ?? DEFAULT_ROUNDS);
+  const rng = createSeededRng(options?.seed ?? 1);
+  const scratch: number[] = [];
+  const bogey: number[] = [];
+  for (let r = 0; r < rounds; r++) {
+    scratch.push(playRound(holes, courseName, SCRATCH_HANDICAP, rng));
+    bogey.push(playRound(holes, courseName, BOGEY_HANDICAP, rng));
+  }
+  const courseRating = Math.round(betterHalfMean(scratch) * 10) / 10;
+  const bogeyRating = Math.round(betterHalfMean(bogey) * 10) / 10;
+  const multiplier = holes.length < FULL_ROUND_HOLES ? NINE_HOLE_SLOPE_MULTIPLIER : SLOPE_MULTIPLIER;
+  const slopeRating = Math.round(Math.min(MAX_SLOPE, Math.max(MIN_SLOPE, multiplier * (bogeyRating - courseRating))));
+  const totalYardage = Math.round(
+    holes.reduce((sum, h) => sum + calculateHaversineDistance(h.tee, h.setup.teeGreen.green) * 1.09361, 0)
+  );
+  return {
+    name: teeSetName ?? DEFAULT_TEE_SET_NAME,
+    totalYardage,
+    courseRating,
+    slopeRating,
+    estimated: true,
+    bogeyRating,
+  };
+}
+
+/**
+ * Estimate every tee set of a course (or the mapped tees when it has none) and store the results with the course
+ * edits. Returns the stored tee sets; empty when the course is not fully mapped.
+ */
+export function estimateAndSaveCourseRatings(courseName: string, options?: CourseRatingOptions): TeeSetInfo[] {
+  const names = getTeeSetNames(courseName);
+  const teeSets = (names.length > 0 ? names : [undefined])
+    .map((name) => estimateTeeSetRating(courseName, name, options))
+    .filter((t): t is TeeSetInfo => t != null);
+  teeSets.forEach((t) => saveEstimatedTeeSet(courseName, t));
+  return teeSets;
+}
@@ -0,0 +1,52 @@
+/**
+ * Ground height and slope from the course's imported DEM (see getElevationGrid).
+ * Callers fall back to the round's single slope setting (GameSettings.slope) when these return null: no DEM for the
+ * course, or a point outside it.
+ */
+
+import { getElevationGrid } from '../services/courseEditorStore';
+import type { LatLng } from '../services/courseEditorStore';
+import { elevationAt } from './elevationGrid';
+import { calculateHaversineDistance } from './haversine';
+import { vincentyDirect } from './geodesic';
+
+/** Half the span the ground slope under a ball is measured over (m), either side of it. */
+const GROUND_SLOPE_HALF_SPAN_METERS = 5;
+
+/** Ground height (m) at a position, or null without DEM coverage. */
+export function getElevationMeters(courseName: string, position: LatLng): number | null {
+  const grid = getElevationGrid(courseName);
+  return grid ? elevationAt(grid, position) : null;
+}
+
+/** Height of `to` above `from` (m, negative = downhill), or null when either point has no DEM coverage. */
+export function getElevationChangeMeters(courseName: string, from: LatLng, to: LatLng): number | null {
+  const grid = getElevationGrid(courseName);
+  if (!grid) return null;
+  const a = elevationAt(grid, from);
+  const b = elevationAt(grid, to);
+  return a == null || b == null ? null : b - a;
+}
+
+/**
+ * Slope of the line from ball to target in degrees (positive = uphill), the unit of GameSettings.slope, so the
+ * yardage and roll adjustments use the real height difference.
+ */
+export function getShotSlopeDegrees(courseName: string, from: LatLng, to: LatLng): number | null {
+  const rise = getElevationChangeMeters(courseName, from, to);
+  if (rise == null) return null;
+  const run = calculateHaversineDistance(from, to);
+  return run > 0 ? (Math.atan2(rise, run) * 180) / Math.PI : 0;
+}
+
+/** Slope of the ground at a position along a bearing (degrees, positive = rising that way), e.g. for roll-out. */
+export function getGroundSlopeDegrees(courseName: string, position: LatLng, bearingDeg: number): number | null {
+  const behind = vincentyDirect(position, (bearingDeg + 180) % 360, GROUND_SLOPE_HALF_SPAN_METERS);
+  const ahead = vincentyDirect(position, bearingDeg, GROUND_SLOPE_HALF_SPAN_METERS);
+  const rise = getElevationChangeMeters(
+    courseName,
+    { lat: behind.lat, lng: behind.lng },
+    { lat: ahead.lat, lng: ahead.lng }
+  );
+  return rise == null ? null : (Math.atan2(rise, 2 * GROUND_SLOPE_HALF_SPAN_METERS) * 180) / Math.PI;
+}
@@ -1,4 +1,5 @@
 import { CPUDifficulty } from '../types/companion';
+import { defaultRng, type Rng } from './rng';
 
 interface ScoreDistribution {
   eagle: number;
@@ -36,9 +37,9 @@ const scoreDistributions: Record<CPUDifficulty, ScoreDistribution> = {
   },
 };
 
-export function simulateCPUScore(difficulty: CPUDifficulty, par: number): number {
+export function simulateCPUScore(difficulty: CPUDifficulty, par: number, rng: Rng = defaultRng): number {
   const distribution = scoreDistributions[difficulty];
-  const random = Math.random();
+  const random = rng.next();
 
   let cumulative = 0;
 
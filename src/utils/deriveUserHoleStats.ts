@@ -0,0 +1,91 @@
+import type { UserHoleStats, MissDirection } from '../types/holeStats';
+import type { UserHoleShots } from '../types/userShots';
+
+type LatLng = { lat: number; lng: number };
+
+/** Score on a tracked hole: every shot plus penalty strokes. */
+export function getUserHoleScore(hole: UserHoleShots): number {
+  return hole.shots.reduce((sum, s) => sum + 1 + s.penaltyStrokes, 0);
+}
+
+/** Meters per degree of latitude. */
+const METERS_PER_DEG = 111320;
+/** A missed green within this many meters of the tee → green line counts as short/long, not left/right. */
+const ON_LINE_METERS = 10;
+
+/**
+ * Where a ball finished relative to the tee → green line, in meters (flat approximation over a hole).
+ * along: distance down the line from the tee; offset: positive = left of the line.
+ */
+function positionAlongHole(tee: LatLng, green: LatLng, point: LatLng): { along: number; offset: number; length: number } {
+  const cosLat = Math.cos((tee.lat * Math.PI) / 180);
+  const ax = (green.lng - tee.lng) * cosLat * METERS_PER_DEG;
+  const ay = (green.lat - tee.lat) * METERS_PER_DEG;
+  const bx = (point.lng - tee.lng) * cosLat * METERS_PER_DEG;
+  const by = (point.lat - tee.lat) * METERS_PER_DEG;
+  const length = Math.hypot(ax, ay) || 1;
+  return { along: (ax * bx + ay * by) / length, offset: (ax * by - ay * bx) / length, length };
+}
+
+function missDirection(tee: LatLng, green: LatLng, point: LatLng): MissDirection {
+  const { along, offset, length } = positionAlongHole(tee, green, point);
+  if (Math.abs(offset) > ON_LINE_METERS) return offset > 0 ? 'left' : 'right';
+  return along > length ? 'long' : 'short';
+}
+
+/**
+ * Derive user hole stats from tracked shots, the same way deriveAIHoleStats does for the AI.
+ * Fairway (par 4/5 only, null on par 3): tee shot without penalty and the next shot played from fairway or green
+ * (or holed).
+ * GIR: on the green (first putt) in par-2 strokes or less, penalties included. Putts: shots from the green.
+ * Scrambling: missed GIR but made par or better; scrambleSand when the missed up-and-down was from a bunker.
+ */
+export function deriveUserHoleStats(hole: UserHoleShots, par: number, tee: LatLng, green: LatLng): UserHoleStats {
+  const { shots } = hole;
+  if (shots.length === 0) {
+    return { fairway: par >= 4 ? false : null, gir: false, scrambling: false, putts: 0 };
+  }
+  const score = getUserHoleScore(hole);
+  const first = shots[0];
+  const second = shots[1];
+  const teeShotInPlay = first.penalty == null;
+  const fairway =
+    par >= 4 ? teeShotInPlay && (second == null ? hole.holed : second.lie === 'fairway' || second.lie === 'green') : null;
+  let fairwayMiss: MissDirection | undefined;
+  if (fairway === false) {
+    if (first.penalty === 'ob') fairwayMiss = 'ob';
+    else if (second?.position) fairwayMiss = positionAlongHole(tee, green, second.position).offset > 0 ? 'left' : 'right';
+  }
+
+  const firstPuttIndex = shots.findIndex((s) => s.lie === 'green');
+  const putts = firstPuttIndex < 0 ? 0 : shots.length - firstPuttIndex;
+  const strokesToGreen =
+    firstPuttIndex < 0
+      ? hole.holed
+        ? score - 1
+        : score
+      : shots.slice(0, firstPuttIndex).reduce((sum, s) => sum + 1 + s.penaltyStrokes, 0);
+  const gir = strokesToGreen <= par - 2;
+
+  // The shot after the regulation strokes shows where the approach finished.
+  const regulation = Math.max(1, par - 2);
+  const missedFrom = shots[regulation];
+  let girMiss: MissDirection | undefined;
+  if (!gir) {
+    if (shots.slice(0, regulation).some((s) => s.penalty === 'ob')) girMiss = 'ob';
+    else if (missedFrom?.position && missedFrom.lie !== 'green') girMiss = missDirection(tee, green, missedFrom.position);
+  }
+
+  const scrambling = !gir && hole.holed && score <= par;
+  const chipLie = firstPuttIndex > 0 ? shots[firstPuttIndex - 1].lie : shots[shots.length - 1].lie;
+
+  return {
+    fairway,
+    ...(fairwayMiss ? { fairwayMiss } : {}),
+    gir,
+    ...(girMiss ? { girMiss } : {}),
+    scrambling,
+    ...(!gir && !scrambling && chipLie === 'bunker' ? { scrambleSand: true } : {}),
+    putts,
+  };
+}
@@ -1,11 +1,11 @@
 /**
  * Build HoleFeaturesForAI from course editor HoleOverride so the AI test run uses the edited layout.
  * When building for a hole, all mapping objects inside the course boundary are in play (including
- * adjacent holes' greens, bunkers, water, fairways) so e.g. hole 3's elements are in view and in play when playing hole 4.
+ * adjacent holes' greens, bunkers, water, fairways, drawn surfaces) so e.g. hole 3's elements are in view and in play when playing hole 4.
  */
 
 import type { HoleOverride, HazardShape, TreeShape, TreePatch, LatLng } from '../services/courseEditorStore';
-import type { HoleFeaturesForAI, CircleFeature, TreeObstacle } from '../data/lincolnParkCourse';
+import type { HoleFeaturesForAI, CircleFeature, TreeObstacle, WaterFeature } from '../data/lincolnParkCourse';
 import { getHoleOverride } from '../services/courseEditorStore';
 import { isInBounds } from './courseLie';
 
@@ -37,7 +37,7 @@ function polygonToCircle(points: LatLng[]): CircleFeature {
 export function buildHoleFeaturesFromEditor(data: HoleOverride): HoleFeaturesForAI {
   const fairwayPaths = data.fairways ?? [];
   const fairways: CircleFeature[] = fairwayPaths.map((path) => polygonToCircle(path));
-  const fairwayPolygons: { lat: number; lng: number }[][] =
+  const fairwayPolygons: { lat: number; lng: number }[][] | undefined =
     fairwayPaths.length > 0 ? fairwayPaths.map((path) => path.map((p) => ({ lat: p.lat, lng: p.lng }))) : undefined;
   const hazardToCircle = (h: HazardShape): CircleFeature => {
     if (h.shape === 'circle') return { center: { ...h.center }, radiusMeters: h.radiusMeters };
@@ -46,9 +46,9 @@ export function buildHoleFeaturesFromEditor(data: HoleOverride): HoleFeaturesFor
   const bunkers: CircleFeature[] = (data.hazards ?? [])
     .filter((h): h is HazardShape => h.type === 'bunker')
     .map(hazardToCircle);
-  const water: CircleFeature[] = (data.hazards ?? [])
+  const water: WaterFeature[] = (data.hazards ?? [])
     .filter((h): h is HazardShape => h.type === 'water')
-    .map(hazardToCircle);
+    .map((h) => ({ ...hazardToCircle(h), ...(h.stake && { stake: h.stake }) }));
   // Green: use greenBoundary polygon to get radius so putts near the edge count as "on green" (avoids putt→rough→chip loop).
   const green: CircleFeature =
     data.greenBoundary && data.greenBoundary.length >= 3
@@ -72,7 +72,17 @@ export function buildHoleFeaturesFromEditor(data: HoleOverride): HoleFeaturesFor
       };
     }),
   ];
-  return { fairways, fairwayPolygons, bunkers, green, water, treeObstacles };
+  const surfaces = (data.surfaces ?? []).map((sf) => ({ type: sf.type, vertices: [...sf.vertices] }));
+  return {
+    fairways,
+    fairwayPolygons,
+    bunkers,
+    green,
+    greenSlope: data.greenSlope,
+    water,
+    treeObstacles,
+    ...(surfaces.length > 0 && { surfaces }),
+  };
 }
 
 /** True if circle feature center is inside course boundary (or no boundary defined). */
@@ -95,9 +105,10 @@ export function buildInPlayFeaturesForHole(
   const current = buildHoleFeaturesFromEditor(currentOverride);
   const fairways: CircleFeature[] = [...current.fairways];
   const bunkers: CircleFeature[] = [...current.bunkers];
-  const water: CircleFeature[] = [...current.water];
+  const water: WaterFeature[] = [...current.water];
   const otherGreens: CircleFeature[] = [];
   const treeObstacles: TreeObstacle[] = [...current.treeObstacles];
+  const surfaces: NonNullable<HoleFeaturesForAI['surfaces']> = [...(current.surfaces ?? [])];
 
   for (let h = 1; h <= 18; h++) {
     if (h === holeNumber) continue;
@@ -118,6 +129,9 @@ export function buildInPlayFeaturesForHole(
       const center = { lat: t.lat, lng: t.lng };
       if (isInBounds(center, courseName)) treeObstacles.push(t);
     }
+    for (const sf of features.surfaces ?? []) {
+      if (isFeatureInBounds(polygonToCircle(sf.vertices), courseName)) surfaces.push(sf);
+    }
   }
 
   return {
@@ -125,8 +139,10 @@ export function buildInPlayFeaturesForHole(
     fairwayPolygons: current.fairwayPolygons,
     bunkers,
     green: current.green,
+    greenSlope: current.greenSlope,
     otherGreens: otherGreens.length > 0 ? otherGreens : undefined,
     water,
     treeObstacles,
+    surfaces: surfaces.length > 0 ? surfaces : undefined,
   };
 }
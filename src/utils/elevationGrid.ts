@@ -0,0 +1,365 @@
+/**
+ * Read DEM files into an ElevationGrid and look up ground height at any lat/lng.
+ *
+ * Two formats are read, both with coordinates in WGS84 longitude/latitude (EPSG:4326):
+ * - ESRI ASCII grid (.asc): the `ncols` / `nrows` / `xllcorner` / `yllcorner` / `cellsize` header, then heights.
+ * - GeoTIFF (.tif): uncompressed, one band of integer or float heights in strips or tiles, georeferenced by a tie
+ *   point and pixel scale (or a transformation without rotation).
+ * Projected DEMs (UTM, state plane) must be reprojected first, e.g. `gdalwarp -t_srs EPSG:4326 -co COMPRESS=NONE`.
+ */
+
+import type { ElevationGrid, ElevationGridParseResult } from '../types/elevationGrid';
+import type { LatLng } from '../services/courseEditorStore';
+
+/** Largest grid stored with the course (cells); about 1 km² at 1 m resolution. */
+export const MAX_ELEVATION_GRID_CELLS = 1_000_000;
+/** A cell this large or larger (degrees, ≈1 km) means the file is in projected meters, not longitude/latitude. */
+const MAX_GEOGRAPHIC_CELL_DEGREES = 0.01;
+
+type Fail = { ok: false; error: string };
+
+function fail(error: string): Fail {
+  return { ok: false, error };
+}
+
+function tooManyCells(cells: number): Fail {
+  return fail(
+    `Grid has ${cells.toLocaleString()} cells; resample it to ${MAX_ELEVATION_GRID_CELLS.toLocaleString()} or fewer`
+  );
+}
+
+/** Validate the georeferencing and heights shared by both formats, and build the grid. */
+function buildGrid(
+  params: Omit<ElevationGrid, 'heights' | 'source'>,
+  raw: ArrayLike<number>,
+  nodata: number | null,
+  source: string
+): ElevationGridParseResult {
+  const { cols, rows, west, north, cellWidth, cellHeight } = params;
+  if (!Number.isInteger(cols) || !Number.isInteger(rows) || cols < 2 || rows < 2) {
+    return fail('Grid needs at least 2 columns and 2 rows');
+  }
+  if (cols * rows > MAX_ELEVATION_GRID_CELLS) return tooManyCells(cols * rows);
+  if (!(cellWidth > 0) || !(cellHeight > 0)) return fail('Cell size must be positive');
+  const south = north - rows * cellHeight;
+  const east = west + cols * cellWidth;
+  if (
+    cellWidth >= MAX_GEOGRAPHIC_CELL_DEGREES ||
+    cellHeight >= MAX_GEOGRAPHIC_CELL_DEGREES ||
+    west < -180 ||
+    east > 180 ||
+    south < -90 ||
+    north > 90
+  ) {
+    return fail('Grid is not in longitude/latitude (EPSG:4326); reproject it first (gdalwarp -t_srs EPSG:4326)');
+  }
+  const heights: (number | null)[] = new Array(cols * rows);
+  let missing = 0;
+  for (let i = 0; i < cols * rows; i++) {
+    const v = raw[i];
+    if (!Number.isFinite(v) || (nodata != null && v === nodata)) {
+      heights[i] = null;
+      missing++;
+    } else {
+      heights[i] = Math.round(v * 100) / 100;
+    }
+  }
+  if (missing === heights.length) return fail('Grid has no height values');
+  const warnings: string[] = [];
+  if (missing > 0) warnings.push(`${Math.round((100 * missing) / heights.length)}% of cells have no data`);
+  return { ok: true, grid: { ...params, heights, source }, warnings };
+}
+
+/** ESRI ASCII grid: header lines (any order, case-insensitive), then `nrows` rows of heights from the north. */
+export function parseAsciiGrid(text: string, source: string): ElevationGridParseResult {
+  const header: Record<string, number> = {};
+  const lines = text.split(/\r?\n/);
+  let line = 0;
+  for (; line < lines.length; line++) {
+    const match = /^\s*([a-z_]+)\s+(\S+)\s*$/i.exec(lines[line]);
+    if (!match) break;
+    const value = Number(match[2]);
+    if (!Number.isFinite(value)) return fail(`Header "${match[1]}" is not a number`);
+    header[match[1].toLowerCase()] = value;
+  }
+  const { ncols, nrows } = header;
+  const cellWidth = header.cellsize ?? header.dx;
+  const cellHeight = header.cellsize ?? header.dy;
+  if (ncols == null || nrows == null || cellWidth == null || cellHeight == null) {
+    return fail('Not an ASCII grid: the header needs ncols, nrows and cellsize');
+  }
+  const centered = header.xllcenter != null;
+  const xll = header.xllcorner ?? header.xllcenter;
+  const yll = header.yllcorner ?? header.yllcenter;
+  if (xll == null || yll == null) return fail('The header needs xllcorner and yllcorner (or xllcenter and yllcenter)');
+  const values = lines
+    .slice(line)
+    .join(' ')
+    .split(/\s+/)
+    .filter((s) => s !== '')
+    .map(Number);
+  if (values.length < ncols * nrows) {
+    return fail(`Expected ${ncols * nrows} heights but found ${values.length}`);
+  }
+  const west = centered ? xll - cellWidth / 2 : xll;
+  const south = centered ? yll - cellHeight / 2 : yll;
+  return buildGrid(
+    { cols: ncols, rows: nrows, west, north: south + nrows * cellHeight, cellWidth, cellHeight },
+    values,
+    header.nodata_value ?? null,
+    source
+  );
+}
+
+/** Bytes per value by TIFF field type. */
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8,
+  16: 8,
+};
+
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  sampleFormat: 339,
+  pixelScale: 33550,
+  tiepoint: 33922,
+  transformation: 34264,
+  geoKeys: 34735,
+  gdalNodata: 42113,
+} as const;
+
+const GEO_KEY_MODEL_TYPE = 1024;
+const GEO_KEY_RASTER_TYPE = 1025;
+const MODEL_TYPE_GEOGRAPHIC = 2;
+const RASTER_PIXEL_IS_POINT = 2;
+
+/** Tags of the first image (IFD) in a classic TIFF: numbers, or text for ASCII tags. */
+function readTiffTags(view: DataView): Map<number, number[] | string> | string {
+  if (view.byteLength < 8) return 'File is too short to be a TIFF';
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return 'Not a TIFF file';
+  const le = order === 0x4949;
+  const magic = view.getUint16(2, le);
+  if (magic === 43) return 'BigTIFF files are not supported; save as a classic TIFF';
+  if (magic !== 42) return 'Not a TIFF file';
+  const ifd = view.getUint32(4, le);
+  if (ifd + 2 > view.byteLength) return 'TIFF directory is outside the file';
+  const tags = new Map<number, number[] | string>();
+  const count = view.getUint16(ifd, le);
+  for (let e = 0; e < count; e++) {
+    const entry = ifd + 2 + e * 12;
+    if (entry + 12 > view.byteLength) return 'TIFF directory is truncated';
+    const tag = view.getUint16(entry, le);
+    const type = view.getUint16(entry + 2, le);
+    const n = view.getUint32(entry + 4, le);
+    const size = TIFF_TYPE_SIZES[type];
+    if (!size) continue;
+    const start = n * size <= 4 ? entry + 8 : view.getUint32(entry + 8, le);
+    if (start + n * size > view.byteLength) return `TIFF tag ${tag} points outside the file`;
+    if (type === 2) {
+      let text = '';
+      for (let i = 0; i < n; i++) {
+        const c = view.getUint8(start + i);
+        if (c === 0) break;
+        text += String.fromCharCode(c);
+      }
+      tags.set(tag, text);
+      continue;
+    }
+    const values: number[] = [];
+    for (let i = 0; i < n; i++) {
+      const at = start + i * size;
+      switch (type) {
+        case 3:
+          values.push(view.getUint16(at, le));
+          break;
+        case 4:
+          values.push(view.getUint32(at, le));
+          break;
+        case 8:
+          values.push(view.getInt16(at, le));
+          break;
+        case 9:
+          values.push(view.getInt32(at, le));
+          break;
+        case 11:
+          values.push(view.getFloat32(at, le));
+          break;
+        case 12:
+          values.push(view.getFloat64(at, le));
+          break;
+        case 16:
+          values.push(Number(view.getBigUint64(at, le)));
+          break;
+        case 5:
+        case 10:
+          values.push(view.getUint32(at, le) / (view.getUint32(at + 4, le) || 1));
+          break;
+        default:
+          values.push(type === 6 ? view.getInt8(at) : view.getUint8(at));
+      }
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+}
+
+/** Uncompressed single-band GeoTIFF in longitude/latitude. */
+export function parseGeoTiff(buffer: ArrayBuffer, source: string): ElevationGridParseResult {
+  const view = new DataView(buffer);
+  const tags = readTiffTags(view);
+  if (typeof tags === 'string') return fail(tags);
+  const num = (tag: number, fallback?: number): number | undefined => {
+    const v = tags.get(tag);
+    return Array.isArray(v) ? v[0] : fallback;
+  };
+  const list = (tag: number): number[] | undefined => {
+    const v = tags.get(tag);
+    return Array.isArray(v) ? v : undefined;
+  };
+  const le = view.getUint16(0) === 0x4949;
+
+  const cols = num(TAG.width);
+  const rows = num(TAG.height);
+  if (cols == null || rows == null) return fail('TIFF has no image size');
+  if (num(TAG.compression, 1) !== 1) {
+    return fail('Compressed GeoTIFFs are not supported; save it uncompressed (gdal_translate -co COMPRESS=NONE)');
+  }
+  const bits = num(TAG.bitsPerSample, 1)!;
+  const format = num(TAG.sampleFormat, 1)!;
+  const bytes = bits / 8;
+  const validFloat = format === 3 && (bits === 32 || bits === 64);
+  const validInt = (format === 1 || format === 2) && (bits === 8 || bits === 16 || bits === 32);
+  if (!validFloat && !validInt) return fail(`Unsupported sample type (${bits}-bit, format ${format})`);
+  const pixelStride = bytes * (num(TAG.samplesPerPixel, 1) ?? 1);
+
+  // Geographic only: a projected model type needs reprojecting
+  const geoKeys = list(TAG.geoKeys);
+  let pixelIsPoint = false;
+  if (geoKeys) {
+    for (let k = 4; k + 3 < geoKeys.length; k += 4) {
+      const [id, location, , value] = geoKeys.slice(k, k + 4);
+      if (location !== 0) continue;
+      if (id === GEO_KEY_MODEL_TYPE && value !== MODEL_TYPE_GEOGRAPHIC) {
+        return fail('GeoTIFF is in a projected coordinate system; reproject it first (gdalwarp -t_srs EPSG:4326)');
+      }
+      if (id === GEO_KEY_RASTER_TYPE) pixelIsPoint = value === RASTER_PIXEL_IS_POINT;
+    }
+  }
+
+  let west: number;
+  let north: number;
+  let cellWidth: number;
+  let cellHeight: number;
+  const scale = list(TAG.pixelScale);
+  const tiepoint = list(TAG.tiepoint);
+  const transform = list(TAG.transformation);
+  if (scale && tiepoint && tiepoint.length >= 6) {
+    [cellWidth, cellHeight] = scale;
+    west = tiepoint[3] - tiepoint[0] * cellWidth;
+    north = tiepoint[4] + tiepoint[1] * cellHeight;
+  } else if (transform && transform.length >= 8) {
+    if (transform[1] !== 0 || transform[4] !== 0) return fail('Rotated GeoTIFFs are not supported');
+    cellWidth = transform[0];
+    cellHeight = -transform[5];
+    west = transform[3];
+    north = transform[7];
+  } else {
+    return fail('TIFF has no georeferencing (tie point and pixel scale)');
+  }
+  if (pixelIsPoint) {
+    west -= cellWidth / 2;
+    north += cellHeight / 2;
+  }
+
+  const tileWidth = num(TAG.tileWidth);
+  const tileLength = num(TAG.tileLength);
+  const tileOffsets = list(TAG.tileOffsets);
+  const stripOffsets = list(TAG.stripOffsets);
+  const rowsPerStrip = num(TAG.rowsPerStrip, rows)!;
+  const tiled = tileWidth != null && tileLength != null && tileOffsets != null;
+  if (!tiled && !stripOffsets) return fail('TIFF has no image data');
+  if (cols * rows > MAX_ELEVATION_GRID_CELLS) return tooManyCells(cols * rows);
+  const tilesAcross = tiled ? Math.ceil(cols / tileWidth) : 0;
+
+  const readSample = (at: number): number => {
+    if (format === 3) return bits === 32 ? view.getFloat32(at, le) : view.getFloat64(at, le);
+    if (bits === 8) return format === 2 ? view.getInt8(at) : view.getUint8(at);
+    if (bits === 16) return format === 2 ? view.getInt16(at, le) : view.getUint16(at, le);
+    return format === 2 ? view.getInt32(at, le) : view.getUint32(at, le);
+  };
+  const raw = new Float64Array(cols * rows);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const at = tiled
+        ? tileOffsets[Math.floor(r / tileLength) * tilesAcross + Math.floor(c / tileWidth)] +
+          ((r % tileLength) * tileWidth + (c % tileWidth)) * pixelStride
+        : stripOffsets![Math.floor(r / rowsPerStrip)] + ((r % rowsPerStrip) * cols + c) * pixelStride;
+      if (!(at + bytes <= view.byteLength)) return fail('TIFF image data is truncated');
+      raw[r * cols + c] = readSample(at);
+    }
+  }
+  const nodataText = tags.get(TAG.gdalNodata);
+  const nodata = typeof nodataText === 'string' && nodataText.trim() !== '' ? Number(nodataText) : null;
+  return buildGrid(
+    { cols, rows, west, north, cellWidth, cellHeight },
+    raw,
+    nodata != null && Number.isFinite(nodata) ? nodata : null,
+    source
+  );
+}
+
+/** Read a DEM by file name: .tif/.tiff as GeoTIFF, anything else as an ASCII grid. */
+export function parseElevationFile(fileName: string, buffer: ArrayBuffer): ElevationGridParseResult {
+  if (/\.tiff?$/i.test(fileName)) return parseGeoTiff(buffer, fileName);
+  return parseAsciiGrid(new TextDecoder().decode(buffer), fileName);
+}
+
+/**
+ * Ground height (m) at a position, interpolated between the four nearest cell centres (cells without data are
+ * left out). Null outside the grid or where no nearby cell has data.
+ */
+export function elevationAt(grid: ElevationGrid, position: LatLng): number | null {
+  const x = (position.lng - grid.west) / grid.cellWidth - 0.5;
+  const y = (grid.north - position.lat) / grid.cellHeight - 0.5;
+  if (x < -0.5 || y < -0.5 || x > grid.cols - 0.5 || y > grid.rows - 0.5) return null;
+  const cx = Math.max(0, Math.min(grid.cols - 1, x));
+  const cy = Math.max(0, Math.min(grid.rows - 1, y));
+  const c0 = Math.min(grid.cols - 2, Math.floor(cx));
+  const r0 = Math.min(grid.rows - 2, Math.floor(cy));
+  const fx = cx - c0;
+  const fy = cy - r0;
+  let sum = 0;
+  let weight = 0;
+  for (const [dc, dr, w] of [
+    [0, 0, (1 - fx) * (1 - fy)],
+    [1, 0, fx * (1 - fy)],
+    [0, 1, (1 - fx) * fy],
+    [1, 1, fx * fy],
+  ]) {
+    const h = grid.heights[(r0 + dr) * grid.cols + c0 + dc];
+    if (h == null || w === 0) continue;
+    sum += h * w;
+    weight += w;
+  }
+  return weight > 0 ? sum / weight : null;
+}
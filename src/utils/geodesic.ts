@@ -1,4 +1,5 @@
 import { GeoCoordinate } from '../types/courseData';
+import { defaultRng, type Rng } from './rng';
 
 const WGS84_A = 6378137.0;
 const WGS84_B = 6356752.314245;
@@ -183,13 +184,14 @@ export function vincentyDirect(start: GeoCoordinate, bearing: number, distance:
  * Box-Muller Transform - Generates normally distributed random numbers
  * from uniform random variables.
  *
+ * @param rng - Uniform random source (defaults to Math.random)
  * @returns A random number from standard normal distribution (mean=0, std=1)
  *
  * Reference: Box, G.E.P., Muller, M.E. (1958). "A Note on the Generation of Random Normal Deviates"
  */
-export function boxMullerTransform(): number {
-  const u1 = Math.random();
-  const u2 = Math.random();
+export function boxMullerTransform(rng: Rng = defaultRng): number {
+  const u1 = rng.next();
+  const u2 = rng.next();
   return Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
 }
 
@@ -197,11 +199,12 @@ export function boxMullerTransform(): number {
  * Generates a pair of independent standard normal random variables
  * using the Box-Muller transform.
  *
+ * @param rng - Uniform random source (defaults to Math.random)
  * @returns Tuple of two independent N(0,1) random variables
  */
-export function boxMullerPair(): [number, number] {
-  const u1 = Math.random();
-  const u2 = Math.random();
+export function boxMullerPair(rng: Rng = defaultRng): [number, number] {
+  const u1 = rng.next();
+  const u2 = rng.next();
   const r = Math.sqrt(-2.0 * Math.log(u1));
   const theta = 2.0 * Math.PI * u2;
   return [r * Math.cos(theta), r * Math.sin(theta)];
@@ -0,0 +1,50 @@
+/**
+ * Handicap strokes per hole from a playing handicap and the hole's stroke index (1 = hardest).
+ * Used by net match play and other net formats so every format allocates strokes the same way.
+ */
+
+import type { AIProfile } from '../types/gameSettings';
+
+/** Stroke index runs 1–18 even on 9-hole courses (odd/even split), so allocation is always over 18. */
+const STROKE_INDEX_HOLES = 18;
+
+/**
+ * Playing handicap used for net scoring against the AI. Matches the scorecard: numeric profiles play off their
+ * number (plus handicaps are negative), LPGA Tour off 2, other named characters and tours off scratch.
+ */
+export function getAIPlayingHandicap(aiProfile: AIProfile): number {
+  if (typeof aiProfile === 'number') return Math.round(aiProfile);
+  return aiProfile === 'LPGA Tour' ? 2 : 0;
+}
+
+/**
+ * Strokes received on a hole. 18 handicap = 1 on every hole, 20 = 2 on SI 1–2 and 1 elsewhere.
+ * Plus handicaps give strokes back on the easiest holes (e.g. +2 = −1 on SI 17 and 18).
+ * Holes without a stroke index receive only the full-lap strokes (handicap ≥ 18).
+ */
+export function getStrokesReceivedOnHole(playingHandicap: number, strokeIndex: number | undefined): number {
+  const h = Math.round(playingHandicap);
+  if (h === 0) return 0;
+  const abs = Math.abs(h);
+  const fullLaps = Math.floor(abs / STROKE_INDEX_HOLES);
+  const remainder = abs % STROKE_INDEX_HOLES;
+  let strokes = fullLaps;
+  if (strokeIndex != null) {
+    if (h > 0 && strokeIndex <= remainder) strokes += 1;
+    if (h < 0 && strokeIndex > STROKE_INDEX_HOLES - remainder) strokes += 1;
+  }
+  return h > 0 ? strokes : -strokes;
+}
+
+/**
+ * Strokes received on a hole from a course handicap for a round of `holeCount` holes (e.g. a WHS 9-hole course
+ * handicap). Nine holes cover half the 1–18 stroke indexes, so their handicap is doubled onto the 18-hole allocation.
+ */
+export function getCourseHandicapStrokesOnHole(
+  courseHandicap: number,
+  strokeIndex: number | undefined,
+  holeCount: number
+): number {
+  const scale = holeCount < STROKE_INDEX_HOLES ? STROKE_INDEX_HOLES / holeCount : 1;
+  return getStrokesReceivedOnHole(courseHandicap * scale, strokeIndex);
+}
@@ -0,0 +1,191 @@
+/**
+ * Match play scoring engine (user vs AI). Decides each hole on gross or net strokes, tracks the running
+ * status ("2 UP thru 7"), dormie and closed-out matches ("4&3"), and applies hole concessions.
+ * Holes after the match is decided are ignored for the result.
+ */
+
+import type { CurrentRoundState } from '../types/currentRound';
+import type { MatchPlayScoring } from '../types/gameSettings';
+import type { MatchHoleOutcome, MatchSide, RoundMatchPlay, SavedMatchResult } from '../types/matchPlay';
+import { getCourseHoleCount, getHoleInfoForCourse } from '../services/courseBounds';
+import { getStrokesReceivedOnHole } from './handicapStrokes';
+
+export interface MatchPlayInput {
+  holeCount: number;
+  userScoresByHole: (number | undefined)[];
+  aiScoresByHole: (number | undefined)[];
+  strokeIndexByHole: (number | undefined)[];
+  scoring: MatchPlayScoring;
+  userHandicap: number;
+  aiHandicap: number;
+  concessions?: (MatchSide | undefined)[];
+}
+
+export interface MatchHoleResult {
+  holeNumber: number;
+  outcome: MatchHoleOutcome;
+  /** True when the hole was decided by concession. */
+  conceded: boolean;
+  userStrokesReceived: number;
+  aiStrokesReceived: number;
+  /** User lead after this hole (negative = user down). */
+  leadAfter: number;
+}
+
+export interface MatchStatus {
+  holes: MatchHoleResult[];
+  /** User lead (negative = user down). */
+  lead: number;
+  holesPlayed: number;
+  holesRemaining: number;
+  /** Leader is up by exactly the holes remaining. */
+  dormie: boolean;
+  /** Leader is up by more than the holes remaining. */
+  closedOut: boolean;
+  /** Closed out or all holes played. */
+  finished: boolean;
+  winner: MatchHoleOutcome | null;
+  holesWon: number;
+  holesLost: number;
+  holesHalved: number;
+  /** Running status, e.g. "2 UP thru 7", "AS thru 3", "1 DOWN (dormie)". */
+  statusText: string;
+  /** Final result when finished: "4&3", "1 UP", "AS". */
+  resultText: string | null;
+}
+
+/**
+ * Strokes each side receives on a hole in net match play: the higher handicap receives the difference,
+ * allocated by stroke index; the lower handicap plays off scratch. Gross play gives no strokes.
+ */
+export function getMatchStrokesOnHole(
+  scoring: MatchPlayScoring,
+  userHandicap: number,
+  aiHandicap: number,
+  strokeIndex: number | undefined
+): { user: number; ai: number } {
+  if (scoring === 'gross') return { user: 0, ai: 0 };
+  const diff = Math.round(aiHandicap - userHandicap);
+  return {
+    user: diff < 0 ? getStrokesReceivedOnHole(-diff, strokeIndex) : 0,
+    ai: diff > 0 ? getStrokesReceivedOnHole(diff, strokeIndex) : 0,
+  };
+}
+
+function formatLead(lead: number): string {
+  if (lead === 0) return 'AS';
+  return lead > 0 ? `${lead} UP` : `${-lead} DOWN`;
+}
+
+/** Result notation for a decided match: "4&3" when closed out early, "2 UP" on the last hole, "AS" when halved. */
+function formatResult(lead: number, holesRemaining: number): string {
+  if (lead === 0) return 'AS';
+  const margin = Math.abs(lead);
+  return holesRemaining > 0 ? `${margin}&${holesRemaining}` : `${margin} UP`;
+}
+
+/** Compute hole-by-hole results and the running match status. */
+export function computeMatchStatus(input: MatchPlayInput): MatchStatus {
+  const { holeCount, scoring, userHandicap, aiHandicap } = input;
+  const concessions = input.concessions ?? [];
+  const holes: MatchHoleResult[] = [];
+  let lead = 0;
+  let closedOut = false;
+
+  for (let i = 0; i < holeCount && !closedOut; i++) {
+    const concededBy = concessions[i];
+    const userGross = input.userScoresByHole[i];
+    const aiGross = input.aiScoresByHole[i];
+    if (concededBy == null && (userGross == null || aiGross == null)) continue;
+
+    const strokes = getMatchStrokesOnHole(scoring, userHandicap, aiHandicap, input.strokeIndexByHole[i]);
+    let outcome: MatchHoleOutcome;
+    if (concededBy != null) {
+      outcome = concededBy === 'user' ? 'ai' : 'user';
+    } else {
+      const userNet = userGross! - strokes.user;
+      const aiNet = aiGross! - strokes.ai;
+      outcome = userNet < aiNet ? 'user' : aiNet < userNet ? 'ai' : 'halved';
+    }
+    if (outcome === 'user') lead++;
+    if (outcome === 'ai') lead--;
+    holes.push({
+      holeNumber: i + 1,
+      outcome,
+      conceded: concededBy != null,
+      userStrokesReceived: strokes.user,
+      aiStrokesReceived: strokes.ai,
+      leadAfter: lead,
+    });
+    closedOut = Math.abs(lead) > holeCount - holes.length;
+  }
+
+  const holesPlayed = holes.length;
+  const holesRemaining = holeCount - holesPlayed;
+  const finished = closedOut || holesRemaining === 0;
+  const dormie = !finished && lead !== 0 && Math.abs(lead) === holesRemaining;
+  const winner: MatchHoleOutcome | null = finished ? (lead > 0 ? 'user' : lead < 0 ? 'ai' : 'halved') : null;
+  const resultText = finished ? formatResult(lead, holesRemaining) : null;
+
+  let statusText: string;
+  if (holesPlayed === 0) statusText = 'AS';
+  else if (resultText != null) statusText = resultText;
+  else statusText = `${formatLead(lead)} ${dormie ? '(dormie)' : `thru ${holes[holesPlayed - 1].holeNumber}`}`;
+
+  return {
+    holes,
+    lead,
+    holesPlayed,
+    holesRemaining,
+    dormie,
+    closedOut,
+    finished,
+    winner,
+    holesWon: holes.filter((h) => h.outcome === 'user').length,
+    holesLost: holes.filter((h) => h.outcome === 'ai').length,
+    holesHalved: holes.filter((h) => h.outcome === 'halved').length,
+    statusText,
+    resultText,
+  };
+}
+
+/** Match status for the current round, or null when the round is not match play. */
+export function getRoundMatchStatus(round: CurrentRoundState): MatchStatus | null {
+  const match: RoundMatchPlay | undefined = round.matchPlay;
+  if (!match || !round.courseName) return null;
+  const holeCount = getCourseHoleCount(round.courseName) || 18;
+  return computeMatchStatus({
+    holeCount,
+    userScoresByHole: round.userScoresByHole ?? [],
+    aiScoresByHole: round.aiScoresByHole ?? [],
+    strokeIndexByHole: Array.from(
+      { length: holeCount },
+      (_, i) => getHoleInfoForCourse(round.courseName, i + 1, round.selectedTeeSet).strokeIndex
+    ),
+    scoring: match.scoring,
+    userHandicap: match.userHandicap,
+    aiHandicap: match.aiHandicap,
+    concessions: match.concessions,
+  });
+}
+
+/** Summary saved with the round. Undecided matches keep the running status as their result. */
+export function toSavedMatchResult(scoring: MatchPlayScoring, status: MatchStatus): SavedMatchResult {
+  return {
+    scoring,
+    winner: status.winner,
+    result: status.resultText ?? status.statusText,
+    holesWon: status.holesWon,
+    holesLost: status.holesLost,
+    holesHalved: status.holesHalved,
+    holesConceded: status.holes.filter((h) => h.conceded).length,
+  };
+}
+
+/** Display a result from the user's point of view, e.g. "Won 4&3", "Lost 1 DOWN", "Halved". */
+export function describeMatchResult(result: Pick<SavedMatchResult, 'winner' | 'result'>): string {
+  if (result.winner === 'user') return `Won ${result.result}`;
+  if (result.winner === 'ai') return `Lost ${result.result.replace(/ UP$/, ' DOWN')}`;
+  if (result.winner === 'halved') return 'Halved';
+  return result.result;
+}
@@ -0,0 +1,256 @@
+/**
+ * "My bag": per-user club distances seeded from HACKMOTION_DISTANCES_BY_HANDICAP (interpolated between handicap
+ * tiers), refined from tracked shots, and used to recommend a club for the "plays as" yardage.
+ *
+ * Refinement uses the distance between consecutive marked shots (GPS or map pin) played with the same club.
+ * Shots well short of the club's typical shot (the median of its recent tracked shots, not the stock total, so a
+ * golfer far from the chart is still refined) are treated as partial swings and skipped; the median of the rest is
+ * blended with the stock value, so a few shots nudge it and a season of shots replaces it.
+ */
+
+import {
+  HACKMOTION_DISTANCES_BY_HANDICAP,
+  type ClubDistances,
+  type HandicapTier,
+} from '../data/clubDistancesByHandicap';
+import { calculateHaversineDistance } from './haversine';
+import type { ClubStats } from '../types/smartCaddie';
+import type { SavedRound } from '../types/roundHistory';
+import type {
+  BagClub,
+  BagClubKey,
+  BagClubRecommendation,
+  BagClubShotSample,
+  EffectiveBag,
+  MyBag,
+} from '../types/myBag';
+
+const METERS_TO_YARDS = 1.09361;
+
+/** Long to short. */
+export const BAG_CLUB_KEYS: BagClubKey[] = [
+  'driver',
+  '3-wood',
+  '4-hybrid',
+  '4-iron',
+  '5-iron',
+  '6-iron',
+  '7-iron',
+  '8-iron',
+  '9-iron',
+  'PW',
+  'GW',
+  'SW',
+  'LW',
+];
+
+const HANDICAP_TIERS: HandicapTier[] = [0, 5, 10, 15, 20, 25];
+
+/** Typical roll after carry on a firm-ish fairway (yards). */
+const ROLL_YARDS: Record<BagClubKey, number> = {
+  driver: 20,
+  '3-wood': 15,
+  '4-hybrid': 10,
+  '4-iron': 8,
+  '5-iron': 7,
+  '6-iron': 6,
+  '7-iron': 5,
+  '8-iron': 4,
+  '9-iron': 3,
+  PW: 3,
+  GW: 2,
+  SW: 1,
+  LW: 1,
+};
+
+/** Scratch distance spread as a fraction of total (ShotLink-like; cf. CLUB_DATABASE std dev / mean). */
+const SCRATCH_DISTANCE_SPREAD: Record<BagClubKey, number> = {
+  driver: 0.06,
+  '3-wood': 0.057,
+  '4-hybrid': 0.054,
+  '4-iron': 0.052,
+  '5-iron': 0.05,
+  '6-iron': 0.048,
+  '7-iron': 0.046,
+  '8-iron': 0.044,
+  '9-iron': 0.042,
+  PW: 0.04,
+  GW: 0.04,
+  SW: 0.04,
+  LW: 0.04,
+};
+
+/** Scratch start-line spread (degrees, one standard deviation). */
+const SCRATCH_DISPERSION_DEG: Record<BagClubKey, number> = {
+  driver: 3.2,
+  '3-wood': 3.0,
+  '4-hybrid': 2.8,
+  '4-iron': 2.8,
+  '5-iron': 2.7,
+  '6-iron': 2.6,
+  '7-iron': 2.5,
+  '8-iron': 2.4,
+  '9-iron': 2.3,
+  PW: 2.2,
+  GW: 2.2,
+  SW: 2.2,
+  LW: 2.2,
+};
+
+/** Shots under this fraction of the club's median shot are partial swings; over the upper bound, mis-marks. */
+const FULL_SHOT_MIN_FRACTION = 0.75;
+const FULL_SHOT_MAX_FRACTION = 1.5;
+/** Fewer full shots than this leave the club at its stock values. */
+const MIN_REFINE_SHOTS = 3;
+/** Median of this many shots weighs the same as the stock value. */
+const PRIOR_SHOTS = 5;
+/** Most recent shots per club used (current form, not last year's). */
+const MAX_SHOTS_PER_CLUB = 40;
+
+/** "Driver", "3-Wood", "4-Hybrid", "7-Iron", "PW". */
+export function formatBagClubName(key: BagClubKey): string {
+  return key.replace(/(^|-)([a-z])/g, (_, sep: string, ch: string) => `${sep}${ch.toUpperCase()}`);
+}
+
+export function isBagClubKey(club: string | null | undefined): club is BagClubKey {
+  return club != null && (BAG_CLUB_KEYS as string[]).includes(club);
+}
+
+/** Chart distances for any handicap, interpolated between the HackMotion tiers (plus handicaps use scratch). */
+function chartDistances(handicap: number): Omit<ClubDistances, 'putter'> {
+  const h = Math.max(0, Math.min(25, handicap));
+  const upperIndex = HANDICAP_TIERS.findIndex((t) => t >= h);
+  const upper = HANDICAP_TIERS[upperIndex];
+  const lower = HANDICAP_TIERS[Math.max(0, upperIndex - 1)];
+  const t = upper === lower ? 0 : (h - lower) / (upper - lower);
+  const out = {} as Omit<ClubDistances, 'putter'>;
+  BAG_CLUB_KEYS.forEach((key) => {
+    const a = HACKMOTION_DISTANCES_BY_HANDICAP[lower][key];
+    const b = HACKMOTION_DISTANCES_BY_HANDICAP[upper][key];
+    out[key] = Math.round(a + (b - a) * t);
+  });
+  return out;
+}
+
+/** Spread grows with handicap: scratch 1×, 25 handicap about 1.75×. */
+function skillSpreadFactor(handicap: number): number {
+  return 1 + Math.max(0, Math.min(36, handicap)) * 0.03;
+}
+
+/** Stock bag for a handicap: chart carry, typical roll, and handicap-scaled distance and direction spread. */
+export function createBagFromHandicap(handicap: number): MyBag {
+  const carries = chartDistances(handicap);
+  const spread = skillSpreadFactor(handicap);
+  return {
+    seededHandicap: handicap,
+    autoRefine: true,
+    updatedAt: Date.now(),
+    clubs: BAG_CLUB_KEYS.map((key) => {
+      const totalYards = carries[key] + ROLL_YARDS[key];
+      return {
+        key,
+        inBag: true,
+        carryYards: carries[key],
+        totalYards,
+        stdDevYards: Math.round(totalYards * SCRATCH_DISTANCE_SPREAD[key] * spread * 10) / 10,
+        dispersionDeg: Math.round(SCRATCH_DISPERSION_DEG[key] * spread * 10) / 10,
+      };
+    }),
+  };
+}
+
+/** Total distances (yards) of tracked shots per club, most recent first. */
+function collectShotDistances(rounds: SavedRound[]): Map<BagClubKey, number[]> {
+  const byClub = new Map<BagClubKey, number[]>();
+  [...rounds]
+    .sort((a, b) => b.savedAt - a.savedAt)
+    .forEach((round) => {
+      (round.userShotsByHole ?? []).forEach((hole) => {
+        const shots = hole?.shots ?? [];
+        for (let i = 0; i < shots.length - 1; i++) {
+          const shot = shots[i];
+          const next = shots[i + 1];
+          if (!isBagClubKey(shot.club) || shot.penalty || shot.lie === 'green') continue;
+          if (!shot.position || !next.position) continue;
+          const yards = calculateHaversineDistance(shot.position, next.position) * METERS_TO_YARDS;
+          const list = byClub.get(shot.club) ?? [];
+          if (list.length < MAX_SHOTS_PER_CLUB) list.push(yards);
+          byClub.set(shot.club, list);
+        }
+      });
+    });
+  return byClub;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Full swings among a club's shots: those within the full-shot window around the shots' own median. */
+function fullShots(yards: number[]): number[] {
+  const typical = median(yards);
+  return yards.filter((y) => y >= typical * FULL_SHOT_MIN_FRACTION && y <= typical * FULL_SHOT_MAX_FRACTION);
+}
+
+/**
+ * Bag with unlocked clubs refined from tracked shots: total (and carry, keeping the club's roll) moves toward the
+ * median full shot, and the distance spread toward the shots' robust spread (MAD). Locked clubs are left as entered.
+ */
+export function refineBagFromShots(bag: MyBag, rounds: SavedRound[]): EffectiveBag {
+  const distances = new Map(
+    [...collectShotDistances(rounds)].map(([key, yards]): [BagClubKey, number[]] => [key, fullShots(yards)])
+  );
+  const samples: BagClubShotSample[] = [...distances.entries()].map(([key, yards]) => ({
+    key,
+    shots: yards.length,
+    medianYards: Math.round(median(yards)),
+  }));
+  if (!bag.autoRefine) return { ...bag, samples };
+  const clubs = bag.clubs.map((club): BagClub => {
+    const yards = distances.get(club.key);
+    if (club.locked || !yards || yards.length < MIN_REFINE_SHOTS) return club;
+    const weight = yards.length / (yards.length + PRIOR_SHOTS);
+    const mid = median(yards);
+    const totalYards = Math.round(weight * mid + (1 - weight) * club.totalYards);
+    const roll = club.totalYards - club.carryYards;
+    const mad = median(yards.map((y) => Math.abs(y - mid))) * 1.4826;
+    const stdDevYards = Math.round((weight * Math.max(mad, 2) + (1 - weight) * club.stdDevYards) * 10) / 10;
+    return { ...club, totalYards, carryYards: totalYards - roll, stdDevYards };
+  });
+  return { ...bag, clubs, samples };
+}
+
+/**
+ * Club for a "plays as" distance: the shortest club in the bag that carries it (like clubFromDistanceYards), the
+ * longest club beyond its carry, the shortest club inside its carry (a partial swing). Null with an empty bag.
+ */
+export function recommendBagClub(bag: MyBag, playsAsYards: number): BagClubRecommendation | null {
+  const clubs = bag.clubs.filter((c) => c.inBag).sort((a, b) => b.carryYards - a.carryYards);
+  if (clubs.length === 0) return null;
+  let club = clubs[0];
+  for (let i = clubs.length - 1; i >= 0; i--) {
+    if (clubs[i].carryYards >= playsAsYards) {
+      club = clubs[i];
+      break;
+    }
+  }
+  return { club, yards: playsAsYards, carryMarginYards: Math.round(club.carryYards - playsAsYards) };
+}
+
+/**
+ * ClubStats (meters) for the dispersion hooks. useDispersion scales lateral spread as standardDeviation ×
+ * dispersionAngle, so the angle here is chosen to make that product the lateral spread at carry.
+ */
+export function bagClubToClubStats(club: BagClub): ClubStats {
+  const meanDistance = club.carryYards / METERS_TO_YARDS;
+  const standardDeviation = club.stdDevYards / METERS_TO_YARDS;
+  const lateralSpread = meanDistance * Math.tan((club.dispersionDeg * Math.PI) / 180);
+  return {
+    name: formatBagClubName(club.key),
+    meanDistance,
+    standardDeviation,
+    dispersionAngle: standardDeviation > 0 ? lateralSpread / standardDeviation : 0,
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * Nassau betting ledger (user vs each opponent). Three match-play bets — front 9, back 9, overall — decided hole
+ * by hole on gross or net (handicap difference by stroke index, as in match play). Whenever a bet goes 2 down
+ * for either side a press opens on the next hole and runs to the end of that segment; each bet presses once,
+ * but presses can press. Rounds shorter than 18 holes play the overall bet only.
+ */
+
+import type { CurrentRoundState } from '../types/currentRound';
+import type { AIProfile, MatchPlayScoring, NassauOptions } from '../types/gameSettings';
+import type {
+  NassauBet,
+  NassauBetResult,
+  NassauOpponent,
+  NassauProfileRecord,
+  NassauSegment,
+  RoundNassau,
+  SavedNassauResult,
+} from '../types/nassau';
+import type { SavedRound } from '../types/roundHistory';
+import type { TournamentCompetitor } from '../types/tournament';
+import { getCourseHoleCount, getHoleInfoForCourse } from '../services/courseBounds';
+import { formatHandicapDisplay } from '../data/clubDistancesByHandicap';
+import { getMatchStrokesOnHole } from './matchPlay';
+import { AI_OPPONENT_ENTRY_ID } from './tournament';
+
+/** Stakes offered per bet when setting up the round. */
+export const NASSAU_STAKES = [1, 2, 5, 10, 20] as const;
+
+/** A bet presses when either side is this many holes down. */
+export const NASSAU_PRESS_DOWN = 2;
+
+const SEGMENT_LABELS: Record<NassauSegment, string> = { front: 'Front', back: 'Back', overall: 'Overall' };
+
+export interface NassauLedgerInput {
+  holeCount: number;
+  userScoresByHole: (number | undefined)[];
+  opponentScoresByHole: (number | undefined)[];
+  strokeIndexByHole: (number | undefined)[];
+  scoring: MatchPlayScoring;
+  userHandicap: number;
+  opponentHandicap: number;
+}
+
+function segmentBet(segment: NassauSegment, startHole: number, endHole: number): NassauBet {
+  return {
+    id: segment,
+    segment,
+    label: SEGMENT_LABELS[segment],
+    startHole,
+    endHole,
+    pressOf: null,
+    lead: 0,
+    holesPlayed: 0,
+    finished: false,
+  };
+}
+
+/** Segment bets and presses against one opponent, in the order they were opened. */
+export function computeNassauLedger(input: NassauLedgerInput): NassauBet[] {
+  const { holeCount, scoring, userHandicap, opponentHandicap } = input;
+  const bets: NassauBet[] =
+    holeCount >= 18
+      ? [segmentBet('front', 1, 9), segmentBet('back', 10, 18), segmentBet('overall', 1, 18)]
+      : [segmentBet('overall', 1, holeCount)];
+  const pressed = new Set<string>();
+  const pressCount: Record<NassauSegment, number> = { front: 0, back: 0, overall: 0 };
+
+  for (let hole = 1; hole <= holeCount; hole++) {
+    const userGross = input.userScoresByHole[hole - 1];
+    const oppGross = input.opponentScoresByHole[hole - 1];
+    if (userGross == null || oppGross == null) continue;
+    const strokes = getMatchStrokesOnHole(scoring, userHandicap, opponentHandicap, input.strokeIndexByHole[hole - 1]);
+    const diff = oppGross - strokes.ai - (userGross - strokes.user);
+    const swing = diff > 0 ? 1 : diff < 0 ? -1 : 0;
+
+    const open = bets.filter((b) => b.startHole <= hole && hole <= b.endHole);
+    for (const bet of open) {
+      bet.lead += swing;
+      bet.holesPlayed++;
+    }
+    for (const bet of open) {
+      if (pressed.has(bet.id) || Math.abs(bet.lead) < NASSAU_PRESS_DOWN || hole >= bet.endHole) continue;
+      pressed.add(bet.id);
+      pressCount[bet.segment]++;
+      bets.push({
+        id: `${bet.segment}_press_${pressCount[bet.segment]}`,
+        segment: bet.segment,
+        label: `${SEGMENT_LABELS[bet.segment]} press ${pressCount[bet.segment]}`,
+        startHole: hole + 1,
+        endHole: bet.endHole,
+        pressOf: bet.id,
+        lead: 0,
+        holesPlayed: 0,
+        finished: false,
+      });
+    }
+  }
+
+  for (const bet of bets) {
+    bet.finished = bet.holesPlayed === bet.endHole - bet.startHole + 1;
+  }
+  return bets;
+}
+
+/** Bets are settled on the lead over the holes played, so skipped holes or an early finish still settle. */
+export function getNassauBetResult(bet: Pick<NassauBet, 'lead'>): NassauBetResult {
+  return bet.lead > 0 ? 'won' : bet.lead < 0 ? 'lost' : 'halved';
+}
+
+/** Units won (+) or lost (−) over a set of bets at the given stake. */
+export function settleNassauBets(bets: Pick<NassauBet, 'lead'>[], stake: number): number {
+  return bets.reduce((sum, b) => sum + (b.lead > 0 ? stake : b.lead < 0 ? -stake : 0), 0);
+}
+
+/**
+ * Opponents at round start: the selected AI, plus (tournament mode) the field players closest to the AI's
+ * handicap, up to options.fieldOpponents.
+ */
+export function createNassauOpponents(
+  options: NassauOptions,
+  aiProfile: AIProfile,
+  aiHandicap: number,
+  field: TournamentCompetitor[]
+): NassauOpponent[] {
+  const ai: NassauOpponent = {
+    id: AI_OPPONENT_ENTRY_ID,
+    name: typeof aiProfile === 'number' ? `AI (HCP ${formatHandicapDisplay(aiProfile)})` : aiProfile,
+    handicap: aiHandicap,
+  };
+  const fromField = [...field]
+    .sort((a, b) => Math.abs(a.handicap - aiHandicap) - Math.abs(b.handicap - aiHandicap))
+    .slice(0, options.fieldOpponents)
+    .map((c) => ({ id: c.id, name: c.name, handicap: c.handicap }));
+  return [ai, ...fromField];
+}
+
+export interface NassauOpponentLedger {
+  opponent: NassauOpponent;
+  bets: NassauBet[];
+  net: number;
+}
+
+function getOpponentScores(round: CurrentRoundState, opponentId: string): (number | undefined)[] {
+  if (opponentId === AI_OPPONENT_ENTRY_ID) return round.aiScoresByHole ?? [];
+  return round.tournament?.field.find((c) => c.id === opponentId)?.scoresByHole ?? [];
+}
+
+/** Ledger against every opponent for the current round, or null when no Nassau is being played. */
+export function getRoundNassau(round: CurrentRoundState): NassauOpponentLedger[] | null {
+  const nassau: RoundNassau | undefined = round.nassau;
+  if (!nassau || !round.courseName) return null;
+  const holeCount = getCourseHoleCount(round.courseName) || 18;
+  const strokeIndexByHole = Array.from(
+    { length: holeCount },
+    (_, i) => getHoleInfoForCourse(round.courseName, i + 1, round.selectedTeeSet).strokeIndex
+  );
+  return nassau.opponents.map((opponent) => {
+    const bets = computeNassauLedger({
+      holeCount,
+      userScoresByHole: round.userScoresByHole ?? [],
+      opponentScoresByHole: getOpponentScores(round, opponent.id),
+      strokeIndexByHole,
+      scoring: nassau.options.scoring,
+      userHandicap: nassau.userHandicap,
+      opponentHandicap: opponent.handicap,
+    });
+    return { opponent, bets, net: settleNassauBets(bets, nassau.options.stake) };
+  });
+}
+
+/** Settlement saved with the round. */
+export function toSavedNassauResult(options: NassauOptions, ledgers: NassauOpponentLedger[]): SavedNassauResult {
+  return {
+    stake: options.stake,
+    scoring: options.scoring,
+    opponents: ledgers.map(({ opponent, bets, net }) => ({
+      id: opponent.id,
+      name: opponent.name,
+      bets: bets.map((b) => ({ label: b.label, lead: b.lead, result: getNassauBetResult(b) })),
+      net,
+    })),
+    net: ledgers.reduce((sum, l) => sum + l.net, 0),
+  };
+}
+
+/** Lifetime Nassau record against each AI profile, from bets against the selected AI. Biggest winnings first. */
+export function getNassauRecordsByAIProfile(rounds: SavedRound[]): NassauProfileRecord[] {
+  const byProfile = new Map<string, NassauProfileRecord>();
+  rounds.forEach((r) => {
+    const vsAI = r.nassau?.opponents.find((o) => o.id === AI_OPPONENT_ENTRY_ID);
+    if (!vsAI) return;
+    const key = String(r.aiProfile);
+    const record = byProfile.get(key) ?? { aiProfile: r.aiProfile, rounds: 0, won: 0, lost: 0, even: 0, net: 0 };
+    record.rounds++;
+    if (vsAI.net > 0) record.won++;
+    else if (vsAI.net < 0) record.lost++;
+    else record.even++;
+    record.net += vsAI.net;
+    byProfile.set(key, record);
+  });
+  return [...byProfile.values()].sort((a, b) => b.net - a.net);
+}
+
+/** Signed units, e.g. "+$4", "−$2", "$0". */
+export function formatNassauAmount(amount: number): string {
+  if (amount === 0) return '$0';
+  return `${amount > 0 ? '+' : '−'}$${Math.abs(amount)}`;
+}
@@ -0,0 +1,147 @@
+/**
+ * Stableford and Skins scoring (user vs AI). Both play off net scores: each side receives strokes on the
+ * hardest holes by stroke index (getStrokesReceivedOnHole), the same allocation the scorecard shows.
+ */
+
+import type { CurrentRoundState } from '../types/currentRound';
+import type { StablefordVariant } from '../types/gameSettings';
+import type { SavedSkinsResult, SavedStablefordResult } from '../types/pointsGames';
+import { getCourseHoleCount, getHoleInfoForCourse } from '../services/courseBounds';
+import { getStrokesReceivedOnHole } from './handicapStrokes';
+
+export type PointsSide = 'user' | 'ai';
+
+/**
+ * Points by net score relative to par, from albatross (−3) to double bogey (+2). Anything better than
+ * albatross scores the albatross points; double bogey or worse scores the last entry.
+ */
+const STABLEFORD_TABLES: Record<StablefordVariant, { albatross: number; eagle: number; birdie: number; par: number; bogey: number; doubleOrWorse: number }> = {
+  standard: { albatross: 5, eagle: 4, birdie: 3, par: 2, bogey: 1, doubleOrWorse: 0 },
+  modified: { albatross: 8, eagle: 5, birdie: 2, par: 0, bogey: -1, doubleOrWorse: -3 },
+};
+
+/** Stableford points for one hole. */
+export function getStablefordPoints(variant: StablefordVariant, netToPar: number): number {
+  const table = STABLEFORD_TABLES[variant];
+  if (netToPar <= -3) return table.albatross;
+  if (netToPar === -2) return table.eagle;
+  if (netToPar === -1) return table.birdie;
+  if (netToPar === 0) return table.par;
+  if (netToPar === 1) return table.bogey;
+  return table.doubleOrWorse;
+}
+
+export interface StablefordResult {
+  pointsByHole: (number | undefined)[];
+  total: number;
+}
+
+export function computeStableford(
+  variant: StablefordVariant,
+  scoresByHole: (number | undefined)[],
+  parByHole: number[],
+  strokeIndexByHole: (number | undefined)[],
+  handicap: number
+): StablefordResult {
+  const pointsByHole = parByHole.map((par, i) => {
+    const gross = scoresByHole[i];
+    if (gross == null) return undefined;
+    const net = gross - getStrokesReceivedOnHole(handicap, strokeIndexByHole[i]);
+    return getStablefordPoints(variant, net - par);
+  });
+  return { pointsByHole, total: pointsByHole.reduce<number>((sum, p) => sum + (p ?? 0), 0) };
+}
+
+export interface SkinsHoleResult {
+  holeNumber: number;
+  /** Null when the hole was tied and the skins carried over. */
+  winner: PointsSide | null;
+  /** Skins at stake on this hole (1 + carryover). */
+  skinsAtStake: number;
+}
+
+export interface SkinsResult {
+  holes: SkinsHoleResult[];
+  userSkins: number;
+  aiSkins: number;
+  /** Skins still on the line after the last hole both sides have played. */
+  carryover: number;
+}
+
+/** Skins on net scores. Holes are taken in order; a hole counts once both sides have a score for it. */
+export function computeSkins(
+  userScoresByHole: (number | undefined)[],
+  aiScoresByHole: (number | undefined)[],
+  strokeIndexByHole: (number | undefined)[],
+  userHandicap: number,
+  aiHandicap: number
+): SkinsResult {
+  const holes: SkinsHoleResult[] = [];
+  let userSkins = 0;
+  let aiSkins = 0;
+  let carryover = 0;
+  strokeIndexByHole.forEach((strokeIndex, i) => {
+    const userGross = userScoresByHole[i];
+    const aiGross = aiScoresByHole[i];
+    if (userGross == null || aiGross == null) return;
+    const userNet = userGross - getStrokesReceivedOnHole(userHandicap, strokeIndex);
+    const aiNet = aiGross - getStrokesReceivedOnHole(aiHandicap, strokeIndex);
+    const skinsAtStake = 1 + carryover;
+    const winner: PointsSide | null = userNet < aiNet ? 'user' : aiNet < userNet ? 'ai' : null;
+    if (winner === 'user') userSkins += skinsAtStake;
+    if (winner === 'ai') aiSkins += skinsAtStake;
+    carryover = winner ? 0 : skinsAtStake;
+    holes.push({ holeNumber: i + 1, winner, skinsAtStake });
+  });
+  return { holes, userSkins, aiSkins, carryover };
+}
+
+function getRoundHoleInfo(round: CurrentRoundState): { parByHole: number[]; strokeIndexByHole: (number | undefined)[] } {
+  const holeCount = getCourseHoleCount(round.courseName) || 18;
+  const infos = Array.from({ length: holeCount }, (_, i) =>
+    getHoleInfoForCourse(round.courseName, i + 1, round.selectedTeeSet)
+  );
+  return { parByHole: infos.map((h) => h.par), strokeIndexByHole: infos.map((h) => h.strokeIndex) };
+}
+
+/** Stableford points for user and AI in the current round, or null when the round is not Stableford. */
+export function getRoundStableford(round: CurrentRoundState): { user: StablefordResult; ai: StablefordResult } | null {
+  const settings = round.stableford;
+  if (!settings || !round.courseName) return null;
+  const { parByHole, strokeIndexByHole } = getRoundHoleInfo(round);
+  return {
+    user: computeStableford(settings.variant, round.userScoresByHole ?? [], parByHole, strokeIndexByHole, settings.userHandicap),
+    ai: computeStableford(settings.variant, round.aiScoresByHole ?? [], parByHole, strokeIndexByHole, settings.aiHandicap),
+  };
+}
+
+/** Skins for the current round, or null when the round is not Skins. */
+export function getRoundSkins(round: CurrentRoundState): SkinsResult | null {
+  const settings = round.skins;
+  if (!settings || !round.courseName) return null;
+  const { strokeIndexByHole } = getRoundHoleInfo(round);
+  return computeSkins(
+    round.userScoresByHole ?? [],
+    round.aiScoresByHole ?? [],
+    strokeIndexByHole,
+    settings.userHandicap,
+    settings.aiHandicap
+  );
+}
+
+export function toSavedStablefordResult(
+  variant: StablefordVariant,
+  result: { user: StablefordResult; ai: StablefordResult }
+): SavedStablefordResult {
+  return {
+    variant,
+    userPoints: result.user.total,
+    aiPoints: result.ai.total,
+    userPointsByHole: result.user.pointsByHole,
+    aiPointsByHole: result.ai.pointsByHole,
+  };
+}
+
+export function toSavedSkinsResult(result: SkinsResult): SavedSkinsResult {
+  return { userSkins: result.userSkins, aiSkins: result.aiSkins, carryover: result.carryover };
+}
@@ -0,0 +1,282 @@
+/**
+ * Group play roster: up to three friends (the user makes four humans) plus extra AI golfers, each with their own
+ * handicap and tee set. Friends' scores are entered on the scorecard; AI players are played hole by hole with
+ * AIGolfer.playHole from their own tee as the user posts scores (see hooks/useRosterAI).
+ */
+
+import { AIGolfer } from './AIGolfer';
+import { getAIHoleSetup } from './aiHoleSetup';
+import { deriveAIHoleStats } from './deriveAIHoleStats';
+import { getAIPlayingHandicap, getStrokesReceivedOnHole } from './handicapStrokes';
+import { createSeededRng, deriveSeed } from './rng';
+import { formatHandicapDisplay } from '../data/clubDistancesByHandicap';
+import { getHoleInfoForCourse } from '../services/courseBounds';
+import type { AIProfile } from '../types/gameSettings';
+import type { CurrentRoundState } from '../types/currentRound';
+import type { SavedRound } from '../types/roundHistory';
+import type {
+  GroupStanding,
+  PlayerTotals,
+  RosterPartnerRecord,
+  RosterPlayer,
+  RosterPlayerSetup,
+  RoundRoster,
+  SavedRosterPlayer,
+} from '../types/roster';
+
+/** Friends besides the user (2–4 humans in all). */
+export const MAX_ROSTER_FRIENDS = 3;
+/** Extra AI golfers besides the selected AI opponent. */
+export const MAX_ROSTER_AI = 6;
+export const USER_PLAYER_ID = 'user';
+export const AI_OPPONENT_PLAYER_ID = 'ai';
+/** Same cap the play screen passes to playHole. */
+const MAX_SHOTS_PER_HOLE = 20;
+
+/** "EW 2K", "AI (HCP 12)". */
+export function formatAIProfileLabel(profile: AIProfile): string {
+  return typeof profile === 'number' ? `AI (HCP ${formatHandicapDisplay(profile)})` : profile;
+}
+
+function nextId(players: RosterPlayerSetup[], prefix: string): number {
+  let n = 1;
+  while (players.some((p) => p.id === `${prefix}_${n}`)) n++;
+  return n;
+}
+
+export function createFriendSetup(players: RosterPlayerSetup[], handicap: number): RosterPlayerSetup {
+  const n = nextId(players, 'friend');
+  return { id: `friend_${n}`, name: `Friend ${n}`, kind: 'human', handicap };
+}
+
+export function createRosterAISetup(players: RosterPlayerSetup[], aiProfile: AIProfile): RosterPlayerSetup {
+  const n = nextId(players, 'ai');
+  return {
+    id: `ai_${n}`,
+    name: formatAIProfileLabel(aiProfile),
+    kind: 'ai',
+    handicap: getAIPlayingHandicap(aiProfile),
+    aiProfile,
+  };
+}
+
+/** Round roster from the setup. A tee set the course does not have (roster kept from another course) falls back to the round's. */
+export function createRoundRoster(
+  setups: RosterPlayerSetup[],
+  userHandicap: number,
+  holeCount: number,
+  teeSetNames: string[]
+): RoundRoster {
+  return {
+    userHandicap,
+    players: setups.map((p) => ({
+      ...p,
+      name: p.name.trim() || 'Friend',
+      teeSet: p.teeSet && teeSetNames.includes(p.teeSet) ? p.teeSet : undefined,
+      scoresByHole: Array(holeCount),
+      ...(p.kind === 'ai' && { aiStatsByHole: Array(holeCount) }),
+    })),
+  };
+}
+
+/** Tee the player plays from: their own, else the round's. */
+export function getRosterPlayerTeeSet(player: RosterPlayerSetup, roundTeeSet: string | undefined): string | undefined {
+  return player.teeSet ?? roundTeeSet;
+}
+
+/** Play one hole for every AI roster player that has not played it, each from their own tee with its own stream. */
+export function playRosterAIHole(
+  roster: RoundRoster,
+  courseName: string,
+  holeNumber: number,
+  roundTeeSet: string | undefined,
+  seed: number
+): RoundRoster {
+  let changed = false;
+  const players = roster.players.map((p, index): RosterPlayer => {
+    if (p.kind !== 'ai' || p.scoresByHole[holeNumber - 1] != null) return p;
+    const setup = getAIHoleSetup(courseName, holeNumber, getRosterPlayerTeeSet(p, roundTeeSet));
+    if (!setup) return p;
+    const ai = new AIGolfer(p.aiProfile ?? p.handicap, { ...setup.teeGreen.tee });
+    const shots = ai.playHole(setup.teeGreen.green, MAX_SHOTS_PER_HOLE, setup.trees, {
+      ...setup.playOptions,
+      // Own salt range: 1000s are the tournament field, 2000s scramble teams, 3000s the user's scramble shots
+      rng: createSeededRng(deriveSeed(deriveSeed(seed, 4000 + index), holeNumber)),
+    });
+    const scoresByHole = [...p.scoresByHole];
+    const aiStatsByHole = [...(p.aiStatsByHole ?? [])];
+    scoresByHole[holeNumber - 1] = shots.length;
+    aiStatsByHole[holeNumber - 1] = deriveAIHoleStats(shots, setup.par);
+    changed = true;
+    return { ...p, scoresByHole, aiStatsByHole };
+  });
+  return changed ? { ...roster, players } : roster;
+}
+
+/** Set (or clear, with score undefined) a friend's score on a hole. */
+export function setRosterPlayerScore(
+  roster: RoundRoster,
+  playerId: string,
+  holeNumber: number,
+  score: number | undefined
+): RoundRoster {
+  return {
+    ...roster,
+    players: roster.players.map((p) => {
+      if (p.id !== playerId) return p;
+      const scoresByHole = [...p.scoresByHole];
+      scoresByHole[holeNumber - 1] = score;
+      return { ...p, scoresByHole };
+    }),
+  };
+}
+
+/** Gross, net and to-par over the holes played, with par and stroke index from the player's tee. */
+export function getPlayerTotals(
+  scoresByHole: (number | undefined)[],
+  handicap: number,
+  courseName: string,
+  teeSet: string | undefined
+): PlayerTotals {
+  const totals: PlayerTotals = { holesPlayed: 0, gross: 0, net: 0, toPar: 0, strokesReceived: 0 };
+  scoresByHole.forEach((score, i) => {
+    if (score == null) return;
+    const info = getHoleInfoForCourse(courseName, i + 1, teeSet);
+    const strokes = getStrokesReceivedOnHole(handicap, info.strokeIndex);
+    totals.holesPlayed++;
+    totals.gross += score;
+    totals.net += score - strokes;
+    totals.toPar += score - info.par;
+    totals.strokesReceived += strokes;
+  });
+  return totals;
+}
+
+export function toSavedRosterPlayers(
+  roster: RoundRoster,
+  courseName: string,
+  roundTeeSet: string | undefined,
+  holeCount: number
+): SavedRosterPlayer[] {
+  return roster.players.map((p) => {
+    const teeSet = getRosterPlayerTeeSet(p, roundTeeSet);
+    const totals = getPlayerTotals(p.scoresByHole.slice(0, holeCount), p.handicap, courseName, teeSet);
+    const scoring = { birdiesOrBetter: 0, pars: 0, bogeys: 0, doublesOrWorse: 0 };
+    let putts = 0;
+    let fairwaysHit = 0;
+    let fairwaysPossible = 0;
+    let girHit = 0;
+    p.scoresByHole.slice(0, holeCount).forEach((score, i) => {
+      if (score == null) return;
+      const { par } = getHoleInfoForCourse(courseName, i + 1, teeSet);
+      const diff = score - par;
+      if (diff < 0) scoring.birdiesOrBetter++;
+      else if (diff === 0) scoring.pars++;
+      else if (diff === 1) scoring.bogeys++;
+      else scoring.doublesOrWorse++;
+      const stats = p.aiStatsByHole?.[i];
+      if (stats) {
+        putts += stats.putts;
+        if (par >= 4) {
+          fairwaysPossible++;
+          if (stats.fairwayHit) fairwaysHit++;
+        }
+        if (stats.girHit) girHit++;
+      }
+    });
+    return {
+      id: p.id,
+      name: p.name,
+      kind: p.kind,
+      handicap: p.handicap,
+      ...(teeSet && { teeSet }),
+      ...(p.aiProfile != null && { aiProfile: p.aiProfile }),
+      scoresByHole: p.scoresByHole.slice(0, holeCount),
+      holesPlayed: totals.holesPlayed,
+      total: totals.gross,
+      netTotal: totals.net,
+      toPar: totals.toPar,
+      ...(p.kind === 'ai' && { putts, fairwaysHit, fairwaysPossible, girHit }),
+      ...scoring,
+    };
+  });
+}
+
+/**
+ * Everyone in the group (user, selected AI, roster) ordered by net score to par, or null without a roster.
+ * Players who have not started sort last.
+ */
+export function getRoundGroupStandings(round: CurrentRoundState, aiProfile: AIProfile): GroupStanding[] | null {
+  const roster = round.roster;
+  if (!roster || !round.courseName) return null;
+  const { courseName, selectedTeeSet } = round;
+  const aiHandicap = getAIPlayingHandicap(aiProfile);
+  const standings: GroupStanding[] = [
+    {
+      id: USER_PLAYER_ID,
+      name: 'You',
+      kind: 'user',
+      handicap: roster.userHandicap,
+      teeSet: selectedTeeSet,
+      totals: getPlayerTotals(round.userScoresByHole, roster.userHandicap, courseName, selectedTeeSet),
+    },
+    {
+      id: AI_OPPONENT_PLAYER_ID,
+      name: formatAIProfileLabel(aiProfile),
+      kind: 'ai',
+      handicap: aiHandicap,
+      teeSet: selectedTeeSet,
+      totals: getPlayerTotals(round.aiScoresByHole, aiHandicap, courseName, selectedTeeSet),
+    },
+    ...roster.players.map((p): GroupStanding => {
+      const teeSet = getRosterPlayerTeeSet(p, selectedTeeSet);
+      return {
+        id: p.id,
+        name: p.name,
+        kind: p.kind,
+        handicap: p.handicap,
+        teeSet,
+        totals: getPlayerTotals(p.scoresByHole, p.handicap, courseName, teeSet),
+      };
+    }),
+  ];
+  const netToPar = (s: GroupStanding) => s.totals.toPar - s.totals.strokesReceived;
+  return standings.sort((a, b) => {
+    if ((a.totals.holesPlayed === 0) !== (b.totals.holesPlayed === 0)) return a.totals.holesPlayed === 0 ? 1 : -1;
+    return netToPar(a) - netToPar(b);
+  });
+}
+
+/** Lifetime record against each friend (by name), most rounds together first. */
+export function getRosterPartnerRecords(rounds: SavedRound[]): RosterPartnerRecord[] {
+  const byName = new Map<string, RosterPartnerRecord & { totalScore: number }>();
+  rounds.forEach((r) => {
+    const userComplete = r.userScoresByHole.filter((s) => s != null).length === r.holeCount;
+    (r.roster ?? []).forEach((p) => {
+      if (p.kind !== 'human' || p.holesPlayed < r.holeCount) return;
+      const key = p.name.trim().toLowerCase();
+      const record = byName.get(key) ?? {
+        name: p.name.trim(),
+        rounds: 0,
+        avgScore: 0,
+        bestScore: p.total,
+        won: 0,
+        lost: 0,
+        tied: 0,
+        totalScore: 0,
+      };
+      record.rounds++;
+      record.totalScore += p.total;
+      record.bestScore = Math.min(record.bestScore, p.total);
+      if (userComplete) {
+        if (r.userTotal < p.total) record.won++;
+        else if (r.userTotal > p.total) record.lost++;
+        else record.tied++;
+      }
+      byName.set(key, record);
+    });
+  });
+  return [...byName.values()]
+    .map(({ totalScore, ...record }) => ({ ...record, avgScore: totalScore / record.rounds }))
+    .sort((a, b) => b.rounds - a.rounds);
+}
@@ -0,0 +1,200 @@
+/**
+ * Strokes gained per shot from AI shot history and tracked user shots, summed per hole and round and averaged
+ * per 18 holes over saved rounds.
+ * SG for a stroke = expected(start) − expected(next start) − 1 − penalty strokes; the holing stroke has expected(next) = 0.
+ */
+
+import type { ShotHistory } from './AIGolfer';
+import type { HoleFeaturesForAI } from '../data/lincolnParkCourse';
+import { getLieFromPosition } from '../data/lincolnParkCourse';
+import { getExpectedStrokes } from '../data/strokesGainedBaseline';
+import { baselineLieFor } from '../engine/SurfaceLies';
+import { calculateHaversineDistance } from './haversine';
+import type { SavedRound } from '../types/roundHistory';
+import type { UserHoleShots } from '../types/userShots';
+import type {
+  StrokesGainedCategory,
+  StrokesGainedComparison,
+  StrokesGainedLie,
+  StrokesGainedShot,
+  StrokesGainedSummary,
+  StrokesGainedTotals,
+} from '../types/strokesGained';
+
+type LatLng = { lat: number; lng: number };
+
+const YARDS_PER_METER = 1.09361;
+/** Off-green shots within this many yards count as around-the-green. */
+const AROUND_GREEN_YARDS = 30;
+/** AI ball this close to the pin after its last shot = holed (AI puts a holed ball exactly on the pin). */
+const HOLED_METERS = 0.2;
+/** Without hole features, AI shots from within this distance are treated as putts (same as PUTT_MAX_METERS). */
+const AI_PUTT_METERS = 18;
+/** Putts entered without a marked position: first putt on the hole from 20 ft, follow-up putts from 3 ft. */
+const UNMARKED_FIRST_PUTT_YARDS = 20 / 3;
+const UNMARKED_NEXT_PUTT_YARDS = 1;
+
+/** A stroke played from a lie at a distance, plus any penalty strokes it cost. */
+interface StrokeStart {
+  shotNumber: number;
+  lie: StrokesGainedLie;
+  distanceYards: number;
+  penaltyStrokes: number;
+}
+
+function yardsBetween(a: LatLng, b: LatLng): number {
+  return calculateHaversineDistance(a, b) * YARDS_PER_METER;
+}
+
+function getCategory(start: StrokeStart, par: number): StrokesGainedCategory {
+  if (start.lie === 'green') return 'putt';
+  if (start.lie === 'tee' && par >= 4) return 'ott';
+  return start.distanceYards <= AROUND_GREEN_YARDS ? 'arg' : 'app';
+}
+
+/** Value every stroke on a holed-out hole against the baseline. */
+function valueStrokes(strokes: StrokeStart[], par: number): StrokesGainedShot[] {
+  return strokes.map((start, i) => {
+    const next = strokes[i + 1];
+    const expectedAfter = next ? getExpectedStrokes(next.lie, next.distanceYards) : 0;
+    const strokesGained = getExpectedStrokes(start.lie, start.distanceYards) - expectedAfter - 1 - start.penaltyStrokes;
+    return {
+      shotNumber: start.shotNumber,
+      category: getCategory(start, par),
+      lie: start.lie,
+      distanceYards: Math.round(start.distanceYards),
+      strokesGained,
+    };
+  });
+}
+
+/**
+ * Strokes gained for each AI shot. The separate penalty-stroke entries that follow a water/OB shot (two under
+ * Local Rule E-5) are charged to that shot. Returns [] when the hole was not holed out (stroke cap reached).
+ */
+export function getAIShotsStrokesGained(
+  shots: ShotHistory[],
+  par: number,
+  green: LatLng,
+  holeFeatures: HoleFeaturesForAI | null
+): StrokesGainedShot[] {
+  const last = shots[shots.length - 1];
+  if (!last || calculateHaversineDistance(last.toPosition, green) > HOLED_METERS) return [];
+  const strokes: StrokeStart[] = [];
+  shots.forEach((shot, i) => {
+    if (i > 0 && (shot.penaltyStroke || shots[i - 1].penalty)) {
+      strokes[strokes.length - 1].penaltyStrokes++;
+      return;
+    }
+    const meters = calculateHaversineDistance(shot.fromPosition, green);
+    const lie: StrokesGainedLie =
+      i === 0
+        ? 'tee'
+        : holeFeatures
+          ? baselineLieFor(getLieFromPosition(shot.fromPosition, holeFeatures))
+          : meters <= AI_PUTT_METERS
+            ? 'green'
+            : 'fairway';
+    strokes.push({ shotNumber: shot.shotNumber, lie, distanceYards: meters * YARDS_PER_METER, penaltyStrokes: 0 });
+  });
+  return valueStrokes(strokes, par);
+}
+
+/** Strokes gained for each tracked user shot. Returns [] until the hole is holed. */
+export function getUserShotsStrokesGained(hole: UserHoleShots, par: number, green: LatLng): StrokesGainedShot[] {
+  if (!hole.holed || hole.shots.length === 0) return [];
+  let unmarkedPutts = 0;
+  const strokes: StrokeStart[] = hole.shots.map((shot) => {
+    let distanceYards: number;
+    if (shot.position) {
+      distanceYards = yardsBetween(shot.position, green);
+    } else {
+      distanceYards = unmarkedPutts === 0 ? UNMARKED_FIRST_PUTT_YARDS : UNMARKED_NEXT_PUTT_YARDS;
+      unmarkedPutts++;
+    }
+    return {
+      shotNumber: shot.shotNumber,
+      lie: shot.position ? baselineLieFor(shot.lie) : 'green',
+      distanceYards,
+      penaltyStrokes: shot.penaltyStrokes,
+    };
+  });
+  return valueStrokes(strokes, par);
+}
+
+function emptyTotals(): StrokesGainedTotals {
+  return { ott: 0, app: 0, arg: 0, putt: 0, total: 0, holes: 0 };
+}
+
+/** Sum shots on one hole into category totals. */
+export function getHoleStrokesGained(shots: StrokesGainedShot[]): StrokesGainedTotals | undefined {
+  if (shots.length === 0) return undefined;
+  const totals = emptyTotals();
+  shots.forEach((s) => {
+    totals[s.category] += s.strokesGained;
+    totals.total += s.strokesGained;
+  });
+  totals.holes = 1;
+  return totals;
+}
+
+/** Add hole (or round) totals together; null when none have data. */
+export function sumStrokesGained(parts: (StrokesGainedTotals | undefined)[]): StrokesGainedTotals | null {
+  const present = parts.filter((p): p is StrokesGainedTotals => p != null);
+  if (present.length === 0) return null;
+  return present.reduce(
+    (sum, p) => ({
+      ott: sum.ott + p.ott,
+      app: sum.app + p.app,
+      arg: sum.arg + p.arg,
+      putt: sum.putt + p.putt,
+      total: sum.total + p.total,
+      holes: sum.holes + p.holes,
+    }),
+    emptyTotals()
+  );
+}
+
+/** Average per 18 holes over rounds' totals, so partly tracked rounds compare fairly. */
+export function summarizeStrokesGained(roundTotals: (StrokesGainedTotals | undefined)[]): StrokesGainedSummary | null {
+  const sum = sumStrokesGained(roundTotals);
+  if (!sum || sum.holes === 0) return null;
+  const per18 = 18 / sum.holes;
+  return {
+    ott: sum.ott * per18,
+    app: sum.app * per18,
+    arg: sum.arg * per18,
+    putt: sum.putt * per18,
+    total: sum.total * per18,
+    holes: sum.holes,
+    rounds: roundTotals.filter((t) => t != null).length,
+  };
+}
+
+/** User vs AI strokes gained over saved rounds, with the AI broken down by profile. */
+export function compareStrokesGained(rounds: SavedRound[]): StrokesGainedComparison {
+  const byProfile = new Map<string, SavedRound[]>();
+  rounds.forEach((r) => {
+    if (!r.aiStrokesGained) return;
+    const key = String(r.aiProfile);
+    byProfile.set(key, [...(byProfile.get(key) ?? []), r]);
+  });
+  const byAIProfile = [...byProfile.values()]
+    .map((profileRounds) => ({
+      aiProfile: profileRounds[0].aiProfile,
+      summary: summarizeStrokesGained(profileRounds.map((r) => r.aiStrokesGained))!,
+    }))
+    .sort((a, b) => b.summary.total - a.summary.total);
+  return {
+    user: summarizeStrokesGained(rounds.map((r) => r.userStrokesGained)),
+    ai: summarizeStrokesGained(rounds.map((r) => r.aiStrokesGained)),
+    byAIProfile,
+  };
+}
+
+/** Signed to two decimals, e.g. "+0.42", "−1.10". */
+export function formatStrokesGained(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  if (rounded === 0) return '0.00';
+  return `${rounded > 0 ? '+' : '−'}${Math.abs(rounded).toFixed(2)}`;
+}
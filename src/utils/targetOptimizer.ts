@@ -0,0 +1,145 @@
+/**
+ * Smart Caddie target optimizer: "where should I aim, with what?" For the ball position it tries every club in the
+ * user's bag at a fan of aim points left and right of the pin line, simulates each candidate many times with the
+ * DispersionCalculator parameters for the golfer's handicap, classifies each landing with getLieFromPosition and
+ * scores it by expected strokes to hole out (strokes-gained baseline). The lowest mean wins.
+ *
+ * All candidates share the same random draws (common random numbers), so differences between aim points come from
+ * the course, not from sampling noise. Water costs a penalty stroke and the next shot is played from rough at the
+ * same distance; trees and out of bounds are not modelled here.
+ */
+
+import { DispersionCalculator, type DispersionParams } from '../engine/DispersionCalculator';
+import { getLieFromPosition, type HoleFeaturesForAI } from '../data/lincolnParkCourse';
+import { getExpectedStrokes } from '../data/strokesGainedBaseline';
+import { baselineLieFor, isSurfaceLie, SURFACE_LIE_EFFECTS } from '../engine/SurfaceLies';
+import { vincentyDirect, vincentyInverse, boxMullerPair } from './geodesic';
+import { createSeededRng } from './rng';
+import { formatBagClubName } from './myBag';
+import type { BagClub } from '../types/myBag';
+import type { StrokesGainedLie } from '../types/strokesGained';
+import type { GeoCoordinate } from '../types/courseData';
+import type { OptimalTargetResult, TargetCandidate } from '../types/smartCaddie';
+
+const YARDS_TO_METERS = 0.9144;
+const DEFAULT_SAMPLES = 200;
+/** Aim offsets across the line to the pin (yards at 180 yd; scaled down for shorter shots). */
+const LATERAL_OFFSETS_YARDS = [-36, -27, -18, -9, 0, 9, 18, 27, 36];
+/** Clubs that carry past the pin: only the shortest few are tried, as partial swings to the pin. */
+const MAX_PARTIAL_CLUBS = 2;
+/** Inside this, shots use the chip dispersion. */
+const CHIP_DISTANCE_YARDS = 30;
+
+export interface TargetOptimizerInput {
+  ball: GeoCoordinate;
+  pin: GeoCoordinate;
+  features: HoleFeaturesForAI;
+  /** Clubs in the bag (totals are used as full-swing distances). */
+  clubs: BagClub[];
+  handicap: number;
+  /** Lie of the ball; detected from the features when omitted. */
+  lie?: StrokesGainedLie;
+  samplesPerCandidate?: number;
+  /** Fixed seed so the answer does not flicker between renders. */
+  seed?: number;
+}
+
+/** DispersionParams are documented as fractions, but the bunker override is in percent; accept both. */
+function distanceSpreadFraction(params: DispersionParams): number {
+  return params.distanceStdDevPercent > 1 ? params.distanceStdDevPercent / 100 : params.distanceStdDevPercent;
+}
+
+function dispersionFor(calculator: DispersionCalculator, lie: StrokesGainedLie, intendedYards: number): DispersionParams {
+  if (lie === 'bunker') return calculator.getBunkerDispersion();
+  if (intendedYards < CHIP_DISTANCE_YARDS) return calculator.getChipDispersion();
+  return calculator.getFullShotDispersion();
+}
+
+/** Expected strokes to hole out after a shot lands here (penalty stroke included for water). */
+function strokesAfterLanding(landing: GeoCoordinate, pin: GeoCoordinate, features: HoleFeaturesForAI) {
+  const lie = getLieFromPosition(landing, features);
+  const yards = vincentyInverse(landing, pin).distance / YARDS_TO_METERS;
+  if (lie === 'water') return { lie, strokes: 1 + getExpectedStrokes('rough', yards) };
+  return { lie, strokes: getExpectedStrokes(baselineLieFor(lie), yards) };
+}
+
+/** Clubs worth trying: every club that does not reach the pin, plus the shortest few that do (as partials). */
+function candidateClubs(clubs: BagClub[], pinYards: number): BagClub[] {
+  const sorted = clubs.filter((c) => c.inBag).sort((a, b) => a.totalYards - b.totalYards);
+  const reaching = sorted.filter((c) => c.totalYards >= pinYards).slice(0, MAX_PARTIAL_CLUBS);
+  return [...sorted.filter((c) => c.totalYards < pinYards), ...reaching];
+}
+
+/** Best aim point and club for the ball, with every candidate for the heatmap. Null on the green or with an empty bag. */
+export function findOptimalTarget(input: TargetOptimizerInput): OptimalTargetResult | null {
+  const { ball, pin, features, handicap } = input;
+  const samples = input.samplesPerCandidate ?? DEFAULT_SAMPLES;
+  const { distance: pinMeters, initialBearing: pinBearing } = vincentyInverse(ball, pin);
+  const pinYards = pinMeters / YARDS_TO_METERS;
+  const clubs = candidateClubs(input.clubs, pinYards);
+  if (clubs.length === 0) return null;
+
+  const detectedLie = getLieFromPosition(ball, features);
+  const ballLie: StrokesGainedLie = input.lie ?? baselineLieFor(detectedLie);
+  if (ballLie === 'green') return null;
+  /** Fringe, first cut, waste, native…: the surface's dispersion multiplier on top of the handicap's. */
+  const surfaceSpread = !input.lie && isSurfaceLie(detectedLie) ? SURFACE_LIE_EFFECTS[detectedLie].dispersion : 1;
+  const calculator = new DispersionCalculator(handicap);
+  const rng = createSeededRng(input.seed ?? 1);
+  const draws = Array.from({ length: samples }, () => boxMullerPair(rng));
+
+  const candidates: TargetCandidate[] = [];
+  clubs.forEach((club) => {
+    const intendedYards = Math.min(club.totalYards, pinYards);
+    const intendedMeters = intendedYards * YARDS_TO_METERS;
+    const lieParams = dispersionFor(calculator, ballLie, intendedYards);
+    const params = {
+      distanceStdDevPercent: lieParams.distanceStdDevPercent * surfaceSpread,
+      angularStdDevDegrees: lieParams.angularStdDevDegrees * surfaceSpread,
+    };
+    const distanceSigma = intendedMeters * distanceSpreadFraction(params);
+    const scale = Math.max(0.25, Math.min(1, intendedYards / 180));
+    LATERAL_OFFSETS_YARDS.forEach((offset) => {
+      const lateralYards = offset * scale;
+      const aimBearing = pinBearing + (Math.atan2(lateralYards, intendedYards) * 180) / Math.PI;
+      let total = 0;
+      let water = 0;
+      let bunker = 0;
+      let green = 0;
+      draws.forEach(([zDistance, zAngle]) => {
+        const carry = Math.max(0, intendedMeters + zDistance * distanceSigma);
+        const bearing = (aimBearing + zAngle * params.angularStdDevDegrees + 360) % 360;
+        const { lie, strokes } = strokesAfterLanding(vincentyDirect(ball, bearing, carry), pin, features);
+        total += 1 + strokes;
+        if (lie === 'water') water++;
+        else if (lie === 'bunker') bunker++;
+        else if (lie === 'green') green++;
+      });
+      candidates.push({
+        aimPoint: vincentyDirect(ball, (aimBearing + 360) % 360, intendedMeters),
+        clubKey: club.key,
+        clubName: formatBagClubName(club.key),
+        intendedYards: Math.round(intendedYards),
+        lateralOffsetYards: Math.round(lateralYards),
+        expectedStrokes: total / samples,
+        waterProbability: water / samples,
+        bunkerProbability: bunker / samples,
+        greenProbability: green / samples,
+      });
+    });
+  });
+
+  const best = candidates.reduce((a, b) => (b.expectedStrokes < a.expectedStrokes ? b : a));
+  return {
+    best,
+    candidates,
+    currentExpectedStrokes: getExpectedStrokes(ballLie, pinYards),
+    samplesPerCandidate: samples,
+  };
+}
+
+/** "8 yds left of the pin", "on the pin line". */
+export function describeAimOffset(lateralOffsetYards: number): string {
+  if (Math.abs(lateralOffsetYards) < 2) return 'on the pin line';
+  return `${Math.abs(lateralOffsetYards)} yds ${lateralOffsetYards < 0 ? 'left' : 'right'} of the pin`;
+}
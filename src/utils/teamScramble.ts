@@ -0,0 +1,256 @@
+/**
+ * Team best-ball scramble engine. Every member plays a shot from the team's spot; the best ball is chosen by
+ * distance to the pin weighted by lie (getLieFromPosition), and everyone plays the next shot from there.
+ * AI members (and whole opposing AI teams) are simulated one shot at a time with AIGolfer.playHole; human
+ * members' balls are marked on the map. Holes are capped at triple par like the AI's own holes.
+ */
+
+import { AIGolfer } from './AIGolfer';
+import { getAIHoleSetup, type AIHoleSetup } from './aiHoleSetup';
+import { calculateHaversineDistance } from './haversine';
+import { isInBounds } from './courseLie';
+import { createSeededRng, deriveSeed, type Rng } from './rng';
+import { getLieFromPosition, type HoleFeaturesForAI } from '../data/lincolnParkCourse';
+import { formatHandicapDisplay } from '../data/clubDistancesByHandicap';
+import type { TeamScrambleOptions } from '../types/gameSettings';
+import type { RosterPlayerSetup } from '../types/roster';
+import type {
+  ScrambleCandidate,
+  ScrambleHoleState,
+  ScrambleMember,
+  ScrambleTeam,
+  SavedTeamScrambleResult,
+} from '../types/teamScramble';
+
+type LatLng = { lat: number; lng: number };
+type Lie = ReturnType<typeof getLieFromPosition>;
+
+export const USER_MEMBER_ID = 'user';
+
+/** Within this distance of the pin the ball is in the hole. */
+const HOLED_METERS = 0.05;
+/** Effective distance = distance to pin × factor, so a fairway ball beats a slightly closer one in the bunker. */
+const LIE_DISTANCE_FACTOR: Record<Lie, number> = {
+  green: 1,
+  fairway: 1,
+  rough: 1.2,
+  bunker: 1.4,
+  water: Number.POSITIVE_INFINITY,
+  fringe: 1,
+  first_cut: 1.05,
+  cart_path: 1,
+  waste: 1.3,
+  native: 1.6,
+  gur: 1,
+};
+/** Second AI on a team plays this many strokes higher than the first. */
+const TEAMMATE_HANDICAP_OFFSET = 4;
+
+function aiMember(id: string, handicap: number, label: string): ScrambleMember {
+  return { id, name: `${label} (${formatHandicapDisplay(handicap)})`, kind: 'ai', handicap };
+}
+
+/**
+ * Team 0: the user plus a friend (marked on the map) or an AI partner at the selected AI's handicap. The friend is
+ * the first friend on the roster when there is one (name and handicap), else a partner at the user's handicap.
+ * Opposing teams: two AI members each, around the selected AI's handicap.
+ */
+export function createScrambleTeams(
+  options: TeamScrambleOptions,
+  aiHandicap: number,
+  userHandicap: number,
+  holeCount: number,
+  friend?: RosterPlayerSetup
+): ScrambleTeam[] {
+  const partner: ScrambleMember =
+    options.partnerType === 'friend'
+      ? { id: 'partner', name: friend?.name ?? 'Partner', kind: 'human', handicap: friend?.handicap ?? userHandicap }
+      : aiMember('partner', aiHandicap, 'AI partner');
+  const teams: ScrambleTeam[] = [
+    {
+      id: 'team_user',
+      name: 'Your team',
+      members: [{ id: USER_MEMBER_ID, name: 'You', kind: 'human', handicap: userHandicap }, partner],
+      scoresByHole: Array(holeCount),
+      shotsUsedByHole: Array(holeCount),
+    },
+  ];
+  for (let t = 1; t <= options.opponentsCount; t++) {
+    teams.push({
+      id: `team_ai_${t}`,
+      name: `AI team ${t}`,
+      members: [
+        aiMember(`team_ai_${t}_a`, aiHandicap, `AI ${t}A`),
+        aiMember(`team_ai_${t}_b`, aiHandicap + TEAMMATE_HANDICAP_OFFSET, `AI ${t}B`),
+      ],
+      scoresByHole: Array(holeCount),
+      shotsUsedByHole: Array(holeCount),
+    });
+  }
+  return teams;
+}
+
+/** Candidate from a ball marked on the map (human member). */
+export function markedCandidate(
+  memberId: string,
+  position: LatLng,
+  holed: boolean,
+  green: LatLng,
+  features: HoleFeaturesForAI | null,
+  courseName: string
+): ScrambleCandidate {
+  const penalty = !holed && ((features != null && getLieFromPosition(position, features) === 'water') || !isInBounds(position, courseName));
+  return { memberId, toPosition: holed ? green : position, holed, penalty };
+}
+
+/**
+ * Best ball: a holed ball wins; otherwise the lowest lie-weighted distance to the pin among balls not in a
+ * penalty area. Null when every ball is penalized (team replays from the same spot).
+ */
+export function chooseBestBall(
+  candidates: ScrambleCandidate[],
+  green: LatLng,
+  features: HoleFeaturesForAI | null
+): ScrambleCandidate | null {
+  const holed = candidates.find((c) => c.holed);
+  if (holed) return holed;
+  let best: ScrambleCandidate | null = null;
+  let bestScore = Number.POSITIVE_INFINITY;
+  for (const c of candidates) {
+    if (c.penalty) continue;
+    const lie: Lie = features ? getLieFromPosition(c.toPosition, features) : 'fairway';
+    const score = calculateHaversineDistance(c.toPosition, green) * LIE_DISTANCE_FACTOR[lie];
+    if (score < bestScore) {
+      best = c;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function startScrambleHole(holeNumber: number, tee: LatLng): ScrambleHoleState {
+  return { holeNumber, position: { ...tee }, strokes: 0, shotsUsedBy: {}, holed: false, lastChosenMemberId: null };
+}
+
+/**
+ * Advance the team one shot. When every ball is penalized the team takes stroke-and-distance (+2) from the
+ * same spot. Picks up at triple par.
+ */
+export function applyScrambleShot(
+  state: ScrambleHoleState,
+  candidates: ScrambleCandidate[],
+  green: LatLng,
+  features: HoleFeaturesForAI | null,
+  par: number
+): ScrambleHoleState {
+  const best = chooseBestBall(candidates, green, features);
+  const maxStrokes = par * 3;
+  if (!best) {
+    const strokes = Math.min(maxStrokes, state.strokes + 2);
+    return { ...state, strokes, holed: strokes >= maxStrokes, lastChosenMemberId: null };
+  }
+  const strokes = state.strokes + 1;
+  return {
+    ...state,
+    position: best.holed ? { ...green } : { ...best.toPosition },
+    strokes,
+    shotsUsedBy: { ...state.shotsUsedBy, [best.memberId]: (state.shotsUsedBy[best.memberId] ?? 0) + 1 },
+    holed: best.holed || strokes >= maxStrokes,
+    lastChosenMemberId: best.memberId,
+  };
+}
+
+/** Simulate one member's shot from the team's spot. */
+export function simulateScrambleShot(
+  member: ScrambleMember,
+  state: ScrambleHoleState,
+  setup: AIHoleSetup,
+  rng: Rng
+): ScrambleCandidate {
+  const green = setup.teeGreen.green;
+  const ai = new AIGolfer(member.handicap, { ...state.position });
+  const [shot] = ai.playHole(green, 1, setup.trees, {
+    ...setup.playOptions,
+    rng,
+    firstShotNumber: state.strokes + 1,
+  });
+  if (!shot) return { memberId: member.id, toPosition: { ...state.position }, holed: false, penalty: false };
+  const holed = shot.penalty == null && calculateHaversineDistance(shot.toPosition, green) < HOLED_METERS;
+  return { memberId: member.id, toPosition: shot.toPosition, holed, penalty: shot.penalty != null };
+}
+
+/** Simulate a whole hole for an all-simulated team. */
+export function simulateScrambleHole(
+  team: ScrambleTeam,
+  holeNumber: number,
+  setup: AIHoleSetup,
+  rng: Rng
+): ScrambleHoleState {
+  let state = startScrambleHole(holeNumber, setup.teeGreen.tee);
+  while (!state.holed) {
+    const current = state;
+    const candidates = team.members.map((m) => simulateScrambleShot(m, current, setup, rng));
+    state = applyScrambleShot(state, candidates, setup.teeGreen.green, setup.holeFeatures, setup.par);
+  }
+  return state;
+}
+
+/** Record a finished hole on a team. */
+export function recordTeamHole(team: ScrambleTeam, state: ScrambleHoleState): ScrambleTeam {
+  const scoresByHole = [...team.scoresByHole];
+  const shotsUsedByHole = [...team.shotsUsedByHole];
+  scoresByHole[state.holeNumber - 1] = state.strokes;
+  shotsUsedByHole[state.holeNumber - 1] = state.shotsUsedBy;
+  return { ...team, scoresByHole, shotsUsedByHole };
+}
+
+/** Play the hole for every opposing team that has not played it. Each team has its own seeded stream. */
+export function playOpposingTeamsHole(
+  teams: ScrambleTeam[],
+  courseName: string,
+  holeNumber: number,
+  teeSet: string | undefined,
+  seed: number
+): ScrambleTeam[] {
+  const setup = getAIHoleSetup(courseName, holeNumber, teeSet);
+  if (!setup) return teams;
+  return teams.map((team, index) => {
+    if (index === 0 || team.scoresByHole[holeNumber - 1] != null) return team;
+    const rng = createSeededRng(deriveSeed(deriveSeed(seed, 2000 + index), holeNumber));
+    return recordTeamHole(team, simulateScrambleHole(team, holeNumber, setup, rng));
+  });
+}
+
+export function getTeamTotal(team: ScrambleTeam): number {
+  return team.scoresByHole.reduce<number>((sum, s) => sum + (s ?? 0), 0);
+}
+
+/** Shots used per member over the round. */
+export function getTeamShotsUsed(team: ScrambleTeam): Record<string, number> {
+  const totals: Record<string, number> = Object.fromEntries(team.members.map((m) => [m.id, 0]));
+  team.shotsUsedByHole.forEach((used) => {
+    if (!used) return;
+    Object.entries(used).forEach(([id, n]) => {
+      totals[id] = (totals[id] ?? 0) + n;
+    });
+  });
+  return totals;
+}
+
+/** Result saved with the round. Position counts teams with a strictly lower total over the holes the user's team played. */
+export function toSavedTeamScrambleResult(teams: ScrambleTeam[]): SavedTeamScrambleResult {
+  const played = teams[0]?.scoresByHole.map((s) => s != null) ?? [];
+  const totalOverPlayed = (team: ScrambleTeam) =>
+    team.scoresByHole.reduce<number>((sum, s, i) => sum + (played[i] ? s ?? 0 : 0), 0);
+  const userTotal = teams[0] ? totalOverPlayed(teams[0]) : 0;
+  return {
+    teams: teams.map((team) => ({
+      name: team.name,
+      members: team.members.map((m) => ({ id: m.id, name: m.name })),
+      total: getTeamTotal(team),
+      scoresByHole: team.scoresByHole,
+      shotsUsed: getTeamShotsUsed(team),
+    })),
+    position: 1 + teams.slice(1).filter((t) => totalOverPlayed(t) < userTotal).length,
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Tournament mode: builds an AI field from TournamentOptions, plays the field hole by hole with AIGolfer.playHole
+ * as the user posts scores, and ranks everyone on a leaderboard (gross or net, ties broken by countback on the
+ * last 9/6/3/1 holes once rounds are complete).
+ */
+
+import { AIGolfer } from './AIGolfer';
+import { getAIHoleSetup } from './aiHoleSetup';
+import { getStrokesReceivedOnHole } from './handicapStrokes';
+import { createSeededRng, deriveSeed, type Rng } from './rng';
+import { formatHandicapDisplay } from '../data/clubDistancesByHandicap';
+import { getCourseHoleCount, getHoleInfoForCourse } from '../services/courseBounds';
+import type { CurrentRoundState } from '../types/currentRound';
+import type { AIProfile, TournamentOptions, TournamentPlayStyle } from '../types/gameSettings';
+import type {
+  LeaderboardEntry,
+  RoundTournament,
+  SavedTournamentResult,
+  TournamentCompetitor,
+} from '../types/tournament';
+
+/** Field handicaps spread this many strokes either side of the selected AI's handicap. */
+const FIELD_HANDICAP_SPREAD = 8;
+const MIN_FIELD_HANDICAP = -3;
+const MAX_FIELD_HANDICAP = 28;
+/** Countback segments (last N holes), applied in order after the full-round score. */
+const COUNTBACK_HOLES = [9, 6, 3, 1];
+
+export const USER_ENTRY_ID = 'user';
+export const AI_OPPONENT_ENTRY_ID = 'ai';
+
+/**
+ * Generate the simulated field: fieldSize minus the user and the selected AI opponent. Handicaps are spread evenly
+ * around centerHandicap with a little jitter, then shifted by fieldHandicapVariance (0.1 = each handicap 10% better, so
+ * plus handicaps move further below scratch).
+ */
+export function createTournamentField(
+  options: TournamentOptions,
+  centerHandicap: number,
+  holeCount: number,
+  rng: Rng
+): TournamentCompetitor[] {
+  const count = Math.max(0, options.fieldSize - 2);
+  const field: TournamentCompetitor[] = [];
+  for (let i = 0; i < count; i++) {
+    const spreadPos = count > 1 ? i / (count - 1) : 0.5;
+    const base = centerHandicap - FIELD_HANDICAP_SPREAD + spreadPos * FIELD_HANDICAP_SPREAD * 2;
+    const jitter = (rng.next() - 0.5) * 2;
+    const h = base + jitter;
+    const scaled = h - Math.abs(h) * options.fieldHandicapVariance;
+    const handicap = Math.round(Math.max(MIN_FIELD_HANDICAP, Math.min(MAX_FIELD_HANDICAP, scaled)));
+    field.push({
+      id: `field_${i + 1}`,
+      name: `Field ${i + 1} (${formatHandicapDisplay(handicap)})`,
+      handicap,
+      scoresByHole: Array(holeCount),
+    });
+  }
+  return field;
+}
+
+/** Play one hole for every competitor. Each competitor/hole has its own stream derived from the round seed. */
+export function playFieldHole(
+  field: TournamentCompetitor[],
+  courseName: string,
+  holeNumber: number,
+  teeSet: string | undefined,
+  seed: number
+): TournamentCompetitor[] {
+  const setup = getAIHoleSetup(courseName, holeNumber, teeSet);
+  if (!setup) return field;
+
+  return field.map((c, index) => {
+    if (c.scoresByHole[holeNumber - 1] != null) return c;
+    const ai = new AIGolfer(c.handicap, { ...setup.teeGreen.tee });
+    const shots = ai.playHole(setup.teeGreen.green, 20, setup.trees, {
+      ...setup.playOptions,
+      rng: createSeededRng(deriveSeed(deriveSeed(seed, 1000 + index), holeNumber)),
+    });
+    const scoresByHole = [...c.scoresByHole];
+    scoresByHole[holeNumber - 1] = shots.length;
+    return { ...c, scoresByHole };
+  });
+}
+
+interface RankedEntry {
+  entry: Omit<LeaderboardEntry, 'position' | 'positionLabel'>;
+  /** Per-hole score used for ranking (gross or net), for countback. */
+  rankScores: (number | undefined)[];
+}
+
+function sumLastHoles(scores: (number | undefined)[], holeCount: number, lastN: number): number {
+  let sum = 0;
+  for (let i = Math.max(0, holeCount - lastN); i < holeCount; i++) sum += scores[i] ?? 0;
+  return sum;
+}
+
+/** Countback on the last 9/6/3/1 holes of complete rounds; negative when `a` scored better. */
+function compareCountback(a: RankedEntry, b: RankedEntry, holeCount: number): number {
+  for (const lastN of COUNTBACK_HOLES) {
+    const diff = sumLastHoles(a.rankScores, holeCount, lastN) - sumLastHoles(b.rankScores, holeCount, lastN);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Rank entrants. Position comes from to-par; entrants level on to-par share it (T3) unless all of them have finished,
+ * when countback splits them. Within a shared position, more holes played then id fix the listing order. Entrants
+ * who have not started sort last.
+ */
+export function buildLeaderboard(
+  entrants: TournamentCompetitor[],
+  parByHole: number[],
+  strokeIndexByHole: (number | undefined)[],
+  playStyle: TournamentPlayStyle
+): LeaderboardEntry[] {
+  const holeCount = parByHole.length;
+  const ranked: RankedEntry[] = entrants.map((c) => {
+    let thru = 0;
+    let gross = 0;
+    let net = 0;
+    let par = 0;
+    const rankScores: (number | undefined)[] = Array(holeCount);
+    for (let i = 0; i < holeCount; i++) {
+      const s = c.scoresByHole[i];
+      if (s == null) continue;
+      const holeNet = s - getStrokesReceivedOnHole(c.handicap, strokeIndexByHole[i]);
+      thru++;
+      gross += s;
+      net += holeNet;
+      par += parByHole[i];
+      rankScores[i] = playStyle === 'net' ? holeNet : s;
+    }
+    const toPar = (playStyle === 'net' ? net : gross) - par;
+    return { entry: { id: c.id, name: c.name, handicap: c.handicap, thru, gross, net, toPar }, rankScores };
+  });
+
+  const started = ranked.filter((r) => r.entry.thru > 0);
+  const notStarted = ranked.filter((r) => r.entry.thru === 0);
+  // To-par levels where everyone has finished; countback applies only there.
+  const finishedLevels = new Set(started.map((r) => r.entry.toPar));
+  started.forEach((r) => {
+    if (r.entry.thru < holeCount) finishedLevels.delete(r.entry.toPar);
+  });
+  const countback = (a: RankedEntry, b: RankedEntry) =>
+    finishedLevels.has(a.entry.toPar) ? compareCountback(a, b, holeCount) : 0;
+  started.sort(
+    (a, b) =>
+      a.entry.toPar - b.entry.toPar ||
+      countback(a, b) ||
+      b.entry.thru - a.entry.thru ||
+      (a.entry.id < b.entry.id ? -1 : a.entry.id > b.entry.id ? 1 : 0)
+  );
+
+  const board: LeaderboardEntry[] = [];
+  started.forEach((r, i) => {
+    const prev = i > 0 ? started[i - 1] : null;
+    const level = prev != null && prev.entry.toPar === r.entry.toPar && countback(prev, r) === 0;
+    const position = level ? board[i - 1].position : i + 1;
+    board.push({ ...r.entry, position, positionLabel: String(position) });
+  });
+  notStarted.forEach((r) => {
+    board.push({ ...r.entry, position: started.length + 1, positionLabel: '—' });
+  });
+  board.forEach((e) => {
+    if (e.thru > 0 && board.some((o) => o !== e && o.thru > 0 && o.position === e.position)) {
+      e.positionLabel = `T${e.position}`;
+    }
+  });
+  return board;
+}
+
+/** Leaderboard for the current round (user, selected AI opponent, and the simulated field), or null if not a tournament. */
+export function getRoundLeaderboard(round: CurrentRoundState, aiProfile: AIProfile): LeaderboardEntry[] | null {
+  const t: RoundTournament | undefined = round.tournament;
+  if (!t || !round.courseName) return null;
+  const holeCount = getCourseHoleCount(round.courseName) || 18;
+  const holeInfos = Array.from({ length: holeCount }, (_, i) =>
+    getHoleInfoForCourse(round.courseName, i + 1, round.selectedTeeSet)
+  );
+  const entrants: TournamentCompetitor[] = [
+    { id: USER_ENTRY_ID, name: 'You', handicap: t.userHandicap, scoresByHole: round.userScoresByHole ?? [] },
+    {
+      id: AI_OPPONENT_ENTRY_ID,
+      name: typeof aiProfile === 'number' ? `AI (HCP ${formatHandicapDisplay(aiProfile)})` : aiProfile,
+      handicap: t.aiHandicap,
+      scoresByHole: round.aiScoresByHole ?? [],
+    },
+    ...t.field,
+  ];
+  return buildLeaderboard(
+    entrants,
+    holeInfos.map((h) => h.par),
+    holeInfos.map((h) => h.strokeIndex),
+    t.options.playStyle
+  );
+}
+
+/** Result saved with the round: user's finishing position plus the full leaderboard. */
+export function toSavedTournamentResult(
+  options: TournamentOptions,
+  leaderboard: LeaderboardEntry[]
+): SavedTournamentResult | null {
+  const user = leaderboard.find((e) => e.id === USER_ENTRY_ID);
+  if (!user) return null;
+  return {
+    playStyle: options.playStyle,
+    fieldSize: leaderboard.length,
+    position: user.position,
+    positionLabel: user.positionLabel,
+    leaderboard,
+  };
+}
+
+/** Format to-par for display: "E", "+3", "-2". */
+export function formatToPar(toPar: number): string {
+  if (toPar === 0) return 'E';
+  return toPar > 0 ? `+${toPar}` : String(toPar);
+}
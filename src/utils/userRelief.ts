@@ -0,0 +1,132 @@
+/**
+ * Relief options for the user's tracked shot that went in the water, out of bounds or was declared unplayable.
+ * The hole's mapped penalty areas (exact shapes, else the AI water circles) and course boundary go to the relief
+ * engine, measured from where the user marks the ball. Shared by the shot tracker's list and the map's drop markers.
+ * Also the free drop for a ball marked on a cart path or ground under repair.
+ */
+
+import {
+  chooseBestRelief,
+  findCrossingPoint,
+  freeReliefDrop,
+  outOfBoundsReliefOptions,
+  penaltyAreaReliefOptions,
+  unplayableReliefOptions,
+  type ReliefOption,
+  type ReliefSetting,
+} from '../engine/ReliefEngine';
+import { baselineLieFor, isSurfaceLie, SURFACE_LIE_EFFECTS } from '../engine/SurfaceLies';
+import { getLieFromPosition } from '../data/lincolnParkCourse';
+import { getExpectedStrokes } from '../data/strokesGainedBaseline';
+import { getMappedPenaltyAreas, isInBounds, type MappedPenaltyArea } from './courseLie';
+import { calculateHaversineDistance } from './haversine';
+import type { AIHoleSetup } from './aiHoleSetup';
+import type { UserHoleShots, UserShot } from '../types/userShots';
+import type { StrokesGainedLie } from '../types/strokesGained';
+import type { SurfaceType } from '../types/courseSurface';
+
+type LatLng = { lat: number; lng: number };
+
+export interface TrackedShotRelief {
+  /** The penalized shot (last on the hole). */
+  shot: UserShot;
+  options: ReliefOption[];
+  /** Option with the best expected score (penalty + strokes to hole out from the drop). */
+  best: ReliefOption | null;
+}
+
+export interface TrackedFreeRelief {
+  surface: SurfaceType;
+  /** Nearest point of complete relief, no nearer the hole. */
+  nearestPoint: LatLng;
+  dropPosition: LatLng;
+}
+
+function penaltyAreasForHole(courseName: string, holeNumber: number, setup: AIHoleSetup): MappedPenaltyArea[] {
+  const mapped = getMappedPenaltyAreas(courseName, holeNumber);
+  if (mapped.length > 0) return mapped;
+  return (setup.holeFeatures?.water ?? []).map((w) => ({
+    stake: w.stake ?? 'red',
+    contains: (p: LatLng) => calculateHaversineDistance(p, w.center) <= w.radiusMeters,
+  }));
+}
+
+/**
+ * Options for the last tracked shot when it has a penalty and no relief picked yet, or null. `ballPosition` is where
+ * the user marks the ball: in the water or out of bounds (the crossing is found on the line from the shot), or the
+ * crossing point itself; for an unplayable ball, the ball.
+ */
+export function getTrackedShotRelief(
+  courseName: string,
+  holeNumber: number,
+  setup: AIHoleSetup,
+  hole: UserHoleShots,
+  ballPosition: LatLng | null
+): TrackedShotRelief | null {
+  const shot = hole.shots[hole.shots.length - 1];
+  if (!shot?.penalty || shot.relief || !shot.position || !ballPosition) return null;
+  const previousSpot = shot.position;
+  const areas = penaltyAreasForHole(courseName, holeNumber, setup);
+  const pin = setup.teeGreen.green;
+  const setting: ReliefSetting = {
+    previousSpot,
+    pin,
+    isPlayable: (p) => isInBounds(p, courseName) && !areas.some((a) => a.contains(p)),
+  };
+  const crossing = (isInside: (p: LatLng) => boolean) =>
+    isInside(ballPosition) ? (findCrossingPoint([previousSpot, ballPosition], isInside) ?? ballPosition) : ballPosition;
+
+  let options: ReliefOption[];
+  if (shot.penalty === 'water') {
+    const area = areas.find((a) => a.contains(ballPosition)) ?? (areas.length === 1 ? areas[0] : undefined);
+    options = penaltyAreaReliefOptions({
+      ...setting,
+      entryPoint: area ? crossing(area.contains) : ballPosition,
+      stake: area?.stake ?? 'red',
+    });
+  } else if (shot.penalty === 'ob') {
+    options = outOfBoundsReliefOptions({
+      ...setting,
+      crossingPoint: crossing((p) => !isInBounds(p, courseName)),
+      fairwayPolygons: setup.holeFeatures?.fairwayPolygons,
+      fairwayCircles: setup.holeFeatures?.fairways,
+    });
+  } else {
+    options = unplayableReliefOptions({ ...setting, ballPosition });
+  }
+
+  const best = chooseBestRelief(options, (option) => {
+    const lie: StrokesGainedLie =
+      option.kind === 'stroke-and-distance'
+        ? baselineLieFor(shot.lie)
+        : setup.holeFeatures
+          ? baselineLieFor(getLieFromPosition(option.dropPosition, setup.holeFeatures))
+          : 'fairway';
+    return getExpectedStrokes(lie, calculateHaversineDistance(option.dropPosition, pin) * 1.09361);
+  });
+  return { shot, options, best: best?.option ?? null };
+}
+
+/**
+ * Free relief (no penalty) for a ball marked on a cart path or ground under repair, or null when the ball is on any
+ * other lie or no clear spot is within reach. The drop is clear of penalty areas, greens, bunkers and the condition.
+ */
+export function getTrackedFreeRelief(
+  courseName: string,
+  holeNumber: number,
+  setup: AIHoleSetup,
+  ballPosition: LatLng | null
+): TrackedFreeRelief | null {
+  const features = setup.holeFeatures;
+  if (!features || !ballPosition) return null;
+  const surface = getLieFromPosition(ballPosition, features);
+  if (!isSurfaceLie(surface) || !SURFACE_LIE_EFFECTS[surface].freeRelief) return null;
+  const areas = penaltyAreasForHole(courseName, holeNumber, setup);
+  const drop = freeReliefDrop(ballPosition, setup.teeGreen.green, (p) => {
+    const lie = getLieFromPosition(p, features);
+    if (lie === 'water' || lie === 'green' || lie === 'bunker') return false;
+    if (isSurfaceLie(lie) && SURFACE_LIE_EFFECTS[lie].freeRelief) return false;
+    return isInBounds(p, courseName) && !areas.some((a) => a.contains(p));
+  });
+  return drop ? { surface, ...drop } : null;
+}
@@ -0,0 +1,206 @@
+/**
+ * World Handicap System calculations over saved round history.
+ * Score differential = (113 / slope) × (adjusted gross score − course rating), with each hole capped at net
+ * double bogey (par + 2 + strokes received by stroke index) and unplayed holes counted as net par.
+ * Index = average of the best differentials among the most recent 20 (best 8 of 20 once established),
+ * limited by the soft cap (+3.0 over low index, excess halved) and hard cap (+5.0).
+ */
+
+import type { TeeSetInfo } from '../data/courses';
+import type { SavedRound } from '../types/roundHistory';
+import type {
+  HandicapCap,
+  HandicapIndexResult,
+  HandicapIndexSnapshot,
+  ScoreDifferential,
+} from '../types/handicap';
+import { getHoleInfoForCourse, getTeeSetInfo, getTeeSetNames } from '../services/courseBounds';
+import { getCourseHandicapStrokesOnHole } from './handicapStrokes';
+
+const STANDARD_SLOPE = 113;
+const MAX_INDEX = 54;
+const RECENT_SCORES = 20;
+const SOFT_CAP = 3;
+const HARD_CAP = 5;
+const LOW_INDEX_DAYS = 365;
+/** Without an index, each hole is capped at par + 5. */
+const NO_INDEX_HOLE_MAX_OVER_PAR = 5;
+/** Minimum holes played for a score to be acceptable: 14 of 18, 7 of 9. */
+const MIN_HOLES_RATIO = 14 / 18;
+
+/** Differentials used and adjustment by number of scores on record (3–20). */
+const INDEX_TABLE: Record<number, { count: number; adjustment: number }> = {
+  3: { count: 1, adjustment: -2 },
+  4: { count: 1, adjustment: -1 },
+  5: { count: 1, adjustment: 0 },
+  6: { count: 2, adjustment: -1 },
+  7: { count: 2, adjustment: 0 },
+  8: { count: 2, adjustment: 0 },
+  9: { count: 3, adjustment: 0 },
+  10: { count: 3, adjustment: 0 },
+  11: { count: 3, adjustment: 0 },
+  12: { count: 4, adjustment: 0 },
+  13: { count: 4, adjustment: 0 },
+  14: { count: 4, adjustment: 0 },
+  15: { count: 5, adjustment: 0 },
+  16: { count: 5, adjustment: 0 },
+  17: { count: 6, adjustment: 0 },
+  18: { count: 6, adjustment: 0 },
+  19: { count: 7, adjustment: 0 },
+  20: { count: 8, adjustment: 0 },
+};
+
+function roundToTenth(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** Tee set rating/slope for a saved round (first tee set when none was recorded). */
+function getRoundTeeSetInfo(courseName: string, teeSetName: string | undefined): TeeSetInfo | undefined {
+  const names = getTeeSetNames(courseName);
+  const index = teeSetName ? names.indexOf(teeSetName) : 0;
+  return getTeeSetInfo(courseName, Math.max(0, index));
+}
+
+/**
+ * Course handicap = index × slope / 113 + (course rating − par). 9-hole tee sets are rated for nine holes,
+ * so half the index is used.
+ */
+export function getCourseHandicap(index: number, teeSet: TeeSetInfo, par: number, holeCount: number): number {
+  const holeIndex = holeCount < 18 ? index / 2 : index;
+  return Math.round((holeIndex * teeSet.slopeRating) / STANDARD_SLOPE + (teeSet.courseRating - par));
+}
+
+/** Course handicap for a course's tee set by index, or null when the tee set has no rating. */
+export function getCourseHandicapForTee(index: number, courseName: string, teeSetIndex: number, holeCount: number): number | null {
+  const teeSet = getTeeSetInfo(courseName, teeSetIndex);
+  if (!teeSet) return null;
+  const par = Array.from({ length: holeCount }, (_, i) => getHoleInfoForCourse(courseName, i + 1, teeSet.name).par).reduce(
+    (a, b) => a + b,
+    0
+  );
+  return getCourseHandicap(index, teeSet, par, holeCount);
+}
+
+/** Expected 9-hole differential for a player with this index, used to complete a 9-hole score. */
+export function getExpectedNineHoleDifferential(index: number): number {
+  return index * 0.52 + 1.2;
+}
+
+/** True when the user's hole scores are their own ball; a team scramble records the team's score. */
+function isOwnBallScore(round: SavedRound): boolean {
+  return round.teamScramble == null;
+}
+
+/**
+ * Score differential for a saved round given the index at the time, or null when the score is not acceptable
+ * (not the user's own ball, no rating for the tee, too few holes, or a 9-hole score before an index exists).
+ */
+export function getScoreDifferential(round: SavedRound, indexBefore: number | null): ScoreDifferential | null {
+  if (!isOwnBallScore(round)) return null;
+  const teeSet = getRoundTeeSetInfo(round.courseName, round.selectedTeeSet);
+  if (!teeSet || round.holeCount <= 0) return null;
+  const holeCount = round.holeCount;
+  const isNineHole = holeCount < 18;
+  const holesPlayed = round.userScoresByHole.filter((s, i) => i < holeCount && s != null).length;
+  if (holesPlayed < Math.ceil(holeCount * MIN_HOLES_RATIO)) return null;
+  if (isNineHole && indexBefore == null) return null;
+
+  const holes = Array.from({ length: holeCount }, (_, i) =>
+    getHoleInfoForCourse(round.courseName, i + 1, round.selectedTeeSet)
+  );
+  const par = holes.reduce((sum, h) => sum + h.par, 0);
+  const courseHandicap = indexBefore != null ? getCourseHandicap(indexBefore, teeSet, par, holeCount) : null;
+
+  const adjustedGrossScore = holes.reduce((sum, hole, i) => {
+    const gross = round.userScoresByHole[i];
+    const strokes = courseHandicap != null ? getCourseHandicapStrokesOnHole(courseHandicap, hole.strokeIndex, holeCount) : 0;
+    if (gross == null) return sum + hole.par + strokes;
+    const maxScore = courseHandicap != null ? hole.par + 2 + strokes : hole.par + NO_INDEX_HOLE_MAX_OVER_PAR;
+    return sum + Math.min(gross, maxScore);
+  }, 0);
+
+  const playedDifferential = (STANDARD_SLOPE / teeSet.slopeRating) * (adjustedGrossScore - teeSet.courseRating);
+  const differential = isNineHole
+    ? playedDifferential + getExpectedNineHoleDifferential(indexBefore!)
+    : playedDifferential;
+
+  return {
+    roundId: round.id,
+    date: round.date,
+    savedAt: round.savedAt,
+    courseName: round.courseName,
+    teeSet: round.selectedTeeSet,
+    holeCount,
+    holesPlayed,
+    adjustedGrossScore,
+    courseRating: teeSet.courseRating,
+    slopeRating: teeSet.slopeRating,
+    differential: roundToTenth(differential),
+  };
+}
+
+/** Uncapped index from the most recent differentials (oldest first); null with fewer than 3. */
+export function calculateIndexFromDifferentials(differentials: number[]): { index: number; counting: number[] } | null {
+  const recent = differentials.slice(-RECENT_SCORES);
+  const rule = INDEX_TABLE[recent.length];
+  if (!rule) return null;
+  const counting = recent
+    .map((value, position) => ({ value, position: differentials.length - recent.length + position }))
+    .sort((a, b) => a.value - b.value)
+    .slice(0, rule.count);
+  const average = counting.reduce((sum, d) => sum + d.value, 0) / rule.count;
+  return { index: average + rule.adjustment, counting: counting.map((d) => d.position) };
+}
+
+/** Soft cap halves any increase beyond 3.0 over the low index; hard cap stops it at 5.0. */
+export function applyHandicapCaps(index: number, lowIndex: number | null): { index: number; cap: HandicapCap | null } {
+  if (lowIndex == null || index - lowIndex <= SOFT_CAP) return { index, cap: null };
+  const softCapped = lowIndex + SOFT_CAP + (index - lowIndex - SOFT_CAP) / 2;
+  if (softCapped - lowIndex > HARD_CAP) return { index: lowIndex + HARD_CAP, cap: 'hard' };
+  return { index: softCapped, cap: 'soft' };
+}
+
+function getLowIndex(history: HandicapIndexSnapshot[], beforeSavedAt: number): number | null {
+  const from = beforeSavedAt - LOW_INDEX_DAYS * 24 * 60 * 60 * 1000;
+  const inWindow = history.filter((s) => s.savedAt >= from && s.savedAt < beforeSavedAt);
+  return inWindow.length > 0 ? Math.min(...inWindow.map((s) => s.index)) : null;
+}
+
+/** Handicap Index from round history, posting scores in the order they were saved. */
+export function calculateHandicapIndex(rounds: SavedRound[]): HandicapIndexResult {
+  const ordered = [...rounds].sort((a, b) => a.savedAt - b.savedAt);
+  const differentials: ScoreDifferential[] = [];
+  const history: HandicapIndexSnapshot[] = [];
+  let index: number | null = null;
+  let lowIndex: number | null = null;
+  let cap: HandicapCap | null = null;
+  let countingPositions: number[] = [];
+
+  for (const round of ordered) {
+    const differential = getScoreDifferential(round, index);
+    if (!differential) continue;
+    differentials.push(differential);
+    const calculated = calculateIndexFromDifferentials(differentials.map((d) => d.differential));
+    if (!calculated) continue;
+    lowIndex = differentials.length >= RECENT_SCORES ? getLowIndex(history, round.savedAt) : null;
+    const capped = applyHandicapCaps(calculated.index, lowIndex);
+    index = roundToTenth(Math.min(MAX_INDEX, capped.index));
+    cap = capped.cap;
+    countingPositions = calculated.counting;
+    history.push({ roundId: round.id, date: round.date, savedAt: round.savedAt, index });
+  }
+
+  return {
+    index,
+    lowIndex,
+    cap,
+    differentials: differentials.slice(-RECENT_SCORES).reverse(),
+    countingRoundIds: countingPositions.map((p) => differentials[p].roundId),
+    history,
+  };
+}
+
+/** Index for display: one decimal, plus indexes with a leading "+". */
+export function formatHandicapIndex(index: number): string {
+  return index < 0 ? `+${Math.abs(index).toFixed(1)}` : index.toFixed(1);
+}
@@ -1,8 +1,19 @@
 /**
  * Yardage adjustment for wind and slope (elevation).
  * Used to show "plays as" distance and how conditions affect the ball.
+ * Wind and air density come from the ball-flight model (LaunchModel): the club for the yardage is flown through the
+ * conditions and compared with standard still air.
  */
 
+import { calculateHaversineDistance } from './haversine';
+import { getPlaysAsMeters } from '../engine/LaunchModel';
+import { rollClubForYards } from '../engine/RollModel';
+import { getYardagesForSkill } from '../data/clubDistancesByHandicap';
+import { getShotSlopeDegrees } from './courseTerrain';
+
+/** Golfer the plays-as club and launch are modelled for when no handicap is given. */
+const DEFAULT_FLIGHT_HANDICAP = 15;
+
 /** Wind is FROM this direction (degrees, 0=N, 90=E, 270=W). Shot bearing is TO target (0=N). */
 export interface WindConditions {
   speedMph: number;
@@ -33,8 +44,9 @@ export function windDirectionLabel(deg: number): string {
 }
 
 /**
- * Compute yardage adjustment from wind and slope.
- * - Wind: tailwind adds yards, headwind subtracts. ~0.8 yd per mph per 100 yd of carry.
+ * Compute yardage adjustment from wind, air and slope. Positive effects play longer.
+ * - Wind and air: the club a golfer of `flight.handicap` hits that far is flown through the wind (and the air at
+ *   `flight.altitudeFeet` / `flight.temperatureF`); headwind plays longer, tailwind shorter, thin air shorter.
  * - Slope: positive = uphill = plays longer. ~1% of distance per degree.
  */
 export function adjustYardageForConditions(
@@ -42,17 +54,19 @@ export function adjustYardageForConditions(
   windSpeedMph: number,
   windDirectionDeg: number,
   shotBearingDeg: number,
-  slopeDegrees: number
+  slopeDegrees: number,
+  flight?: { handicap?: number; altitudeFeet?: number; temperatureF?: number }
 ): { adjustedYards: number; windEffectYards: number; slopeEffectYards: number } {
-  // Wind: direction wind is blowing TOWARD = direction + 180. Tailwind when that aligns with shot.
-  const windBlowingToward = (windDirectionDeg + 180) % 360;
-  let diff = windBlowingToward - shotBearingDeg;
-  while (diff > 180) diff -= 360;
-  while (diff < -180) diff += 360;
-  const cosComponent = Math.cos((diff * Math.PI) / 180); // 1 = tailwind, -1 = headwind
-  const windComponentMph = windSpeedMph * cosComponent;
-  // ~0.8 yards per mph per 100 yards (tailwind adds, headwind subtracts)
-  const windEffectYards = windComponentMph * (rawYards / 100) * 0.8;
+  const handicap = flight?.handicap ?? DEFAULT_FLIGHT_HANDICAP;
+  const club = rollClubForYards(rawYards, getYardagesForSkill(Math.round(handicap)));
+  const playsAsMeters = getPlaysAsMeters(rawYards / 1.09361, club, handicap, {
+    windSpeedMph,
+    windDirectionDeg,
+    shotBearingDeg,
+    altitudeFeet: flight?.altitudeFeet,
+    temperatureF: flight?.temperatureF,
+  });
+  const windEffectYards = playsAsMeters * 1.09361 - rawYards;
 
   // Slope: positive = uphill = plays longer. ~1% per degree.
   const slopeEffectYards = slopeDegrees * rawYards * 0.01;
@@ -65,6 +79,30 @@ export function adjustYardageForConditions(
   };
 }
 
+/**
+ * "Plays as" yards from one point to another under the round's wind, air and slope settings (GameSettings fields).
+ * Club recommendations from the user's bag use this distance.
+ * With `courseName` and a DEM covering both points, the real height difference replaces the slope setting.
+ */
+export function getPlaysAsYards(
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number },
+  conditions: { windSpeed: number; windDirection: number; slope: number; altitudeFeet?: number; temperatureF?: number },
+  handicap?: number,
+  courseName?: string
+): number {
+  const rawYards = calculateHaversineDistance(from, to) * 1.09361;
+  if (rawYards <= 0) return 0;
+  return adjustYardageForConditions(
+    rawYards,
+    conditions.windSpeed,
+    conditions.windDirection,
+    bearingDeg(from, to),
+    (courseName ? getShotSlopeDegrees(courseName, from, to) : null) ?? conditions.slope,
+    { handicap, altitudeFeet: conditions.altitudeFeet, temperatureF: conditions.temperatureF }
+  ).adjustedYards;
+}
+
 /**
  * Slope effect in yards per 100 yards of carry. 1° ≈ 1% of distance (uphill = positive = plays longer).
  * e.g. 2.5° uphill → +2.5 yards per 100 yards.
@@ -0,0 +1,133 @@
+/*
+  # Create rounds and course edits tables for offline-first sync
+
+  1. New Tables
+    - `rounds`
+      - `user_id` (uuid) - Owner, reference to auth.users (defaults to the caller)
+      - `id` (text) - SavedRound id generated on the device
+      - `saved_at` (bigint) - SavedRound.savedAt (epoch ms), used for conflict resolution
+      - `data` (jsonb) - The full SavedRound
+      - `synced_at` (timestamptz) - Set by the server on every accepted write; clients pull rows newer than their cursor
+      - Primary key (`user_id`, `id`)
+    - `course_edits`
+      - `user_id` (uuid) - Owner, reference to auth.users (defaults to the caller)
+      - `course_name` (text) - Course the edits belong to
+      - `data` (jsonb) - The full CourseEdits (overrides, presets, course boundary)
+      - `updated_at` (bigint) - Epoch ms of the last edit on the device, used for conflict resolution
+      - `synced_at` (timestamptz) - Set by the server on every accepted write
+      - Primary key (`user_id`, `course_name`)
+
+  2. Conflict resolution
+    - A BEFORE UPDATE trigger keeps the stored row when an upsert carries an older `saved_at` / `updated_at`
+      (last write by device time wins, whichever device pushes first)
+
+  3. Security
+    - Enable RLS on both tables
+    - Users can only read, insert, update and delete their own rows (anonymous sessions included)
+*/
+
+CREATE TABLE IF NOT EXISTS rounds (
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  id text NOT NULL,
+  saved_at bigint NOT NULL,
+  data jsonb NOT NULL,
+  synced_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, id)
+);
+
+CREATE TABLE IF NOT EXISTS course_edits (
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  course_name text NOT NULL,
+  data jsonb NOT NULL,
+  updated_at bigint NOT NULL,
+  synced_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, course_name)
+);
+
+CREATE OR REPLACE FUNCTION rounds_keep_newer()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.saved_at < OLD.saved_at THEN
+    RETURN OLD;
+  END IF;
+  NEW.synced_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION course_edits_keep_newer()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.updated_at < OLD.updated_at THEN
+    RETURN OLD;
+  END IF;
+  NEW.synced_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS rounds_keep_newer ON rounds;
+CREATE TRIGGER rounds_keep_newer
+  BEFORE UPDATE ON rounds
+  FOR EACH ROW EXECUTE FUNCTION rounds_keep_newer();
+
+DROP TRIGGER IF EXISTS course_edits_keep_newer ON course_edits;
+CREATE TRIGGER course_edits_keep_newer
+  BEFORE UPDATE ON course_edits
+  FOR EACH ROW EXECUTE FUNCTION course_edits_keep_newer();
+
+ALTER TABLE rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own rounds"
+  ON rounds
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own rounds"
+  ON rounds
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own rounds"
+  ON rounds
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own rounds"
+  ON rounds
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can read their own course edits"
+  ON course_edits
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own course edits"
+  ON course_edits
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own course edits"
+  ON course_edits
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own course edits"
+  ON course_edits
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_rounds_user_synced_at ON rounds(user_id, synced_at);
+CREATE INDEX IF NOT EXISTS idx_course_edits_user_synced_at ON course_edits(user_id, synced_at);
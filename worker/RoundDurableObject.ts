@@ -0,0 +1,155 @@
+/**
+ * One Durable Object per API round. Holds the RoundRecord in storage and serializes every change to it, so two
+ * cart screens posting to the same round cannot interleave an AI hole with a score update.
+ *
+ * It also owns the round's live channel: every change appends numbered events to storage and pushes them to the
+ * connected WebSockets (hibernatable, so idle spectators cost nothing). A client reconnecting with the last seq it
+ * saw gets everything after it.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { createRoundRecord, playAIHole, recordPlayerScore, toRoundResponse } from './roundEngine';
+import { getAIHoleEvents, getPlayerScoreEvents, getRoundStartedEvents } from './roundEvents';
+import type {
+  AIPlayResponse,
+  ApiResult,
+  CreateRoundRequest,
+  RoundEvent,
+  RoundEventPayload,
+  RoundRecord,
+  RoundResponse,
+  StreamClientMessage,
+  StreamControlMessage,
+} from './types';
+
+const RECORD_KEY = 'round';
+const LAST_SEQ_KEY = 'lastSeq';
+const EVENT_KEY_PREFIX = 'event:';
+/** Header the Worker sets on the forwarded stream request after authenticating the partner. */
+export const PARTNER_ID_HEADER = 'X-Partner-Id';
+
+/** Zero-padded so storage.list returns events in seq order. */
+function eventKey(seq: number): string {
+  return `${EVENT_KEY_PREFIX}${String(seq).padStart(10, '0')}`;
+}
+
+function parseClientMessage(message: string | ArrayBuffer): StreamClientMessage | null {
+  if (typeof message !== 'string') return null;
+  try {
+    const parsed: unknown = JSON.parse(message);
+    if (typeof parsed !== 'object' || parsed === null) return null;
+    const { type, since } = parsed as { type?: unknown; since?: unknown };
+    if (type === 'ping') return { type };
+    if (type === 'resume' && typeof since === 'number' && Number.isInteger(since) && since >= 0) return { type, since };
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+function send(ws: WebSocket, message: RoundEvent | StreamControlMessage): void {
+  try {
+    ws.send(JSON.stringify(message));
+  } catch {
+    // Socket already closing; the client resumes from its last seq on reconnect.
+  }
+}
+
+export class RoundDurableObject extends DurableObject<Env> {
+  private async load(partnerId: string): Promise<ApiResult<RoundRecord>> {
+    const record = await this.ctx.storage.get<RoundRecord>(RECORD_KEY);
+    // Another partner's round is reported as missing rather than forbidden, so round ids cannot be probed.
+    if (!record || record.partnerId !== partnerId) {
+      return { ok: false, status: 404, code: 'not_found', message: 'Round not found' };
+    }
+    return { ok: true, value: record };
+  }
+
+  /** Store the record and its events in one write, then push the events to every open socket. */
+  private async commit(record: RoundRecord, payloads: RoundEventPayload[]): Promise<void> {
+    const lastSeq = (await this.ctx.storage.get<number>(LAST_SEQ_KEY)) ?? 0;
+    const at = new Date().toISOString();
+    const events = payloads.map((payload, i) => ({ ...payload, seq: lastSeq + i + 1, at }) as RoundEvent);
+    const entries: Record<string, unknown> = { [RECORD_KEY]: record, [LAST_SEQ_KEY]: lastSeq + events.length };
+    events.forEach((event) => {
+      entries[eventKey(event.seq)] = event;
+    });
+    await this.ctx.storage.put(entries);
+    this.ctx.getWebSockets().forEach((ws) => events.forEach((event) => send(ws, event)));
+  }
+
+  private async sendEventsSince(ws: WebSocket, since: number): Promise<void> {
+    const events = await this.ctx.storage.list<RoundEvent>({ prefix: EVENT_KEY_PREFIX, start: eventKey(since + 1) });
+    events.forEach((event) => send(ws, event));
+  }
+
+  async create(roundId: string, partnerId: string, body: Partial<CreateRoundRequest>): Promise<ApiResult<RoundResponse>> {
+    if (await this.ctx.storage.get<RoundRecord>(RECORD_KEY)) {
+      return { ok: false, status: 409, code: 'conflict', message: `Round ${roundId} already exists` };
+    }
+    const created = createRoundRecord(roundId, partnerId, body);
+    if (!created.ok) return created;
+    await this.commit(created.value, getRoundStartedEvents(created.value));
+    return { ok: true, value: toRoundResponse(created.value) };
+  }
+
+  async get(partnerId: string): Promise<ApiResult<RoundResponse>> {
+    const loaded = await this.load(partnerId);
+    return loaded.ok ? { ok: true, value: toRoundResponse(loaded.value) } : loaded;
+  }
+
+  async playAI(partnerId: string, holeNumber: number): Promise<ApiResult<AIPlayResponse>> {
+    const loaded = await this.load(partnerId);
+    if (!loaded.ok) return loaded;
+    const played = playAIHole(loaded.value, holeNumber);
+    if (!played.ok) return played;
+    const { record, response } = played.value;
+    // A replayed hole returns its stored shots without new events.
+    if (record !== loaded.value) await this.commit(record, getAIHoleEvents(record, response));
+    return { ok: true, value: response };
+  }
+
+  async setPlayerScore(partnerId: string, holeNumber: number, score: unknown): Promise<ApiResult<RoundResponse>> {
+    const loaded = await this.load(partnerId);
+    if (!loaded.ok) return loaded;
+    const updated = recordPlayerScore(loaded.value, holeNumber, score);
+    if (!updated.ok) return updated;
+    await this.commit(updated.value, getPlayerScoreEvents(updated.value, holeNumber));
+    return { ok: true, value: toRoundResponse(updated.value) };
+  }
+
+  /**
+   * WebSocket upgrade for /v1/rounds/:roundId/stream, forwarded by the Worker with the partner id header.
+   * Sends `hello` with the current round and lastSeq, then every stored event after `?since=` (all when omitted).
+   */
+  async fetch(request: Request): Promise<Response> {
+    if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+      return new Response('Expected WebSocket upgrade', { status: 426 });
+    }
+    const loaded = await this.load(request.headers.get(PARTNER_ID_HEADER) ?? '');
+    if (!loaded.ok) return new Response(loaded.message, { status: loaded.status });
+    const since = Math.max(0, Math.floor(Number(new URL(request.url).searchParams.get('since')) || 0));
+
+    const { 0: client, 1: server } = new WebSocketPair();
+    this.ctx.acceptWebSocket(server);
+    const lastSeq = (await this.ctx.storage.get<number>(LAST_SEQ_KEY)) ?? 0;
+    send(server, { type: 'hello', roundId: loaded.value.roundId, lastSeq, round: toRoundResponse(loaded.value) });
+    await this.sendEventsSince(server, since);
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    const parsed = parseClientMessage(message);
+    if (!parsed) {
+      send(ws, { type: 'error', code: 'invalid_request', message: 'Send {"type":"resume","since":<seq>} or {"type":"ping"}' });
+      return;
+    }
+    if (parsed.type === 'ping') send(ws, { type: 'pong' });
+    else await this.sendEventsSince(ws, parsed.since);
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    // 1005/1006 are reserved and cannot be sent back.
+    ws.close(code === 1005 || code === 1006 ? 1000 : code, reason);
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Partner REST API router (/v1). Course endpoints read the built-in course data directly; round endpoints go to the
+ * round's Durable Object, named by partner + round id so partners never share a round. The live stream
+ * (/v1/rounds/:roundId/stream) is a WebSocket upgrade forwarded to the same object.
+ */
+
+import { authenticatePartner, type PartnerEnv } from './auth';
+import { createStreamToken, verifyStreamToken } from './streamToken';
+import { PARTNER_ID_HEADER } from './RoundDurableObject';
+import { findCourse, getCourseDetail, getCourseHole, getCourseSummary } from './roundEngine';
+import { COURSES } from '../src/data/courses';
+import type {
+  ApiErrorBody,
+  ApiErrorCode,
+  ApiResult,
+  CreateRoundRequest,
+  PlayerScoreRequest,
+  RoundDetailResponse,
+} from './types';
+
+export type ApiEnv = Env & PartnerEnv;
+
+const ROUND_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-API-Key',
+  'Access-Control-Max-Age': '86400',
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8', ...CORS_HEADERS },
+  });
+}
+
+function error(status: number, code: ApiErrorCode, message: string): Response {
+  const body: ApiErrorBody = { error: { code, message } };
+  return json(body, status);
+}
+
+function fromResult<T>(result: ApiResult<T>, status = 200): Response {
+  return result.ok ? json(result.value, status) : error(result.status, result.code, result.message);
+}
+
+async function readJson<T>(request: Request): Promise<Partial<T> | null> {
+  try {
+    const body: unknown = await request.json();
+    return typeof body === 'object' && body !== null && !Array.isArray(body) ? (body as Partial<T>) : null;
+  } catch {
+    return null;
+  }
+}
+
+function roundStub(env: ApiEnv, partnerId: string, roundId: string) {
+  return env.ROUNDS.get(env.ROUNDS.idFromName(`${partnerId}:${roundId}`));
+}
+
+async function handleRounds(request: Request, env: ApiEnv, partnerId: string, parts: string[]): Promise<Response> {
+  const [roundId, holesSegment, holeSegment, action] = parts;
+  const method = request.method;
+
+  if (!roundId) {
+    if (method !== 'POST') return error(405, 'method_not_allowed', 'Use POST /v1/rounds to start a round');
+    const body = await readJson<CreateRoundRequest>(request);
+    if (!body) return error(400, 'invalid_request', 'Body must be a JSON object');
+    const id = body.roundId ?? `r_${crypto.randomUUID().replace(/-/g, '').slice(0, 16)}`;
+    if (!ROUND_ID_PATTERN.test(id)) return error(400, 'invalid_request', 'roundId may use letters, digits, - and _ (max 64)');
+    return fromResult(await roundStub(env, partnerId, id).create(id, partnerId, body), 201);
+  }
+  if (!ROUND_ID_PATTERN.test(roundId)) return error(404, 'not_found', 'Round not found');
+  const stub = roundStub(env, partnerId, roundId);
+
+  if (!holesSegment) {
+    if (method !== 'GET') return error(405, 'method_not_allowed', 'Use GET for round state');
+    const round = await stub.get(partnerId);
+    if (!round.ok) return fromResult(round);
+    const stream = await createStreamToken(env, partnerId, roundId);
+    const body: RoundDetailResponse = {
+      ...round.value,
+      ...(stream && { streamToken: stream.token, streamTokenExpiresAt: stream.expiresAt }),
+    };
+    return json(body);
+  }
+  if (holesSegment === 'stream' && parts.length === 2) {
+    if (method !== 'GET' || request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+      return error(426, 'invalid_request', 'Open /stream as a WebSocket');
+    }
+    const round = await stub.get(partnerId);
+    if (!round.ok) return fromResult(round);
+    const forwarded = new Request(request);
+    forwarded.headers.set(PARTNER_ID_HEADER, partnerId);
+    return stub.fetch(forwarded);
+  }
+  if (holesSegment !== 'holes' || !holeSegment || !action || parts.length > 4) {
+    return error(404, 'not_found', 'Unknown round endpoint');
+  }
+  const holeNumber = Number(holeSegment);
+  if (method !== 'POST') return error(405, 'method_not_allowed', `Use POST for ${action}`);
+  if (action === 'ai-play') return fromResult(await stub.playAI(partnerId, holeNumber));
+  if (action === 'player-score') {
+    const body = await readJson<PlayerScoreRequest>(request);
+    if (!body) return error(400, 'invalid_request', 'Body must be a JSON object with score');
+    return fromResult(await stub.setPlayerScore(partnerId, holeNumber, body.score));
+  }
+  return error(404, 'not_found', 'Unknown round endpoint');
+}
+
+function handleCourses(request: Request, url: URL, parts: string[]): Response {
+  if (request.method !== 'GET') return error(405, 'method_not_allowed', 'Courses are read-only');
+  const [courseId, holesSegment, holeSegment] = parts;
+  if (!courseId) return json({ courses: COURSES.map(getCourseSummary) });
+  const course = findCourse(courseId);
+  if (!course) return error(404, 'not_found', `Unknown courseId "${courseId}"`);
+  const teeSet = url.searchParams.get('teeSet') ?? undefined;
+  if (!holesSegment) return json(getCourseDetail(course, teeSet));
+  if (holesSegment !== 'holes' || !holeSegment || parts.length > 3) return error(404, 'not_found', 'Unknown course endpoint');
+  const hole = getCourseHole(course, Number(holeSegment), teeSet);
+  return hole ? json(hole) : error(404, 'not_found', `Hole ${holeSegment} not found on ${course.name}`);
+}
+
+/** Handle a /v1 request. Every endpoint needs a partner API key; the stream also takes a stream token (`?token=`). */
+export async function handleApiRequest(request: Request, env: ApiEnv): Promise<Response> {
+  if (request.method === 'OPTIONS') return new Response(null, { status: 204, headers: CORS_HEADERS });
+  const url = new URL(request.url);
+  const [version, resource, ...parts] = url.pathname.split('/').filter(Boolean);
+  if (version !== 'v1') return error(404, 'not_found', 'Unknown API version');
+
+  const isStream = resource === 'rounds' && parts[1] === 'stream';
+  const partnerId =
+    authenticatePartner(request, env) ??
+    (isStream ? await verifyStreamToken(env, url.searchParams.get('token'), parts[0]) : null);
+  if (!partnerId) {
+    return error(401, 'unauthorized', isStream ? 'Missing or invalid API key or stream token' : 'Missing or invalid API key');
+  }
+
+  if (resource === 'rounds') return handleRounds(request, env, partnerId, parts);
+  if (resource === 'courses') return handleCourses(request, url, parts);
+  return error(404, 'not_found', 'Unknown endpoint');
+}
@@ -0,0 +1,40 @@
+/**
+ * Partner API keys. PARTNER_API_KEYS is a secret of comma-separated `partnerId:apiKey` pairs
+ * (`wrangler secret put PARTNER_API_KEYS`; locally in .dev.vars, see .dev.vars.example).
+ */
+
+export interface PartnerEnv {
+  PARTNER_API_KEYS?: string;
+}
+
+function parsePartnerKeys(value: string | undefined): Map<string, string> {
+  const byKey = new Map<string, string>();
+  (value ?? '').split(',').forEach((pair) => {
+    const separator = pair.indexOf(':');
+    if (separator <= 0) return;
+    const partnerId = pair.slice(0, separator).trim();
+    const key = pair.slice(separator + 1).trim();
+    if (partnerId && key) byKey.set(key, partnerId);
+  });
+  return byKey;
+}
+
+/**
+ * Partner id for the request's `Authorization: Bearer <apiKey>` (or `X-API-Key`) header, or null. The key is never
+ * read from the URL; browsers open the stream with a read-only stream token instead (see streamToken).
+ */
+export function authenticatePartner(request: Request, env: PartnerEnv): string | null {
+  const header = request.headers.get('Authorization');
+  const bearer = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const key = (bearer ?? request.headers.get('X-API-Key') ?? '').trim();
+  if (!key) return null;
+  return parsePartnerKeys(env.PARTNER_API_KEYS).get(key) ?? null;
+}
+
+/** A partner's API key (signs its stream tokens), or null when the partner is not configured. */
+export function getPartnerApiKey(env: PartnerEnv, partnerId: string): string | null {
+  for (const [key, id] of parsePartnerKeys(env.PARTNER_API_KEYS)) {
+    if (id === partnerId) return key;
+  }
+  return null;
+}
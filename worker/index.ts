@@ -0,0 +1,14 @@
+/**
+ * Worker entry. Static SPA assets are served by the assets binding; only /v1/* reaches this handler
+ * (assets.run_worker_first in wrangler.jsonc).
+ */
+
+import { handleApiRequest, type ApiEnv } from './api';
+
+export { RoundDurableObject } from './RoundDurableObject';
+
+export default {
+  async fetch(request, env) {
+    return handleApiRequest(request, env);
+  },
+} satisfies ExportedHandler<ApiEnv>;
@@ -0,0 +1,271 @@
+/**
+ * Server-side round logic for the partner API: resolves courses from the built-in course data, creates rounds and
+ * plays the AI with the same setup the play screen uses (getAIHoleSetup + AIGolfer.playHole, seeded per hole).
+ * Course Pro editor overrides live in the browser's local store and are not available here.
+ */
+
+import { AIGolfer, type ShotHistory } from '../src/utils/AIGolfer';
+import type { AIProfile } from '../src/types/gameSettings';
+import { getAIHoleSetup } from '../src/utils/aiHoleSetup';
+import { createSeededRng, deriveSeed, randomSeed } from '../src/utils/rng';
+import { COURSES, type Course } from '../src/data/courses';
+import { AI_CHARACTER_NAMES } from '../src/data/clubDistancesByHandicap';
+import { getCourseHoleCount, getHoleInfoForCourse, getTeeSetNames } from '../src/services/courseBounds';
+import type {
+  AIPlayResponse,
+  ApiResult,
+  ApiShot,
+  CourseHoleResponse,
+  CourseResponse,
+  CourseSummary,
+  CreateRoundRequest,
+  RoundRecord,
+  RoundResponse,
+} from './types';
+
+const YARDS_PER_METER = 1.09361;
+/** Same cap the play screen passes to playHole. */
+const MAX_SHOTS_PER_HOLE = 20;
+/** Numeric AI handicaps accepted (plus handicaps negative). */
+const MIN_AI_HANDICAP = -5;
+const MAX_AI_HANDICAP = 36;
+/** Player playing handicaps accepted (WHS index cap 54). */
+const MIN_PLAYER_HANDICAP = -10;
+const MAX_PLAYER_HANDICAP = 54;
+
+/** URL-safe course id from its name, e.g. 'Lincoln Park Golf Course' → 'lincoln-park-golf-course'. */
+export function getCourseId(course: Course): string {
+  return course.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+export function findCourse(courseId: string): Course | undefined {
+  return COURSES.find((c) => getCourseId(c) === courseId);
+}
+
+function fail<T>(status: number, code: 'not_found' | 'invalid_request' | 'conflict', message: string): ApiResult<T> {
+  return { ok: false, status, code, message };
+}
+
+function isValidAIProfile(value: unknown): value is AIProfile {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= MIN_AI_HANDICAP && value <= MAX_AI_HANDICAP;
+  return typeof value === 'string' && (AI_CHARACTER_NAMES as readonly string[]).includes(value);
+}
+
+function getCoursePar(courseName: string, holeCount: number, teeSet: string | undefined): number {
+  let par = 0;
+  for (let n = 1; n <= holeCount; n++) par += getHoleInfoForCourse(courseName, n, teeSet).par;
+  return par;
+}
+
+export function getCourseSummary(course: Course): CourseSummary {
+  const holeCount = getCourseHoleCount(course.name);
+  return {
+    courseId: getCourseId(course),
+    name: course.name,
+    holeCount,
+    par: getCoursePar(course.name, holeCount, undefined),
+    teeSets: (course.teeSets ?? []).map(({ name, totalYardage, courseRating, slopeRating }) => ({
+      name,
+      totalYardage,
+      courseRating,
+      slopeRating,
+    })),
+  };
+}
+
+export function getCourseDetail(course: Course, teeSet?: string): CourseResponse {
+  const summary = getCourseSummary(course);
+  return {
+    ...summary,
+    holes: Array.from({ length: summary.holeCount }, (_, i) => ({
+      holeNumber: i + 1,
+      ...getHoleInfoForCourse(course.name, i + 1, teeSet),
+    })),
+  };
+}
+
+export function getCourseHole(course: Course, holeNumber: number, teeSet?: string): CourseHoleResponse | null {
+  const setup = getAIHoleSetup(course.name, holeNumber, teeSet);
+  if (!setup) return null;
+  const info = getHoleInfoForCourse(course.name, holeNumber, teeSet);
+  const f = setup.holeFeatures;
+  return {
+    courseId: getCourseId(course),
+    holeNumber,
+    ...info,
+    tee: setup.teeGreen.tee,
+    green: setup.teeGreen.green,
+    features: f
+      ? {
+          fairways: f.fairways,
+          ...(f.fairwayPolygons && { fairwayPolygons: f.fairwayPolygons }),
+          bunkers: f.bunkers,
+          water: f.water,
+          green: f.green,
+        }
+      : null,
+  };
+}
+
+/** Validate a create-round body and build the initial record. */
+export function createRoundRecord(
+  roundId: string,
+  partnerId: string,
+  body: Partial<CreateRoundRequest>
+): ApiResult<RoundRecord> {
+  const course = typeof body.courseId === 'string' ? findCourse(body.courseId) : undefined;
+  if (!course) return fail(404, 'not_found', `Unknown courseId "${String(body.courseId)}"`);
+  if (!isValidAIProfile(body.aiProfile)) {
+    return fail(
+      400,
+      'invalid_request',
+      `aiProfile must be a handicap from ${MIN_AI_HANDICAP} to ${MAX_AI_HANDICAP} or one of ${AI_CHARACTER_NAMES.join(', ')}`
+    );
+  }
+  const teeSets = getTeeSetNames(course.name);
+  if (body.teeSet != null && !teeSets.includes(body.teeSet)) {
+    return fail(400, 'invalid_request', `teeSet must be one of ${teeSets.join(', ') || '(none)'}`);
+  }
+  const { playerHandicap } = body;
+  if (
+    playerHandicap != null &&
+    (typeof playerHandicap !== 'number' ||
+      !Number.isFinite(playerHandicap) ||
+      playerHandicap < MIN_PLAYER_HANDICAP ||
+      playerHandicap > MAX_PLAYER_HANDICAP)
+  ) {
+    return fail(
+      400,
+      'invalid_request',
+      `playerHandicap must be a number from ${MIN_PLAYER_HANDICAP} to ${MAX_PLAYER_HANDICAP}`
+    );
+  }
+  if (body.seed != null && !Number.isInteger(body.seed)) return fail(400, 'invalid_request', 'seed must be an integer');
+
+  const holeCount = getCourseHoleCount(course.name);
+  const now = new Date().toISOString();
+  return {
+    ok: true,
+    value: {
+      roundId,
+      partnerId,
+      courseId: getCourseId(course),
+      courseName: course.name,
+      teeSet: body.teeSet ?? teeSets[0],
+      aiProfile: body.aiProfile,
+      ...(playerHandicap != null && { playerHandicap }),
+      seed: body.seed ?? randomSeed(),
+      holeCount,
+      currentHole: 1,
+      playerScoresByHole: Array(holeCount).fill(null),
+      aiScoresByHole: Array(holeCount).fill(null),
+      aiShotsByHole: Array(holeCount).fill(null),
+      createdAt: now,
+      updatedAt: now,
+    },
+  };
+}
+
+/** First hole the player has not scored yet (last hole when all are done). */
+function nextHole(record: RoundRecord): number {
+  const index = record.playerScoresByHole.findIndex((s) => s == null);
+  return index < 0 ? record.holeCount : index + 1;
+}
+
+export function toRoundResponse(record: RoundRecord): RoundResponse {
+  const { roundId, courseId, teeSet, aiProfile, playerHandicap, seed, holeCount, currentHole, createdAt, updatedAt } =
+    record;
+  return {
+    roundId,
+    courseId,
+    ...(teeSet && { teeSet }),
+    aiProfile,
+    ...(playerHandicap != null && { playerHandicap }),
+    seed,
+    holeCount,
+    currentHole,
+    playerScoresByHole: record.playerScoresByHole,
+    aiScoresByHole: record.aiScoresByHole,
+    playerTotal: record.playerScoresByHole.reduce<number>((sum, s) => sum + (s ?? 0), 0),
+    aiTotal: record.aiScoresByHole.reduce<number>((sum, s) => sum + (s ?? 0), 0),
+    createdAt,
+    updatedAt,
+  };
+}
+
+function toApiShot(shot: ShotHistory): ApiShot {
+  return {
+    shotNumber: shot.shotNumber,
+    fromPosition: shot.fromPosition,
+    toPosition: shot.toPosition,
+    ...(shot.treeImpactPosition && { treeImpactPosition: shot.treeImpactPosition }),
+    club: shot.commentary?.club ?? null,
+    distanceYards: Math.round(shot.distance * YARDS_PER_METER),
+    ...(shot.penalty && { penalty: shot.penalty }),
+    ...(shot.commentary && { commentary: shot.commentary }),
+  };
+}
+
+export function checkHoleNumber(record: RoundRecord, holeNumber: number): ApiResult<number> {
+  if (!Number.isInteger(holeNumber) || holeNumber < 1 || holeNumber > record.holeCount) {
+    return fail(404, 'not_found', `Hole must be 1–${record.holeCount}`);
+  }
+  return { ok: true, value: holeNumber };
+}
+
+/**
+ * Play the AI on a hole. The stream is derived from the round seed and hole number exactly as in the app, so a
+ * hole already played returns its stored shots instead of replaying.
+ */
+export function playAIHole(record: RoundRecord, holeNumber: number): ApiResult<{ record: RoundRecord; response: AIPlayResponse }> {
+  const hole = checkHoleNumber(record, holeNumber);
+  if (!hole.ok) return hole;
+  const setup = getAIHoleSetup(record.courseName, holeNumber, record.teeSet);
+  if (!setup) return fail(404, 'not_found', `Hole ${holeNumber} has no tee/green on ${record.courseName}`);
+
+  let next = record;
+  let shots = record.aiShotsByHole[holeNumber - 1];
+  if (!shots) {
+    const ai = new AIGolfer(record.aiProfile, { ...setup.teeGreen.tee });
+    const history = ai.playHole(setup.teeGreen.green, MAX_SHOTS_PER_HOLE, setup.trees, {
+      ...setup.playOptions,
+      rng: createSeededRng(deriveSeed(record.seed, holeNumber)),
+    });
+    shots = history.map(toApiShot);
+    const aiScoresByHole = [...record.aiScoresByHole];
+    const aiShotsByHole = [...record.aiShotsByHole];
+    aiScoresByHole[holeNumber - 1] = shots.length;
+    aiShotsByHole[holeNumber - 1] = shots;
+    next = { ...record, aiScoresByHole, aiShotsByHole, updatedAt: new Date().toISOString() };
+  }
+  return {
+    ok: true,
+    value: {
+      record: next,
+      response: {
+        roundId: record.roundId,
+        holeNumber,
+        par: setup.par,
+        shots,
+        aiScoreForHole: shots.length,
+        round: toRoundResponse(next),
+      },
+    },
+  };
+}
+
+/** Record (or correct) the player's gross score on a hole and move currentHole to the next unscored hole. */
+export function recordPlayerScore(record: RoundRecord, holeNumber: number, score: unknown): ApiResult<RoundRecord> {
+  const hole = checkHoleNumber(record, holeNumber);
+  if (!hole.ok) return hole;
+  if (typeof score !== 'number' || !Number.isInteger(score) || score < 1 || score > 15) {
+    return fail(400, 'invalid_request', 'score must be an integer from 1 to 15');
+  }
+  const playerScoresByHole = [...record.playerScoresByHole];
+  playerScoresByHole[holeNumber - 1] = score;
+  const next = { ...record, playerScoresByHole, updatedAt: new Date().toISOString() };
+  return { ok: true, value: { ...next, currentHole: nextHole(next) } };
+}
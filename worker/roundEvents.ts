@@ -0,0 +1,66 @@
+/**
+ * Live round events for the stream channel. Builders return unsequenced payloads; RoundDurableObject numbers,
+ * stores and broadcasts them so a reconnecting client can resume from the last seq it saw.
+ */
+
+import { computeMatchStatus } from '../src/utils/matchPlay';
+import { getAIPlayingHandicap } from '../src/utils/handicapStrokes';
+import { getHoleInfoForCourse } from '../src/services/courseBounds';
+import { toRoundResponse } from './roundEngine';
+import type { AIPlayResponse, MatchStatusData, RoundEventPayload, RoundRecord } from './types';
+
+/**
+ * Match play between the player and the AI over the holes both have scored: net (the play screen's default) when the
+ * round has a playerHandicap, with the AI's playing handicap from its profile; gross otherwise.
+ */
+export function getMatchStatusData(record: RoundRecord): MatchStatusData {
+  const round = toRoundResponse(record);
+  const scoring = record.playerHandicap != null ? 'net' : 'gross';
+  const status = computeMatchStatus({
+    holeCount: record.holeCount,
+    userScoresByHole: record.playerScoresByHole.map((s) => s ?? undefined),
+    aiScoresByHole: record.aiScoresByHole.map((s) => s ?? undefined),
+    strokeIndexByHole: Array.from(
+      { length: record.holeCount },
+      (_, i) => getHoleInfoForCourse(record.courseName, i + 1, record.teeSet).strokeIndex
+    ),
+    scoring,
+    userHandicap: record.playerHandicap ?? 0,
+    aiHandicap: getAIPlayingHandicap(record.aiProfile),
+  });
+  return {
+    statusText: status.statusText,
+    scoring,
+    lead: status.lead,
+    holesPlayed: status.holesPlayed,
+    finished: status.finished,
+    winner: status.winner,
+    playerTotal: round.playerTotal,
+    aiTotal: round.aiTotal,
+  };
+}
+
+export function getRoundStartedEvents(record: RoundRecord): RoundEventPayload[] {
+  return [{ type: 'round_started', data: { round: toRoundResponse(record) } }];
+}
+
+/** One ai_shot per stroke (penalty strokes included), then the hole result and match status. */
+export function getAIHoleEvents(record: RoundRecord, played: AIPlayResponse): RoundEventPayload[] {
+  const { holeNumber, par } = played;
+  return [
+    ...played.shots.map((shot): RoundEventPayload => ({ type: 'ai_shot', data: { holeNumber, par, shot } })),
+    { type: 'ai_hole_complete', data: { holeNumber, par, aiScoreForHole: played.aiScoreForHole } },
+    { type: 'match_status', data: getMatchStatusData(record) },
+  ];
+}
+
+/** Player score (new or corrected) followed by the updated match status. */
+export function getPlayerScoreEvents(record: RoundRecord, holeNumber: number): RoundEventPayload[] {
+  const score = record.playerScoresByHole[holeNumber - 1];
+  if (score == null) return [];
+  const { par } = getHoleInfoForCourse(record.courseName, holeNumber, record.teeSet);
+  return [
+    { type: 'player_score', data: { holeNumber, par, score } },
+    { type: 'match_status', data: getMatchStatusData(record) },
+  ];
+}
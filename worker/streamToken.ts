@@ -0,0 +1,83 @@
+/**
+ * Read-only stream tokens, so a browser (a spectator tablet) can open one round's live stream without the partner API
+ * key, which can also create rounds and post scores. GET /v1/rounds/:roundId returns one; /stream accepts it as
+ * `?token=`. Stateless: `<payload>.<signature>`, the payload base64url JSON of partner, round and expiry, signed with
+ * HMAC-SHA-256 keyed by the partner's API key (rotating the key revokes its tokens).
+ */
+
+import { getPartnerApiKey, type PartnerEnv } from './auth';
+
+/** Long enough to connect (and reconnect) during a hole or two; fetch a new token after it expires. */
+export const STREAM_TOKEN_TTL_SECONDS = 60 * 60;
+
+interface StreamTokenPayload {
+  partnerId: string;
+  roundId: string;
+  /** Expiry, epoch seconds. */
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function signingKey(apiKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(apiKey), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+    'verify',
+  ]);
+}
+
+/** Token for one round's stream, or null when the partner has no API key configured. */
+export async function createStreamToken(
+  env: PartnerEnv,
+  partnerId: string,
+  roundId: string,
+  nowMs = Date.now()
+): Promise<{ token: string; expiresAt: string } | null> {
+  const apiKey = getPartnerApiKey(env, partnerId);
+  if (!apiKey) return null;
+  const exp = Math.floor(nowMs / 1000) + STREAM_TOKEN_TTL_SECONDS;
+  const payload: StreamTokenPayload = { partnerId, roundId, exp };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(apiKey), encoder.encode(body));
+  return { token: `${body}.${toBase64Url(new Uint8Array(signature))}`, expiresAt: new Date(exp * 1000).toISOString() };
+}
+
+/** Partner id for a valid, unexpired token issued for `roundId`, or null. */
+export async function verifyStreamToken(
+  env: PartnerEnv,
+  token: string | null,
+  roundId: string | undefined,
+  nowMs = Date.now()
+): Promise<string | null> {
+  const [body, signature, ...rest] = (token ?? '').split('.');
+  if (!body || !signature || rest.length > 0 || !roundId) return null;
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as Partial<StreamTokenPayload>;
+    const { partnerId, exp } = payload;
+    if (payload.roundId !== roundId || typeof exp !== 'number' || exp * 1000 <= nowMs) return null;
+    const apiKey = typeof partnerId === 'string' ? getPartnerApiKey(env, partnerId) : null;
+    if (!partnerId || !apiKey) return null;
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await signingKey(apiKey),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    return valid ? partnerId : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Request/response shapes for the partner REST API (/v1). Documented in docs/INTEGRATION_API_PACE_AND_FLEET.md.
+ */
+
+import type { ShotCommentary } from '../src/utils/AIGolfer';
+import type { MatchHoleOutcome } from '../src/types/matchPlay';
+import type { AIProfile, MatchPlayScoring } from '../src/types/gameSettings';
+
+type LatLng = { lat: number; lng: number };
+
+/** Error body for every non-2xx response. */
+export interface ApiErrorBody {
+  error: { code: ApiErrorCode; message: string };
+}
+
+export type ApiErrorCode =
+  | 'unauthorized'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'invalid_request'
+  | 'conflict';
+
+/** Result of a Durable Object call: the Worker turns failures into ApiErrorBody with the given status. */
+export type ApiResult<T> = { ok: true; value: T } | { ok: false; status: number; code: ApiErrorCode; message: string };
+
+export interface CreateRoundRequest {
+  /** Partner-chosen round id (letters, digits, '-' and '_', up to 64); generated when omitted. */
+  roundId?: string;
+  courseId: string;
+  /** Tee set name (e.g. 'White'); course default when omitted. */
+  teeSet?: string;
+  /** Numeric handicap (plus handicaps negative) or a character name such as 'EW 2K'. */
+  aiProfile: AIProfile;
+  /** Player's playing handicap (plus handicaps negative); match status is net when set, gross when omitted. */
+  playerHandicap?: number;
+  /** Round seed; the same seed replays every AI shot. Random when omitted. */
+  seed?: number;
+}
+
+/** Stored state for one round (one Durable Object). */
+export interface RoundRecord {
+  roundId: string;
+  partnerId: string;
+  courseId: string;
+  courseName: string;
+  teeSet?: string;
+  aiProfile: AIProfile;
+  playerHandicap?: number;
+  seed: number;
+  holeCount: number;
+  currentHole: number;
+  playerScoresByHole: (number | null)[];
+  aiScoresByHole: (number | null)[];
+  /** AI shots per played hole, so replays of ai-play return the same result. */
+  aiShotsByHole: (ApiShot[] | null)[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Round as returned by the API (no partner id or stored shots). */
+export interface RoundResponse {
+  roundId: string;
+  courseId: string;
+  teeSet?: string;
+  aiProfile: AIProfile;
+  playerHandicap?: number;
+  seed: number;
+  holeCount: number;
+  currentHole: number;
+  playerScoresByHole: (number | null)[];
+  aiScoresByHole: (number | null)[];
+  playerTotal: number;
+  aiTotal: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** GET /v1/rounds/:roundId: the round plus a read-only token for its live stream (`/stream?token=`). */
+export interface RoundDetailResponse extends RoundResponse {
+  streamToken?: string;
+  streamTokenExpiresAt?: string;
+}
+
+export interface ApiShot {
+  shotNumber: number;
+  fromPosition: LatLng;
+  toPosition: LatLng;
+  /** Where the ball deflected off a tree, when it did. */
+  treeImpactPosition?: LatLng;
+  club: string | null;
+  distanceYards: number;
+  penalty?: 'water' | 'ob';
+  commentary?: ShotCommentary;
+}
+
+export interface AIPlayResponse {
+  roundId: string;
+  holeNumber: number;
+  par: number;
+  shots: ApiShot[];
+  aiScoreForHole: number;
+  round: RoundResponse;
+}
+
+export interface PlayerScoreRequest {
+  score: number;
+}
+
+export interface CourseSummary {
+  courseId: string;
+  name: string;
+  holeCount: number;
+  par: number;
+  teeSets: { name: string; totalYardage: number; courseRating: number; slopeRating: number }[];
+}
+
+export interface CourseResponse extends CourseSummary {
+  holes: { holeNumber: number; par: number; yardage?: number; strokeIndex?: number }[];
+}
+
+export interface CourseHoleResponse {
+  courseId: string;
+  holeNumber: number;
+  par: number;
+  yardage?: number;
+  strokeIndex?: number;
+  tee: LatLng;
+  green: LatLng;
+  /** Fairways, bunkers, water and green circles the AI plays against; null when the course has no mapped features. */
+  features: {
+    fairways: { center: LatLng; radiusMeters: number }[];
+    fairwayPolygons?: LatLng[][];
+    bunkers: { center: LatLng; radiusMeters: number }[];
+    water: { center: LatLng; radiusMeters: number }[];
+    green: { center: LatLng; radiusMeters: number };
+  } | null;
+}
+
+/** Running match between the player and the AI (gross match play, from the player's point of view). */
+export interface MatchStatusData {
+  /** e.g. "2 UP thru 7", "AS thru 3", "1 DOWN (dormie)"; the result ("4&3") once finished. */
+  statusText: string;
+  /** 'net' when the round has a playerHandicap: strokes by stroke index from the handicap difference. */
+  scoring: MatchPlayScoring;
+  /** Player lead in holes (negative = player down). */
+  lead: number;
+  holesPlayed: number;
+  finished: boolean;
+  /** 'user' is the player. Null until the match is finished. */
+  winner: MatchHoleOutcome | null;
+  playerTotal: number;
+  aiTotal: number;
+}
+
+/** Payload per live event type. */
+export interface RoundEventData {
+  round_started: { round: RoundResponse };
+  ai_shot: { holeNumber: number; par: number; shot: ApiShot };
+  ai_hole_complete: { holeNumber: number; par: number; aiScoreForHole: number };
+  player_score: { holeNumber: number; par: number; score: number };
+  match_status: MatchStatusData;
+}
+
+export type RoundEventType = keyof RoundEventData;
+
+/** Live round event as sent on /v1/rounds/:roundId/stream. `seq` increases by 1 per event within a round. */
+export type RoundEvent = {
+  [K in RoundEventType]: { seq: number; type: K; at: string; data: RoundEventData[K] };
+}[RoundEventType];
+
+/** Event before the Durable Object assigns its sequence number and time. */
+export type RoundEventPayload = {
+  [K in RoundEventType]: { type: K; data: RoundEventData[K] };
+}[RoundEventType];
+
+/** Unsequenced messages from the server: `hello` on connect, `pong` for `ping`, `error` for a bad client message. */
+export type StreamControlMessage =
+  | { type: 'hello'; roundId: string; lastSeq: number; round: RoundResponse }
+  | { type: 'pong' }
+  | { type: 'error'; code: ApiErrorCode; message: string };
+
+/** Messages a stream client may send. `resume` replays every event after `since`. */
+export type StreamClientMessage = { type: 'resume'; since: number } | { type: 'ping' };